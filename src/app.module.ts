@@ -14,6 +14,12 @@ import { DatabaseModule } from './modules/database/database.module';
 import { QueueModule } from './modules/queue/queue.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
+import { ExportModule } from './modules/export/export.module';
+import { GraphqlApiModule } from './modules/graphql/graphql-api.module';
+import { RealtimeModule } from './modules/realtime/realtime.module';
+import { AuthModule } from './modules/auth/auth.module';
+import { RateLimitModule } from './modules/rate-limit/rate-limit.module';
+import { AuditModule } from './modules/audit/audit.module';
 
 @Module({
   imports: [
@@ -66,6 +72,12 @@ import { AnalyticsModule } from './modules/analytics/analytics.module';
     QueueModule,
     NotificationsModule,
     AnalyticsModule,
+    ExportModule,
+    GraphqlApiModule,
+    RealtimeModule,
+    AuthModule,
+    RateLimitModule,
+    AuditModule,
   ],
   controllers: [],
   providers: [],
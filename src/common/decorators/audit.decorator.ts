@@ -0,0 +1,19 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/** What an audited action changed, filled in by its handler */
+export interface AuditState {
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * The audit state of the current request. Handlers of audited routes set
+ * `before` and `after` on it to record the state they changed.
+ */
+export const AuditTrail = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuditState => {
+    const request = context.switchToHttp().getRequest();
+    request.auditState ??= {};
+    return request.auditState;
+  }
+);
@@ -0,0 +1,20 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { ApiRole } from '../types';
+
+export const API_ROLES: ApiRole[] = ['reader', 'operator', 'admin'];
+
+export const REQUIRED_ROLE_KEY = 'requiredRole';
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Lowest role an API key needs to call the route. Set on a controller, it
+ * applies to every route not setting its own.
+ */
+export const RequireRole = (role: ApiRole) =>
+  SetMetadata(REQUIRED_ROLE_KEY, role);
+
+/**
+ * Route reachable without an API key
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -0,0 +1,20 @@
+import { SetMetadata } from '@nestjs/common';
+
+import { ApiKeyTier, RateLimitGroup } from '../types';
+
+export const API_KEY_TIERS: ApiKeyTier[] = ['free', 'standard', 'premium'];
+
+export const RATE_LIMIT_GROUPS: RateLimitGroup[] = [
+  'default',
+  'upstream',
+  'export',
+];
+
+export const RATE_LIMIT_GROUP_KEY = 'rateLimitGroup';
+
+/**
+ * Rate limit budget the route draws from. Set on a controller, it applies
+ * to every route not setting its own; routes without one use `default`.
+ */
+export const RateLimit = (group: RateLimitGroup) =>
+  SetMetadata(RATE_LIMIT_GROUP_KEY, group);
@@ -238,4 +238,9 @@ export class AirQualityQueryDto {
   @IsNumber()
   @Min(0)
   skip?: number = 0;
+
+  /** Filter expression, e.g. `aqi:gte:100;main_pollutant:in:p2,o3` */
+  @IsOptional()
+  @IsString()
+  filter?: string;
 }
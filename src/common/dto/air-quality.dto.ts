@@ -12,6 +12,9 @@ import {
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 
+import { CursorPagination } from '../types';
+import { PollutantConcentrationsDto } from './aqi.dto';
+
 export class GetAirQualityDto {
   @IsString()
   city: string;
@@ -45,6 +48,18 @@ export class GetHistoryDto {
   @Max(90)
   @Transform(({ value }) => parseInt(value))
   days?: number = 7;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @Transform(({ value }) => parseInt(value))
+  limit?: number = 100;
+
+  /** `pagination.nextCursor` of the previous page */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
 }
 
 export class GetDailyStatsDto {
@@ -75,17 +90,27 @@ export class CreateAirQualityDto {
   @IsNumber()
   longitude: number;
 
+  // Either the four index fields or `concentrations` must be supplied
+  @IsOptional()
   @IsNumber()
-  aqius: number;
+  aqius?: number;
 
+  @IsOptional()
   @IsString()
-  mainus: string;
+  mainus?: string;
 
+  @IsOptional()
   @IsNumber()
-  aqicn: number;
+  aqicn?: number;
 
+  @IsOptional()
   @IsString()
-  maincn: string;
+  maincn?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PollutantConcentrationsDto)
+  concentrations?: PollutantConcentrationsDto;
 
   @IsNumber()
   temperature: number;
@@ -111,12 +136,33 @@ export class CreateAirQualityDto {
   timestamp: Date;
 }
 
+/**
+ * Which path produced the payload of a response; `fixture` is canned
+ * development data, served only when nothing is stored
+ */
+export type ResponseSource = 'live' | 'cache' | 'fallback' | 'fixture';
+
 export class ApiResponseMetadata {
   cached: boolean;
   dataFreshness: number;
   responseTime: Date;
   version: string;
   cacheTtl?: number;
+  source?: ResponseSource;
+}
+
+/** EPA NowCast over the trailing 12 hours of readings */
+export class NowCastDto {
+  /** Start of the most recent hour in the window */
+  timestamp: Date;
+  aqi: number;
+  main_pollutant: string;
+  pollution_level: string;
+  /** NowCast concentrations in µg/m³ */
+  concentrations: {
+    pm25?: number;
+    pm10?: number;
+  };
 }
 
 export class AirQualityResponseDto {
@@ -176,6 +222,8 @@ export class AirQualityResponseDto {
     latitude: number;
     longitude: number;
   };
+
+  nowcast?: NowCastDto | null;
 }
 
 export class StandardizedApiResponse<T> {
@@ -185,6 +233,7 @@ export class StandardizedApiResponse<T> {
   @Type(() => ApiResponseMetadata)
   metadata: ApiResponseMetadata;
   message?: string;
+  pagination?: CursorPagination;
 }
 
 export class DailyStatsResponseDto {
@@ -4,6 +4,8 @@ import {
   IsNumber,
   IsEnum,
   IsDateString,
+  IsIn,
+  IsInt,
   Min,
   Max,
   ValidateNested,
@@ -368,3 +370,38 @@ export class AnalyticsMetricsDto {
   @ApiProperty({ description: 'Last aggregation timestamp' })
   lastAggregation: Date;
 }
+
+export class ForecastQueryDto {
+  @ApiPropertyOptional({
+    description: 'Hours to forecast, starting with the current one',
+    minimum: 1,
+    maximum: 72,
+    default: 24,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(72)
+  hours?: number = 24;
+
+  @ApiPropertyOptional({
+    description: 'Prediction interval coverage, in percent',
+    enum: [80, 90, 95],
+    default: 95,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn([80, 90, 95])
+  confidence?: number = 95;
+}
+
+export class ForecastAccuracyQueryDto {
+  @ApiPropertyOptional({ minimum: 1, maximum: 90, default: 30 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  days?: number = 30;
+}
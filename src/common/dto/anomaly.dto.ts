@@ -0,0 +1,69 @@
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { AnomalyStatus } from '../types';
+
+export const ANOMALY_STATUSES: AnomalyStatus[] = [
+  'pending',
+  'confirmed',
+  'dismissed',
+];
+
+export const ANOMALY_DECISIONS = ['confirm', 'dismiss'] as const;
+
+export type AnomalyDecision = (typeof ANOMALY_DECISIONS)[number];
+
+export class AnomalyQueryDto {
+  @ApiPropertyOptional({ enum: ANOMALY_STATUSES, default: 'pending' })
+  @IsOptional()
+  @IsIn(ANOMALY_STATUSES)
+  status?: AnomalyStatus = 'pending';
+
+  @ApiPropertyOptional({
+    description: 'Location label',
+    example: 'Paris, Ile-de-France, France',
+  })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiPropertyOptional({ default: 50, minimum: 1, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({
+    description: '`pagination.nextCursor` of the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class ReviewAnomalyDto {
+  @ApiProperty({
+    enum: ANOMALY_DECISIONS,
+    description:
+      '`confirm` keeps the reading flagged; `dismiss` marks it as a real reading',
+  })
+  @IsIn(ANOMALY_DECISIONS)
+  decision: AnomalyDecision;
+
+  @ApiPropertyOptional({ maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,59 @@
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { API_ROLES } from '../decorators/auth.decorator';
+import { API_KEY_TIERS } from '../decorators/rate-limit.decorator';
+import { ApiKeyTier, ApiRole } from '../types';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'Public dashboard' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description:
+      'reader: read the API; operator: also run jobs and manage data sources; admin: everything',
+    enum: API_ROLES,
+  })
+  @IsIn(API_ROLES)
+  role: ApiRole;
+
+  @ApiPropertyOptional({
+    description: 'Rate limit tier',
+    enum: API_KEY_TIERS,
+    default: 'standard',
+  })
+  @IsOptional()
+  @IsIn(API_KEY_TIERS)
+  tier?: ApiKeyTier;
+
+  @ApiPropertyOptional({ description: 'When the key stops working' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+}
+
+export class RotateApiKeyDto {
+  @ApiPropertyOptional({
+    description: 'Minutes the old key keeps working, to roll out the new one',
+    default: 0,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10080)
+  graceMinutes?: number = 0;
+}
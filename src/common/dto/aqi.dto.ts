@@ -0,0 +1,68 @@
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const AQI_STANDARD_NAMES = ['us-epa', 'china-mep', 'eu-caqi'] as const;
+
+/** Concentrations in µg/m³ (CO in mg/m³), averaged over the pollutant's period */
+export class PollutantConcentrationsDto {
+  @ApiPropertyOptional({ description: 'PM2.5, 24-hour average, µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  pm25?: number;
+
+  @ApiPropertyOptional({ description: 'PM10, 24-hour average, µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  pm10?: number;
+
+  @ApiPropertyOptional({ description: 'Ozone, 8-hour average, µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  o3_8h?: number;
+
+  @ApiPropertyOptional({ description: 'Ozone, 1-hour average, µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  o3_1h?: number;
+
+  @ApiPropertyOptional({ description: 'NO2, 1-hour average, µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  no2?: number;
+
+  @ApiPropertyOptional({ description: 'SO2, 1-hour average, µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  so2?: number;
+
+  @ApiPropertyOptional({ description: 'CO, 8-hour average, mg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  co?: number;
+}
+
+export class CalculateAqiDto {
+  @ApiPropertyOptional({ enum: AQI_STANDARD_NAMES, default: 'us-epa' })
+  @IsOptional()
+  @IsIn(AQI_STANDARD_NAMES)
+  standard?: (typeof AQI_STANDARD_NAMES)[number];
+
+  @ApiProperty({ type: PollutantConcentrationsDto })
+  @ValidateNested()
+  @Type(() => PollutantConcentrationsDto)
+  concentrations: PollutantConcentrationsDto;
+}
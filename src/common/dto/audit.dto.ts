@@ -0,0 +1,86 @@
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+import { AuditOutcome } from '../types';
+
+export const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'failure'];
+
+export const AUDIT_EXPORT_FORMATS = ['ndjson', 'csv'] as const;
+
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+export class AuditFilterDto {
+  @ApiPropertyOptional({
+    description: 'Action, as `<controller>.<handler>`',
+    example: 'queue.pauseQueue',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  action?: string;
+
+  @ApiPropertyOptional({ description: 'ID of the API key that acted' })
+  @IsOptional()
+  @IsString()
+  actor?: string;
+
+  @ApiPropertyOptional({ enum: AUDIT_OUTCOMES })
+  @IsOptional()
+  @IsIn(AUDIT_OUTCOMES)
+  outcome?: AuditOutcome;
+
+  @ApiPropertyOptional({
+    description: 'Start of the request path',
+    example: '/api/v1/queue',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  path?: string;
+
+  @ApiPropertyOptional({ description: 'Earliest entry (inclusive)' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiPropertyOptional({ description: 'Latest entry (inclusive)' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+}
+
+export class AuditQueryDto extends AuditFilterDto {
+  @ApiPropertyOptional({ default: 50, minimum: 1, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({
+    description: '`pagination.nextCursor` of the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class AuditExportDto extends AuditFilterDto {
+  @ApiPropertyOptional({ enum: AUDIT_EXPORT_FORMATS, default: 'ndjson' })
+  @IsOptional()
+  @IsIn(AUDIT_EXPORT_FORMATS)
+  format?: AuditExportFormat = 'ndjson';
+}
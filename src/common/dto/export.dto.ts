@@ -0,0 +1,106 @@
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+export type ExportDataset = 'readings' | 'daily' | 'all';
+
+/**
+ * Same filters as `AirQualityQueryDto`, parsed from query strings
+ */
+export class ExportAirQualityDto {
+  @ApiPropertyOptional({
+    enum: ['csv', 'ndjson', 'xlsx'],
+    default: 'csv',
+  })
+  @IsOptional()
+  @IsEnum(['csv', 'ndjson', 'xlsx'])
+  format?: ExportFormat = 'csv';
+
+  @ApiPropertyOptional({
+    description:
+      'Raw readings, the stored daily aggregations, or both (default)',
+    enum: ['readings', 'daily', 'all'],
+    default: 'all',
+  })
+  @IsOptional()
+  @IsEnum(['readings', 'daily', 'all'])
+  include?: ExportDataset = 'all';
+
+  @ApiPropertyOptional({
+    description:
+      'Run as a background job even when the range is small enough to stream',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  async?: boolean = false;
+
+  @ApiPropertyOptional({ example: 'Paris, Ile-de-France, France' })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Defaults to 7 days before endDate' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @ApiPropertyOptional({ description: 'Defaults to now' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(500)
+  minAqi?: number;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(500)
+  maxAqi?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsEnum(['p1', 'p2', 'p3', 'p4', 'p5', 'n2', 's4', 'co', 'o3', 'no2', 'so2'])
+  pollutant?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsEnum([
+    'Good',
+    'Moderate',
+    'Unhealthy for Sensitive Groups',
+    'Unhealthy',
+    'Very Unhealthy',
+    'Hazardous',
+  ])
+  pollution_level?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Filter expression over the readings, e.g. aqi:gte:100;main_pollutant:in:p2,o3',
+  })
+  @IsOptional()
+  @IsString()
+  filter?: string;
+}
@@ -60,6 +60,32 @@ export class EmailDeliveryDto {
   retryAfter?: Date;
 }
 
+export class ChannelDeliveryDto {
+  @ApiProperty({
+    description: 'Notification channel',
+    enum: ['email', 'webhook', 'slack', 'sms', 'push', 'subscribers'],
+  })
+  channel: string;
+
+  @ApiProperty({
+    description: 'Delivery outcome',
+    enum: ['sent', 'queued', 'skipped', 'failed'],
+  })
+  status: 'sent' | 'queued' | 'skipped' | 'failed';
+
+  @ApiPropertyOptional({ description: 'Channel-specific delivery ID' })
+  deliveryId?: string;
+
+  @ApiPropertyOptional({ description: 'Why the channel was skipped, etc.' })
+  detail?: string;
+
+  @ApiPropertyOptional({ description: 'Error message if delivery failed' })
+  error?: string;
+
+  @ApiProperty({ description: 'When the channel reported' })
+  timestamp: Date;
+}
+
 export class AlertHistoryDto {
   @ApiProperty({ description: 'Unique alert ID' })
   id: string;
@@ -102,6 +128,12 @@ export class AlertHistoryDto {
 
   @ApiPropertyOptional({ description: 'Email delivery ID' })
   emailDeliveryId?: string;
+
+  @ApiProperty({
+    description: 'Delivery outcome per channel',
+    type: [ChannelDeliveryDto],
+  })
+  deliveries: ChannelDeliveryDto[];
 }
 
 export class AlertThresholdDto {
@@ -0,0 +1,76 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const REALTIME_EVENT_TYPES = ['reading', 'alert'] as const;
+export type RealtimeEventType = (typeof REALTIME_EVENT_TYPES)[number];
+
+const MAX_LOCATIONS = 50;
+
+/** Accept `a;b` query strings as well as arrays */
+const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string'
+    ? value
+        .split(';')
+        .map(item => item.trim())
+        .filter(item => item !== '')
+    : value;
+
+/**
+ * Payload of the WebSocket `subscribe` message
+ */
+export class RealtimeSubscribeDto {
+  @ApiProperty({
+    description: 'Location labels to follow, or "*" for every location',
+    example: ['Paris, Ile-de-France, France'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_LOCATIONS)
+  @IsString({ each: true })
+  locations: string[];
+
+  @ApiPropertyOptional({
+    description: 'Event types to receive (default: all)',
+    enum: REALTIME_EVENT_TYPES,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(REALTIME_EVENT_TYPES, { each: true })
+  events?: RealtimeEventType[];
+}
+
+/**
+ * Query of the SSE stream. Location labels contain commas, so lists are
+ * separated by `;`.
+ */
+export class RealtimeStreamQueryDto {
+  @ApiProperty({
+    description: 'Semicolon-separated location labels, or "*"',
+    example: 'Paris, Ile-de-France, France;Lyon, Auvergne-Rhone-Alpes, France',
+  })
+  @Transform(toList)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_LOCATIONS)
+  @IsString({ each: true })
+  locations: string[];
+
+  @ApiPropertyOptional({
+    description: 'Semicolon-separated event types (default: all)',
+    example: 'reading;alert',
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsIn(REALTIME_EVENT_TYPES, { each: true })
+  events?: RealtimeEventType[];
+}
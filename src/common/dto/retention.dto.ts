@@ -0,0 +1,43 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateRetentionPolicyDto {
+  @ApiPropertyOptional({
+    description:
+      'Location label ("City, State, Country"); omit to update the default policy',
+    example: 'Paris, Ile-de-France, France',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  location?: string;
+
+  @ApiProperty({
+    description: 'Age in days after which records move from hot to warm',
+    minimum: 1,
+    example: 30,
+  })
+  @IsInt()
+  @Min(1)
+  hotDays: number;
+
+  @ApiProperty({
+    description: 'Age in days after which records move from warm to cold',
+    minimum: 1,
+    example: 365,
+  })
+  @IsInt()
+  @Min(1)
+  warmDays: number;
+
+  @ApiPropertyOptional({
+    description: 'Age in days after which records are deleted; null keeps them',
+    minimum: 1,
+    nullable: true,
+    example: 3650,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  purgeAfterDays?: number | null;
+}
@@ -0,0 +1,186 @@
+import {
+  IsString,
+  IsNumber,
+  IsBoolean,
+  IsOptional,
+  IsNotEmpty,
+  IsDate,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { CoordinatesDto } from './air-quality-record.dto';
+
+export class CreateSensorDeviceDto {
+  @ApiProperty({ description: 'Unique device identifier', example: 'pm-01' })
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  @ApiPropertyOptional({ description: 'Human readable name' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'City the sensor is installed in' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiProperty({ description: 'State or region name' })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @ApiProperty({ description: 'Country name' })
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @ApiProperty({ description: 'Sensor coordinates', type: CoordinatesDto })
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  coordinates: CoordinatesDto;
+}
+
+export class UpdateSensorDeviceDto {
+  @ApiPropertyOptional({ description: 'Human readable name' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Sensor coordinates' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  coordinates?: CoordinatesDto;
+
+  @ApiPropertyOptional({ description: 'Whether readings are accepted' })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class SensorReadingDto {
+  @ApiProperty({ description: 'Device identifier', example: 'pm-01' })
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  @ApiProperty({ description: 'Per-device key issued at registration' })
+  @IsString()
+  @IsNotEmpty()
+  deviceKey: string;
+
+  @ApiProperty({ description: 'Measurement time (ISO 8601)' })
+  @Type(() => Date)
+  @IsDate()
+  timestamp: Date;
+
+  @ApiPropertyOptional({ description: 'PM2.5 concentration in µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  pm25?: number;
+
+  @ApiPropertyOptional({ description: 'PM10 concentration in µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2000)
+  pm10?: number;
+
+  @ApiPropertyOptional({ description: 'Ozone 8-hour average in µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2000)
+  o3_8h?: number;
+
+  @ApiPropertyOptional({ description: 'Ozone 1-hour average in µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2000)
+  o3_1h?: number;
+
+  @ApiPropertyOptional({ description: 'NO2 in µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(4000)
+  no2?: number;
+
+  @ApiPropertyOptional({ description: 'SO2 in µg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(3000)
+  so2?: number;
+
+  @ApiPropertyOptional({ description: 'CO in mg/m³' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  co?: number;
+
+  @ApiPropertyOptional({ description: 'Temperature in °C' })
+  @IsOptional()
+  @IsNumber()
+  @Min(-50)
+  @Max(60)
+  temperature?: number;
+
+  @ApiPropertyOptional({ description: 'Relative humidity in %' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  humidity?: number;
+}
+
+export class IngestSensorReadingsDto {
+  @ApiProperty({ type: [SensorReadingDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => SensorReadingDto)
+  readings: SensorReadingDto[];
+}
+
+export type SensorReadingErrorCode =
+  | 'INVALID_DEVICE'
+  | 'NO_CONCENTRATIONS'
+  | 'FUTURE_TIMESTAMP'
+  | 'DUPLICATE'
+  | 'OUT_OF_ORDER'
+  | 'STORAGE_ERROR';
+
+export class SensorReadingResultDto {
+  index: number;
+  deviceId: string;
+  timestamp: Date;
+  status: 'accepted' | 'rejected';
+  recordId?: string;
+  aqi?: number;
+  error?: {
+    code: SensorReadingErrorCode;
+    message: string;
+  };
+}
+
+export class SensorIngestionResponseDto {
+  received: number;
+  accepted: number;
+  rejected: number;
+  results: SensorReadingResultDto[];
+}
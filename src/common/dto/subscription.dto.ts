@@ -0,0 +1,70 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { AlertFrequency, AlertLevel } from '../types';
+
+export const ALERT_LEVELS: AlertLevel[] = [
+  'all',
+  'moderate',
+  'unhealthy',
+  'very_unhealthy',
+  'hazardous',
+];
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = [
+  'immediate',
+  'hourly',
+  'daily',
+];
+
+export class CreateSubscriptionDto {
+  @ApiProperty({ example: 'jane@example.com' })
+  @IsEmail()
+  @MaxLength(254)
+  email: string;
+
+  @ApiProperty({
+    description: 'Location labels to follow, or "*" for every location',
+    example: ['Paris, Ile-de-France, France'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(200, { each: true })
+  locations: string[];
+
+  @ApiPropertyOptional({
+    description: 'Lowest AQI category to be alerted about',
+    enum: ALERT_LEVELS,
+    default: 'unhealthy',
+  })
+  @IsOptional()
+  @IsIn(ALERT_LEVELS)
+  level?: AlertLevel = 'unhealthy';
+
+  @ApiPropertyOptional({
+    description: 'Send each alert at once, or batch them into a digest',
+    enum: ALERT_FREQUENCIES,
+    default: 'immediate',
+  })
+  @IsOptional()
+  @IsIn(ALERT_FREQUENCIES)
+  frequency?: AlertFrequency = 'immediate';
+}
+
+export class SubscriptionTokenDto {
+  @ApiProperty({ description: 'Token from the email link' })
+  @IsString()
+  @MaxLength(128)
+  token: string;
+}
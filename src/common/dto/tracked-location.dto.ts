@@ -0,0 +1,117 @@
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { CoordinatesDto } from './air-quality-record.dto';
+import { AirQualityProviderName } from '../types';
+
+const PROVIDER_NAMES: AirQualityProviderName[] = ['iqair', 'openaq', 'fixture'];
+
+export class CreateTrackedLocationDto {
+  @ApiProperty({ description: 'City name as known by the data provider' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiProperty({ description: 'State or region name' })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @ApiProperty({ description: 'Country name' })
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @ApiProperty({ description: 'Location coordinates', type: CoordinatesDto })
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  coordinates: CoordinatesDto;
+
+  @ApiPropertyOptional({
+    description: 'Minutes between two data fetches',
+    minimum: 1,
+    maximum: 1440,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  fetchIntervalMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the scheduler fetches this location',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Preferred data provider; omit to use the configured failover order',
+    enum: PROVIDER_NAMES,
+  })
+  @IsOptional()
+  @IsIn(PROVIDER_NAMES)
+  provider?: AirQualityProviderName;
+}
+
+export class UpdateTrackedLocationDto {
+  @ApiPropertyOptional({ description: 'Location coordinates' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  coordinates?: CoordinatesDto;
+
+  @ApiPropertyOptional({
+    description: 'Minutes between two data fetches',
+    minimum: 1,
+    maximum: 1440,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  fetchIntervalMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the scheduler fetches this location',
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Preferred data provider; omit to use the configured failover order',
+    enum: PROVIDER_NAMES,
+  })
+  @IsOptional()
+  @IsIn(PROVIDER_NAMES)
+  provider?: AirQualityProviderName;
+}
+
+export class TrackedLocationQueryDto {
+  @ApiPropertyOptional({ description: 'Only return enabled/disabled entries' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({ description: 'Country filter' })
+  @IsOptional()
+  @IsString()
+  country?: string;
+}
@@ -0,0 +1,25 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UsageQueryDto {
+  @ApiPropertyOptional({
+    description: 'Days to report, ending today (UTC)',
+    default: 7,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  days?: number = 7;
+
+  @ApiPropertyOptional({
+    description:
+      'Client to report, as `key:<API key id>` or `ip:<address>`. Admin only; other keys only see their own usage.',
+    example: 'ip:203.0.113.7',
+  })
+  @IsOptional()
+  @IsString()
+  client?: string;
+}
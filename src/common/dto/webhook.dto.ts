@@ -0,0 +1,134 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { AlertType } from './notifications.dto';
+
+/**
+ * Events a webhook can subscribe to: one per alert type, plus `*` for all
+ */
+export const WEBHOOK_EVENTS = [
+  '*',
+  ...Object.values(AlertType).map(type => `alert.${type}`),
+];
+
+export type WebhookDeliveryStatus =
+  | 'pending'
+  | 'retrying'
+  | 'delivered'
+  | 'dead';
+
+export class CreateWebhookDto {
+  @ApiProperty({ example: 'Incident tooling' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'https://incidents.example.com/hooks/aqi' })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Signing secret; generated when omitted. Only returned on creation.',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(256)
+  secret?: string;
+
+  @ApiPropertyOptional({
+    description: 'Events to deliver',
+    enum: WEBHOOK_EVENTS,
+    isArray: true,
+    default: ['*'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(WEBHOOK_EVENTS.length)
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Lowest alert severity to deliver',
+    enum: ['low', 'medium', 'high', 'critical'],
+    default: 'low',
+  })
+  @IsOptional()
+  @IsIn(['low', 'medium', 'high', 'critical'])
+  minSeverity?: 'low' | 'medium' | 'high' | 'critical';
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateWebhookDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url?: string;
+
+  @ApiPropertyOptional({ enum: WEBHOOK_EVENTS, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(WEBHOOK_EVENTS.length)
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: string[];
+
+  @ApiPropertyOptional({ enum: ['low', 'medium', 'high', 'critical'] })
+  @IsOptional()
+  @IsIn(['low', 'medium', 'high', 'critical'])
+  minSeverity?: 'low' | 'medium' | 'high' | 'critical';
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class WebhookDeliveryQueryDto {
+  @ApiPropertyOptional({
+    enum: ['pending', 'retrying', 'delivered', 'dead'],
+  })
+  @IsOptional()
+  @IsIn(['pending', 'retrying', 'delivered', 'dead'])
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({ example: 'alert.pollution' })
+  @IsOptional()
+  @IsString()
+  event?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 500, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number = 50;
+}
@@ -0,0 +1,81 @@
+import { BadRequestException } from '@nestjs/common';
+
+import {
+  compareBySort,
+  compileFilters,
+  FilterFields,
+  matchesFilters,
+  parseFilters,
+  parseSort,
+} from './filter-query';
+
+describe('filter-query', () => {
+  const fields: FilterFields = {
+    aqi: { type: 'number' },
+    timestamp: { type: 'date' },
+    location: { type: 'string' },
+    main_pollutant: { type: 'string', values: ['p2', 'o3'] },
+    acknowledged: { type: 'boolean' },
+  };
+
+  it('should compile a text expression into explicit Mongo operators', () => {
+    const filters = parseFilters(
+      'aqi:gte:100;main_pollutant:in:p2,o3;timestamp:lt:2024-08-01T00:00:00Z;location:regex:^Paris',
+      fields
+    );
+
+    expect(compileFilters(filters)).toEqual({
+      $and: [
+        { aqi: { $gte: 100 } },
+        { main_pollutant: { $in: ['p2', 'o3'] } },
+        { timestamp: { $lt: new Date('2024-08-01T00:00:00Z') } },
+        { location: { $regex: '^Paris' } },
+      ],
+    });
+    expect(
+      parseFilters('[{"field":"aqi","operator":"lt","value":"50"}]', fields)
+    ).toEqual([{ field: 'aqi', operator: 'lt', value: 50 }]);
+  });
+
+  it.each([
+    ['$where:eq:1', 'unknown field'],
+    ['aqi:$gt:1', 'unknown operator'],
+    ['[{"field":"aqi","operator":"eq","value":{"$gt":0}}]', 'object value'],
+    ['[{"field":"aqi","operator":"in","value":[{"$ne":1}]}]', 'object in list'],
+    ['aqi:eq:abc', 'non-numeric value'],
+    ['main_pollutant:eq:pm10', 'value outside enum'],
+    ['aqi:regex:1', 'regex on number'],
+    ['location:regex:(a+)+$', 'nested quantifiers'],
+    ['location:regex:((a+))*', 'quantifier in a nested group'],
+    ['location:regex:(a|a)*b', 'repeated alternation'],
+  ])('should reject %s (%s)', expression => {
+    expect(() => parseFilters(expression, fields)).toThrow(BadRequestException);
+  });
+
+  it('should allow alternations and quantifiers outside repeated groups', () => {
+    for (const pattern of ['^(Paris|Lyon)', 'Paris|Lyon', '(ab)+', '[(|]+']) {
+      expect(parseFilters(`location:regex:${pattern}`, fields)).toEqual([
+        { field: 'location', operator: 'regex', value: pattern },
+      ]);
+    }
+  });
+
+  it('should filter and sort records in memory like Mongo would', () => {
+    const records = [
+      { aqi: 40, acknowledged: true, timestamp: new Date('2024-08-01') },
+      { aqi: 160, acknowledged: false, timestamp: new Date('2024-08-02') },
+      { aqi: 120, acknowledged: false, timestamp: new Date('2024-08-03') },
+    ];
+    const filters = parseFilters(
+      'acknowledged:eq:false;timestamp:gte:2024-08-02',
+      fields
+    );
+
+    const result = records
+      .filter(record => matchesFilters(record, filters))
+      .sort(compareBySort(parseSort('-aqi', fields)));
+
+    expect(result.map(record => record.aqi)).toEqual([160, 120]);
+    expect(() => parseSort('password', fields)).toThrow(BadRequestException);
+  });
+});
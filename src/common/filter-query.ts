@@ -0,0 +1,379 @@
+import { BadRequestException } from '@nestjs/common';
+
+import { FilterOperator, FilterOptions, SortOrder } from './types';
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'nin',
+  'regex',
+];
+
+export type FilterFieldType = 'string' | 'number' | 'date' | 'boolean';
+
+export interface FilterFieldSpec {
+  type: FilterFieldType;
+  /** Allowed values for enum-like string fields */
+  values?: readonly string[];
+}
+
+/**
+ * Fields a client may filter or sort on, keyed by their document path.
+ * Anything not listed is rejected.
+ */
+export type FilterFields = Record<string, FilterFieldSpec>;
+
+export interface SortOptions {
+  field: string;
+  order: SortOrder;
+}
+
+/** A field value as filters and sorts compare it */
+type Comparable = string | number | boolean | null | undefined;
+
+const MAX_FILTERS = 20;
+const MAX_LIST_VALUES = 50;
+const MAX_STRING_LENGTH = 200;
+const MAX_REGEX_LENGTH = 100;
+
+const RANGE_OPERATORS: FilterOperator[] = ['gt', 'gte', 'lt', 'lte'];
+
+/**
+ * Parse a filter expression into validated filters. Two forms are accepted:
+ *
+ *   aqi:gte:100;main_pollutant:in:p2,o3;location:regex:^Paris
+ *   [{"field":"aqi","operator":"gte","value":100}]
+ *
+ * Fields must be whitelisted, values are coerced to the field's type, and
+ * objects are never accepted as values, so `$`-operators cannot be smuggled
+ * into the compiled query.
+ */
+export function parseFilters(
+  expression: string | undefined,
+  fields: FilterFields
+): FilterOptions[] {
+  if (!expression || expression.trim() === '') {
+    return [];
+  }
+
+  const raw = expression.trim().startsWith('[')
+    ? parseJsonFilters(expression)
+    : parseTextFilters(expression);
+
+  if (raw.length > MAX_FILTERS) {
+    throw new BadRequestException(
+      `At most ${MAX_FILTERS} filter conditions are allowed`
+    );
+  }
+
+  return raw.map(filter => validateFilter(filter, fields));
+}
+
+/**
+ * Parse a sort expression such as `-aqi,timestamp`; a leading `-` sorts
+ * descending
+ */
+export function parseSort(
+  expression: string | undefined,
+  fields: FilterFields
+): SortOptions[] {
+  if (!expression || expression.trim() === '') {
+    return [];
+  }
+
+  return expression.split(',').map(part => {
+    const term = part.trim();
+    const order: SortOrder = term.startsWith('-') ? 'desc' : 'asc';
+    const field = term.replace(/^[-+]/, '');
+
+    if (!Object.prototype.hasOwnProperty.call(fields, field)) {
+      throw new BadRequestException(`Cannot sort on field "${field}"`);
+    }
+    return { field, order };
+  });
+}
+
+/**
+ * Compile validated filters into a MongoDB query. Every condition uses an
+ * explicit operator, so values are always matched literally.
+ */
+export function compileFilters(filters: FilterOptions[]): Record<string, any> {
+  if (filters.length === 0) {
+    return {};
+  }
+
+  return {
+    $and: filters.map(({ field, operator, value }) => ({
+      [field]:
+        operator === 'regex' ? { $regex: value } : { [`$${operator}`]: value },
+    })),
+  };
+}
+
+/**
+ * Evaluate validated filters against an in-memory record, with the same
+ * semantics as the compiled MongoDB query
+ */
+export function matchesFilters(
+  record: Record<string, any>,
+  filters: FilterOptions[]
+): boolean {
+  return filters.every(({ field, operator, value }) => {
+    const actual = normalize(getPath(record, field));
+
+    switch (operator) {
+      case 'eq':
+        return actual === normalize(value);
+      case 'ne':
+        return actual !== normalize(value);
+      case 'gt':
+        return actual != null && actual > normalize(value);
+      case 'gte':
+        return actual != null && actual >= normalize(value);
+      case 'lt':
+        return actual != null && actual < normalize(value);
+      case 'lte':
+        return actual != null && actual <= normalize(value);
+      case 'in':
+        return value.map(normalize).includes(actual);
+      case 'nin':
+        return !value.map(normalize).includes(actual);
+      case 'regex':
+        return typeof actual === 'string' && new RegExp(value).test(actual);
+    }
+  });
+}
+
+/**
+ * Comparator for in-memory sorting by parsed sort options
+ */
+export function compareBySort<T extends Record<string, any>>(
+  sort: SortOptions[]
+): (a: T, b: T) => number {
+  return (a, b) => {
+    for (const { field, order } of sort) {
+      const x = normalize(getPath(a, field));
+      const y = normalize(getPath(b, field));
+      if (x !== y) {
+        const result = x == null ? -1 : y == null ? 1 : x < y ? -1 : 1;
+        return order === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  };
+}
+
+function parseTextFilters(expression: string): FilterOptions[] {
+  return expression
+    .split(';')
+    .filter(condition => condition.trim() !== '')
+    .map(condition => {
+      const [field, operator, ...rest] = condition.split(':');
+      if (rest.length === 0) {
+        throw new BadRequestException(
+          `Invalid filter "${condition}"; expected field:operator:value`
+        );
+      }
+      // Values may themselves contain colons, e.g. ISO timestamps
+      const value = rest.join(':');
+      return {
+        field: field.trim(),
+        operator: operator.trim() as FilterOperator,
+        value: ['in', 'nin'].includes(operator.trim())
+          ? value.split(',')
+          : value,
+      };
+    });
+}
+
+function parseJsonFilters(expression: string): FilterOptions[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(expression);
+  } catch {
+    throw new BadRequestException('Filter is not valid JSON');
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    !parsed.every(item => item && typeof item === 'object')
+  ) {
+    throw new BadRequestException(
+      'JSON filter must be an array of {field, operator, value}'
+    );
+  }
+  return parsed as FilterOptions[];
+}
+
+function validateFilter(
+  filter: FilterOptions,
+  fields: FilterFields
+): FilterOptions {
+  const { field, operator } = filter;
+
+  if (
+    typeof field !== 'string' ||
+    !Object.prototype.hasOwnProperty.call(fields, field)
+  ) {
+    throw new BadRequestException(`Cannot filter on field "${field}"`);
+  }
+  if (!FILTER_OPERATORS.includes(operator)) {
+    throw new BadRequestException(`Unknown filter operator "${operator}"`);
+  }
+
+  const spec = fields[field];
+  if (operator === 'regex' && spec.type !== 'string') {
+    throw new BadRequestException(`Field "${field}" does not support regex`);
+  }
+  if (RANGE_OPERATORS.includes(operator) && spec.type === 'boolean') {
+    throw new BadRequestException(
+      `Field "${field}" does not support "${operator}"`
+    );
+  }
+
+  if (operator === 'in' || operator === 'nin') {
+    if (!Array.isArray(filter.value) || filter.value.length === 0) {
+      throw new BadRequestException(
+        `"${operator}" on "${field}" needs a list of values`
+      );
+    }
+    if (filter.value.length > MAX_LIST_VALUES) {
+      throw new BadRequestException(
+        `"${operator}" accepts at most ${MAX_LIST_VALUES} values`
+      );
+    }
+    return {
+      field,
+      operator,
+      value: filter.value.map(value => coerceValue(value, field, spec)),
+    };
+  }
+
+  if (operator === 'regex') {
+    return { field, operator, value: validateRegex(filter.value, field) };
+  }
+
+  return { field, operator, value: coerceValue(filter.value, field, spec) };
+}
+
+/**
+ * Coerce a scalar to the field's type. Objects and arrays are rejected here,
+ * which is what keeps operator objects out of the query.
+ */
+function coerceValue(
+  value: unknown,
+  field: string,
+  spec: FilterFieldSpec
+): string | number | boolean | Date {
+  if (!['string', 'number', 'boolean'].includes(typeof value)) {
+    throw new BadRequestException(`Invalid value for "${field}"`);
+  }
+  const text = String(value).trim();
+
+  switch (spec.type) {
+    case 'number': {
+      const number = Number(text);
+      if (text === '' || !Number.isFinite(number)) {
+        throw new BadRequestException(`"${field}" must be a number`);
+      }
+      return number;
+    }
+    case 'date': {
+      const date = new Date(text);
+      if (text === '' || isNaN(date.getTime())) {
+        throw new BadRequestException(`"${field}" must be a date`);
+      }
+      return date;
+    }
+    case 'boolean':
+      if (text !== 'true' && text !== 'false') {
+        throw new BadRequestException(`"${field}" must be true or false`);
+      }
+      return text === 'true';
+    default:
+      if (text.length > MAX_STRING_LENGTH) {
+        throw new BadRequestException(`Value for "${field}" is too long`);
+      }
+      if (spec.values && !spec.values.includes(text)) {
+        throw new BadRequestException(
+          `"${field}" must be one of: ${spec.values.join(', ')}`
+        );
+      }
+      return text;
+  }
+}
+
+/**
+ * Patterns are length-capped and may not repeat a group holding a
+ * quantifier or an alternation, like `(a+)+` or `(a|a)*`: the usual causes
+ * of catastrophic backtracking
+ */
+function validateRegex(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.length > MAX_REGEX_LENGTH) {
+    throw new BadRequestException(
+      `Regex for "${field}" must be a string of at most ${MAX_REGEX_LENGTH} characters`
+    );
+  }
+  if (repeatsAmbiguousGroup(value)) {
+    throw new BadRequestException(
+      `Regex for "${field}" may not repeat a group holding a quantifier or an alternation`
+    );
+  }
+  try {
+    new RegExp(value);
+  } catch {
+    throw new BadRequestException(`Invalid regex for "${field}"`);
+  }
+  return value;
+}
+
+function repeatsAmbiguousGroup(pattern: string): boolean {
+  // Per open group: whether it holds a quantifier or alternation so far
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const ambiguous = groups.pop() ?? false;
+      if (ambiguous && /[*+{]/.test(pattern[i + 1] ?? '')) {
+        return true;
+      }
+      if (ambiguous && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ('*+{|'.includes(char) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+function getPath(record: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value == null ? undefined : (value as Record<string, unknown>)[key],
+      record
+    );
+}
+
+/** Dates compare by time, like MongoDB does */
+function normalize(value: unknown): Comparable {
+  return value instanceof Date ? value.getTime() : (value as Comparable);
+}
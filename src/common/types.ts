@@ -59,11 +59,53 @@ export type AirQualityStatus =
   | 'very_poor'
   | 'hazardous';
 
-export type DataSource = 'iqair' | 'manual' | 'sensor' | 'aggregated';
+export type DataSource =
+  | 'iqair'
+  | 'openaq'
+  | 'fixture'
+  | 'manual'
+  | 'sensor'
+  | 'aggregated';
+
+export type AirQualityProviderName = 'iqair' | 'openaq' | 'fixture';
+
+/** Resolution of stored readings: raw in hot, hourly in warm, daily in cold */
+export type Granularity = 'raw' | 'hourly' | 'daily';
+
+export interface AqiStats {
+  min: number;
+  max: number;
+  avg: number;
+  p95: number;
+  count: number;
+}
 
 export type CacheStrategy = 'memory' | 'redis' | 'database';
 
-export type NotificationChannel = 'email' | 'sms' | 'push' | 'webhook';
+/** API key roles, each granting everything the previous ones do */
+export type ApiRole = 'reader' | 'operator' | 'admin';
+
+/** Rate limit tier of an API key; callers without a key are `anonymous` */
+export type ApiKeyTier = 'free' | 'standard' | 'premium';
+
+/** Routes sharing a rate limit budget */
+export type RateLimitGroup = 'default' | 'upstream' | 'export';
+
+export type AuditOutcome = 'success' | 'failure';
+
+/** Why a reading was flagged by the anomaly detector */
+export type AnomalyReason = 'outlier' | 'rate_of_change';
+
+/** Flagged readings are `pending` until an operator reviews them */
+export type AnomalyStatus = 'pending' | 'confirmed' | 'dismissed';
+
+export type NotificationChannel =
+  | 'email'
+  | 'sms'
+  | 'push'
+  | 'webhook'
+  | 'slack'
+  | 'subscribers';
 
 export type TimeRange = '1h' | '6h' | '12h' | '24h' | '7d' | '30d' | '90d';
 
@@ -116,13 +158,15 @@ export interface ApiResponse<T = any> {
   requestId?: string;
 }
 
+/**
+ * Keyset pagination: `nextCursor` is opaque and null on the last page
+ */
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+  hasNext: boolean;
+}
+
 export interface PaginatedResponse<T = any> extends ApiResponse<T[]> {
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
+  pagination: CursorPagination;
 }
@@ -8,9 +8,45 @@ export default () => ({
     baseUrl: 'http://api.airvisual.com/v2',
   },
 
+  // OpenAQ-style API Configuration
+  openaq: {
+    apiKey: process.env.OPENAQ_API_KEY,
+    baseUrl: process.env.OPENAQ_BASE_URL || 'https://api.openaq.org/v2',
+  },
+
+  // Air Quality Provider Configuration
+  providers: {
+    // Add `fixture` only for local development: it serves canned readings
+    failoverOrder: (process.env.AIR_QUALITY_PROVIDERS || 'iqair,openaq')
+      .split(',')
+      .map(name => name.trim()),
+    circuitBreaker: {
+      threshold: parseInt(process.env.PROVIDER_FAILURE_THRESHOLD, 10) || 5,
+      timeout: parseInt(process.env.PROVIDER_CIRCUIT_TIMEOUT, 10) || 300000,
+    },
+    fixture: {
+      path: process.env.AIR_QUALITY_FIXTURES_PATH,
+    },
+  },
+
   // MongoDB Configuration
   database: {
     uri: process.env.MONGODB_URI || 'mongodb://localhost:27017/aqi_monitoring',
+    migration: {
+      batchSize: parseInt(process.env.MIGRATION_BATCH_SIZE, 10) || 1000,
+    },
+    // Default retention policy; overridable per location at runtime
+    retention: {
+      hotDays: parseInt(process.env.RETENTION_HOT_DAYS, 10) || 30,
+      warmDays: parseInt(process.env.RETENTION_WARM_DAYS, 10) || 365,
+      purgeAfterDays:
+        parseInt(process.env.RETENTION_PURGE_AFTER_DAYS, 10) || null,
+    },
+    // Cold records older than this move to compressed files on disk
+    archive: {
+      path: process.env.COLD_ARCHIVE_PATH || './data/archive',
+      afterDays: parseInt(process.env.COLD_ARCHIVE_AFTER_DAYS, 10) || 730,
+    },
   },
 
   // Redis Configuration
@@ -19,6 +55,12 @@ export default () => ({
     port: parseInt(process.env.REDIS_PORT, 10) || 6379,
   },
 
+  // Realtime push Configuration
+  realtime: {
+    // Redis pub/sub channel shared by every API instance
+    channel: process.env.REALTIME_CHANNEL || 'aqi:realtime',
+  },
+
   // Bull Queue Configuration
   bull: {
     redis: {
@@ -36,10 +78,105 @@ export default () => ({
       user: process.env.SMTP_USER,
       pass: process.env.SMTP_PASS,
     },
+    // Per recipient, counted in Redis across instances
+    rateLimit: {
+      maxEmailsPerHour: parseInt(process.env.EMAIL_RATE_LIMIT_HOUR, 10) || 50,
+      maxEmailsPerDay: parseInt(process.env.EMAIL_RATE_LIMIT_DAY, 10) || 1000,
+      retryAttempts: parseInt(process.env.EMAIL_RETRY_ATTEMPTS, 10) || 3,
+      retryDelay: parseInt(process.env.EMAIL_RETRY_DELAY, 10) || 5000,
+    },
+  },
+
+  // API key authentication
+  auth: {
+    // Stored as an admin key on startup, to issue the first real keys
+    bootstrapAdminKey: process.env.BOOTSTRAP_API_KEY,
+    // How long an instance trusts a key lookup; bounds revocation delay
+    cacheSeconds: parseInt(process.env.AUTH_CACHE_SECONDS, 10) || 60,
+  },
+
+  // Per-client rate limits
+  rateLimit: {
+    windowSeconds: parseInt(process.env.RATE_LIMIT_WINDOW, 10) || 60,
+    // Requests per window by tier and route group, overriding the defaults,
+    // e.g. {"anonymous":{"upstream":2}}
+    limits: JSON.parse(process.env.RATE_LIMITS || '{}'),
+    // Days of per-client usage kept for GET /usage
+    usageDays: parseInt(process.env.USAGE_RETENTION_DAYS, 10) || 31,
+  },
+
+  // Anomaly detection on fetched readings
+  anomalies: {
+    // Recent readings per location the median and MAD are taken over
+    window: parseInt(process.env.ANOMALY_WINDOW, 10) || 24,
+    // Robust z-score above which a reading is an outlier
+    threshold: parseFloat(process.env.ANOMALY_THRESHOLD) || 6,
+    // Largest plausible AQI change within an hour
+    maxRate: parseInt(process.env.ANOMALY_MAX_RATE, 10) || 150,
+    // Leave flagged readings out of alerts and analytics
+    exclude: process.env.EXCLUDE_ANOMALIES !== 'false',
+  },
+
+  // Alert Configuration
+  alerts: {
+    // A condition's trigger count resets after this long without a trigger
+    throttleResetHours: parseInt(process.env.THROTTLE_RESET_HOURS, 10) || 24,
+  },
+
+  // Alert and email history retention
+  retention: {
+    alertHistoryDays: parseInt(process.env.ALERT_RETENTION_DAYS, 10) || 30,
+    emailDeliveryDays: parseInt(process.env.EMAIL_RETENTION_DAYS, 10) || 7,
   },
 
   // Cache Configuration
   cache: {
     ttl: parseInt(process.env.CACHE_TTL, 10) || 3600,
   },
+
+  // Export Configuration
+  export: {
+    path: process.env.EXPORT_PATH || './data/exports',
+    // Longer ranges run as background jobs
+    syncMaxDays: parseInt(process.env.EXPORT_SYNC_MAX_DAYS, 10) || 31,
+    ttlHours: parseInt(process.env.EXPORT_TTL_HOURS, 10) || 24,
+  },
+
+  // Notification channel Configuration
+  notificationChannels: {
+    slack: {
+      // Slack (or Slack-compatible) incoming webhook; unset disables it
+      webhookUrl: process.env.SLACK_WEBHOOK_URL,
+    },
+    sms: {
+      // No gateway yet: messages are appended to this file
+      logPath: process.env.SMS_LOG_PATH || './data/sms.log',
+      recipients: (process.env.SMS_RECIPIENTS || '')
+        .split(',')
+        .map(number => number.trim())
+        .filter(Boolean),
+    },
+  },
+
+  // Webhook Configuration
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10) || 6,
+    // Delay before the first retry; doubles on each attempt
+    backoffMs: parseInt(process.env.WEBHOOK_BACKOFF_MS, 10) || 30000,
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS, 10) || 10000,
+  },
+
+  // Public Alert Subscriptions
+  subscriptions: {
+    // Base URL of the API as seen by subscribers, used in email links
+    publicUrl: process.env.PUBLIC_API_URL || 'http://localhost:3000/api/v1',
+    confirmHours: parseInt(process.env.SUBSCRIBE_LINK_HOURS, 10) || 48,
+  },
+
+  // GraphQL Configuration
+  graphql: {
+    maxDepth: parseInt(process.env.GRAPHQL_MAX_DEPTH, 10) || 6,
+    // Object fields cost 1, multiplied by the size of enclosing lists
+    maxCost: parseInt(process.env.GRAPHQL_MAX_COST, 10) || 2000,
+  },
 });
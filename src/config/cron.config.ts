@@ -32,11 +32,12 @@ export interface QueueHealthConfig {
 export default registerAs('cron', () => ({
   jobs: [
     {
-      name: 'fetch-paris-data',
+      name: 'fetch-tracked-locations',
       cron: '* * * * *', // Every minute
-      timezone: 'Europe/Paris',
+      timezone: 'UTC',
       enabled: true,
-      description: 'Fetch air quality data for Paris every minute',
+      description:
+        'Enqueue data fetches for tracked locations whose interval has elapsed',
       category: 'data',
       priority: 'normal',
     },
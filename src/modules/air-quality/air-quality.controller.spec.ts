@@ -0,0 +1,215 @@
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { AirQualityResponseDto } from '@/common/dto/air-quality.dto';
+import { NowCastService } from '../aqi/services/nowcast.service';
+import { AirQualityController } from './air-quality.controller';
+import { AirQualityService } from './air-quality.service';
+import { AirQualityProviderService } from './services/air-quality-provider.service';
+import { SensorIngestionService } from './services/sensor-ingestion.service';
+
+describe('AirQualityController', () => {
+  let controller: AirQualityController;
+
+  const mockCacheManager = {
+    get: jest.fn(),
+    set: jest.fn(),
+  };
+  const mockAirQualityService = {
+    findNearestStoredAirQuality: jest.fn(),
+    getLatestAirQuality: jest.fn(),
+    toLocationLabel: jest.fn(
+      ({ city, state, country }) => `${city}, ${state}, ${country}`
+    ),
+  };
+  const mockNowCastService = {
+    getNowCast: jest.fn(),
+  };
+  const mockProviderService = {
+    fetchNearestCityAirQuality: jest.fn(),
+  };
+
+  const storedReading: AirQualityResponseDto = {
+    city: 'Paris',
+    state: 'Ile-de-France',
+    country: 'France',
+    aqius: 55,
+    mainus: 'p2',
+    aqicn: 40,
+    maincn: 'p2',
+    temperature: 18,
+    pressure: 1013,
+    humidity: 65,
+    windSpeed: 3,
+    windDirection: 270,
+    weatherIcon: '01d',
+    timestamp: new Date('2024-08-05T09:30:00Z'),
+    level: 'Moderate',
+    location: { latitude: 48.8566, longitude: 2.3522 },
+  };
+
+  const providerReading = (provider: string) => ({
+    success: true,
+    provider,
+    attemptedProviders: [provider],
+    data: {
+      location: 'Paris, Ile-de-France, France',
+      coordinates: { latitude: 48.856613, longitude: 2.352222 },
+      timestamp: new Date('2024-08-05T10:00:00Z'),
+      aqi: 42,
+      main_pollutant: 'p2',
+      pollution_level: 'Good',
+      weather: { temperature: 18, humidity: 65 },
+      metadata: {
+        api_response_time: 10,
+        cached: false,
+        retry_count: 0,
+        provider,
+      },
+    },
+    responseTime: 10,
+    retryCount: 0,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AirQualityController],
+      providers: [
+        { provide: AirQualityService, useValue: mockAirQualityService },
+        { provide: AirQualityProviderService, useValue: mockProviderService },
+        { provide: SensorIngestionService, useValue: {} },
+        { provide: NowCastService, useValue: mockNowCastService },
+        { provide: CACHE_MANAGER, useValue: mockCacheManager },
+      ],
+    }).compile();
+
+    controller = module.get<AirQualityController>(AirQualityController);
+    mockCacheManager.get.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getCurrentParisAirQuality', () => {
+    it('should compute the NowCast for the location of the latest reading', async () => {
+      mockAirQualityService.getLatestAirQuality.mockResolvedValue({
+        ...storedReading,
+        state: 'Paris',
+      });
+      mockNowCastService.getNowCast.mockRejectedValue(
+        new Error('Not enough readings')
+      );
+
+      const response = await controller.getCurrentParisAirQuality();
+
+      expect(mockNowCastService.getNowCast).toHaveBeenCalledWith(
+        'Paris, Paris, France'
+      );
+      expect(response.data).toMatchObject({ state: 'Paris', nowcast: null });
+    });
+  });
+
+  describe('getAirQualityByLocation', () => {
+    it('should share one grid cache entry between nearby coordinates', async () => {
+      mockCacheManager.get.mockResolvedValue(storedReading);
+
+      await controller.getAirQualityByLocation({
+        latitude: 48.856613,
+        longitude: 2.352222,
+      });
+      await controller.getAirQualityByLocation({
+        latitude: 48.8649,
+        longitude: 2.3549,
+      });
+      // Either side of the prime meridian still rounds to one cell
+      await controller.getAirQualityByLocation({
+        latitude: 51.4779,
+        longitude: -0.0015,
+      });
+      await controller.getAirQualityByLocation({
+        latitude: 51.4781,
+        longitude: 0.0015,
+      });
+
+      expect(mockCacheManager.get.mock.calls.map(([key]) => key)).toEqual([
+        'nearest-city:48.86:2.35',
+        'nearest-city:48.86:2.35',
+        'nearest-city:51.48:0.00',
+        'nearest-city:51.48:0.00',
+      ]);
+      expect(
+        mockProviderService.fetchNearestCityAirQuality
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should cache live results for the grid cell', async () => {
+      mockProviderService.fetchNearestCityAirQuality.mockResolvedValue(
+        providerReading('iqair')
+      );
+
+      const response = await controller.getAirQualityByLocation({
+        latitude: 48.856613,
+        longitude: 2.352222,
+      });
+
+      expect(response.metadata.source).toBe('live');
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'nearest-city:48.86:2.35',
+        response.data,
+        600
+      );
+    });
+
+    it('should fall back to the nearest stored reading without caching it', async () => {
+      mockProviderService.fetchNearestCityAirQuality.mockResolvedValue({
+        success: false,
+        error: 'Quota exceeded',
+        attemptedProviders: ['iqair', 'openaq'],
+        responseTime: 10,
+        retryCount: 0,
+      });
+      mockAirQualityService.findNearestStoredAirQuality.mockResolvedValue(
+        storedReading
+      );
+
+      const response = await controller.getAirQualityByLocation({
+        latitude: 48.856613,
+        longitude: 2.352222,
+      });
+
+      expect(response.data).toBe(storedReading);
+      expect(response.metadata).toMatchObject({
+        cached: false,
+        source: 'fallback',
+        dataFreshness: 30,
+      });
+      expect(mockCacheManager.set).not.toHaveBeenCalled();
+    });
+
+    it('should prefer stored readings over fixture data', async () => {
+      mockProviderService.fetchNearestCityAirQuality.mockResolvedValue(
+        providerReading('fixture')
+      );
+      mockAirQualityService.findNearestStoredAirQuality.mockResolvedValueOnce(
+        storedReading
+      );
+
+      const fallback = await controller.getAirQualityByLocation({
+        latitude: 48.856613,
+        longitude: 2.352222,
+      });
+      expect(fallback.metadata.source).toBe('fallback');
+
+      mockAirQualityService.findNearestStoredAirQuality.mockResolvedValueOnce(
+        null
+      );
+      const fixture = await controller.getAirQualityByLocation({
+        latitude: 48.856613,
+        longitude: 2.352222,
+      });
+      expect(fixture.metadata.source).toBe('fixture');
+      expect(mockCacheManager.set).not.toHaveBeenCalled();
+    });
+  });
+});
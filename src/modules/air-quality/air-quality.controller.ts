@@ -14,15 +14,18 @@ import {
   NotFoundException,
   InternalServerErrorException,
   Logger,
-  Headers,
 } from '@nestjs/common';
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 import { Inject } from '@nestjs/common';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from '@nestjs/cache-manager';
 
+import { NowCastService } from '../aqi/services/nowcast.service';
 import { AirQualityService } from './air-quality.service';
-import { IQAirApiService } from './services/iqair-api.service';
+import { AirQualityProviderService } from './services/air-quality-provider.service';
+import { SensorIngestionService } from './services/sensor-ingestion.service';
+import { Public, RequireRole } from '@/common/decorators/auth.decorator';
+import { RateLimit } from '@/common/decorators/rate-limit.decorator';
 import {
   GetAirQualityDto,
   CreateAirQualityDto,
@@ -34,16 +37,28 @@ import {
   ApiResponseMetadata,
   DailyStatsResponseDto,
   MostPollutedTimeResponseDto,
+  NowCastDto,
+  ResponseSource,
 } from '@/common/dto/air-quality.dto';
+import {
+  IngestSensorReadingsDto,
+  SensorIngestionResponseDto,
+} from '@/common/dto/sensor.dto';
+
+/** Decimal places kept when snapping coordinates to a cache cell (~1.1km) */
+const NEAREST_CITY_GRID_PRECISION = 2;
+const NEAREST_CITY_CACHE_TTL = 600; // 10 minutes
 
+@RequireRole('reader')
 @Controller('api/air-quality')
-@UseInterceptors(CacheInterceptor)
 export class AirQualityController {
   private readonly logger = new Logger(AirQualityController.name);
 
   constructor(
     private readonly airQualityService: AirQualityService,
-    private readonly iqairApiService: IQAirApiService,
+    private readonly airQualityProviderService: AirQualityProviderService,
+    private readonly sensorIngestionService: SensorIngestionService,
+    private readonly nowCastService: NowCastService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache
   ) {}
 
@@ -51,11 +66,12 @@ export class AirQualityController {
    * GET /api/air-quality/current → Current Paris air quality
    */
   @Get('current')
+  @UseInterceptors(CacheInterceptor)
   @CacheTTL(300) // 5 minutes cache
   @HttpCode(HttpStatus.OK)
-  async getCurrentParisAirQuality(
-    @Headers('x-api-key') apiKey?: string
-  ): Promise<StandardizedApiResponse<AirQualityResponseDto>> {
+  async getCurrentParisAirQuality(): Promise<
+    StandardizedApiResponse<AirQualityResponseDto>
+  > {
     try {
       this.logger.log('Fetching current Paris air quality');
 
@@ -77,7 +93,10 @@ export class AirQualityController {
         throw new NotFoundException('Current Paris air quality data not found');
       }
 
-      const responseData = this.mapToResponseDto(latestData);
+      const responseData: AirQualityResponseDto = {
+        ...this.mapToResponseDto(latestData),
+        nowcast: await this.getNowCast(latestData),
+      };
 
       // Cache for 5 minutes
       await this.cacheManager.set(cacheKey, responseData, 300);
@@ -102,6 +121,7 @@ export class AirQualityController {
    * GET /api/air-quality/history?days=7 → Historical data
    */
   @Get('history')
+  @UseInterceptors(CacheInterceptor)
   @CacheTTL(1800) // 30 minutes cache
   @HttpCode(HttpStatus.OK)
   @UsePipes(new ValidationPipe({ transform: true }))
@@ -112,37 +132,50 @@ export class AirQualityController {
       this.logger.log(`Fetching historical data for ${query.days || 7} days`);
 
       const days = query.days || 7;
-      const cacheKey = `history-paris-${days}`;
+      const limit = query.limit || 100;
+      const cacheKey = `history-paris-${days}-${limit}-${query.cursor ?? 'first'}`;
       const cached =
-        await this.cacheManager.get<AirQualityResponseDto[]>(cacheKey);
+        await this.cacheManager.get<
+          StandardizedApiResponse<AirQualityResponseDto[]>
+        >(cacheKey);
 
       if (cached) {
-        return this.createStandardResponse(cached, true, 0);
+        return {
+          ...cached,
+          metadata: { ...cached.metadata, cached: true, dataFreshness: 0 },
+        };
       }
 
-      const historicalData = await this.airQualityService.getAirQualityHistory(
+      const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const page = await this.airQualityService.getAirQualityHistoryPage(
         'Paris',
         'France',
-        days
+        startDate,
+        limit,
+        query.cursor
       );
 
-      if (!historicalData || historicalData.length === 0) {
+      if (!query.cursor && page.data.length === 0) {
         throw new NotFoundException(
           `No historical data found for the last ${days} days`
         );
       }
 
-      const responseData = historicalData.map(data =>
-        this.mapToResponseDto(data)
-      );
+      const response = {
+        ...this.createStandardResponse(page.data, false, 30),
+        pagination: page.pagination,
+      };
 
       // Cache for 30 minutes
-      await this.cacheManager.set(cacheKey, responseData, 1800);
+      await this.cacheManager.set(cacheKey, response, 1800);
 
-      return this.createStandardResponse(responseData, false, 30);
+      return response;
     } catch (error) {
       this.logger.error('Error fetching historical data:', error);
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new InternalServerErrorException(
@@ -155,6 +188,7 @@ export class AirQualityController {
    * GET /api/air-quality/daily-stats?date=2024-08-05 → Daily statistics
    */
   @Get('daily-stats')
+  @UseInterceptors(CacheInterceptor)
   @CacheTTL(3600) // 1 hour cache
   @HttpCode(HttpStatus.OK)
   @UsePipes(new ValidationPipe({ transform: true }))
@@ -203,6 +237,7 @@ export class AirQualityController {
    * GET /api/air-quality/most-polluted → Most polluted datetime
    */
   @Get('most-polluted')
+  @UseInterceptors(CacheInterceptor)
   @CacheTTL(1800) // 30 minutes cache
   @HttpCode(HttpStatus.OK)
   async getMostPollutedTime(): Promise<
@@ -246,10 +281,14 @@ export class AirQualityController {
 
   /**
    * GET /api/air-quality/nearest-city?latitude=48.856613&longitude=2.352222
-   * Calls IQAIR API to get air quality for the given coordinates using nearest_city endpoint
+   * Calls IQAIR API to get air quality for the given coordinates using nearest_city endpoint.
+   * Falls back to the closest stored record when the upstream call fails or
+   * only the fixture provider answered; `metadata.source` reports whether the
+   * payload is live, cached, a fallback or fixture data.
    */
   @Get('nearest-city')
-  @CacheTTL(600) // 10 minutes cache for live API data
+  @RateLimit('upstream')
+  // No response cache: only live results are cached, in the grid cache below
   @HttpCode(HttpStatus.OK)
   @UsePipes(new ValidationPipe({ transform: true }))
   async getAirQualityByLocation(
@@ -260,38 +299,84 @@ export class AirQualityController {
         `Fetching air quality for coordinates: ${query.latitude}, ${query.longitude}`
       );
 
-      const cacheKey = `nearest-city-${query.latitude}-${query.longitude}`;
+      const cacheKey = this.getNearestCityCacheKey(
+        query.latitude,
+        query.longitude
+      );
       const cached =
         await this.cacheManager.get<AirQualityResponseDto>(cacheKey);
 
       if (cached) {
-        return this.createStandardResponse(cached, true, 0);
+        return this.createStandardResponse(
+          cached,
+          true,
+          this.getDataAgeMinutes(cached.timestamp),
+          NEAREST_CITY_CACHE_TTL,
+          'cache'
+        );
       }
 
-      // For now, use the existing fetchCityAirQuality and enhance the IQAir service later
-      // This is a placeholder that would need the nearest city API call implementation
-      const city = 'Paris'; // This would be determined by coordinates in a real implementation
-      const state = 'Ile-de-France';
-      const country = 'France';
+      const providerResult =
+        await this.airQualityProviderService.fetchNearestCityAirQuality(
+          query.latitude,
+          query.longitude
+        );
 
-      const iqairResult = await this.iqairApiService.fetchCityAirQuality(
-        city,
-        state,
-        country
-      );
+      if (providerResult.success && providerResult.provider !== 'fixture') {
+        const responseData = this.mapIQAirToResponseDto(providerResult.data!);
 
-      if (!iqairResult.success) {
-        throw new BadRequestException(
-          `Failed to fetch air quality data: ${iqairResult.error}`
+        // Cache for 10 minutes, shared by every request in the same grid cell
+        await this.cacheManager.set(
+          cacheKey,
+          responseData,
+          NEAREST_CITY_CACHE_TTL
+        );
+
+        return this.createStandardResponse(
+          responseData,
+          false,
+          0,
+          NEAREST_CITY_CACHE_TTL,
+          'live'
         );
       }
 
-      const responseData = this.mapIQAirToResponseDto(iqairResult.data!);
+      this.logger.warn(
+        providerResult.success
+          ? 'Nearest city lookup was only answered by the fixture provider, falling back to stored data'
+          : `Nearest city lookup failed (${providerResult.error}), falling back to stored data`
+      );
 
-      // Cache for 10 minutes
-      await this.cacheManager.set(cacheKey, responseData, 600);
+      const storedData =
+        await this.airQualityService.findNearestStoredAirQuality(
+          query.latitude,
+          query.longitude
+        );
 
-      return this.createStandardResponse(responseData, false, 0);
+      if (storedData) {
+        return this.createStandardResponse(
+          storedData,
+          false,
+          this.getDataAgeMinutes(storedData.timestamp),
+          undefined,
+          'fallback'
+        );
+      }
+
+      // Nothing stored nearby: fixture data is served, never cached, as such
+      if (providerResult.success) {
+        return this.createStandardResponse(
+          this.mapIQAirToResponseDto(providerResult.data!),
+          false,
+          0,
+          undefined,
+          'fixture'
+        );
+      }
+
+      throw new BadRequestException(
+        `Failed to fetch air quality data: ${providerResult.error}`
+      );
     } catch (error) {
       this.logger.error('Error fetching air quality by location:', error);
       if (error instanceof BadRequestException) {
@@ -307,6 +392,7 @@ export class AirQualityController {
    * Legacy endpoint for backward compatibility
    */
   @Get('location')
+  @UseInterceptors(CacheInterceptor)
   @CacheTTL(600)
   @HttpCode(HttpStatus.OK)
   async getAirQualityByLocationLegacy(
@@ -340,23 +426,18 @@ export class AirQualityController {
    * POST /api/air-quality/fetch - Trigger data fetch
    */
   @Post('fetch')
+  @RequireRole('operator')
+  @RateLimit('upstream')
   @HttpCode(HttpStatus.ACCEPTED)
   @UsePipes(new ValidationPipe())
   async fetchAirQualityData(
-    @Body() body: GetAirQualityDto,
-    @Headers('x-api-key') apiKey?: string
+    @Body() body: GetAirQualityDto
   ): Promise<StandardizedApiResponse<{ message: string }>> {
     try {
       this.logger.log(
         `Triggering data fetch for ${body.city}, ${body.country}`
       );
 
-      // Basic API key validation
-      const adminApiKey = 'admin-api-key'; // This should come from config
-      if (apiKey !== adminApiKey) {
-        throw new BadRequestException('Invalid API key for admin operations');
-      }
-
       await this.airQualityService.addToQueue(
         body.city,
         body.state || '',
@@ -377,27 +458,47 @@ export class AirQualityController {
     }
   }
 
+  /**
+   * POST /api/air-quality/ingest - Bulk sensor readings
+   * Each reading carries its device key; results are reported per item.
+   * Devices hold no API key, so the device key is the only check.
+   */
+  @Post('ingest')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  async ingestSensorReadings(
+    @Body() body: IngestSensorReadingsDto
+  ): Promise<StandardizedApiResponse<SensorIngestionResponseDto>> {
+    try {
+      this.logger.log(`Ingesting ${body.readings.length} sensor readings`);
+
+      const report = await this.sensorIngestionService.ingest(body.readings);
+
+      return this.createStandardResponse(report, false, 0);
+    } catch (error) {
+      this.logger.error('Error ingesting sensor readings:', error);
+      throw new InternalServerErrorException(
+        'Failed to ingest sensor readings'
+      );
+    }
+  }
+
   /**
    * POST /api/air-quality - Create new record (admin only)
    */
   @Post()
+  @RequireRole('operator')
   @HttpCode(HttpStatus.CREATED)
   @UsePipes(new ValidationPipe())
   async createAirQualityRecord(
-    @Body() createDto: CreateAirQualityDto,
-    @Headers('x-api-key') apiKey?: string
+    @Body() createDto: CreateAirQualityDto
   ): Promise<StandardizedApiResponse<AirQualityResponseDto>> {
     try {
       this.logger.log(
         `Creating air quality record for ${createDto.city}, ${createDto.country}`
       );
 
-      // Basic API key validation
-      const adminApiKey = 'admin-api-key'; // This should come from config
-      if (apiKey !== adminApiKey) {
-        throw new BadRequestException('Invalid API key for admin operations');
-      }
-
       const record =
         await this.airQualityService.createAirQualityRecord(createDto);
       const responseData = this.mapToResponseDto(record);
@@ -415,11 +516,30 @@ export class AirQualityController {
   }
 
   // Helper methods
+  /**
+   * NowCast for the location of `reading`. Best-effort: the instantaneous
+   * reading is still served when the hot collection has too little recent
+   * data
+   */
+  private async getNowCast(
+    reading: AirQualityResponseDto
+  ): Promise<NowCastDto | null> {
+    try {
+      return await this.nowCastService.getNowCast(
+        this.airQualityService.toLocationLabel(reading)
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to calculate NowCast: ${error.message}`);
+      return null;
+    }
+  }
+
   private createStandardResponse<T>(
     data: T,
     cached: boolean,
     dataFreshness: number,
-    cacheTtl?: number
+    cacheTtl?: number,
+    source?: ResponseSource
   ): StandardizedApiResponse<T> {
     const metadata: ApiResponseMetadata = {
       cached,
@@ -427,6 +547,7 @@ export class AirQualityController {
       responseTime: new Date(),
       version: '1.0.0',
       cacheTtl,
+      source,
     };
 
     return {
@@ -540,8 +661,14 @@ export class AirQualityController {
       timestamp: data.timestamp,
       level: this.getAirQualityLevel(data.pollution?.aqius || data.aqius),
       location: {
-        latitude: data.location?.coordinates?.[1] || data.latitude,
-        longitude: data.location?.coordinates?.[0] || data.longitude,
+        latitude:
+          data.location?.coordinates?.[1] ||
+          data.location?.latitude ||
+          data.latitude,
+        longitude:
+          data.location?.coordinates?.[0] ||
+          data.location?.longitude ||
+          data.longitude,
       },
     };
   }
@@ -579,6 +706,26 @@ export class AirQualityController {
     return 'Hazardous';
   }
 
+  /**
+   * Snap coordinates to a grid cell so nearby requests share a cache entry
+   */
+  private getNearestCityCacheKey(latitude: number, longitude: number): string {
+    const scale = 10 ** NEAREST_CITY_GRID_PRECISION;
+    // `+ 0` turns -0 into 0, so "-0.00" and "0.00" are one cell
+    const snap = (value: number) =>
+      (Math.round(value * scale) / scale + 0).toFixed(
+        NEAREST_CITY_GRID_PRECISION
+      );
+
+    return `nearest-city:${snap(latitude)}:${snap(longitude)}`;
+  }
+
+  private getDataAgeMinutes(timestamp: Date | string): number {
+    return Math.floor(
+      (Date.now() - new Date(timestamp).getTime()) / (1000 * 60)
+    );
+  }
+
   private isHistoricalDate(dateString: string): boolean {
     const targetDate = new Date(dateString);
     const today = new Date();
@@ -6,23 +6,48 @@ import { ScheduleModule } from '@nestjs/schedule';
 
 import { AirQualityController } from './air-quality.controller';
 import { CronController } from './controllers/cron.controller';
+import { TrackedLocationController } from './controllers/tracked-location.controller';
+import { ProviderController } from './controllers/provider.controller';
+import { SensorDeviceController } from './controllers/sensor-device.controller';
+import { AnomalyController } from './controllers/anomaly.controller';
 import { AirQualityService } from './air-quality.service';
 import { AirQualityProcessor } from './air-quality.processor';
+import { AirQualityProcessor as AirQualityFetchProcessor } from './processors/air-quality.processor';
 import { IQAirApiService } from './services/iqair-api.service';
 import { CronService } from './services/cron.service';
-import { AirQuality, AirQualitySchema } from './schemas/air-quality.schema';
+import { TrackedLocationService } from './services/tracked-location.service';
+import { AirQualityProviderService } from './services/air-quality-provider.service';
+import { SensorIngestionService } from './services/sensor-ingestion.service';
+import { AnomalyService } from './services/anomaly.service';
+import { AIR_QUALITY_PROVIDERS } from './providers/air-quality-provider.interface';
+import { IQAirProvider } from './providers/iqair.provider';
+import { OpenAQProvider } from './providers/openaq.provider';
+import { FixtureProvider } from './providers/fixture.provider';
+import {
+  TrackedLocation,
+  TrackedLocationSchema,
+} from './schemas/tracked-location.schema';
+import {
+  SensorDevice,
+  SensorDeviceSchema,
+} from './schemas/sensor-device.schema';
 import {
   AirQualityHot,
   AirQualityHotSchema,
 } from '../database/schemas/air-quality-hot.schema';
 import { QueueModule } from '../queue/queue.module';
 import { AnalyticsModule } from '../analytics/analytics.module';
+import { AqiModule } from '../aqi/aqi.module';
+import { DatabaseModule } from '../database/database.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { name: AirQuality.name, schema: AirQualitySchema },
       { name: AirQualityHot.name, schema: AirQualityHotSchema },
+      { name: TrackedLocation.name, schema: TrackedLocationSchema },
+      { name: SensorDevice.name, schema: SensorDeviceSchema },
     ]),
     BullModule.registerQueue({
       name: 'air-quality',
@@ -37,14 +62,44 @@ import { AnalyticsModule } from '../analytics/analytics.module';
     ScheduleModule.forRoot(),
     QueueModule,
     AnalyticsModule,
+    NotificationsModule,
+    AqiModule,
+    DatabaseModule,
+    RealtimeModule,
+  ],
+  controllers: [
+    AirQualityController,
+    CronController,
+    TrackedLocationController,
+    ProviderController,
+    SensorDeviceController,
+    AnomalyController,
   ],
-  controllers: [AirQualityController, CronController],
   providers: [
     AirQualityService,
     AirQualityProcessor,
+    AirQualityFetchProcessor,
+    IQAirApiService,
+    CronService,
+    TrackedLocationService,
+    IQAirProvider,
+    OpenAQProvider,
+    FixtureProvider,
+    {
+      provide: AIR_QUALITY_PROVIDERS,
+      useFactory: (...providers) => providers,
+      inject: [IQAirProvider, OpenAQProvider, FixtureProvider],
+    },
+    AirQualityProviderService,
+    SensorIngestionService,
+    AnomalyService,
+  ],
+  exports: [
+    AirQualityService,
     IQAirApiService,
     CronService,
+    TrackedLocationService,
+    AirQualityProviderService,
   ],
-  exports: [AirQualityService, IQAirApiService, CronService],
 })
 export class AirQualityModule {}
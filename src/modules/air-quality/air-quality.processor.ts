@@ -52,7 +52,7 @@ export class AirQualityProcessor {
       };
 
       // Save to database
-      await this.airQualityService.createAirQualityRecord(createDto);
+      await this.airQualityService.createAirQualityRecord(createDto, 'iqair');
 
       this.logger.log(
         `Successfully processed air quality data for ${job.data.city}`
@@ -1,6 +1,7 @@
 import { getModelToken } from '@nestjs/mongoose';
 import { Test, TestingModule } from '@nestjs/testing';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
+import { AirQualityReading } from '../database/services/air-quality-data.service';
 import { QueueService } from '../queue/services/queue.service';
 import { AirQualityService } from './air-quality.service';
 import { AirQuality, AirQualityDocument } from './schemas/air-quality.schema';
@@ -298,36 +299,35 @@ describe('AirQualityService', () => {
 
   describe('mapToResponseDto', () => {
     it('should map database record to response DTO', () => {
-      const mockRecord = {
+      const mockRecord: AirQualityReading = {
+        _id: new Types.ObjectId(),
+        location: 'Paris, Ile-de-France, France',
         city: 'Paris',
         state: 'Ile-de-France',
         country: 'France',
-        pollution: {
-          ts: '2024-01-01T00:00:00Z',
-          aqius: 65,
-          mainus: 'p2',
-          aqicn: 65,
-          maincn: 'p2',
-        },
-        weather: {
-          ts: '2024-01-01T00:00:00Z',
-          tp: 22,
-          pr: 1013,
-          hu: 60,
-          ws: 3.5,
-          wd: 270,
-          ic: '01d',
-        },
+        coordinates: { latitude: 48.856613, longitude: 2.352222 },
         timestamp: new Date(),
-        location: {
-          type: 'Point',
-          coordinates: [2.352222, 48.856613] as [number, number],
+        aqi: 65,
+        main_pollutant: 'p2',
+        aqicn: 65,
+        maincn: 'p2',
+        pollution_level: 'Moderate',
+        weather: {
+          temperature: 22,
+          humidity: 60,
+          pressure: 1013,
+          wind_speed: 3.5,
+          wind_direction: 270,
+          icon: '01d',
         },
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        granularity: 'raw',
+        aqi_min: 65,
+        aqi_max: 65,
+        sample_count: 1,
+        tier: 'hot',
       };
 
-      const result = service.mapToResponseDto(mockRecord as AirQualityDocument);
+      const result = service.mapToResponseDto(mockRecord);
 
       expect(result).toEqual({
         city: 'Paris',
@@ -1,11 +1,15 @@
 import { InjectQueue } from '@nestjs/bull';
 import { CACHE_MANAGER, Cache } from '@nestjs/cache-manager';
-import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { InjectModel } from '@nestjs/mongoose';
 import axios from 'axios';
 import { Queue } from 'bull';
-import { Model } from 'mongoose';
 
 import {
   AirQualityResponseDto,
@@ -15,18 +19,28 @@ import {
   AirQualityData,
   IQAirResponse,
 } from '@/common/interfaces/air-quality.interface';
-import { AirQuality, AirQualityDocument } from './schemas/air-quality.schema';
+import { CursorPagination, DataSource } from '@/common/types';
+import {
+  AqiCalculatorService,
+  SubIndex,
+} from '../aqi/services/aqi-calculator.service';
+import {
+  AirQualityDataService,
+  AirQualityReading,
+} from '../database/services/air-quality-data.service';
+
+const NEARBY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
 
 @Injectable()
 export class AirQualityService {
   private readonly logger = new Logger(AirQualityService.name);
 
   constructor(
-    @InjectModel(AirQuality.name)
-    private airQualityModel: Model<AirQualityDocument>,
+    private airQualityDataService: AirQualityDataService,
     @InjectQueue('air-quality') private airQualityQueue: Queue,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private aqiCalculatorService: AqiCalculatorService
   ) {}
 
   async fetchAirQualityData(
@@ -68,37 +82,124 @@ export class AirQualityService {
     }
   }
 
+  /**
+   * Store a reading in the hot tier, where every other ingestion path writes
+   */
   async createAirQualityRecord(
-    createDto: CreateAirQualityDto
-  ): Promise<AirQualityDocument> {
-    const airQualityData = new this.airQualityModel({
+    createDto: CreateAirQualityDto,
+    source: DataSource = 'manual'
+  ): Promise<AirQualityResponseDto> {
+    const { pollution, subIndexes } = this.resolveIndexes(createDto);
+
+    const record = await this.airQualityDataService.saveReading({
+      location: this.airQualityDataService.toLocationLabel(
+        createDto.city,
+        createDto.state,
+        createDto.country
+      ),
+      coordinates: {
+        latitude: createDto.latitude,
+        longitude: createDto.longitude,
+      },
+      timestamp: createDto.timestamp,
+      aqi: pollution.aqius,
+      main_pollutant: pollution.mainus,
+      aqicn: pollution.aqicn,
+      maincn: pollution.maincn,
+      pollution_level: this.getAQILevel(pollution.aqius),
+      ...(subIndexes && { sub_indexes: subIndexes.us }),
+      weather: {
+        temperature: createDto.temperature,
+        humidity: createDto.humidity,
+        pressure: createDto.pressure,
+        wind_speed: createDto.windSpeed,
+        wind_direction: createDto.windDirection,
+        icon: createDto.weatherIcon,
+      },
+      source,
+    });
+
+    return {
       city: createDto.city,
       state: createDto.state,
       country: createDto.country,
-      location: {
-        type: 'Point',
-        coordinates: [createDto.longitude, createDto.latitude],
-      },
+      aqius: record.aqi,
+      mainus: record.main_pollutant,
+      aqicn: record.aqicn!,
+      maincn: record.maincn!,
+      temperature: createDto.temperature,
+      pressure: createDto.pressure,
+      humidity: createDto.humidity,
+      windSpeed: createDto.windSpeed,
+      windDirection: createDto.windDirection,
+      weatherIcon: createDto.weatherIcon,
+      timestamp: record.timestamp,
+      level: record.pollution_level,
+      location: record.coordinates,
+    };
+  }
+
+  /**
+   * Use the supplied indexes, or compute US and China indexes from
+   * concentrations so manual records match sensor and provider data
+   */
+  private resolveIndexes(createDto: CreateAirQualityDto) {
+    if (!createDto.concentrations) {
+      const { aqius, mainus, aqicn, maincn } = createDto;
+      if ([aqius, mainus, aqicn, maincn].some(v => v === undefined)) {
+        throw new BadRequestException(
+          'Either aqius, mainus, aqicn and maincn or concentrations are required'
+        );
+      }
+      return { pollution: { aqius, mainus, aqicn, maincn } };
+    }
+
+    const us = this.aqiCalculatorService.calculate(
+      createDto.concentrations,
+      'us-epa'
+    );
+    const cn = this.aqiCalculatorService.calculate(
+      createDto.concentrations,
+      'china-mep'
+    );
+    if (!us || !cn) {
+      throw new BadRequestException(
+        'Concentrations do not produce a US and China AQI'
+      );
+    }
+
+    const summarize = (subIndexes: SubIndex[]) =>
+      subIndexes.map(({ pollutant, concentration, index }) => ({
+        pollutant,
+        concentration,
+        index,
+      }));
+
+    return {
       pollution: {
-        ts: new Date().toISOString(),
-        aqius: createDto.aqius,
-        mainus: createDto.mainus,
-        aqicn: createDto.aqicn,
-        maincn: createDto.maincn,
+        aqius: us.aqi,
+        mainus: us.main_pollutant,
+        aqicn: cn.aqi,
+        maincn: cn.main_pollutant,
       },
-      weather: {
-        ts: new Date().toISOString(),
-        tp: createDto.temperature,
-        pr: createDto.pressure,
-        hu: createDto.humidity,
-        ws: createDto.windSpeed,
-        wd: createDto.windDirection,
-        ic: createDto.weatherIcon,
+      subIndexes: {
+        us: summarize(us.subIndexes),
+        cn: summarize(cn.subIndexes),
       },
-      timestamp: createDto.timestamp,
-    });
+    };
+  }
 
-    return await airQualityData.save();
+  /**
+   * Label of the tiered collections' `location` for a reading
+   */
+  toLocationLabel(
+    reading: Pick<AirQualityResponseDto, 'city' | 'state' | 'country'>
+  ): string {
+    return this.airQualityDataService.toLocationLabel(
+      reading.city,
+      reading.state,
+      reading.country
+    );
   }
 
   async getLatestAirQuality(
@@ -113,10 +214,10 @@ export class AirQualityService {
       return cached;
     }
 
-    const airQuality = await this.airQualityModel
-      .findOne({ city, country })
-      .sort({ timestamp: -1 })
-      .exec();
+    const airQuality = await this.airQualityDataService.findLatest({
+      city,
+      country,
+    });
 
     if (!airQuality) {
       throw new NotFoundException(
@@ -137,13 +238,37 @@ export class AirQualityService {
     country: string,
     limit: number = 24
   ): Promise<AirQualityResponseDto[]> {
-    const airQualityRecords = await this.airQualityModel
-      .find({ city, country })
-      .sort({ timestamp: -1 })
-      .limit(limit)
-      .exec();
+    const readings = await this.airQualityDataService.findReadings(
+      { city, country },
+      { limit }
+    );
 
-    return airQualityRecords.map(record => this.mapToResponseDto(record));
+    return readings.map(reading => this.mapToResponseDto(reading));
+  }
+
+  /**
+   * One page of readings since `startDate`, newest first
+   */
+  async getAirQualityHistoryPage(
+    city: string,
+    country: string,
+    startDate: Date,
+    limit: number,
+    cursor?: string
+  ): Promise<{
+    data: AirQualityResponseDto[];
+    pagination: CursorPagination;
+  }> {
+    const page = await this.airQualityDataService.findPage(
+      { city, country, startDate },
+      limit,
+      cursor
+    );
+
+    return {
+      data: page.data.map(reading => this.mapToResponseDto(reading)),
+      pagination: page.pagination,
+    };
   }
 
   async getAirQualityByLocation(
@@ -151,23 +276,33 @@ export class AirQualityService {
     longitude: number,
     maxDistance: number = 50000 // 50km
   ): Promise<AirQualityResponseDto[]> {
-    const airQualityRecords = await this.airQualityModel
-      .find({
-        location: {
-          $near: {
-            $geometry: {
-              type: 'Point',
-              coordinates: [longitude, latitude],
-            },
-            $maxDistance: maxDistance,
-          },
-        },
-      })
-      .sort({ timestamp: -1 })
-      .limit(10)
-      .exec();
+    const readings = await this.airQualityDataService.findNearest(
+      latitude,
+      longitude,
+      maxDistance,
+      { startDate: this.getNearbyWindowStart() }
+    );
+
+    return readings.slice(0, 10).map(reading => this.mapToResponseDto(reading));
+  }
+
+  /**
+   * Latest stored record of the tracked city closest to the coordinates,
+   * used when the upstream nearest-city lookup is unavailable
+   */
+  async findNearestStoredAirQuality(
+    latitude: number,
+    longitude: number,
+    maxDistance: number = 50000 // 50km
+  ): Promise<AirQualityResponseDto | null> {
+    const [nearest] = await this.airQualityDataService.findNearest(
+      latitude,
+      longitude,
+      maxDistance,
+      { startDate: this.getNearbyWindowStart() }
+    );
 
-    return airQualityRecords.map(record => this.mapToResponseDto(record));
+    return nearest ? this.mapToResponseDto(nearest) : null;
   }
 
   async addToQueue(
@@ -182,34 +317,34 @@ export class AirQualityService {
     });
   }
 
-  public mapToResponseDto(
-    airQuality: AirQualityDocument
-  ): AirQualityResponseDto {
-    const aqiLevel = this.getAQILevel(airQuality.pollution.aqius);
-
+  public mapToResponseDto(reading: AirQualityReading): AirQualityResponseDto {
     return {
-      city: airQuality.city,
-      state: airQuality.state,
-      country: airQuality.country,
-      aqius: airQuality.pollution.aqius,
-      mainus: airQuality.pollution.mainus,
-      aqicn: airQuality.pollution.aqicn,
-      maincn: airQuality.pollution.maincn,
-      temperature: airQuality.weather.tp,
-      pressure: airQuality.weather.pr,
-      humidity: airQuality.weather.hu,
-      windSpeed: airQuality.weather.ws,
-      windDirection: airQuality.weather.wd,
-      weatherIcon: airQuality.weather.ic,
-      timestamp: airQuality.timestamp,
-      level: aqiLevel,
-      location: {
-        latitude: airQuality.location.coordinates[1],
-        longitude: airQuality.location.coordinates[0],
-      },
+      city: reading.city,
+      state: reading.state,
+      country: reading.country,
+      aqius: reading.aqi,
+      mainus: reading.main_pollutant,
+      aqicn: reading.aqicn!,
+      maincn: reading.maincn!,
+      temperature: reading.weather.temperature,
+      pressure: reading.weather.pressure!,
+      humidity: reading.weather.humidity,
+      windSpeed: reading.weather.wind_speed!,
+      windDirection: reading.weather.wind_direction!,
+      weatherIcon: reading.weather.icon!,
+      timestamp: reading.timestamp,
+      level: this.getAQILevel(reading.aqi),
+      location: reading.coordinates,
     };
   }
 
+  /**
+   * Stations without a reading in the last week are not offered as nearby
+   */
+  private getNearbyWindowStart(): Date {
+    return new Date(Date.now() - NEARBY_WINDOW_MS);
+  }
+
   private getAQILevel(aqi: number): string {
     if (aqi <= 50) return 'Good';
     if (aqi <= 100) return 'Moderate';
@@ -0,0 +1,62 @@
+import { Body, Controller, Get, Param, Put, Query, Req } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+
+import { AuditState, AuditTrail } from '@/common/decorators/audit.decorator';
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { AnomalyQueryDto, ReviewAnomalyDto } from '@/common/dto/anomaly.dto';
+import { ApiKeyPrincipal } from '../../auth/services/api-key.service';
+import { AnomalyService } from '../services/anomaly.service';
+
+@ApiTags('anomalies')
+@RequireRole('reader')
+@Controller('anomalies')
+export class AnomalyController {
+  constructor(private readonly anomalyService: AnomalyService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Readings flagged as anomalies, newest first',
+    description:
+      'Lists pending flags unless `status` is given. Pending readings stay in the hot tier until reviewed.',
+  })
+  @ApiResponse({ status: 200, description: 'Flagged readings retrieved' })
+  async findAll(@Query() query: AnomalyQueryDto) {
+    return this.anomalyService.find(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'A flagged reading with its anomaly scores' })
+  @ApiParam({ name: 'id', description: 'Reading ID' })
+  @ApiResponse({ status: 404, description: 'No flagged reading with this ID' })
+  async findOne(@Param('id') id: string) {
+    return this.anomalyService.getAnomaly(id);
+  }
+
+  @Put(':id/review')
+  @RequireRole('operator')
+  @ApiOperation({
+    summary: 'Confirm or dismiss an anomaly flag',
+    description:
+      'Confirmed readings stay out of alerts and analytics; dismissed readings are let back in.',
+  })
+  @ApiParam({ name: 'id', description: 'Reading ID' })
+  @ApiResponse({ status: 200, description: 'Anomaly reviewed' })
+  @ApiResponse({ status: 404, description: 'No flagged reading with this ID' })
+  async review(
+    @Param('id') id: string,
+    @Body() reviewDto: ReviewAnomalyDto,
+    @Req() request: Request & { apiKey: ApiKeyPrincipal },
+    @AuditTrail() audit: AuditState
+  ) {
+    audit.before = (await this.anomalyService.getAnomaly(id)).anomaly;
+
+    const reading = await this.anomalyService.review(
+      id,
+      reviewDto,
+      request.apiKey.name
+    );
+    audit.after = reading.anomaly;
+    return reading;
+  }
+}
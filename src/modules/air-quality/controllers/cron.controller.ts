@@ -9,6 +9,8 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
 
+import { AuditState, AuditTrail } from '@/common/decorators/audit.decorator';
+import { RequireRole } from '@/common/decorators/auth.decorator';
 import {
   CronService,
   CronJobStats,
@@ -30,6 +32,7 @@ export class CronJobManagementDto {
 }
 
 @ApiTags('cron-management')
+@RequireRole('operator')
 @Controller('cron')
 export class CronController {
   private readonly logger = new Logger(CronController.name);
@@ -62,18 +65,25 @@ export class CronController {
   }
 
   @Post('jobs/:jobName/toggle')
+  @RequireRole('admin')
   @ApiOperation({ summary: 'Enable or disable a specific CRON job' })
   @ApiParam({ name: 'jobName', description: 'Name of the CRON job' })
   @ApiResponse({ status: 200, description: 'CRON job toggled successfully' })
   async toggleCronJob(
     @Param('jobName') jobName: string,
-    @Body() toggleDto: ToggleCronJobDto
+    @Body() toggleDto: ToggleCronJobDto,
+    @AuditTrail() audit: AuditState
   ): Promise<{ message: string; jobName: string; enabled: boolean }> {
     this.logger.log(
       `Toggling CRON job ${jobName} to ${toggleDto.enabled ? 'enabled' : 'disabled'}`
     );
 
+    const stats = await this.cronService.getCronJobStats();
+    audit.before = {
+      enabled: stats.find(job => job.jobName === jobName)?.isEnabled ?? null,
+    };
     await this.cronService.toggleCronJob(jobName, toggleDto.enabled);
+    audit.after = { enabled: toggleDto.enabled };
 
     return {
       message: `CRON job ${jobName} ${toggleDto.enabled ? 'enabled' : 'disabled'} successfully`,
@@ -224,6 +234,7 @@ export class CronController {
   }
 
   @Post('maintenance/cleanup')
+  @RequireRole('admin')
   @ApiOperation({ summary: 'Trigger manual system cleanup' })
   @ApiResponse({
     status: 200,
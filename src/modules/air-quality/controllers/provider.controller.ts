@@ -0,0 +1,33 @@
+import { Controller, Get, Logger } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { AirQualityProviderService } from '../services/air-quality-provider.service';
+
+@ApiTags('providers')
+@RequireRole('reader')
+@Controller('providers')
+export class ProviderController {
+  private readonly logger = new Logger(ProviderController.name);
+
+  constructor(
+    private readonly airQualityProviderService: AirQualityProviderService
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List air quality providers in failover order',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Providers and circuit breaker states retrieved successfully',
+  })
+  async getProviders() {
+    this.logger.log('Fetching air quality provider status');
+
+    return {
+      providers: this.airQualityProviderService.getProviderStatus(),
+      timestamp: new Date(),
+    };
+  }
+}
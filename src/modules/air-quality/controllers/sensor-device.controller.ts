@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  HttpStatus,
+  HttpCode,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+
+import { SensorIngestionService } from '../services/sensor-ingestion.service';
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import {
+  CreateSensorDeviceDto,
+  UpdateSensorDeviceDto,
+} from '@/common/dto/sensor.dto';
+
+@ApiTags('sensor-devices')
+@RequireRole('reader')
+@Controller('sensor-devices')
+export class SensorDeviceController {
+  private readonly logger = new Logger(SensorDeviceController.name);
+
+  constructor(
+    private readonly sensorIngestionService: SensorIngestionService
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List registered sensor devices' })
+  @ApiResponse({ status: 200, description: 'Sensor devices retrieved' })
+  async findAll() {
+    return this.sensorIngestionService.listDevices();
+  }
+
+  @Post()
+  @RequireRole('operator')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Register a sensor device',
+    description:
+      'Returns the device key once; only its hash is stored server-side',
+  })
+  @ApiResponse({ status: 201, description: 'Sensor device registered' })
+  @ApiResponse({ status: 409, description: 'Device ID already registered' })
+  async register(@Body() createDto: CreateSensorDeviceDto) {
+    this.logger.log(`Registering sensor device ${createDto.deviceId}`);
+    const { device, deviceKey } =
+      await this.sensorIngestionService.registerDevice(createDto);
+
+    return {
+      message: 'Sensor device registered. Store the device key securely.',
+      device,
+      deviceKey,
+    };
+  }
+
+  @Put(':deviceId')
+  @RequireRole('operator')
+  @ApiOperation({ summary: 'Update name, coordinates or enabled flag' })
+  @ApiParam({ name: 'deviceId', description: 'Device identifier' })
+  @ApiResponse({ status: 200, description: 'Sensor device updated' })
+  @ApiResponse({ status: 404, description: 'Sensor device not found' })
+  async update(
+    @Param('deviceId') deviceId: string,
+    @Body() updateDto: UpdateSensorDeviceDto
+  ) {
+    this.logger.log(`Updating sensor device ${deviceId}`);
+    return this.sensorIngestionService.updateDevice(deviceId, updateDto);
+  }
+
+  @Delete(':deviceId')
+  @RequireRole('operator')
+  @ApiOperation({ summary: 'Remove a sensor device' })
+  @ApiParam({ name: 'deviceId', description: 'Device identifier' })
+  @ApiResponse({ status: 200, description: 'Sensor device removed' })
+  @ApiResponse({ status: 404, description: 'Sensor device not found' })
+  async remove(@Param('deviceId') deviceId: string) {
+    await this.sensorIngestionService.removeDevice(deviceId);
+
+    return {
+      message: 'Sensor device removed',
+      deviceId,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpStatus,
+  HttpCode,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+
+import { TrackedLocationService } from '../services/tracked-location.service';
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import {
+  CreateTrackedLocationDto,
+  TrackedLocationQueryDto,
+  UpdateTrackedLocationDto,
+} from '@/common/dto/tracked-location.dto';
+
+@ApiTags('tracked-locations')
+@RequireRole('reader')
+@Controller('tracked-locations')
+export class TrackedLocationController {
+  private readonly logger = new Logger(TrackedLocationController.name);
+
+  constructor(
+    private readonly trackedLocationService: TrackedLocationService
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List tracked locations' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tracked locations retrieved successfully',
+  })
+  async findAll(@Query() query: TrackedLocationQueryDto) {
+    this.logger.log('Fetching tracked locations');
+    return this.trackedLocationService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a tracked location' })
+  @ApiParam({ name: 'id', description: 'Tracked location ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tracked location retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Tracked location not found' })
+  async findOne(@Param('id') id: string) {
+    return this.trackedLocationService.findById(id);
+  }
+
+  @Post()
+  @RequireRole('operator')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Start tracking a location' })
+  @ApiResponse({ status: 201, description: 'Tracked location created' })
+  @ApiResponse({ status: 409, description: 'Location is already tracked' })
+  async create(@Body() createDto: CreateTrackedLocationDto) {
+    this.logger.log(
+      `Registering tracked location ${createDto.city}, ${createDto.country}`
+    );
+    return this.trackedLocationService.create(createDto);
+  }
+
+  @Put(':id')
+  @RequireRole('operator')
+  @ApiOperation({
+    summary: 'Update coordinates, fetch interval or enabled flag',
+  })
+  @ApiParam({ name: 'id', description: 'Tracked location ID' })
+  @ApiResponse({ status: 200, description: 'Tracked location updated' })
+  @ApiResponse({ status: 404, description: 'Tracked location not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateTrackedLocationDto
+  ) {
+    this.logger.log(`Updating tracked location ${id}`);
+    return this.trackedLocationService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  @RequireRole('operator')
+  @ApiOperation({ summary: 'Stop tracking a location' })
+  @ApiParam({ name: 'id', description: 'Tracked location ID' })
+  @ApiResponse({ status: 200, description: 'Tracked location removed' })
+  @ApiResponse({ status: 404, description: 'Tracked location not found' })
+  async remove(@Param('id') id: string) {
+    this.logger.log(`Removing tracked location ${id}`);
+    await this.trackedLocationService.remove(id);
+
+    return {
+      message: 'Tracked location removed',
+      id,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Process } from '@nestjs/bull';
+import { Process, Processor } from '@nestjs/bull';
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Job } from 'bull';
@@ -9,8 +9,16 @@ import {
   AirQualityHotDocument,
 } from '../../database/schemas/air-quality-hot.schema';
 import { NotificationsService } from '../../notifications/notifications.service';
-import { JobType, QueueService } from '../../queue/services/queue.service';
+import { RealtimeService } from '../../realtime/services/realtime.service';
+import {
+  FetchCityJobData,
+  JobType,
+  QueueService,
+} from '../../queue/services/queue.service';
+import { AirQualityProviderService } from '../services/air-quality-provider.service';
+import { AnomalyService } from '../services/anomaly.service';
 import { ApiCallResult, IQAirApiService } from '../services/iqair-api.service';
+import { TrackedLocationService } from '../services/tracked-location.service';
 
 export interface ProcessingResult {
   success: boolean;
@@ -32,6 +40,7 @@ export interface JobStats {
 }
 
 @Injectable()
+@Processor('air-quality')
 export class AirQualityProcessor {
   private readonly logger = new Logger(AirQualityProcessor.name);
   private readonly jobStats: Map<string, JobStats> = new Map();
@@ -40,6 +49,10 @@ export class AirQualityProcessor {
     private readonly iqairApiService: IQAirApiService,
     private readonly queueService: QueueService,
     private readonly notificationsService: NotificationsService,
+    private readonly trackedLocationService: TrackedLocationService,
+    private readonly airQualityProviderService: AirQualityProviderService,
+    private readonly realtimeService: RealtimeService,
+    private readonly anomalyService: AnomalyService,
     @InjectModel(AirQualityHot.name)
     private airQualityHotModel: Model<AirQualityHotDocument>
   ) {
@@ -51,20 +64,60 @@ export class AirQualityProcessor {
    */
   @Process({ name: JobType.FETCH_PARIS_DATA, concurrency: 3 })
   async handleFetchParisData(job: Job): Promise<ProcessingResult> {
+    return this.processFetchJob(job, JobType.FETCH_PARIS_DATA, () =>
+      this.iqairApiService.fetchParisAirQuality()
+    );
+  }
+
+  /**
+   * Process FETCH_CITY_DATA jobs for tracked locations
+   */
+  @Process({ name: JobType.FETCH_CITY_DATA, concurrency: 3 })
+  async handleFetchCityData(job: Job): Promise<ProcessingResult> {
+    const { locationId, city, state, country, provider }: FetchCityJobData =
+      job.data.data;
+
+    const result = await this.processFetchJob(
+      job,
+      JobType.FETCH_CITY_DATA,
+      () =>
+        this.airQualityProviderService.fetchCityAirQuality(
+          city,
+          state,
+          country,
+          provider
+        )
+    );
+
+    if (result.success && locationId) {
+      await this.trackedLocationService.markFetched(locationId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch air quality data, score it for anomalies, store it in the hot
+   * collection and raise alerts
+   */
+  private async processFetchJob(
+    job: Job,
+    jobType: JobType,
+    fetchData: () => Promise<ApiCallResult>
+  ): Promise<ProcessingResult> {
     const startTime = Date.now();
     const jobId = job.id?.toString() || 'unknown';
 
     this.logger.log(
-      `Processing FETCH_PARIS_DATA job ${jobId} (attempt ${job.attemptsMade + 1}/${job.opts.attempts})`
+      `Processing ${jobType} job ${jobId} (attempt ${job.attemptsMade + 1}/${job.opts.attempts})`
     );
 
     try {
       // Update job progress
       await job.progress(10);
 
-      // Fetch air quality data from IQAir API
-      const apiResult: ApiCallResult =
-        await this.iqairApiService.fetchParisAirQuality();
+      // Fetch air quality data from the provider
+      const apiResult: ApiCallResult = await fetchData();
 
       await job.progress(50);
 
@@ -72,6 +125,38 @@ export class AirQualityProcessor {
         throw new Error(`API call failed: ${apiResult.error}`);
       }
 
+      // Canned fixture readings must never pass for measurements
+      if (apiResult.data!.metadata.provider === 'fixture') {
+        this.logger.warn(
+          `Not storing fixture reading for ${apiResult.data!.location}`
+        );
+        await job.progress(100);
+
+        const executionTime = Date.now() - startTime;
+        this.updateJobStats(jobType, true, executionTime);
+
+        return {
+          success: true,
+          jobId,
+          jobType,
+          data: {
+            location: apiResult.data!.location,
+            provider: 'fixture',
+            stored: false,
+          },
+          executionTime,
+          retryCount: job.attemptsMade,
+          timestamp: new Date(),
+        };
+      }
+
+      // Flag sensor glitches before they are stored and alerted on
+      const anomaly = await this.anomalyService.detect(
+        apiResult.data!.location,
+        apiResult.data!.aqi,
+        new Date(apiResult.data!.timestamp)
+      );
+
       // Save to MongoDB hot collection
       const airQualityRecord = new this.airQualityHotModel({
         location: apiResult.data!.location,
@@ -80,16 +165,25 @@ export class AirQualityProcessor {
         aqi: apiResult.data!.aqi,
         main_pollutant: apiResult.data!.main_pollutant,
         pollution_level: apiResult.data!.pollution_level,
+        sub_indexes: apiResult.data!.sub_indexes,
         weather: apiResult.data!.weather,
+        source: apiResult.data!.metadata.provider || 'iqair',
         metadata: apiResult.data!.metadata,
+        anomaly,
       });
 
       const savedRecord = await airQualityRecord.save();
 
+      // Push the new reading to subscribed clients
+      await this.realtimeService.publishReading(savedRecord);
+
       await job.progress(80);
 
       // Check for high pollution and trigger alerts
-      if (apiResult.data!.aqi > 100) {
+      if (
+        apiResult.data!.aqi > 100 &&
+        !this.anomalyService.isExcluded(anomaly)
+      ) {
         await this.triggerHighPollutionAlert(apiResult.data!);
       }
 
@@ -97,20 +191,22 @@ export class AirQualityProcessor {
 
       const executionTime = Date.now() - startTime;
 
-      this.updateJobStats(JobType.FETCH_PARIS_DATA, true, executionTime);
+      this.updateJobStats(jobType, true, executionTime);
 
       this.logger.log(
-        `Successfully processed FETCH_PARIS_DATA job ${jobId} in ${executionTime}ms (AQI: ${apiResult.data!.aqi})`
+        `Successfully processed ${jobType} job ${jobId} in ${executionTime}ms (${apiResult.data!.location}, AQI: ${apiResult.data!.aqi})`
       );
 
       return {
         success: true,
         jobId,
-        jobType: JobType.FETCH_PARIS_DATA,
+        jobType,
         data: {
           recordId: savedRecord._id,
+          location: apiResult.data!.location,
           aqi: apiResult.data!.aqi,
           pollution_level: apiResult.data!.pollution_level,
+          anomaly: anomaly.flagged,
           apiResponseTime: apiResult.responseTime,
         },
         executionTime,
@@ -120,17 +216,17 @@ export class AirQualityProcessor {
     } catch (error) {
       const executionTime = Date.now() - startTime;
 
-      this.updateJobStats(JobType.FETCH_PARIS_DATA, false, executionTime);
+      this.updateJobStats(jobType, false, executionTime);
 
       this.logger.error(
-        `Failed to process FETCH_PARIS_DATA job ${jobId}:`,
+        `Failed to process ${jobType} job ${jobId}:`,
         error.message
       );
 
       // Check if we should trigger failure alerts
       if (job.attemptsMade >= (job.opts.attempts || 1) - 1) {
         await this.triggerJobFailureAlert(
-          JobType.FETCH_PARIS_DATA,
+          jobType,
           error.message,
           job.attemptsMade + 1
         );
@@ -139,7 +235,7 @@ export class AirQualityProcessor {
       return {
         success: false,
         jobId,
-        jobType: JobType.FETCH_PARIS_DATA,
+        jobType,
         error: error.message,
         executionTime,
         retryCount: job.attemptsMade,
@@ -365,8 +461,20 @@ export class AirQualityProcessor {
     }
 
     const aqiValues = records.map(r => r.aqi);
-    const temperatures = records.map(r => r.weather.temperature);
-    const humidities = records.map(r => r.weather.humidity);
+    const average = (values: number[]) =>
+      values.length > 0
+        ? Math.round(
+            (values.reduce((sum, value) => sum + value, 0) / values.length) *
+              100
+          ) / 100
+        : null;
+    // Providers without weather leave these unset
+    const temperatures = records
+      .map(r => r.weather?.temperature)
+      .filter(value => typeof value === 'number');
+    const humidities = records
+      .map(r => r.weather?.humidity)
+      .filter(value => typeof value === 'number');
 
     // Find peak and min AQI with timestamps
     const maxAqiRecord = records.reduce((max, record) =>
@@ -409,17 +517,8 @@ export class AirQualityProcessor {
         value: minAqiRecord.aqi,
         time: minAqiRecord.timestamp.toISOString(),
       },
-      avg_temperature:
-        Math.round(
-          (temperatures.reduce((sum, temp) => sum + temp, 0) /
-            temperatures.length) *
-            100
-        ) / 100,
-      avg_humidity:
-        Math.round(
-          (humidities.reduce((sum, hum) => sum + hum, 0) / humidities.length) *
-            100
-        ) / 100,
+      avg_temperature: average(temperatures),
+      avg_humidity: average(humidities),
       dominant_pollutant: dominantPollutant,
       pollution_level_distribution: pollutionLevelCounts,
       record_count: records.length,
@@ -471,6 +570,7 @@ export class AirQualityProcessor {
   private initializeJobStats(): void {
     const jobTypes = [
       JobType.FETCH_PARIS_DATA,
+      JobType.FETCH_CITY_DATA,
       JobType.CALCULATE_DAILY_STATS,
       JobType.SEND_ALERT_EMAIL,
     ];
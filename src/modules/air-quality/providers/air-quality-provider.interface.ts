@@ -0,0 +1,32 @@
+import { AirQualityProviderName } from '@/common/types';
+import { ApiCallResult } from '../services/iqair-api.service';
+
+export const AIR_QUALITY_PROVIDER_NAMES: AirQualityProviderName[] = [
+  'iqair',
+  'openaq',
+  'fixture',
+];
+
+/**
+ * Injection token for the list of registered providers
+ */
+export const AIR_QUALITY_PROVIDERS = 'AIR_QUALITY_PROVIDERS';
+
+/**
+ * Upstream source of air quality measurements.
+ * Implementations return data in the standardized hot-storage shape.
+ */
+export interface AirQualityProvider {
+  readonly name: AirQualityProviderName;
+
+  fetchCityAirQuality(
+    city: string,
+    state: string,
+    country: string
+  ): Promise<ApiCallResult>;
+
+  fetchNearestCityAirQuality(
+    latitude: number,
+    longitude: number
+  ): Promise<ApiCallResult>;
+}
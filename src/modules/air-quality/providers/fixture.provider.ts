@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+import {
+  ApiCallResult,
+  StandardizedAirQualityData,
+} from '../services/iqair-api.service';
+import { AirQualityProvider } from './air-quality-provider.interface';
+
+export interface AirQualityFixture {
+  city: string;
+  state: string;
+  country: string;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+  aqi: number;
+  main_pollutant: string;
+  weather: {
+    temperature: number;
+    humidity: number;
+  };
+}
+
+const DEFAULT_FIXTURES: AirQualityFixture[] = [
+  {
+    city: 'Paris',
+    state: 'Ile-de-France',
+    country: 'France',
+    coordinates: { latitude: 48.856613, longitude: 2.352222 },
+    aqi: 42,
+    main_pollutant: 'p2',
+    weather: { temperature: 18, humidity: 65 },
+  },
+];
+
+/**
+ * Offline provider serving readings from a JSON fixture file
+ * (`AIR_QUALITY_FIXTURES_PATH`), for local development. It only runs when
+ * listed in `AIR_QUALITY_PROVIDERS`, and its readings are never stored.
+ */
+@Injectable()
+export class FixtureProvider implements AirQualityProvider {
+  readonly name = 'fixture' as const;
+
+  private readonly logger = new Logger(FixtureProvider.name);
+  private fixtures: AirQualityFixture[] | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private aqiCalculatorService: AqiCalculatorService
+  ) {}
+
+  async fetchCityAirQuality(
+    city: string,
+    state: string,
+    country: string
+  ): Promise<ApiCallResult> {
+    const fixture = this.getFixtures().find(
+      f =>
+        f.city.toLowerCase() === city.toLowerCase() &&
+        f.country.toLowerCase() === country.toLowerCase()
+    );
+
+    if (!fixture) {
+      return this.notFound(`No fixture for ${city}, ${state}, ${country}`);
+    }
+
+    return this.toResult(fixture);
+  }
+
+  async fetchNearestCityAirQuality(
+    latitude: number,
+    longitude: number
+  ): Promise<ApiCallResult> {
+    const [nearest] = [...this.getFixtures()].sort(
+      (a, b) =>
+        this.squaredDistance(a, latitude, longitude) -
+        this.squaredDistance(b, latitude, longitude)
+    );
+
+    if (!nearest) {
+      return this.notFound('No fixtures loaded');
+    }
+
+    return this.toResult(nearest);
+  }
+
+  private getFixtures(): AirQualityFixture[] {
+    if (this.fixtures) {
+      return this.fixtures;
+    }
+
+    const path = this.configService.get<string>('providers.fixture.path');
+    if (!path) {
+      this.fixtures = DEFAULT_FIXTURES;
+      return this.fixtures;
+    }
+
+    try {
+      this.fixtures = JSON.parse(readFileSync(path, 'utf8'));
+      this.logger.log(`Loaded ${this.fixtures!.length} fixtures from ${path}`);
+    } catch (error) {
+      this.logger.error(`Failed to load fixtures from ${path}:`, error.message);
+      this.fixtures = DEFAULT_FIXTURES;
+    }
+
+    return this.fixtures!;
+  }
+
+  private toResult(fixture: AirQualityFixture): ApiCallResult {
+    const data: StandardizedAirQualityData = {
+      location: `${fixture.city}, ${fixture.state}, ${fixture.country}`,
+      coordinates: fixture.coordinates,
+      timestamp: new Date(),
+      aqi: fixture.aqi,
+      main_pollutant: fixture.main_pollutant,
+      pollution_level: this.aqiCalculatorService.getPollutionLevel(fixture.aqi),
+      weather: fixture.weather,
+      metadata: {
+        api_response_time: 0,
+        cached: false,
+        retry_count: 0,
+        provider: this.name,
+      },
+    };
+
+    return { success: true, data, responseTime: 0, retryCount: 0 };
+  }
+
+  private notFound(error: string): ApiCallResult {
+    return { success: false, error, responseTime: 0, retryCount: 0 };
+  }
+
+  private squaredDistance(
+    fixture: AirQualityFixture,
+    latitude: number,
+    longitude: number
+  ): number {
+    return (
+      Math.pow(fixture.coordinates.latitude - latitude, 2) +
+      Math.pow(fixture.coordinates.longitude - longitude, 2)
+    );
+  }
+}
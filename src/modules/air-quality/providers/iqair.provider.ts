@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+
+import { ApiCallResult, IQAirApiService } from '../services/iqair-api.service';
+import { AirQualityProvider } from './air-quality-provider.interface';
+
+@Injectable()
+export class IQAirProvider implements AirQualityProvider {
+  readonly name = 'iqair' as const;
+
+  constructor(private readonly iqairApiService: IQAirApiService) {}
+
+  async fetchCityAirQuality(
+    city: string,
+    state: string,
+    country: string
+  ): Promise<ApiCallResult> {
+    return this.iqairApiService.fetchCityAirQuality(city, state, country);
+  }
+
+  async fetchNearestCityAirQuality(
+    latitude: number,
+    longitude: number
+  ): Promise<ApiCallResult> {
+    return this.iqairApiService.fetchNearestCityAirQuality(latitude, longitude);
+  }
+}
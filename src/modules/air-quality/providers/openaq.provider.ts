@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+import {
+  ApiCallResult,
+  StandardizedAirQualityData,
+} from '../services/iqair-api.service';
+import { AirQualityProvider } from './air-quality-provider.interface';
+
+interface OpenAQMeasurement {
+  parameter: string;
+  value: number;
+  unit: string;
+  lastUpdated: string;
+}
+
+interface OpenAQLatestResult {
+  location: string;
+  city: string | null;
+  country: string;
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+  measurements: OpenAQMeasurement[];
+}
+
+interface OpenAQLatestResponse {
+  results: OpenAQLatestResult[];
+}
+
+/**
+ * Provider for OpenAQ-style `/latest` endpoints, which report raw
+ * concentrations instead of an index; US AQI is derived from PM2.5/PM10.
+ */
+@Injectable()
+export class OpenAQProvider implements AirQualityProvider {
+  readonly name = 'openaq' as const;
+
+  private readonly logger = new Logger(OpenAQProvider.name);
+  private readonly axiosInstance: AxiosInstance;
+  private readonly timeout: number = 10000; // 10 seconds
+  private readonly searchRadius: number = 25000; // 25km
+
+  constructor(
+    private configService: ConfigService,
+    private aqiCalculatorService: AqiCalculatorService
+  ) {
+    const apiKey = this.configService.get<string>('openaq.apiKey');
+
+    this.axiosInstance = axios.create({
+      baseURL:
+        this.configService.get<string>('openaq.baseUrl') ||
+        'https://api.openaq.org/v2',
+      timeout: this.timeout,
+      headers: {
+        'User-Agent': 'AQI-Monitor/1.0.0',
+        Accept: 'application/json',
+        ...(apiKey && { 'X-API-Key': apiKey }),
+      },
+    });
+  }
+
+  async fetchCityAirQuality(
+    city: string,
+    state: string,
+    country: string
+  ): Promise<ApiCallResult> {
+    return this.fetchLatest({ city, country, limit: 1 }, result => ({
+      location: `${city}, ${state}, ${country}`,
+      coordinates: result.coordinates,
+    }));
+  }
+
+  async fetchNearestCityAirQuality(
+    latitude: number,
+    longitude: number
+  ): Promise<ApiCallResult> {
+    return this.fetchLatest(
+      {
+        coordinates: `${latitude},${longitude}`,
+        radius: this.searchRadius,
+        order_by: 'distance',
+        limit: 1,
+      },
+      result => ({
+        location: [result.city || result.location, result.country]
+          .filter(Boolean)
+          .join(', '),
+        coordinates: result.coordinates,
+      })
+    );
+  }
+
+  private async fetchLatest(
+    params: Record<string, string | number>,
+    describe: (
+      result: OpenAQLatestResult
+    ) => Pick<StandardizedAirQualityData, 'location' | 'coordinates'>
+  ): Promise<ApiCallResult> {
+    const startTime = Date.now();
+
+    try {
+      const response = await this.axiosInstance.get<OpenAQLatestResponse>(
+        '/latest',
+        { params }
+      );
+      const responseTime = Date.now() - startTime;
+
+      const result = response.data.results?.[0];
+      if (!result) {
+        throw new Error('No measurements found');
+      }
+
+      return {
+        success: true,
+        data: this.standardizeResult(result, describe(result), responseTime),
+        responseTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+
+      this.logger.error(`OpenAQ call failed:`, error.message);
+
+      return {
+        success: false,
+        error: error.message,
+        responseTime,
+        retryCount: 0,
+      };
+    }
+  }
+
+  private standardizeResult(
+    result: OpenAQLatestResult,
+    place: Pick<StandardizedAirQualityData, 'location' | 'coordinates'>,
+    responseTime: number
+  ): StandardizedAirQualityData {
+    const measurement = (parameter: string) =>
+      result.measurements.find(m => m.parameter === parameter);
+
+    const pm25 = measurement('pm25');
+    const pm10 = measurement('pm10');
+    const usAqi = this.aqiCalculatorService.calculateUsAqi({
+      pm25: pm25?.value,
+      pm10: pm10?.value,
+    });
+
+    if (!usAqi) {
+      throw new Error('No PM2.5 or PM10 measurement available');
+    }
+
+    const lastUpdated = (usAqi.main_pollutant === 'p1' ? pm10 : pm25)
+      ?.lastUpdated;
+
+    return {
+      ...place,
+      timestamp: lastUpdated ? new Date(lastUpdated) : new Date(),
+      aqi: usAqi.aqi,
+      main_pollutant: usAqi.main_pollutant,
+      pollution_level: usAqi.pollution_level,
+      sub_indexes: usAqi.subIndexes.map(
+        ({ pollutant, concentration, index }) => ({
+          pollutant,
+          concentration,
+          index,
+        })
+      ),
+      weather: {
+        // OpenAQ stations rarely report weather
+        temperature: measurement('temperature')?.value,
+        humidity: measurement('relativehumidity')?.value,
+      },
+      metadata: {
+        api_response_time: responseTime,
+        cached: false,
+        retry_count: 0,
+        provider: this.name,
+      },
+    };
+  }
+}
@@ -48,6 +48,16 @@ export class AirQuality {
     maincn: string;
   };
 
+  // Measured concentrations and sub-indexes for manually entered records
+  @Prop({ type: Object })
+  concentrations?: Record<string, number>;
+
+  @Prop({ type: Object })
+  subIndexes?: {
+    us: { pollutant: string; concentration: number; index: number }[];
+    cn: { pollutant: string; concentration: number; index: number }[];
+  };
+
   @Prop({
     type: {
       ts: String,
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SensorDeviceDocument = SensorDevice & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'sensor_devices',
+})
+export class SensorDevice {
+  @Prop({ required: true, unique: true, trim: true })
+  deviceId: string;
+
+  @Prop({ trim: true })
+  name: string;
+
+  /** SHA-256 of the device key; the key itself is only returned once */
+  @Prop({ required: true, select: false })
+  keyHash: string;
+
+  @Prop({ required: true, trim: true })
+  city: string;
+
+  @Prop({ required: true, trim: true })
+  state: string;
+
+  @Prop({ required: true, trim: true })
+  country: string;
+
+  @Prop({
+    type: {
+      latitude: { type: Number, required: true, min: -90, max: 90 },
+      longitude: { type: Number, required: true, min: -180, max: 180 },
+    },
+    required: true,
+  })
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+
+  @Prop({ required: true, default: true })
+  enabled: boolean;
+
+  /** Timestamp of the newest accepted reading, used to reject out-of-order data */
+  @Prop({ type: Date, default: null })
+  lastReadingAt: Date | null;
+
+  @Prop({ default: Date.now })
+  createdAt: Date;
+
+  @Prop({ default: Date.now })
+  updatedAt: Date;
+}
+
+export const SensorDeviceSchema = SchemaFactory.createForClass(SensorDevice);
@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+import { AirQualityProviderName } from '@/common/types';
+import { AIR_QUALITY_PROVIDER_NAMES } from '../providers/air-quality-provider.interface';
+
+export type TrackedLocationDocument = TrackedLocation & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'tracked_locations',
+})
+export class TrackedLocation {
+  @Prop({ required: true, trim: true })
+  city: string;
+
+  @Prop({ required: true, trim: true })
+  state: string;
+
+  @Prop({ required: true, trim: true })
+  country: string;
+
+  @Prop({
+    type: {
+      latitude: { type: Number, required: true, min: -90, max: 90 },
+      longitude: { type: Number, required: true, min: -180, max: 180 },
+    },
+    required: true,
+  })
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+
+  @Prop({
+    required: true,
+    min: 1,
+    max: 24 * 60,
+    default: 1,
+  })
+  fetchIntervalMinutes: number;
+
+  @Prop({ required: true, default: true, index: true })
+  enabled: boolean;
+
+  /** Preferred provider; null uses the configured failover order */
+  @Prop({ type: String, enum: AIR_QUALITY_PROVIDER_NAMES, default: null })
+  provider: AirQualityProviderName | null;
+
+  @Prop({ type: Date, default: null })
+  lastScheduledAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastFetchedAt: Date | null;
+
+  @Prop({ default: Date.now })
+  createdAt: Date;
+
+  @Prop({ default: Date.now })
+  updatedAt: Date;
+}
+
+export const TrackedLocationSchema =
+  SchemaFactory.createForClass(TrackedLocation);
+
+// One registry entry per city/state/country triple
+TrackedLocationSchema.index(
+  { city: 1, state: 1, country: 1 },
+  { unique: true }
+);
+
+// Scheduler lookup: enabled locations ordered by last scheduling time
+TrackedLocationSchema.index({ enabled: 1, lastScheduledAt: 1 });
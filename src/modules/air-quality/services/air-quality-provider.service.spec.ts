@@ -0,0 +1,204 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import {
+  AIR_QUALITY_PROVIDERS,
+  AirQualityProvider,
+} from '../providers/air-quality-provider.interface';
+import { AirQualityProviderService } from './air-quality-provider.service';
+import { ApiCallResult } from './iqair-api.service';
+
+describe('AirQualityProviderService', () => {
+  let service: AirQualityProviderService;
+
+  const successResult = (provider: string): ApiCallResult => ({
+    success: true,
+    data: {
+      location: 'Paris, Ile-de-France, France',
+      coordinates: { latitude: 48.856613, longitude: 2.352222 },
+      timestamp: new Date(),
+      aqi: 42,
+      main_pollutant: 'p2',
+      pollution_level: 'Good',
+      weather: { temperature: 18, humidity: 65 },
+      metadata: {
+        api_response_time: 10,
+        cached: false,
+        retry_count: 0,
+        provider,
+      },
+    },
+    responseTime: 10,
+    retryCount: 0,
+  });
+
+  const failureResult: ApiCallResult = {
+    success: false,
+    error: 'Quota exceeded',
+    responseTime: 10,
+    retryCount: 0,
+  };
+
+  const createMockProvider = (name: 'iqair' | 'openaq' | 'fixture') => ({
+    name,
+    fetchCityAirQuality: jest.fn(),
+    fetchNearestCityAirQuality: jest.fn(),
+  });
+
+  const mockIQAirProvider = createMockProvider('iqair');
+  const mockOpenAQProvider = createMockProvider('openaq');
+  const mockFixtureProvider = createMockProvider('fixture');
+
+  const config: Record<string, any> = {
+    'providers.failoverOrder': ['iqair', 'openaq', 'fixture'],
+    'providers.circuitBreaker.threshold': 2,
+    'providers.circuitBreaker.timeout': 60000,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AirQualityProviderService,
+        {
+          provide: AIR_QUALITY_PROVIDERS,
+          useValue: [
+            mockIQAirProvider,
+            mockOpenAQProvider,
+            mockFixtureProvider,
+          ] as AirQualityProvider[],
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AirQualityProviderService>(AirQualityProviderService);
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('fetchCityAirQuality', () => {
+    it('should use the first provider in the failover order', async () => {
+      mockIQAirProvider.fetchCityAirQuality.mockResolvedValue(
+        successResult('iqair')
+      );
+
+      const result = await service.fetchCityAirQuality(
+        'Paris',
+        'Ile-de-France',
+        'France'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('iqair');
+      expect(mockOpenAQProvider.fetchCityAirQuality).not.toHaveBeenCalled();
+    });
+
+    it('should try the preferred provider first', async () => {
+      mockFixtureProvider.fetchCityAirQuality.mockResolvedValue(
+        successResult('fixture')
+      );
+
+      const result = await service.fetchCityAirQuality(
+        'Paris',
+        'Ile-de-France',
+        'France',
+        'fixture'
+      );
+
+      expect(result.provider).toBe('fixture');
+      expect(mockIQAirProvider.fetchCityAirQuality).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to the next provider when one fails', async () => {
+      mockIQAirProvider.fetchCityAirQuality.mockResolvedValue(failureResult);
+      mockOpenAQProvider.fetchCityAirQuality.mockResolvedValue(
+        successResult('openaq')
+      );
+
+      const result = await service.fetchCityAirQuality(
+        'Paris',
+        'Ile-de-France',
+        'France'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('openaq');
+      expect(result.attemptedProviders).toEqual(['iqair', 'openaq']);
+    });
+
+    it('should skip a provider while its circuit breaker is open', async () => {
+      mockIQAirProvider.fetchCityAirQuality.mockResolvedValue(failureResult);
+      mockOpenAQProvider.fetchCityAirQuality.mockResolvedValue(
+        successResult('openaq')
+      );
+
+      // Threshold is 2 consecutive failures
+      await service.fetchCityAirQuality('Paris', 'Ile-de-France', 'France');
+      await service.fetchCityAirQuality('Paris', 'Ile-de-France', 'France');
+      const result = await service.fetchCityAirQuality(
+        'Paris',
+        'Ile-de-France',
+        'France'
+      );
+
+      expect(mockIQAirProvider.fetchCityAirQuality).toHaveBeenCalledTimes(2);
+      expect(result.attemptedProviders).toEqual(['openaq']);
+
+      const iqairStatus = service
+        .getProviderStatus()
+        .find(status => status.name === 'iqair');
+      expect(iqairStatus?.circuitBreaker.state).toBe('OPEN');
+    });
+
+    it('should report a failure when every provider fails', async () => {
+      mockIQAirProvider.fetchCityAirQuality.mockResolvedValue(failureResult);
+      mockOpenAQProvider.fetchCityAirQuality.mockRejectedValue(
+        new Error('Network error')
+      );
+      mockFixtureProvider.fetchCityAirQuality.mockResolvedValue({
+        ...failureResult,
+        error: 'No fixture for Paris, Ile-de-France, France',
+      });
+
+      const result = await service.fetchCityAirQuality(
+        'Paris',
+        'Ile-de-France',
+        'France'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No fixture for Paris, Ile-de-France, France');
+      expect(result.attemptedProviders).toEqual(['iqair', 'openaq', 'fixture']);
+    });
+
+    it('should never use the fixture provider unless it is configured', async () => {
+      const liveOnly = new AirQualityProviderService(
+        [mockIQAirProvider, mockOpenAQProvider, mockFixtureProvider],
+        {
+          get: jest.fn((key: string) =>
+            key === 'providers.failoverOrder' ? ['iqair', 'openaq'] : undefined
+          ),
+        } as unknown as ConfigService
+      );
+      mockIQAirProvider.fetchCityAirQuality.mockResolvedValue(failureResult);
+      mockOpenAQProvider.fetchCityAirQuality.mockResolvedValue(failureResult);
+
+      const result = await liveOnly.fetchCityAirQuality(
+        'Paris',
+        'Ile-de-France',
+        'France',
+        'fixture'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.attemptedProviders).toEqual(['iqair', 'openaq']);
+      expect(mockFixtureProvider.fetchCityAirQuality).not.toHaveBeenCalled();
+      expect(liveOnly.getAvailableProviders()).toEqual(['iqair', 'openaq']);
+    });
+  });
+});
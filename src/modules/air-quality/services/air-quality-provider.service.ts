@@ -0,0 +1,255 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { AirQualityProviderName } from '@/common/types';
+import {
+  AIR_QUALITY_PROVIDERS,
+  AirQualityProvider,
+} from '../providers/air-quality-provider.interface';
+import { CircuitBreakerState } from './cron.service';
+import { ApiCallResult } from './iqair-api.service';
+
+export interface ProviderCallResult extends ApiCallResult {
+  provider?: AirQualityProviderName;
+  attemptedProviders: AirQualityProviderName[];
+}
+
+export interface ProviderStatus {
+  name: AirQualityProviderName;
+  circuitBreaker: CircuitBreakerState;
+}
+
+/**
+ * Routes fetches to the configured air quality providers, failing over to
+ * the next provider in line while a provider's circuit breaker is open.
+ */
+@Injectable()
+export class AirQualityProviderService {
+  private readonly logger = new Logger(AirQualityProviderService.name);
+  private readonly providers = new Map<
+    AirQualityProviderName,
+    AirQualityProvider
+  >();
+  private readonly circuitBreakers = new Map<
+    AirQualityProviderName,
+    CircuitBreakerState
+  >();
+  private readonly failoverOrder: AirQualityProviderName[];
+
+  constructor(
+    @Inject(AIR_QUALITY_PROVIDERS) providers: AirQualityProvider[],
+    private configService: ConfigService
+  ) {
+    const threshold =
+      this.configService.get<number>('providers.circuitBreaker.threshold') || 5;
+    const timeout =
+      this.configService.get<number>('providers.circuitBreaker.timeout') ||
+      5 * 60 * 1000;
+
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+      this.circuitBreakers.set(provider.name, {
+        failureCount: 0,
+        lastFailureTime: null,
+        state: 'CLOSED',
+        threshold,
+        timeout,
+      });
+    }
+
+    const configuredOrder =
+      this.configService.get<AirQualityProviderName[]>(
+        'providers.failoverOrder'
+      ) || [];
+    this.failoverOrder = configuredOrder.filter(name =>
+      this.providers.has(name)
+    );
+    if (this.failoverOrder.length === 0) {
+      this.failoverOrder = Array.from(this.providers.keys()).filter(
+        name => name !== 'fixture'
+      );
+    }
+  }
+
+  /**
+   * Fetch city data from the preferred provider, then from the failover chain
+   */
+  async fetchCityAirQuality(
+    city: string,
+    state: string,
+    country: string,
+    preferred?: AirQualityProviderName | null
+  ): Promise<ProviderCallResult> {
+    return this.withFailover(preferred, provider =>
+      provider.fetchCityAirQuality(city, state, country)
+    );
+  }
+
+  /**
+   * Fetch nearest-city data from the preferred provider, then from the failover chain
+   */
+  async fetchNearestCityAirQuality(
+    latitude: number,
+    longitude: number,
+    preferred?: AirQualityProviderName | null
+  ): Promise<ProviderCallResult> {
+    return this.withFailover(preferred, provider =>
+      provider.fetchNearestCityAirQuality(latitude, longitude)
+    );
+  }
+
+  getProviderStatus(): ProviderStatus[] {
+    return this.getProviderChain(null).map(name => ({
+      name,
+      circuitBreaker: { ...this.getCircuitBreaker(name) },
+    }));
+  }
+
+  getAvailableProviders(): AirQualityProviderName[] {
+    return Array.from(this.providers.keys()).filter(name =>
+      this.isEnabled(name)
+    );
+  }
+
+  private async withFailover(
+    preferred: AirQualityProviderName | null | undefined,
+    call: (provider: AirQualityProvider) => Promise<ApiCallResult>
+  ): Promise<ProviderCallResult> {
+    const attemptedProviders: AirQualityProviderName[] = [];
+    let lastResult: ApiCallResult | null = null;
+
+    for (const name of this.getProviderChain(preferred)) {
+      if (this.isCircuitOpen(name)) {
+        this.logger.debug(`Circuit breaker for ${name} is OPEN, skipping`);
+        continue;
+      }
+
+      attemptedProviders.push(name);
+      const result = await this.callProvider(name, call);
+
+      if (result.success) {
+        if (attemptedProviders.length > 1) {
+          this.logger.warn(
+            `Served by failover provider ${name} after ${attemptedProviders
+              .slice(0, -1)
+              .join(', ')} failed`
+          );
+        }
+        return { ...result, provider: name, attemptedProviders };
+      }
+
+      lastResult = result;
+    }
+
+    return {
+      success: false,
+      error: lastResult?.error || 'No air quality provider available',
+      responseTime: lastResult?.responseTime || 0,
+      retryCount: lastResult?.retryCount || 0,
+      attemptedProviders,
+    };
+  }
+
+  private async callProvider(
+    name: AirQualityProviderName,
+    call: (provider: AirQualityProvider) => Promise<ApiCallResult>
+  ): Promise<ApiCallResult> {
+    try {
+      const result = await call(this.providers.get(name)!);
+
+      if (result.success) {
+        this.resetCircuitBreaker(name);
+      } else {
+        this.recordFailure(name);
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Provider ${name} threw:`, error.message);
+      this.recordFailure(name);
+
+      return {
+        success: false,
+        error: error.message,
+        responseTime: 0,
+        retryCount: 0,
+      };
+    }
+  }
+
+  /**
+   * Preferred provider first, followed by the rest of the failover order
+   */
+  private getProviderChain(
+    preferred: AirQualityProviderName | null | undefined
+  ): AirQualityProviderName[] {
+    if (!preferred || !this.isEnabled(preferred)) {
+      return this.failoverOrder;
+    }
+
+    return [preferred, ...this.failoverOrder.filter(n => n !== preferred)];
+  }
+
+  /**
+   * The fixture provider serves canned readings, so it only runs when
+   * `AIR_QUALITY_PROVIDERS` names it
+   */
+  private isEnabled(name: AirQualityProviderName): boolean {
+    return (
+      this.providers.has(name) &&
+      (name !== 'fixture' || this.failoverOrder.includes(name))
+    );
+  }
+
+  private getCircuitBreaker(name: AirQualityProviderName): CircuitBreakerState {
+    return this.circuitBreakers.get(name)!;
+  }
+
+  private isCircuitOpen(name: AirQualityProviderName): boolean {
+    const breaker = this.getCircuitBreaker(name);
+
+    if (breaker.state === 'OPEN') {
+      const timeSinceLastFailure =
+        Date.now() - (breaker.lastFailureTime?.getTime() || 0);
+
+      if (timeSinceLastFailure > breaker.timeout) {
+        breaker.state = 'HALF_OPEN';
+        this.logger.log(`Circuit breaker for ${name} moved to HALF_OPEN`);
+        return false;
+      }
+
+      return true;
+    }
+
+    return false;
+  }
+
+  private recordFailure(name: AirQualityProviderName): void {
+    const breaker = this.getCircuitBreaker(name);
+
+    breaker.failureCount++;
+    breaker.lastFailureTime = new Date();
+
+    if (
+      breaker.state === 'HALF_OPEN' ||
+      breaker.failureCount >= breaker.threshold
+    ) {
+      breaker.state = 'OPEN';
+      this.logger.warn(
+        `Circuit breaker for ${name} OPENED after ${breaker.failureCount} failures`
+      );
+    }
+  }
+
+  private resetCircuitBreaker(name: AirQualityProviderName): void {
+    const breaker = this.getCircuitBreaker(name);
+
+    if (breaker.state !== 'CLOSED') {
+      this.logger.log(`Circuit breaker for ${name} CLOSED`);
+    }
+
+    breaker.failureCount = 0;
+    breaker.lastFailureTime = null;
+    breaker.state = 'CLOSED';
+  }
+}
@@ -0,0 +1,133 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+
+import { AirQualityHot } from '../../database/schemas/air-quality-hot.schema';
+import { AnomalyHistoryEntry, AnomalyService } from './anomaly.service';
+
+describe('AnomalyService', () => {
+  let service: AnomalyService;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const now = new Date('2024-08-05T10:00:00Z');
+
+  // A day of hourly readings around 40, newest first
+  const history: AnomalyHistoryEntry[] = Array.from({ length: 24 }, (_, i) => ({
+    aqi: 40 + ((i * 7) % 5) - 2,
+    timestamp: new Date(now.getTime() - (i + 1) * HOUR_MS),
+  }));
+
+  const query = (result: unknown) => ({
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockHotModel = {
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+
+  const config: Record<string, any> = {
+    'anomalies.window': 24,
+    'anomalies.threshold': 6,
+    'anomalies.maxRate': 150,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnomalyService,
+        {
+          provide: getModelToken(AirQualityHot.name),
+          useValue: mockHotModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AnomalyService>(AnomalyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should flag a spike but not the return to normal after it', () => {
+    const spike = service.score(480, now, history);
+
+    expect(spike).toEqual(
+      expect.objectContaining({
+        flagged: true,
+        reasons: ['outlier', 'rate_of_change'],
+        median: 40,
+        status: 'pending',
+      })
+    );
+    expect(spike.score).toBeGreaterThan(1);
+    expect(service.isExcluded(spike)).toBe(true);
+
+    const recovery = service.score(41, new Date(now.getTime() + HOUR_MS), [
+      { aqi: 480, timestamp: now, anomaly: { flagged: true } },
+      ...history,
+    ]);
+    expect(recovery.flagged).toBe(false);
+    expect(recovery.rate).toBeUndefined();
+  });
+
+  it('should let steady rises through and wait for enough history', () => {
+    const rise = service.score(90, now, history);
+    expect(rise.flagged).toBe(false);
+    expect(rise.reasons).toEqual([]);
+    expect(rise.score).toBeLessThan(1);
+
+    expect(service.score(480, now, history.slice(0, 5))).toEqual({
+      flagged: false,
+      score: 0,
+      reasons: [],
+    });
+  });
+
+  it('should dismiss a flag, letting the reading back in', async () => {
+    const id = new Types.ObjectId().toString();
+    const flag = {
+      flagged: true,
+      score: 9.4,
+      reasons: ['outlier'],
+      status: 'pending',
+    };
+    mockHotModel.findOne.mockReturnValue(query({ _id: id, anomaly: flag }));
+    mockHotModel.findByIdAndUpdate.mockReturnValue(
+      query({ _id: id, anomaly: { ...flag, flagged: false } })
+    );
+
+    const reading = await service.review(
+      id,
+      { decision: 'dismiss', note: 'Wildfire smoke' },
+      'Ops'
+    );
+
+    expect(mockHotModel.findByIdAndUpdate).toHaveBeenCalledWith(
+      id,
+      {
+        $set: expect.objectContaining({
+          'anomaly.flagged': false,
+          'anomaly.status': 'dismissed',
+          'anomaly.reviewed_by': 'Ops',
+          'anomaly.note': 'Wildfire smoke',
+        }),
+      },
+      { new: true }
+    );
+    expect(service.isExcluded(reading.anomaly)).toBe(false);
+
+    mockHotModel.findOne.mockReturnValue(query(null));
+    await expect(
+      service.review(id, { decision: 'confirm' }, 'Ops')
+    ).rejects.toThrow(`No flagged reading ${id}`);
+  });
+});
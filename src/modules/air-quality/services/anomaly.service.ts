@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+
+import { AnomalyQueryDto, ReviewAnomalyDto } from '@/common/dto/anomaly.dto';
+import { AnomalyReason, CursorPagination } from '@/common/types';
+import {
+  AirQualityHot,
+  AirQualityHotDocument,
+  AnomalyFlag,
+} from '../../database/schemas/air-quality-hot.schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Fewer recent readings than this and nothing is flagged */
+const MIN_HISTORY = 6;
+/** Scales the MAD to a standard deviation for normal data */
+const MAD_SCALE = 1.4826;
+/** Smallest spread used, so a flat series does not flag every wobble */
+const MIN_SPREAD = 10;
+
+const REVIEW_FIELDS = 'location timestamp aqi pollution_level source anomaly';
+
+/** Earlier reading of the same location, newest first in `history` */
+export interface AnomalyHistoryEntry {
+  aqi: number;
+  timestamp: Date;
+  anomaly?: Pick<AnomalyFlag, 'flagged'>;
+}
+
+export type AnomalyReading = Pick<
+  AirQualityHot,
+  'location' | 'timestamp' | 'aqi' | 'pollution_level' | 'source' | 'anomaly'
+> & { _id: Types.ObjectId };
+
+/**
+ * Flags readings that look like sensor glitches rather than air quality:
+ * far from the location's rolling median in MADs, or changing faster than
+ * `ANOMALY_MAX_RATE` AQI points an hour since the last unflagged reading.
+ * Operators confirm or dismiss the flags.
+ */
+@Injectable()
+export class AnomalyService {
+  private readonly logger = new Logger(AnomalyService.name);
+  private readonly window: number;
+  private readonly threshold: number;
+  private readonly maxRate: number;
+  private readonly exclude: boolean;
+
+  constructor(
+    @InjectModel(AirQualityHot.name)
+    private airQualityHotModel: Model<AirQualityHotDocument>,
+    private configService: ConfigService
+  ) {
+    this.window = this.configService.get<number>('anomalies.window') || 24;
+    this.threshold = this.configService.get<number>('anomalies.threshold') || 6;
+    this.maxRate = this.configService.get<number>('anomalies.maxRate') || 150;
+    this.exclude = this.configService.get<boolean>('anomalies.exclude') ?? true;
+  }
+
+  /**
+   * Score a new reading against the location's latest stored readings
+   */
+  async detect(
+    location: string,
+    aqi: number,
+    timestamp: Date
+  ): Promise<AnomalyFlag> {
+    const history = await this.airQualityHotModel
+      .find({ location, timestamp: { $lt: timestamp } })
+      .sort({ timestamp: -1 })
+      .limit(this.window)
+      .select('aqi timestamp anomaly.flagged')
+      .lean<AnomalyHistoryEntry[]>()
+      .exec();
+
+    const anomaly = this.score(aqi, timestamp, history);
+    if (anomaly.flagged) {
+      this.logger.warn(
+        `Flagged AQI ${aqi} in ${location} as ${anomaly.reasons.join(', ')} (median ${anomaly.median}, score ${anomaly.score})`
+      );
+    }
+    return anomaly;
+  }
+
+  /**
+   * Score `aqi` against `history`, newest first. Flagged readings stay in
+   * the median, so a lasting change stops being flagged once it makes up
+   * half the window.
+   */
+  score(
+    aqi: number,
+    timestamp: Date,
+    history: AnomalyHistoryEntry[]
+  ): AnomalyFlag {
+    if (history.length < MIN_HISTORY) {
+      return { flagged: false, score: 0, reasons: [] };
+    }
+
+    const values = history.map(entry => entry.aqi);
+    const median = this.median(values);
+    const mad = this.median(values.map(value => Math.abs(value - median)));
+    const deviation =
+      Math.abs(aqi - median) / Math.max(MAD_SCALE * mad, MIN_SPREAD);
+
+    const reasons: AnomalyReason[] = [];
+    if (deviation > this.threshold) {
+      reasons.push('outlier');
+    }
+
+    // Coming back from a glitch is not a jump of its own
+    const [previous] = history;
+    let rate: number | undefined;
+    if (!previous.anomaly?.flagged) {
+      const hours = Math.max(
+        (timestamp.getTime() - new Date(previous.timestamp).getTime()) /
+          HOUR_MS,
+        1
+      );
+      rate = Math.abs(aqi - previous.aqi) / hours;
+      if (rate > this.maxRate) {
+        reasons.push('rate_of_change');
+      }
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const flagged = reasons.length > 0;
+    return {
+      flagged,
+      score: round(
+        Math.max(deviation / this.threshold, (rate ?? 0) / this.maxRate)
+      ),
+      reasons,
+      median: round(median),
+      mad: round(mad),
+      ...(rate !== undefined && { rate: round(rate) }),
+      ...(flagged && { status: 'pending' as const }),
+    };
+  }
+
+  /**
+   * Whether a reading is kept out of alerts and analytics
+   */
+  isExcluded(anomaly?: AnomalyFlag): boolean {
+    return this.exclude && !!anomaly?.flagged;
+  }
+
+  /**
+   * One page of flagged readings, newest first
+   */
+  async find(
+    query: AnomalyQueryDto
+  ): Promise<{ data: AnomalyReading[]; pagination: CursorPagination }> {
+    const limit = query.limit ?? 50;
+    const filter: FilterQuery<AirQualityHotDocument> = {
+      'anomaly.status': query.status ?? 'pending',
+    };
+    if (query.location) {
+      filter.location = query.location;
+    }
+    if (query.cursor) {
+      filter._id = { $lt: this.decodeCursor(query.cursor) };
+    }
+
+    const readings = await this.airQualityHotModel
+      .find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .select(REVIEW_FIELDS)
+      .lean<AnomalyReading[]>()
+      .exec();
+
+    const hasNext = readings.length > limit;
+    const data = readings.slice(0, limit);
+    return {
+      data,
+      pagination: {
+        limit,
+        hasNext,
+        nextCursor: hasNext
+          ? Buffer.from(String(data[data.length - 1]._id)).toString('base64url')
+          : null,
+      },
+    };
+  }
+
+  async getAnomaly(id: string): Promise<AnomalyReading> {
+    const reading = Types.ObjectId.isValid(id)
+      ? await this.airQualityHotModel
+          .findOne({ _id: id, 'anomaly.status': { $exists: true } })
+          .select(REVIEW_FIELDS)
+          .lean<AnomalyReading>()
+          .exec()
+      : null;
+
+    if (!reading) {
+      throw new NotFoundException(`No flagged reading ${id}`);
+    }
+    return reading;
+  }
+
+  /**
+   * Confirm a flag, keeping the reading out, or dismiss it, letting the
+   * reading back into alerts and analytics. Decisions can be changed.
+   */
+  async review(
+    id: string,
+    reviewDto: ReviewAnomalyDto,
+    reviewer: string
+  ): Promise<AnomalyReading> {
+    await this.getAnomaly(id);
+
+    const confirmed = reviewDto.decision === 'confirm';
+    const reading = await this.airQualityHotModel
+      .findByIdAndUpdate(
+        id,
+        {
+          $set: {
+            'anomaly.flagged': confirmed,
+            'anomaly.status': confirmed ? 'confirmed' : 'dismissed',
+            'anomaly.reviewed_by': reviewer,
+            'anomaly.reviewed_at': new Date(),
+            'anomaly.note': reviewDto.note ?? null,
+          },
+        },
+        { new: true }
+      )
+      .select(REVIEW_FIELDS)
+      .lean<AnomalyReading>()
+      .exec();
+
+    this.logger.log(
+      `Anomaly on reading ${id} ${confirmed ? 'confirmed' : 'dismissed'} by ${reviewer}`
+    );
+    return reading!;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  private decodeCursor(cursor: string): Types.ObjectId {
+    const id = Buffer.from(cursor, 'base64url').toString('utf8');
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    return new Types.ObjectId(id);
+  }
+}
@@ -2,15 +2,13 @@ import { InjectQueue } from '@nestjs/bull';
 import { Cache, CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { InjectModel } from '@nestjs/mongoose';
 import { Cron, SchedulerRegistry } from '@nestjs/schedule';
 import { Queue } from 'bull';
-import { Model } from 'mongoose';
 
 import { AnalyticsService } from '../../analytics/services/analytics.service';
 import { QueueHealthService } from '../../queue/services/queue-health.service';
 import { JobPriority, QueueService } from '../../queue/services/queue.service';
-import { AirQuality, AirQualityDocument } from '../schemas/air-quality.schema';
+import { TrackedLocationService } from './tracked-location.service';
 
 export interface CronJobStats {
   jobName: string;
@@ -49,36 +47,37 @@ export class CronService {
     @InjectQueue('air-quality') private airQualityQueue: Queue,
     @InjectQueue('analytics') private analyticsQueue: Queue,
     @InjectQueue('notifications') private notificationsQueue: Queue,
-    @InjectModel(AirQuality.name)
-    private airQualityModel: Model<AirQualityDocument>,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
     private configService: ConfigService,
     private schedulerRegistry: SchedulerRegistry,
     private queueService: QueueService,
     private analyticsService: AnalyticsService,
-    private queueHealthService: QueueHealthService
+    private queueHealthService: QueueHealthService,
+    private trackedLocationService: TrackedLocationService
   ) {
     this.initializeJobStats();
   }
 
   /**
-   * Every minute: Add Paris data fetch to queue
+   * Every minute: Add a fetch job for each tracked location that is due
    * CRON: '* * * * *'
    */
   @Cron('* * * * *', {
-    name: 'fetch-paris-data',
-    timeZone: 'Europe/Paris',
+    name: 'fetch-tracked-locations',
+    timeZone: 'UTC',
   })
-  async scheduleParisFetch(): Promise<void> {
-    const jobName = 'fetch-paris-data';
+  async scheduleTrackedLocationFetches(): Promise<void> {
+    const jobName = 'fetch-tracked-locations';
     const startTime = Date.now();
 
     try {
-      this.logger.debug('Executing Paris data fetch scheduling job');
+      this.logger.debug('Executing tracked location fetch scheduling job');
 
       // Check circuit breaker
       if (this.isCircuitOpen()) {
-        this.logger.warn('Circuit breaker is OPEN, skipping Paris data fetch');
+        this.logger.warn(
+          'Circuit breaker is OPEN, skipping tracked location fetches'
+        );
         this.updateJobStats(
           jobName,
           startTime,
@@ -88,15 +87,7 @@ export class CronService {
         return;
       }
 
-      // Prevent duplicate jobs
-      const preventionKey = `paris-fetch-${Math.floor(Date.now() / 60000)}`; // Per minute
-      if (this.duplicatePreventionKeys.has(preventionKey)) {
-        this.logger.debug('Duplicate Paris fetch job prevented');
-        return;
-      }
-      this.duplicatePreventionKeys.add(preventionKey);
-
-      // Check queue health before adding job
+      // Check queue health before adding jobs
       const queueHealth =
         await this.queueHealthService.getQueueHealth('air-quality');
       if (queueHealth.healthScore < 0.7) {
@@ -105,8 +96,40 @@ export class CronService {
         return;
       }
 
-      // Add job to queue
-      await this.queueService.addFetchParisDataJob(JobPriority.NORMAL);
+      const currentMinute = Math.floor(Date.now() / 60000);
+      const dueLocations = await this.trackedLocationService.getDueLocations();
+
+      let scheduled = 0;
+      for (const location of dueLocations) {
+        const locationId = location._id.toString();
+
+        // Prevent duplicate jobs per location and minute
+        const preventionKey = `fetch-${locationId}-${currentMinute}`;
+        if (this.duplicatePreventionKeys.has(preventionKey)) {
+          this.logger.debug(
+            `Duplicate fetch job prevented for ${location.city}, ${location.country}`
+          );
+          continue;
+        }
+        this.duplicatePreventionKeys.add(preventionKey);
+
+        await this.queueService.addFetchCityDataJob(
+          {
+            locationId,
+            city: location.city,
+            state: location.state,
+            country: location.country,
+            provider: location.provider,
+          },
+          JobPriority.NORMAL
+        );
+        await this.trackedLocationService.markScheduled(locationId);
+        scheduled++;
+      }
+
+      this.logger.debug(
+        `Scheduled ${scheduled}/${dueLocations.length} tracked location fetches`
+      );
 
       // Clean up old prevention keys (keep only last 5 minutes)
       this.cleanupDuplicatePreventionKeys();
@@ -138,20 +161,14 @@ export class CronService {
       // Get current date for aggregation
       const currentDate = new Date().toISOString().split('T')[0];
 
-      // Add analytics job for Paris (primary location)
-      await this.queueService.addCalculateDailyStatsJob(
-        'Paris',
-        currentDate,
-        JobPriority.NORMAL
-      );
-
-      // Add jobs for other tracked locations if any
-      const trackedLocations = await this.getTrackedLocations();
+      // Add analytics job for every tracked location
+      const trackedLocations =
+        await this.trackedLocationService.getEnabledLocations();
       for (const location of trackedLocations) {
         await this.queueService.addCalculateDailyStatsJob(
-          location,
+          this.trackedLocationService.toLocationLabel(location),
           currentDate,
-          JobPriority.LOW
+          JobPriority.NORMAL
         );
       }
 
@@ -178,21 +195,23 @@ export class CronService {
       this.logger.log('Executing daily statistics finalization job');
 
       const today = new Date().toISOString().split('T')[0];
-      const trackedLocations = await this.getTrackedLocations();
+      const trackedLocations =
+        await this.trackedLocationService.getEnabledLocations();
 
       // Generate final daily reports
       for (const location of trackedLocations) {
-        try {
-          const [city, country] = location.split(',').map(s => s.trim());
+        const { city, state, country } = location;
 
+        try {
           // Generate daily report
           const dailyReport = await this.analyticsService.generateDailyReport(
             city,
-            country
+            country,
+            state
           );
 
           // Cache the report
-          const cacheKey = `daily-report:${city}:${country}:${today}`;
+          const cacheKey = `daily-report:${city}:${state}:${country}:${today}`;
           await this.cacheManager.set(cacheKey, dailyReport, 24 * 60 * 60); // Cache for 24 hours
 
           // Add notification job if AQI is concerning
@@ -201,6 +220,7 @@ export class CronService {
               'daily-aqi-alert',
               {
                 city,
+                state,
                 country,
                 averageAQI: dailyReport.averageAQI,
                 date: today,
@@ -212,7 +232,7 @@ export class CronService {
           }
         } catch (locationError) {
           this.logger.error(
-            `Error processing location ${location}:`,
+            `Error processing location ${this.trackedLocationService.toLocationLabel(location)}:`,
             locationError
           );
         }
@@ -373,8 +393,8 @@ export class CronService {
     this.logger.log(`Manually executing job: ${jobName}`);
 
     switch (jobName) {
-      case 'fetch-paris-data':
-        await this.scheduleParisFetch();
+      case 'fetch-tracked-locations':
+        await this.scheduleTrackedLocationFetches();
         break;
       case 'hourly-aggregations':
         await this.scheduleHourlyAggregations();
@@ -421,7 +441,7 @@ export class CronService {
 
   private initializeJobStats(): void {
     const jobs = [
-      'fetch-paris-data',
+      'fetch-tracked-locations',
       'hourly-aggregations',
       'finalize-daily-stats',
       'weekly-cleanup',
@@ -502,16 +522,6 @@ export class CronService {
     }
   }
 
-  private async getTrackedLocations(): Promise<string[]> {
-    // Get unique locations from the database
-    const locations = await this.airQualityModel.distinct('city').exec();
-    const countries = await this.airQualityModel.distinct('country').exec();
-
-    // For simplicity, return primary locations
-    // In a real scenario, you might have a configuration table
-    return ['Paris, France'];
-  }
-
   private async clearOldCacheEntries(): Promise<void> {
     // This would depend on your cache implementation
     // For Redis, you might use SCAN with pattern matching
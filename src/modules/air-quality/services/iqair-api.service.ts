@@ -16,14 +16,18 @@ export interface StandardizedAirQualityData {
   aqi: number;
   main_pollutant: string;
   pollution_level: string;
+  /** Set by providers that compute the AQI from concentrations */
+  sub_indexes?: { pollutant: string; concentration: number; index: number }[];
+  /** Unset when the provider does not report them */
   weather: {
-    temperature: number;
-    humidity: number;
+    temperature?: number;
+    humidity?: number;
   };
   metadata: {
     api_response_time: number;
     cached: boolean;
     retry_count: number;
+    provider?: string;
   };
 }
 
@@ -304,6 +308,7 @@ export class IQAirApiService {
         api_response_time: responseTime,
         cached: false,
         retry_count: retryCount,
+        provider: 'iqair',
       },
     };
   }
@@ -336,6 +341,7 @@ export class IQAirApiService {
         api_response_time: responseTime,
         cached: false,
         retry_count: retryCount,
+        provider: 'iqair',
       },
     };
   }
@@ -0,0 +1,155 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+import { AirQualityHot } from '../../database/schemas/air-quality-hot.schema';
+import { SensorDevice } from '../schemas/sensor-device.schema';
+import { SensorIngestionService } from './sensor-ingestion.service';
+import { TrackedLocationService } from './tracked-location.service';
+
+describe('SensorIngestionService', () => {
+  let service: SensorIngestionService;
+
+  const deviceKey = 'device-secret';
+
+  const mockDevice = {
+    _id: 'device-object-id',
+    deviceId: 'pm-01',
+    keyHash: createHash('sha256').update(deviceKey).digest('hex'),
+    city: 'Paris',
+    state: 'Ile-de-France',
+    country: 'France',
+    coordinates: { latitude: 48.856613, longitude: 2.352222 },
+    enabled: true,
+    lastReadingAt: new Date('2024-08-05T09:00:00Z'),
+  };
+
+  const mockSensorDeviceModel = {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockAirQualityHotModel = {
+    create: jest.fn(),
+  };
+
+  const reading = (timestamp: string, overrides = {}) => ({
+    deviceId: 'pm-01',
+    deviceKey,
+    timestamp: new Date(timestamp),
+    pm25: 20,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SensorIngestionService,
+        AqiCalculatorService,
+        {
+          provide: getModelToken(SensorDevice.name),
+          useValue: mockSensorDeviceModel,
+        },
+        {
+          provide: getModelToken(AirQualityHot.name),
+          useValue: mockAirQualityHotModel,
+        },
+        {
+          provide: TrackedLocationService,
+          useValue: {
+            toLocationLabel: jest.fn(
+              ({ city, state, country }) => `${city}, ${state}, ${country}`
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SensorIngestionService>(SensorIngestionService);
+
+    mockSensorDeviceModel.find.mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue([mockDevice]),
+      }),
+    });
+    mockSensorDeviceModel.updateOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue({}),
+    });
+    mockAirQualityHotModel.create.mockImplementation(async doc => ({
+      _id: `record-${doc.timestamp.toISOString()}`,
+      ...doc,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ingest', () => {
+    it('should store valid readings as sensor records with a computed US AQI', async () => {
+      const report = await service.ingest([reading('2024-08-05T09:30:00Z')]);
+
+      expect(report).toMatchObject({ received: 1, accepted: 1, rejected: 0 });
+      expect(report.results[0]).toMatchObject({ status: 'accepted', aqi: 71 });
+      expect(mockAirQualityHotModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          location: 'Paris, Ile-de-France, France',
+          aqi: 71,
+          main_pollutant: 'p2',
+          sub_indexes: [{ pollutant: 'pm25', concentration: 20, index: 71 }],
+          // The sensor reports no weather, so none is stored
+          weather: { temperature: undefined, humidity: undefined },
+          source: 'sensor',
+          metadata: expect.objectContaining({ device_id: 'pm-01' }),
+        })
+      );
+      expect(mockSensorDeviceModel.updateOne).toHaveBeenCalled();
+    });
+
+    it('should reject readings with an invalid device key', async () => {
+      const report = await service.ingest([
+        reading('2024-08-05T09:30:00Z', { deviceKey: 'wrong' }),
+      ]);
+
+      expect(report.rejected).toBe(1);
+      expect(report.results[0].error?.code).toBe('INVALID_DEVICE');
+      expect(mockAirQualityHotModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate and out-of-order readings per item', async () => {
+      const report = await service.ingest([
+        reading('2024-08-05T09:30:00Z'),
+        reading('2024-08-05T09:30:00Z'),
+        reading('2024-08-05T09:15:00Z'),
+        reading('2024-08-05T08:00:00Z'),
+        reading('2024-08-05T09:45:00Z'),
+      ]);
+
+      expect(report).toMatchObject({ received: 5, accepted: 2, rejected: 3 });
+      expect(report.results.map(r => r.error?.code ?? r.status)).toEqual([
+        'accepted',
+        'DUPLICATE',
+        'OUT_OF_ORDER',
+        'OUT_OF_ORDER',
+        'accepted',
+      ]);
+    });
+
+    it('should report a duplicate when the unique index rejects the insert', async () => {
+      mockAirQualityHotModel.create.mockRejectedValueOnce({ code: 11000 });
+
+      const report = await service.ingest([reading('2024-08-05T09:30:00Z')]);
+
+      expect(report.results[0].error?.code).toBe('DUPLICATE');
+    });
+
+    it('should reject readings without concentrations', async () => {
+      const report = await service.ingest([
+        reading('2024-08-05T09:30:00Z', { pm25: undefined }),
+      ]);
+
+      expect(report.results[0].error?.code).toBe('NO_CONCENTRATIONS');
+    });
+  });
+});
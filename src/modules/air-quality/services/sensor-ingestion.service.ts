@@ -0,0 +1,290 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Model } from 'mongoose';
+
+import {
+  CreateSensorDeviceDto,
+  SensorIngestionResponseDto,
+  SensorReadingDto,
+  SensorReadingErrorCode,
+  SensorReadingResultDto,
+  UpdateSensorDeviceDto,
+} from '@/common/dto/sensor.dto';
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+import {
+  AirQualityHot,
+  AirQualityHotDocument,
+} from '../../database/schemas/air-quality-hot.schema';
+import {
+  SensorDevice,
+  SensorDeviceDocument,
+} from '../schemas/sensor-device.schema';
+import { TrackedLocationService } from './tracked-location.service';
+
+/** Readings stamped further ahead than this are rejected as clock errors */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class SensorIngestionService {
+  private readonly logger = new Logger(SensorIngestionService.name);
+
+  constructor(
+    @InjectModel(SensorDevice.name)
+    private sensorDeviceModel: Model<SensorDeviceDocument>,
+    @InjectModel(AirQualityHot.name)
+    private airQualityHotModel: Model<AirQualityHotDocument>,
+    private aqiCalculatorService: AqiCalculatorService,
+    private trackedLocationService: TrackedLocationService
+  ) {}
+
+  /**
+   * Register a device; the returned key is not stored and cannot be recovered
+   */
+  async registerDevice(
+    createDto: CreateSensorDeviceDto
+  ): Promise<{ device: SensorDeviceDocument; deviceKey: string }> {
+    const deviceKey = randomBytes(24).toString('hex');
+
+    try {
+      const device = await this.sensorDeviceModel.create({
+        ...createDto,
+        keyHash: this.hashKey(deviceKey),
+      });
+      this.logger.log(`Registered sensor device ${createDto.deviceId}`);
+
+      // Re-read so the key hash (select: false) is not echoed back
+      const stored = await this.sensorDeviceModel.findById(device._id).exec();
+      return { device: stored!, deviceKey };
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new ConflictException(
+          `Sensor device ${createDto.deviceId} already exists`
+        );
+      }
+      throw error;
+    }
+  }
+
+  async listDevices(): Promise<SensorDeviceDocument[]> {
+    return this.sensorDeviceModel.find().sort({ deviceId: 1 }).exec();
+  }
+
+  async updateDevice(
+    deviceId: string,
+    updateDto: UpdateSensorDeviceDto
+  ): Promise<SensorDeviceDocument> {
+    const device = await this.sensorDeviceModel
+      .findOneAndUpdate({ deviceId }, { $set: updateDto }, { new: true })
+      .exec();
+
+    if (!device) {
+      throw new NotFoundException(`Sensor device ${deviceId} not found`);
+    }
+
+    return device;
+  }
+
+  async removeDevice(deviceId: string): Promise<void> {
+    const device = await this.sensorDeviceModel
+      .findOneAndDelete({ deviceId })
+      .exec();
+
+    if (!device) {
+      throw new NotFoundException(`Sensor device ${deviceId} not found`);
+    }
+
+    this.logger.log(`Removed sensor device ${deviceId}`);
+  }
+
+  /**
+   * Authenticate, validate and store a batch of readings.
+   * Each reading is accepted or rejected on its own.
+   */
+  async ingest(
+    readings: SensorReadingDto[]
+  ): Promise<SensorIngestionResponseDto> {
+    const deviceIds = [...new Set(readings.map(r => r.deviceId))];
+    const devices = await this.sensorDeviceModel
+      .find({ deviceId: { $in: deviceIds } })
+      .select('+keyHash')
+      .exec();
+    const devicesById = new Map(devices.map(d => [d.deviceId, d]));
+
+    // Newest accepted timestamp per device, including this batch
+    const latestByDevice = new Map<string, number>(
+      devices
+        .filter(d => d.lastReadingAt)
+        .map(d => [d.deviceId, d.lastReadingAt!.getTime()])
+    );
+
+    const results: SensorReadingResultDto[] = [];
+
+    for (const [index, reading] of readings.entries()) {
+      const reject = (code: SensorReadingErrorCode, message: string) =>
+        results.push({
+          index,
+          deviceId: reading.deviceId,
+          timestamp: reading.timestamp,
+          status: 'rejected',
+          error: { code, message },
+        });
+
+      const device = devicesById.get(reading.deviceId);
+      if (
+        !device ||
+        !device.enabled ||
+        !this.isValidKey(reading.deviceKey, device.keyHash)
+      ) {
+        reject('INVALID_DEVICE', 'Unknown or disabled device, or invalid key');
+        continue;
+      }
+
+      const usAqi = this.aqiCalculatorService.calculateUsAqi({
+        pm25: reading.pm25,
+        pm10: reading.pm10,
+        o3_8h: reading.o3_8h,
+        o3_1h: reading.o3_1h,
+        no2: reading.no2,
+        so2: reading.so2,
+        co: reading.co,
+      });
+      if (!usAqi) {
+        reject(
+          'NO_CONCENTRATIONS',
+          'Reading has no concentration the US AQI covers'
+        );
+        continue;
+      }
+
+      const readingTime = reading.timestamp.getTime();
+      if (readingTime > Date.now() + MAX_CLOCK_SKEW_MS) {
+        reject('FUTURE_TIMESTAMP', 'Reading timestamp is in the future');
+        continue;
+      }
+
+      const latest = latestByDevice.get(device.deviceId);
+      if (latest !== undefined && readingTime === latest) {
+        reject('DUPLICATE', 'A reading with this timestamp already exists');
+        continue;
+      }
+      if (latest !== undefined && readingTime < latest) {
+        reject(
+          'OUT_OF_ORDER',
+          `Reading is older than the latest accepted reading (${new Date(latest).toISOString()})`
+        );
+        continue;
+      }
+
+      try {
+        const record = await this.airQualityHotModel.create({
+          location: this.trackedLocationService.toLocationLabel(device),
+          coordinates: device.coordinates,
+          timestamp: reading.timestamp,
+          aqi: usAqi.aqi,
+          main_pollutant: usAqi.main_pollutant,
+          pollution_level: usAqi.pollution_level,
+          sub_indexes: usAqi.subIndexes.map(
+            ({ pollutant, concentration, index }) => ({
+              pollutant,
+              concentration,
+              index,
+            })
+          ),
+          weather: {
+            temperature: reading.temperature,
+            humidity: reading.humidity,
+          },
+          source: 'sensor',
+          metadata: {
+            api_response_time: 0,
+            cached: false,
+            retry_count: 0,
+            provider: 'sensor',
+            device_id: device.deviceId,
+          },
+        });
+
+        latestByDevice.set(device.deviceId, readingTime);
+        results.push({
+          index,
+          deviceId: device.deviceId,
+          timestamp: reading.timestamp,
+          status: 'accepted',
+          recordId: record._id.toString(),
+          aqi: usAqi.aqi,
+        });
+      } catch (error) {
+        if (error.code === 11000) {
+          reject('DUPLICATE', 'A reading with this timestamp already exists');
+        } else {
+          this.logger.error(
+            `Failed to store reading from ${device.deviceId}:`,
+            error.message
+          );
+          reject('STORAGE_ERROR', 'Failed to store reading');
+        }
+      }
+    }
+
+    await this.updateLastReadingTimes(latestByDevice, devices);
+
+    const accepted = results.filter(r => r.status === 'accepted').length;
+    this.logger.log(
+      `Ingested ${accepted}/${readings.length} sensor readings from ${deviceIds.length} device(s)`
+    );
+
+    return {
+      received: readings.length,
+      accepted,
+      rejected: readings.length - accepted,
+      results,
+    };
+  }
+
+  private async updateLastReadingTimes(
+    latestByDevice: Map<string, number>,
+    devices: SensorDeviceDocument[]
+  ): Promise<void> {
+    for (const device of devices) {
+      const latest = latestByDevice.get(device.deviceId);
+      if (latest === undefined || latest === device.lastReadingAt?.getTime()) {
+        continue;
+      }
+
+      const lastReadingAt = new Date(latest);
+      // Never move the watermark backwards if a concurrent batch got further
+      await this.sensorDeviceModel
+        .updateOne(
+          {
+            _id: device._id,
+            $or: [
+              { lastReadingAt: null },
+              { lastReadingAt: { $lt: lastReadingAt } },
+            ],
+          },
+          { $set: { lastReadingAt } }
+        )
+        .exec();
+    }
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private isValidKey(key: string, keyHash: string): boolean {
+    const candidate = Buffer.from(this.hashKey(key), 'hex');
+    const expected = Buffer.from(keyHash, 'hex');
+
+    return (
+      candidate.length === expected.length &&
+      timingSafeEqual(candidate, expected)
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+
+import {
+  CreateTrackedLocationDto,
+  TrackedLocationQueryDto,
+  UpdateTrackedLocationDto,
+} from '@/common/dto/tracked-location.dto';
+import {
+  TrackedLocation,
+  TrackedLocationDocument,
+} from '../schemas/tracked-location.schema';
+
+/**
+ * Location seeded on first boot so that an empty registry keeps the
+ * historical Paris behaviour.
+ */
+const DEFAULT_TRACKED_LOCATION: CreateTrackedLocationDto = {
+  city: 'Paris',
+  state: 'Ile-de-France',
+  country: 'France',
+  coordinates: { latitude: 48.856613, longitude: 2.352222 },
+  fetchIntervalMinutes: 1,
+  enabled: true,
+};
+
+@Injectable()
+export class TrackedLocationService implements OnModuleInit {
+  private readonly logger = new Logger(TrackedLocationService.name);
+
+  constructor(
+    @InjectModel(TrackedLocation.name)
+    private trackedLocationModel: Model<TrackedLocationDocument>
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      const count = await this.trackedLocationModel.estimatedDocumentCount();
+      if (count === 0) {
+        await this.trackedLocationModel.create(DEFAULT_TRACKED_LOCATION);
+        this.logger.log(
+          `Seeded tracked location registry with ${DEFAULT_TRACKED_LOCATION.city}`
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to seed tracked location registry:', error);
+    }
+  }
+
+  /**
+   * List registry entries
+   */
+  async findAll(
+    query: TrackedLocationQueryDto = {}
+  ): Promise<TrackedLocationDocument[]> {
+    const filter: FilterQuery<TrackedLocationDocument> = {};
+
+    if (query.enabled !== undefined) {
+      filter.enabled = query.enabled;
+    }
+    if (query.country) {
+      filter.country = query.country;
+    }
+
+    return this.trackedLocationModel
+      .find(filter)
+      .sort({ country: 1, city: 1 })
+      .exec();
+  }
+
+  /**
+   * Get a single registry entry
+   */
+  async findById(id: string): Promise<TrackedLocationDocument> {
+    const location = await this.trackedLocationModel.findById(id).exec();
+
+    if (!location) {
+      throw new NotFoundException(`Tracked location ${id} not found`);
+    }
+
+    return location;
+  }
+
+  /**
+   * Register a new location
+   */
+  async create(
+    createDto: CreateTrackedLocationDto
+  ): Promise<TrackedLocationDocument> {
+    try {
+      const location = await this.trackedLocationModel.create(createDto);
+      this.logger.log(
+        `Tracking new location: ${this.toLocationLabel(location)}`
+      );
+      return location;
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new ConflictException(
+          `${createDto.city}, ${createDto.state}, ${createDto.country} is already tracked`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update coordinates, interval or enabled flag of a location
+   */
+  async update(
+    id: string,
+    updateDto: UpdateTrackedLocationDto
+  ): Promise<TrackedLocationDocument> {
+    const location = await this.trackedLocationModel
+      .findByIdAndUpdate(id, { $set: updateDto }, { new: true })
+      .exec();
+
+    if (!location) {
+      throw new NotFoundException(`Tracked location ${id} not found`);
+    }
+
+    this.logger.log(
+      `Updated tracked location: ${this.toLocationLabel(location)}`
+    );
+    return location;
+  }
+
+  /**
+   * Remove a location from the registry
+   */
+  async remove(id: string): Promise<void> {
+    const location = await this.trackedLocationModel
+      .findByIdAndDelete(id)
+      .exec();
+
+    if (!location) {
+      throw new NotFoundException(`Tracked location ${id} not found`);
+    }
+
+    this.logger.log(`Stopped tracking: ${this.toLocationLabel(location)}`);
+  }
+
+  /**
+   * Enabled locations whose fetch interval has elapsed
+   */
+  async getDueLocations(
+    now: Date = new Date()
+  ): Promise<TrackedLocationDocument[]> {
+    const locations = await this.trackedLocationModel
+      .find({ enabled: true })
+      .sort({ lastScheduledAt: 1 })
+      .exec();
+
+    return locations.filter(location => {
+      if (!location.lastScheduledAt) return true;
+
+      const elapsedMinutes =
+        (now.getTime() - location.lastScheduledAt.getTime()) / 60000;
+      // Scheduler ticks every minute; tolerate a few seconds of cron drift
+      return elapsedMinutes >= location.fetchIntervalMinutes - 0.1;
+    });
+  }
+
+  /**
+   * Enabled locations, regardless of fetch interval
+   */
+  async getEnabledLocations(): Promise<TrackedLocationDocument[]> {
+    return this.trackedLocationModel.find({ enabled: true }).exec();
+  }
+
+  async markScheduled(id: string, scheduledAt: Date = new Date()) {
+    await this.trackedLocationModel
+      .updateOne({ _id: id }, { $set: { lastScheduledAt: scheduledAt } })
+      .exec();
+  }
+
+  async markFetched(id: string, fetchedAt: Date = new Date()) {
+    await this.trackedLocationModel
+      .updateOne({ _id: id }, { $set: { lastFetchedAt: fetchedAt } })
+      .exec();
+  }
+
+  /**
+   * Label used for the `location` field of the hot/warm/cold collections
+   */
+  toLocationLabel(location: {
+    city: string;
+    state: string;
+    country: string;
+  }): string {
+    return `${location.city}, ${location.state}, ${location.country}`;
+  }
+}
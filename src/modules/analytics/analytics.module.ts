@@ -4,16 +4,23 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 
 import {
-  AirQuality,
-  AirQualitySchema,
-} from '../air-quality/schemas/air-quality.schema';
+  TrackedLocation,
+  TrackedLocationSchema,
+} from '../air-quality/schemas/tracked-location.schema';
+import { DatabaseModule } from '../database/database.module';
 import { AnalyticsProcessor } from './analytics.processor';
 import { AnalyticsController } from './controllers/analytics.controller';
 import {
   DailyAggregation,
   DailyAggregationSchema,
 } from './schemas/daily-aggregation.schema';
+import {
+  ForecastAccuracy,
+  ForecastAccuracySchema,
+} from './schemas/forecast-accuracy.schema';
+import { Forecast, ForecastSchema } from './schemas/forecast.schema';
 import { AnalyticsService } from './services/analytics.service';
+import { ForecastService } from './services/forecast.service';
 
 @Module({
   imports: [
@@ -21,13 +28,17 @@ import { AnalyticsService } from './services/analytics.service';
       name: 'analytics',
     }),
     MongooseModule.forFeature([
-      { name: AirQuality.name, schema: AirQualitySchema },
       { name: DailyAggregation.name, schema: DailyAggregationSchema },
+      { name: Forecast.name, schema: ForecastSchema },
+      { name: ForecastAccuracy.name, schema: ForecastAccuracySchema },
+      // Read-only here, for the nightly forecast run
+      { name: TrackedLocation.name, schema: TrackedLocationSchema },
     ]),
     CacheModule.register(),
+    DatabaseModule,
   ],
   controllers: [AnalyticsController],
-  providers: [AnalyticsService, AnalyticsProcessor],
-  exports: [AnalyticsService],
+  providers: [AnalyticsService, AnalyticsProcessor, ForecastService],
+  exports: [AnalyticsService, ForecastService],
 })
 export class AnalyticsModule {}
@@ -14,7 +14,6 @@ import {
   InternalServerErrorException,
   UsePipes,
   ValidationPipe,
-  Headers,
   Inject,
 } from '@nestjs/common';
 import {
@@ -25,11 +24,16 @@ import {
 } from '@nestjs/cache-manager';
 
 import { AnalyticsService } from '../services/analytics.service';
+import { Public, RequireRole } from '@/common/decorators/auth.decorator';
 import {
   StandardizedApiResponse,
   ApiResponseMetadata,
   GetDailyStatsDto,
 } from '@/common/dto/air-quality.dto';
+import {
+  ForecastAccuracyQueryDto,
+  ForecastQueryDto,
+} from '@/common/dto/analytics.dto';
 import {
   DailyStats,
   HourlyStats,
@@ -37,6 +41,12 @@ import {
   PollutionPattern,
   MostPollutedTime,
 } from '../services/analytics.service';
+import {
+  AqiForecast,
+  ForecastAccuracySummary,
+  ForecastService,
+} from '../services/forecast.service';
+import { ForecastAccuracyDocument } from '../schemas/forecast-accuracy.schema';
 
 export class AnalyticsQueryDto {
   city: string;
@@ -46,6 +56,7 @@ export class AnalyticsQueryDto {
   period?: 'weekly' | 'monthly';
 }
 
+@RequireRole('reader')
 @Controller('api/analytics')
 @UseInterceptors(CacheInterceptor)
 export class AnalyticsController {
@@ -53,6 +64,7 @@ export class AnalyticsController {
 
   constructor(
     private readonly analyticsService: AnalyticsService,
+    private readonly forecastService: ForecastService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache
   ) {}
 
@@ -360,6 +372,67 @@ export class AnalyticsController {
     }
   }
 
+  /**
+   * GET /api/analytics/forecast/Paris%2C%20Ile-de-France%2C%20France?hours=48
+   * Hourly AQI forecast with prediction intervals, from Holt-Winters
+   * smoothing of the location's recent readings
+   */
+  @Get('forecast/:location')
+  @CacheTTL(900) // 15 minutes cache
+  @HttpCode(HttpStatus.OK)
+  async getForecast(
+    @Param('location') location: string,
+    @Query() query: ForecastQueryDto
+  ): Promise<StandardizedApiResponse<AqiForecast>> {
+    try {
+      this.logger.log(`Forecasting ${query.hours}h of AQI for ${location}`);
+
+      const forecast = await this.forecastService.forecast(
+        location,
+        query.hours,
+        query.confidence
+      );
+      return this.createStandardResponse(forecast, false, 0, 900);
+    } catch (error) {
+      this.logger.error('Error forecasting AQI:', error);
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to forecast AQI');
+    }
+  }
+
+  /**
+   * GET /api/analytics/forecast/:location/accuracy?days=30
+   * How past forecasts compared with the readings, by lead time
+   */
+  @Get('forecast/:location/accuracy')
+  @CacheTTL(3600)
+  @HttpCode(HttpStatus.OK)
+  async getForecastAccuracy(
+    @Param('location') location: string,
+    @Query() query: ForecastAccuracyQueryDto
+  ): Promise<
+    StandardizedApiResponse<{
+      location: string;
+      summary: ForecastAccuracySummary[];
+      scores: ForecastAccuracyDocument[];
+    }>
+  > {
+    try {
+      const accuracy = await this.forecastService.getAccuracy(
+        location,
+        query.days
+      );
+      return this.createStandardResponse(accuracy, false, 0);
+    } catch (error) {
+      this.logger.error('Error fetching forecast accuracy:', error);
+      throw new InternalServerErrorException(
+        'Failed to retrieve forecast accuracy'
+      );
+    }
+  }
+
   /**
    * Legacy endpoints for backward compatibility
    */
@@ -421,18 +494,12 @@ export class AnalyticsController {
    * Administrative endpoints
    */
   @Post('cache/invalidate')
+  @RequireRole('operator')
   @HttpCode(HttpStatus.OK)
   async invalidateCache(
-    @Body() body: { city?: string; country?: string; date?: string },
-    @Headers('x-api-key') apiKey?: string
+    @Body() body: { city?: string; country?: string; date?: string }
   ): Promise<StandardizedApiResponse<{ message: string }>> {
     try {
-      // Basic API key validation
-      const adminApiKey = 'admin-api-key'; // This should come from config
-      if (apiKey !== adminApiKey) {
-        throw new BadRequestException('Invalid API key for admin operations');
-      }
-
       const city = body.city || 'Paris';
       const country = body.country || 'France';
 
@@ -452,6 +519,7 @@ export class AnalyticsController {
   }
 
   @Get('health')
+  @Public()
   @HttpCode(HttpStatus.OK)
   async getHealth(): Promise<
     StandardizedApiResponse<{
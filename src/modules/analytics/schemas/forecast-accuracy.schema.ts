@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ForecastAccuracyDocument = ForecastAccuracy & Document;
+
+/**
+ * How one stored forecast did over one day of actual readings. Each
+ * forecast is scored once per day it covers, so the lead time tells how
+ * far ahead it was issued.
+ */
+@Schema({ timestamps: true, collection: 'forecast_accuracy' })
+export class ForecastAccuracy {
+  @Prop({ required: true })
+  location: string;
+
+  /** Day scored, YYYY-MM-DD (UTC) */
+  @Prop({ required: true })
+  date: string;
+
+  @Prop({ required: true })
+  issuedAt: Date;
+
+  /** Hours between issue and the first and last hour scored */
+  @Prop({ required: true })
+  leadHoursFrom: number;
+
+  @Prop({ required: true })
+  leadHoursTo: number;
+
+  /** Hours with both a forecast and readings */
+  @Prop({ required: true })
+  hours: number;
+
+  /** Mean absolute error, in AQI points */
+  @Prop({ required: true })
+  mae: number;
+
+  @Prop({ required: true })
+  rmse: number;
+
+  /** Mean of forecast minus actual; positive when forecasts ran high */
+  @Prop({ required: true })
+  bias: number;
+
+  /** Share of hours whose actual fell inside the prediction interval */
+  @Prop({ required: true })
+  coverage: number;
+}
+
+export const ForecastAccuracySchema =
+  SchemaFactory.createForClass(ForecastAccuracy);
+
+ForecastAccuracySchema.index(
+  { location: 1, date: 1, issuedAt: 1 },
+  { unique: true }
+);
+ForecastAccuracySchema.index({ location: 1, date: -1 });
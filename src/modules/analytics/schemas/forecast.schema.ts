@@ -0,0 +1,60 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ForecastDocument = Forecast & Document;
+
+export class ForecastPoint {
+  /** Start of the forecast hour */
+  timestamp: Date;
+  aqi: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * A forecast issued by the nightly job, kept to score against the hours
+ * it predicted once they have passed
+ */
+@Schema({
+  timestamps: { createdAt: 'issuedAt', updatedAt: false },
+  collection: 'forecasts',
+})
+export class Forecast {
+  @Prop({ required: true })
+  location: string;
+
+  /** Prediction interval coverage, in percent */
+  /** UTC day the forecast was issued, as YYYY-MM-DD */
+  @Prop({ required: true })
+  issueDate: string;
+
+  @Prop({ required: true })
+  confidence: number;
+
+  @Prop({ type: Object, required: true })
+  model: {
+    alpha: number;
+    beta: number;
+    gamma: number;
+    rmse: number;
+    historyHours: number;
+  };
+
+  @Prop({ type: [Object], required: true })
+  points: ForecastPoint[];
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  issuedAt: Date;
+}
+
+export const ForecastSchema = SchemaFactory.createForClass(Forecast);
+
+ForecastSchema.index({ location: 1, issuedAt: -1 });
+// One stored forecast per location and day, whichever instance runs the job
+ForecastSchema.index(
+  { location: 1, issueDate: 1 },
+  { unique: true, partialFilterExpression: { issueDate: { $exists: true } } }
+);
+ForecastSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -7,9 +7,9 @@ import { Queue } from 'bull';
 import { Model, PipelineStage } from 'mongoose';
 
 import {
-  AirQuality,
-  AirQualityDocument,
-} from '../../air-quality/schemas/air-quality.schema';
+  AirQualityDataService,
+  ReadingScope,
+} from '../../database/services/air-quality-data.service';
 import {
   DailyAggregation,
   DailyAggregationDocument,
@@ -84,6 +84,11 @@ export interface HistoricalTrend {
   recordCount: number;
 }
 
+/** A stat as grouped, before the most frequent pollutant is picked */
+type PollutantTally<T> = Omit<T, 'dominantPollutant'> & {
+  dominantPollutant: string[];
+};
+
 export interface MostPollutedTime {
   timestamp: Date;
   aqi: number;
@@ -111,8 +116,7 @@ export class AnalyticsService {
 
   constructor(
     @InjectQueue('analytics') private analyticsQueue: Queue,
-    @InjectModel(AirQuality.name)
-    private airQualityModel: Model<AirQualityDocument>,
+    private airQualityDataService: AirQualityDataService,
     @InjectModel(DailyAggregation.name)
     private dailyAggregationModel: Model<DailyAggregationDocument>,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
@@ -120,14 +124,16 @@ export class AnalyticsService {
   ) {}
 
   /**
-   * Calculate daily statistics with MongoDB aggregation pipeline
+   * Calculate daily statistics with MongoDB aggregation pipeline.
+   * Without a state, every state of a city/country name is included.
    */
   async calculateDailyStats(
     date: string,
     city: string,
-    country: string
+    country: string,
+    state?: string
   ): Promise<DailyStats> {
-    const cacheKey = `daily-stats:${city}:${country}:${date}`;
+    const cacheKey = `daily-stats:${city}:${country}:${date}${state ? `:${state}` : ''}`;
 
     // Try to get from cache first
     const cached = await this.cacheManager.get<DailyStats>(cacheKey);
@@ -144,16 +150,6 @@ export class AnalyticsService {
 
     // MongoDB aggregation pipeline for daily statistics
     const pipeline = [
-      {
-        $match: {
-          city,
-          country,
-          timestamp: {
-            $gte: startDate,
-            $lt: endDate,
-          },
-        },
-      },
       {
         $facet: {
           // Overall daily statistics
@@ -161,12 +157,12 @@ export class AnalyticsService {
             {
               $group: {
                 _id: null,
-                averageAQI: { $avg: '$pollution.aqius' },
-                maxAQI: { $max: '$pollution.aqius' },
-                minAQI: { $min: '$pollution.aqius' },
-                totalRecords: { $sum: 1 },
+                averageAQI: { $avg: '$aqi' },
+                maxAQI: { $max: '$aqi_max' },
+                minAQI: { $min: '$aqi_min' },
+                totalRecords: { $sum: '$sample_count' },
                 dominantPollutant: {
-                  $push: '$pollution.mainus',
+                  $push: '$main_pollutant',
                 },
               },
             },
@@ -176,17 +172,17 @@ export class AnalyticsService {
             {
               $group: {
                 _id: { $hour: '$timestamp' },
-                averageAQI: { $avg: '$pollution.aqius' },
-                maxAQI: { $max: '$pollution.aqius' },
-                minAQI: { $min: '$pollution.aqius' },
-                recordCount: { $sum: 1 },
+                averageAQI: { $avg: '$aqi' },
+                maxAQI: { $max: '$aqi_max' },
+                minAQI: { $min: '$aqi_min' },
+                recordCount: { $sum: '$sample_count' },
                 dominantPollutant: {
-                  $push: '$pollution.mainus',
+                  $push: '$main_pollutant',
                 },
-                avgTemperature: { $avg: '$weather.tp' },
-                avgHumidity: { $avg: '$weather.hu' },
-                avgPressure: { $avg: '$weather.pr' },
-                avgWindSpeed: { $avg: '$weather.ws' },
+                avgTemperature: { $avg: '$weather.temperature' },
+                avgHumidity: { $avg: '$weather.humidity' },
+                avgPressure: { $avg: '$weather.pressure' },
+                avgWindSpeed: { $avg: '$weather.wind_speed' },
               },
             },
             {
@@ -208,9 +204,27 @@ export class AnalyticsService {
       },
     ];
 
-    const result = await this.airQualityModel
-      .aggregate(pipeline as PipelineStage[])
-      .exec();
+    const result = await this.airQualityDataService.aggregate<{
+      dailyStats: {
+        averageAQI: number;
+        maxAQI: number;
+        minAQI: number;
+        totalRecords: number;
+        dominantPollutant: string[];
+      }[];
+      hourlyStats: { _id: number; averageAQI: number; recordCount: number }[];
+      missingHours: { _id: number }[];
+    }>(
+      this.readingScope({
+        city,
+        state,
+        country,
+        startDate,
+        endDate,
+        endExclusive: true,
+      }),
+      pipeline as PipelineStage[]
+    );
 
     if (result.length === 0 || result[0].dailyStats.length === 0) {
       throw new Error(`No data available for ${city}, ${country} on ${date}`);
@@ -296,17 +310,7 @@ export class AnalyticsService {
 
     const pipeline = [
       {
-        $match: {
-          city,
-          country,
-          timestamp: {
-            $gte: startDate,
-            $lte: endDate,
-          },
-        },
-      },
-      {
-        $sort: { 'pollution.aqius': -1 },
+        $sort: { aqi: -1 },
       },
       {
         $limit: 1,
@@ -314,23 +318,24 @@ export class AnalyticsService {
       {
         $project: {
           timestamp: 1,
-          aqi: '$pollution.aqius',
-          pollutant: '$pollution.mainus',
+          aqi: '$aqi',
+          pollutant: '$main_pollutant',
           city: 1,
           country: 1,
           weather: {
-            temperature: '$weather.tp',
-            humidity: '$weather.hu',
-            pressure: '$weather.pr',
-            windSpeed: '$weather.ws',
+            temperature: '$weather.temperature',
+            humidity: '$weather.humidity',
+            pressure: '$weather.pressure',
+            windSpeed: '$weather.wind_speed',
           },
         },
       },
     ];
 
-    const result = await this.airQualityModel
-      .aggregate(pipeline as PipelineStage[])
-      .exec();
+    const result = await this.airQualityDataService.aggregate<MostPollutedTime>(
+      this.readingScope({ city, country, startDate, endDate }),
+      pipeline as PipelineStage[]
+    );
 
     if (result.length === 0) {
       throw new Error(
@@ -376,16 +381,6 @@ export class AnalyticsService {
     startDate.setDate(startDate.getDate() - days);
 
     const pipeline = [
-      {
-        $match: {
-          city,
-          country,
-          timestamp: {
-            $gte: startDate,
-            $lte: endDate,
-          },
-        },
-      },
       {
         $group: {
           _id: {
@@ -394,11 +389,11 @@ export class AnalyticsService {
               date: '$timestamp',
             },
           },
-          averageAQI: { $avg: '$pollution.aqius' },
-          maxAQI: { $max: '$pollution.aqius' },
-          minAQI: { $min: '$pollution.aqius' },
-          dominantPollutant: { $push: '$pollution.mainus' },
-          recordCount: { $sum: 1 },
+          averageAQI: { $avg: '$aqi' },
+          maxAQI: { $max: '$aqi_max' },
+          minAQI: { $min: '$aqi_min' },
+          dominantPollutant: { $push: '$main_pollutant' },
+          recordCount: { $sum: '$sample_count' },
         },
       },
       {
@@ -416,9 +411,12 @@ export class AnalyticsService {
       },
     ];
 
-    const results = await this.airQualityModel
-      .aggregate(pipeline as PipelineStage[])
-      .exec();
+    const results = await this.airQualityDataService.aggregate<
+      PollutantTally<HistoricalTrend>
+    >(
+      this.readingScope({ city, country, startDate, endDate }),
+      pipeline as PipelineStage[]
+    );
 
     const trends: HistoricalTrend[] = results.map(result => ({
       date: result.date,
@@ -457,48 +455,15 @@ export class AnalyticsService {
     startDate.setDate(startDate.getDate() - (period === 'weekly' ? 7 : 30));
 
     const pipeline = [
-      {
-        $match: {
-          city,
-          country,
-          timestamp: {
-            $gte: startDate,
-            $lte: endDate,
-          },
-        },
-      },
       {
         $group: {
           _id: {
             hour: { $hour: '$timestamp' },
-            pollutant: '$pollution.mainus',
-            pollutionLevel: {
-              $switch: {
-                branches: [
-                  { case: { $lte: ['$pollution.aqius', 50] }, then: 'Good' },
-                  {
-                    case: { $lte: ['$pollution.aqius', 100] },
-                    then: 'Moderate',
-                  },
-                  {
-                    case: { $lte: ['$pollution.aqius', 150] },
-                    then: 'Unhealthy for Sensitive Groups',
-                  },
-                  {
-                    case: { $lte: ['$pollution.aqius', 200] },
-                    then: 'Unhealthy',
-                  },
-                  {
-                    case: { $lte: ['$pollution.aqius', 300] },
-                    then: 'Very Unhealthy',
-                  },
-                ],
-                default: 'Hazardous',
-              },
-            },
+            pollutant: '$main_pollutant',
+            pollutionLevel: '$pollution_level',
           },
-          averageAQI: { $avg: '$pollution.aqius' },
-          frequency: { $sum: 1 },
+          averageAQI: { $avg: '$aqi' },
+          frequency: { $sum: '$sample_count' },
         },
       },
       {
@@ -530,9 +495,11 @@ export class AnalyticsService {
       },
     ];
 
-    const results = await this.airQualityModel
-      .aggregate(pipeline as PipelineStage[])
-      .exec();
+    const results =
+      await this.airQualityDataService.aggregate<PollutionPattern>(
+        this.readingScope({ city, country, startDate, endDate }),
+        pipeline as PipelineStage[]
+      );
 
     const patterns: PollutionPattern[] = results.map(result => ({
       timeSlot: result.timeSlot,
@@ -570,28 +537,18 @@ export class AnalyticsService {
     endDate.setDate(endDate.getDate() + 1);
 
     const pipeline = [
-      {
-        $match: {
-          city,
-          country,
-          timestamp: {
-            $gte: startDate,
-            $lt: endDate,
-          },
-        },
-      },
       {
         $group: {
           _id: { $hour: '$timestamp' },
-          averageAQI: { $avg: '$pollution.aqius' },
-          maxAQI: { $max: '$pollution.aqius' },
-          minAQI: { $min: '$pollution.aqius' },
-          dominantPollutant: { $push: '$pollution.mainus' },
-          recordCount: { $sum: 1 },
-          avgTemperature: { $avg: '$weather.tp' },
-          avgHumidity: { $avg: '$weather.hu' },
-          avgPressure: { $avg: '$weather.pr' },
-          avgWindSpeed: { $avg: '$weather.ws' },
+          averageAQI: { $avg: '$aqi' },
+          maxAQI: { $max: '$aqi_max' },
+          minAQI: { $min: '$aqi_min' },
+          dominantPollutant: { $push: '$main_pollutant' },
+          recordCount: { $sum: '$sample_count' },
+          avgTemperature: { $avg: '$weather.temperature' },
+          avgHumidity: { $avg: '$weather.humidity' },
+          avgPressure: { $avg: '$weather.pressure' },
+          avgWindSpeed: { $avg: '$weather.wind_speed' },
         },
       },
       {
@@ -615,9 +572,18 @@ export class AnalyticsService {
       },
     ];
 
-    const results = await this.airQualityModel
-      .aggregate(pipeline as PipelineStage[])
-      .exec();
+    const results = await this.airQualityDataService.aggregate<
+      PollutantTally<HourlyStats>
+    >(
+      this.readingScope({
+        city,
+        country,
+        startDate,
+        endDate,
+        endExclusive: true,
+      }),
+      pipeline as PipelineStage[]
+    );
 
     const hourlyStats: HourlyStats[] = results.map(result => ({
       hour: result.hour,
@@ -744,6 +710,18 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Scope of an analytics query; flagged anomalies are left out unless
+   * `EXCLUDE_ANOMALIES` is false
+   */
+  private readingScope(scope: ReadingScope): ReadingScope {
+    return {
+      ...scope,
+      excludeAnomalies:
+        this.configService.get<boolean>('anomalies.exclude') ?? true,
+    };
+  }
+
   /**
    * Find dominant pollutant from array
    */
@@ -806,10 +784,16 @@ export class AnalyticsService {
    */
   async generateDailyReport(
     city: string,
-    country: string
+    country: string,
+    state?: string
   ): Promise<AnalyticsReport> {
     const today = new Date().toISOString().split('T')[0];
-    const dailyStats = await this.calculateDailyStats(today, city, country);
+    const dailyStats = await this.calculateDailyStats(
+      today,
+      city,
+      country,
+      state
+    );
 
     return {
       city: dailyStats.city,
@@ -863,8 +847,8 @@ export class AnalyticsService {
       {
         $group: {
           _id: { city: '$city', country: '$country' },
-          averageAQI: { $avg: '$pollution.aqius' },
-          count: { $sum: 1 },
+          averageAQI: { $avg: '$aqi' },
+          count: { $sum: '$sample_count' },
         },
       },
       {
@@ -887,9 +871,11 @@ export class AnalyticsService {
       },
     ];
 
-    return await this.airQualityModel
-      .aggregate(pipeline as PipelineStage[])
-      .exec();
+    return await this.airQualityDataService.aggregate<{
+      city: string;
+      country: string;
+      averageAQI: number;
+    }>(this.readingScope({}), pipeline as PipelineStage[]);
   }
 
   async addAnalyticsJob(
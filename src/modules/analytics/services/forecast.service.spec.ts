@@ -0,0 +1,265 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { TrackedLocation } from '../../air-quality/schemas/tracked-location.schema';
+import {
+  AirQualityDataService,
+  ReadingScope,
+} from '../../database/services/air-quality-data.service';
+import { ForecastAccuracy } from '../schemas/forecast-accuracy.schema';
+import { Forecast } from '../schemas/forecast.schema';
+import { ForecastService } from './forecast.service';
+
+describe('ForecastService', () => {
+  let service: ForecastService;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const DAY_MS = 24 * HOUR_MS;
+  const location = 'Paris, Ile-de-France, France';
+  // Date.now() is pinned to 2024-08-05T10:00:00Z in test/setup.ts
+  const currentHour = new Date('2024-08-05T10:00:00Z').getTime();
+
+  // AQI peaking every afternoon, by hour of the UTC day
+  const daily = (time: number) =>
+    60 + 25 * Math.sin((2 * Math.PI * (((time / HOUR_MS) % 24) - 9)) / 24);
+
+  // Hourly rows as the $group stage returns them, two readings per hour
+  let readings: { _id: number; total: number; count: number }[];
+  const history = (from: number, to: number) => {
+    readings = [];
+    for (let time = from; time <= to; time += HOUR_MS) {
+      readings.push({ _id: time, total: 2 * daily(time), count: 2 });
+    }
+  };
+
+  const query = (result: unknown) => ({
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockForecastModel = {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockAccuracyModel = {
+    updateOne: jest.fn(),
+  };
+  const mockTrackedLocationModel = {
+    find: jest.fn(),
+  };
+  const mockAirQualityDataService = {
+    aggregate: jest.fn(async (scope: ReadingScope) =>
+      readings.filter(
+        row =>
+          row._id >= scope.startDate!.getTime() &&
+          row._id < scope.endDate!.getTime()
+      )
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForecastService,
+        {
+          provide: getModelToken(Forecast.name),
+          useValue: mockForecastModel,
+        },
+        {
+          provide: getModelToken(ForecastAccuracy.name),
+          useValue: mockAccuracyModel,
+        },
+        {
+          provide: getModelToken(TrackedLocation.name),
+          useValue: mockTrackedLocationModel,
+        },
+        {
+          provide: AirQualityDataService,
+          useValue: mockAirQualityDataService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ForecastService>(ForecastService);
+    readings = [];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('forecast', () => {
+    it('should interpolate gaps between hours with readings', () => {
+      const series = service['toSeries'](
+        new Map([
+          [4 * HOUR_MS, 50],
+          [0, 10],
+          [3 * HOUR_MS, 40],
+        ])
+      );
+
+      expect(series).toEqual({
+        values: [10, 20, 30, 40, 50],
+        lastHour: 4 * HOUR_MS,
+      });
+    });
+
+    it('should start at the current hour when the latest readings are late', async () => {
+      // Two weeks of history ending three hours ago, missing one evening
+      history(currentHour - 14 * DAY_MS, currentHour - 3 * HOUR_MS);
+      readings = readings.filter(
+        row =>
+          row._id < currentHour - 30 * HOUR_MS ||
+          row._id > currentHour - 26 * HOUR_MS
+      );
+
+      const forecast = await service.forecast(location, 6, 95);
+
+      expect(forecast.model.historyHours).toBe(14 * 24 - 2);
+      expect(forecast.points).toHaveLength(6);
+      forecast.points.forEach((point, index) => {
+        const time = currentHour + index * HOUR_MS;
+        expect(point.timestamp).toEqual(new Date(time));
+        expect(Math.abs(point.aqi - daily(time))).toBeLessThan(3);
+        expect(point.lower).toBeLessThanOrEqual(point.aqi);
+        expect(point.upper).toBeGreaterThanOrEqual(point.aqi);
+      });
+    });
+
+    it('should refuse to forecast from stale or missing history', async () => {
+      history(currentHour - 14 * DAY_MS, currentHour - 25 * HOUR_MS);
+      await expect(service.forecast(location)).rejects.toThrow(
+        `No readings for ${location} in the last 24 hours`
+      );
+
+      history(currentHour - 47 * HOUR_MS, currentHour - HOUR_MS);
+      await expect(service.forecast(location)).rejects.toThrow(
+        `Not enough history to forecast ${location}`
+      );
+    });
+
+    it('should weight hourly averages by the readings rollups summarize', async () => {
+      mockAirQualityDataService.aggregate.mockResolvedValueOnce([
+        // A raw reading of 40 and an hourly rollup of 70 over 5 readings
+        { _id: 0, total: 40 + 70 * 5, count: 6 },
+        { _id: HOUR_MS, total: 0, count: 0 },
+      ]);
+
+      const averages = await service['getHourlyAverages'](
+        location,
+        0,
+        2 * HOUR_MS
+      );
+
+      expect(averages).toEqual(new Map([[0, 65]]));
+      expect(mockAirQualityDataService.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          locations: [location],
+          endExclusive: true,
+          excludeAnomalies: true,
+        }),
+        [
+          {
+            $group: expect.objectContaining({
+              total: {
+                $sum: {
+                  $multiply: ['$aqi', { $ifNull: ['$sample_count', 1] }],
+                },
+              },
+              count: { $sum: { $ifNull: ['$sample_count', 1] } },
+            }),
+          },
+        ]
+      );
+    });
+  });
+
+  describe('scoreDay', () => {
+    const dayStart = new Date('2024-08-04T00:00:00Z').getTime();
+    const stored = (issuedAt: number) => ({
+      location,
+      issuedAt: new Date(issuedAt),
+      points: Array.from({ length: 72 }, (_, hour) => ({
+        timestamp: new Date(issuedAt - (issuedAt % HOUR_MS) + hour * HOUR_MS),
+        aqi: 50,
+        lower: 40,
+        upper: 60,
+      })),
+    });
+
+    it('should score lead time, error and coverage of the day', async () => {
+      // No reading at midnight; 55 until noon, then 65 outside the interval
+      readings = Array.from({ length: 23 }, (_, index) => ({
+        _id: dayStart + (index + 1) * HOUR_MS,
+        total: index < 11 ? 55 : 65,
+        count: 1,
+      }));
+      mockForecastModel.find.mockReturnValue(
+        query([
+          stored(dayStart - DAY_MS + 30 * 60 * 1000),
+          // Issued 72 hours before the day, so none of its points fall in it
+          stored(dayStart - 72 * HOUR_MS),
+        ])
+      );
+
+      const scored = await service.scoreDay(location, dayStart);
+
+      expect(scored).toBe(1);
+      expect(mockAccuracyModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(mockAccuracyModel.updateOne).toHaveBeenCalledWith(
+        {
+          location,
+          date: '2024-08-04',
+          issuedAt: new Date(dayStart - DAY_MS + 30 * 60 * 1000),
+        },
+        {
+          $set: {
+            leadHoursFrom: 26,
+            leadHoursTo: 48,
+            hours: 23,
+            mae: 10.22,
+            rmse: 11.37,
+            bias: -10.22,
+            coverage: 0.48,
+          },
+        },
+        { upsert: true }
+      );
+    });
+  });
+
+  describe('recordForecastAccuracy', () => {
+    it('should store one forecast per location and day across instances', async () => {
+      history(currentHour - 14 * DAY_MS, currentHour - HOUR_MS);
+      mockTrackedLocationModel.find.mockReturnValue(
+        query([{ city: 'Paris', state: 'Ile-de-France', country: 'France' }])
+      );
+      mockForecastModel.find.mockReturnValue(query([]));
+      mockForecastModel.updateOne
+        .mockResolvedValueOnce({ upsertedCount: 1 })
+        .mockResolvedValueOnce({ upsertedCount: 0 });
+
+      await service.recordForecastAccuracy();
+      await service.recordForecastAccuracy();
+
+      expect(mockForecastModel.updateOne).toHaveBeenCalledTimes(2);
+      expect(mockForecastModel.updateOne).toHaveBeenCalledWith(
+        { location, issueDate: '2024-08-05' },
+        {
+          $setOnInsert: expect.objectContaining({
+            confidence: 95,
+            points: expect.arrayContaining([
+              expect.objectContaining({ timestamp: new Date(currentHour) }),
+            ]),
+          }),
+        },
+        { upsert: true }
+      );
+    });
+  });
+});
@@ -0,0 +1,421 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+
+import {
+  TrackedLocation,
+  TrackedLocationDocument,
+} from '../../air-quality/schemas/tracked-location.schema';
+import { AirQualityDataService } from '../../database/services/air-quality-data.service';
+import {
+  ForecastAccuracy,
+  ForecastAccuracyDocument,
+} from '../schemas/forecast-accuracy.schema';
+import {
+  Forecast,
+  ForecastDocument,
+  ForecastPoint,
+} from '../schemas/forecast.schema';
+import { fitHoltWinters, forecastHoltWinters } from './holt-winters';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const SEASON_HOURS = 24;
+const HISTORY_DAYS = 14;
+/** Forecasts are refused when the latest reading is older than this */
+const MAX_STALE_HOURS = 24;
+const STORED_FORECAST_DAYS = 30;
+const MAX_AQI = 500;
+
+export const MAX_FORECAST_HOURS = 72;
+
+/** Two-sided normal quantiles of the supported interval levels */
+export const FORECAST_Z_SCORES: Record<number, number> = {
+  80: 1.2816,
+  90: 1.6449,
+  95: 1.96,
+};
+
+export interface AqiForecast {
+  location: string;
+  generatedAt: Date;
+  horizonHours: number;
+  /** Prediction interval coverage, in percent */
+  confidence: number;
+  model: {
+    method: 'holt-winters';
+    seasonLength: number;
+    alpha: number;
+    beta: number;
+    gamma: number;
+    /** One-step-ahead error on the history, in AQI points */
+    rmse: number;
+    historyHours: number;
+  };
+  points: ForecastPoint[];
+}
+
+export interface ForecastAccuracySummary {
+  /** e.g. `1-24h` */
+  leadTime: string;
+  forecasts: number;
+  hours: number;
+  mae: number;
+  rmse: number;
+  bias: number;
+  coverage: number;
+}
+
+/**
+ * Hourly AQI forecasts from additive Holt-Winters smoothing over the last
+ * two weeks of readings, with a daily season. A nightly job stores a
+ * 72-hour forecast per tracked location and scores earlier ones against
+ * what was measured.
+ */
+@Injectable()
+export class ForecastService {
+  private readonly logger = new Logger(ForecastService.name);
+
+  constructor(
+    @InjectModel(Forecast.name)
+    private forecastModel: Model<ForecastDocument>,
+    @InjectModel(ForecastAccuracy.name)
+    private accuracyModel: Model<ForecastAccuracyDocument>,
+    @InjectModel(TrackedLocation.name)
+    private trackedLocationModel: Model<TrackedLocationDocument>,
+    private airQualityDataService: AirQualityDataService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Forecast the `hours` hours starting with the current one
+   */
+  async forecast(
+    location: string,
+    hours: number = 24,
+    confidence: number = 95
+  ): Promise<AqiForecast> {
+    const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+    const averages = await this.getHourlyAverages(
+      location,
+      currentHour - HISTORY_DAYS * DAY_MS,
+      currentHour
+    );
+
+    if (averages.size < 2 * SEASON_HOURS) {
+      throw new NotFoundException(
+        `Not enough history to forecast ${location}: need ${2 * SEASON_HOURS} hours of readings in the last ${HISTORY_DAYS} days`
+      );
+    }
+    const { values, lastHour } = this.toSeries(averages);
+    if (currentHour - lastHour > MAX_STALE_HOURS * HOUR_MS) {
+      throw new NotFoundException(
+        `No readings for ${location} in the last ${MAX_STALE_HOURS} hours`
+      );
+    }
+
+    const model = fitHoltWinters(values, SEASON_HOURS);
+    // Hours between the last reading and now are forecast, then dropped
+    const skipped = (currentHour - lastHour) / HOUR_MS - 1;
+    const clamp = (value: number) =>
+      Math.min(MAX_AQI, Math.max(0, Math.round(value)));
+
+    const points = forecastHoltWinters(
+      model,
+      skipped + hours,
+      FORECAST_Z_SCORES[confidence]
+    )
+      .slice(skipped)
+      .map((forecast, index) => ({
+        timestamp: new Date(currentHour + index * HOUR_MS),
+        aqi: clamp(forecast.value),
+        lower: clamp(forecast.lower),
+        upper: clamp(forecast.upper),
+      }));
+
+    return {
+      location,
+      generatedAt: new Date(),
+      horizonHours: hours,
+      confidence,
+      model: {
+        method: 'holt-winters',
+        seasonLength: SEASON_HOURS,
+        alpha: model.alpha,
+        beta: model.beta,
+        gamma: model.gamma,
+        rmse: Math.round(model.rmse * 100) / 100,
+        historyHours: values.length,
+      },
+      points,
+    };
+  }
+
+  /**
+   * Stored accuracy of the last `days` days, overall by lead time and per
+   * scored forecast, newest first
+   */
+  async getAccuracy(
+    location: string,
+    days: number = 30
+  ): Promise<{
+    location: string;
+    summary: ForecastAccuracySummary[];
+    scores: ForecastAccuracyDocument[];
+  }> {
+    const since = new Date(Date.now() - days * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    const scores = await this.accuracyModel
+      .find({ location, date: { $gte: since } })
+      .sort({ date: -1, leadHoursFrom: 1 })
+      .exec();
+
+    const byLeadTime = new Map<number, ForecastAccuracyDocument[]>();
+    for (const score of scores) {
+      const band = Math.ceil(score.leadHoursTo / SEASON_HOURS);
+      byLeadTime.set(band, [...(byLeadTime.get(band) ?? []), score]);
+    }
+
+    const summary = [...byLeadTime.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([band, bandScores]) => {
+        const hours = bandScores.reduce((sum, score) => sum + score.hours, 0);
+        const weighted = (value: (score: ForecastAccuracy) => number) =>
+          bandScores.reduce(
+            (sum, score) => sum + value(score) * score.hours,
+            0
+          ) / hours;
+        const round = (value: number) => Math.round(value * 100) / 100;
+
+        return {
+          leadTime: `${(band - 1) * SEASON_HOURS + 1}-${band * SEASON_HOURS}h`,
+          forecasts: bandScores.length,
+          hours,
+          mae: round(weighted(score => score.mae)),
+          rmse: round(Math.sqrt(weighted(score => score.rmse * score.rmse))),
+          bias: round(weighted(score => score.bias)),
+          coverage: round(weighted(score => score.coverage)),
+        };
+      });
+
+    return { location, summary, scores };
+  }
+
+  /**
+   * Daily at 00:30: Score stored forecasts against yesterday's readings,
+   * then store a fresh 72-hour forecast for every enabled tracked location
+   * CRON: '30 0 * * *'
+   */
+  @Cron('30 0 * * *', {
+    name: 'forecast-accuracy',
+    timeZone: 'UTC',
+  })
+  async recordForecastAccuracy(): Promise<void> {
+    const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    const locations = await this.trackedLocationModel
+      .find({ enabled: true })
+      .lean()
+      .exec();
+
+    for (const tracked of locations) {
+      const location = `${tracked.city}, ${tracked.state}, ${tracked.country}`;
+
+      try {
+        const scored = await this.scoreDay(location, today - DAY_MS);
+        const stored = await this.storeForecast(location, today);
+        this.logger.log(
+          `Scored ${scored} forecasts${stored ? ' and stored a new one' : ''} for ${location}`
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Forecast accuracy run failed for ${location}: ${error.message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Score every stored forecast covering the UTC day starting at `dayStart`
+   * against its hourly readings. Returns the number of forecasts scored.
+   */
+  async scoreDay(location: string, dayStart: number): Promise<number> {
+    const dayEnd = dayStart + DAY_MS;
+    const [actuals, forecasts] = await Promise.all([
+      this.getHourlyAverages(location, dayStart, dayEnd),
+      this.forecastModel
+        .find({
+          location,
+          issuedAt: {
+            $gte: new Date(dayStart - MAX_FORECAST_HOURS * HOUR_MS),
+            $lt: new Date(dayEnd),
+          },
+        })
+        .lean()
+        .exec(),
+    ]);
+
+    let scored = 0;
+    for (const forecast of forecasts) {
+      const issuedHour =
+        Math.floor(forecast.issuedAt.getTime() / HOUR_MS) * HOUR_MS;
+      const matched = forecast.points.filter(point => {
+        const time = new Date(point.timestamp).getTime();
+        return time >= dayStart && time < dayEnd && actuals.has(time);
+      });
+      if (matched.length === 0) {
+        continue;
+      }
+
+      const errors = matched.map(
+        point => point.aqi - actuals.get(new Date(point.timestamp).getTime())!
+      );
+      const inside = matched.filter(point => {
+        const actual = actuals.get(new Date(point.timestamp).getTime())!;
+        return actual >= point.lower && actual <= point.upper;
+      });
+      const leadHours = (point: ForecastPoint) =>
+        (new Date(point.timestamp).getTime() - issuedHour) / HOUR_MS + 1;
+      const mean = (values: number[]) =>
+        values.reduce((sum, value) => sum + value, 0) / values.length;
+      const round = (value: number) => Math.round(value * 100) / 100;
+
+      await this.accuracyModel.updateOne(
+        {
+          location,
+          date: new Date(dayStart).toISOString().slice(0, 10),
+          issuedAt: forecast.issuedAt,
+        },
+        {
+          $set: {
+            leadHoursFrom: leadHours(matched[0]),
+            leadHoursTo: leadHours(matched[matched.length - 1]),
+            hours: matched.length,
+            mae: round(mean(errors.map(Math.abs))),
+            rmse: round(Math.sqrt(mean(errors.map(error => error * error)))),
+            bias: round(mean(errors)),
+            coverage: round(inside.length / matched.length),
+          },
+        },
+        { upsert: true }
+      );
+      scored++;
+    }
+
+    return scored;
+  }
+
+  /**
+   * Store the day's forecast for `location` unless another instance already
+   * has. Returns whether this call inserted it; `issuedAt` is only set on
+   * insert, by the schema timestamps.
+   */
+  private async storeForecast(
+    location: string,
+    dayStart: number
+  ): Promise<boolean> {
+    const forecast = await this.forecast(location, MAX_FORECAST_HOURS, 95);
+
+    const result = await this.forecastModel.updateOne(
+      {
+        location,
+        issueDate: new Date(dayStart).toISOString().slice(0, 10),
+      },
+      {
+        $setOnInsert: {
+          confidence: forecast.confidence,
+          model: {
+            alpha: forecast.model.alpha,
+            beta: forecast.model.beta,
+            gamma: forecast.model.gamma,
+            rmse: forecast.model.rmse,
+            historyHours: forecast.model.historyHours,
+          },
+          points: forecast.points,
+          expiresAt: new Date(Date.now() + STORED_FORECAST_DAYS * DAY_MS),
+        },
+      },
+      { upsert: true }
+    );
+
+    return result.upsertedCount > 0;
+  }
+
+  /**
+   * Mean AQI per hour in [start, end), keyed by the start of the hour.
+   * Rollups count as many readings as they summarize; flagged anomalies are
+   * left out like in the other analytics.
+   */
+  private async getHourlyAverages(
+    location: string,
+    start: number,
+    end: number
+  ): Promise<Map<number, number>> {
+    const hours = await this.airQualityDataService.aggregate<{
+      _id: number;
+      total: number;
+      count: number;
+    }>(
+      {
+        locations: [location],
+        startDate: new Date(start),
+        endDate: new Date(end),
+        endExclusive: true,
+        excludeAnomalies:
+          this.configService.get<boolean>('anomalies.exclude') ?? true,
+      },
+      [
+        {
+          $group: {
+            _id: {
+              $subtract: [
+                { $toLong: '$timestamp' },
+                { $mod: [{ $toLong: '$timestamp' }, HOUR_MS] },
+              ],
+            },
+            total: {
+              $sum: {
+                $multiply: ['$aqi', { $ifNull: ['$sample_count', 1] }],
+              },
+            },
+            count: { $sum: { $ifNull: ['$sample_count', 1] } },
+          },
+        },
+      ]
+    );
+
+    return new Map(
+      hours
+        .filter(hour => hour.count > 0)
+        .map(hour => [Number(hour._id), hour.total / hour.count])
+    );
+  }
+
+  /**
+   * Hourly values from the first to the last hour with readings, with
+   * gaps filled by linear interpolation
+   */
+  private toSeries(averages: Map<number, number>): {
+    values: number[];
+    lastHour: number;
+  } {
+    const hours = [...averages.keys()].sort((a, b) => a - b);
+    const values: number[] = [];
+
+    for (let i = 0; i < hours.length; i++) {
+      if (i > 0) {
+        const gap = (hours[i] - hours[i - 1]) / HOUR_MS;
+        const from = averages.get(hours[i - 1])!;
+        const to = averages.get(hours[i])!;
+        for (let step = 1; step < gap; step++) {
+          values.push(from + ((to - from) * step) / gap);
+        }
+      }
+      values.push(averages.get(hours[i])!);
+    }
+
+    return { values, lastHour: hours[hours.length - 1] };
+  }
+}
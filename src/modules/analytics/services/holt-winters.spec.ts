@@ -0,0 +1,42 @@
+import { fitHoltWinters, forecastHoltWinters } from './holt-winters';
+
+describe('Holt-Winters', () => {
+  // A week of hourly AQI peaking every afternoon, on a slow upward drift
+  const hourly = (t: number) =>
+    60 + 0.05 * t + 25 * Math.sin((2 * Math.PI * (t - 9)) / 24);
+  const week = Array.from({ length: 7 * 24 }, (_, t) => hourly(t));
+
+  it('should continue the daily cycle', () => {
+    const model = fitHoltWinters(week, 24);
+    const forecasts = forecastHoltWinters(model, 24, 1.96);
+
+    expect(forecasts).toHaveLength(24);
+    forecasts.forEach((forecast, h) => {
+      expect(Math.abs(forecast.value - hourly(week.length + h))).toBeLessThan(
+        3
+      );
+      expect(forecast.lower).toBeLessThanOrEqual(forecast.value);
+      expect(forecast.upper).toBeGreaterThanOrEqual(forecast.value);
+    });
+  });
+
+  it('should widen intervals with the horizon and need two seasons', () => {
+    const noisy = week.map((value, t) => value + ((t * 7919) % 11) - 5);
+    const model = fitHoltWinters(noisy, 24, {
+      alpha: 0.5,
+      beta: 0.05,
+      gamma: 0.3,
+    });
+    const forecasts = forecastHoltWinters(model, 72, 1.96);
+    const width = (h: number) => forecasts[h].upper - forecasts[h].lower;
+
+    expect(model.rmse).toBeGreaterThan(0);
+    expect(width(0)).toBeCloseTo(2 * 1.96 * model.rmse);
+    expect(width(23)).toBeGreaterThan(width(0));
+    expect(width(71)).toBeGreaterThan(width(23));
+
+    expect(() => fitHoltWinters(week.slice(0, 30), 24)).toThrow(
+      'Holt-Winters needs 48 points, got 30'
+    );
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Additive Holt-Winters (triple exponential smoothing) with a damped trend.
+ * Smoothing parameters are fitted by grid search on one-step-ahead errors.
+ */
+
+/** Trend damping; keeps multi-day forecasts from running away */
+const DAMPING = 0.9;
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.3, 0.5];
+
+export interface HoltWintersParams {
+  /** Level smoothing */
+  alpha: number;
+  /** Trend smoothing */
+  beta: number;
+  /** Seasonal smoothing */
+  gamma: number;
+}
+
+export interface HoltWintersModel extends HoltWintersParams {
+  seasonLength: number;
+  level: number;
+  trend: number;
+  /** Seasonal components, indexed by position in the season */
+  seasonals: number[];
+  /** Length of the fitted series */
+  length: number;
+  /** Root mean squared one-step-ahead error */
+  rmse: number;
+}
+
+export interface HoltWintersForecast {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Fit the model to `series`, which needs at least two full seasons. Omit
+ * `params` to pick the best of a grid.
+ */
+export function fitHoltWinters(
+  series: number[],
+  seasonLength: number,
+  params?: HoltWintersParams
+): HoltWintersModel {
+  if (series.length < 2 * seasonLength) {
+    throw new Error(
+      `Holt-Winters needs ${2 * seasonLength} points, got ${series.length}`
+    );
+  }
+
+  if (params) {
+    return smooth(series, seasonLength, params);
+  }
+
+  let best: HoltWintersModel | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const model = smooth(series, seasonLength, { alpha, beta, gamma });
+        if (!best || model.rmse < best.rmse) {
+          best = model;
+        }
+      }
+    }
+  }
+  return best!;
+}
+
+/**
+ * Forecast the next `horizon` points. Intervals are ±`z` standard errors,
+ * widening with the horizon as one-step errors accumulate.
+ */
+export function forecastHoltWinters(
+  model: HoltWintersModel,
+  horizon: number,
+  z: number
+): HoltWintersForecast[] {
+  const { alpha, beta, gamma, seasonLength, level, trend, seasonals } = model;
+  const forecasts: HoltWintersForecast[] = [];
+
+  let dampedSum = 0;
+  let variance = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedSum += Math.pow(DAMPING, h);
+    const value =
+      level +
+      dampedSum * trend +
+      seasonals[(model.length - 1 + h) % seasonLength];
+
+    // Errors of the steps before h, each carried forward by the smoothing
+    if (h > 1) {
+      const j = h - 1;
+      const carried =
+        alpha * (1 + beta * dampedTrendWeight(j)) +
+        (j % seasonLength === 0 ? gamma * (1 - alpha) : 0);
+      variance += carried * carried;
+    }
+    const error = z * model.rmse * Math.sqrt(1 + variance);
+
+    forecasts.push({ value, lower: value - error, upper: value + error });
+  }
+
+  return forecasts;
+}
+
+function smooth(
+  series: number[],
+  seasonLength: number,
+  { alpha, beta, gamma }: HoltWintersParams
+): HoltWintersModel {
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const firstSeason = series.slice(0, seasonLength);
+  const secondSeason = series.slice(seasonLength, 2 * seasonLength);
+  let level = mean(firstSeason);
+  let trend = (mean(secondSeason) - level) / seasonLength;
+  const seasonals = firstSeason.map(value => value - level);
+
+  let squaredErrors = 0;
+  for (let t = seasonLength; t < series.length; t++) {
+    const seasonal = seasonals[t % seasonLength];
+    const error = series[t] - (level + DAMPING * trend + seasonal);
+    squaredErrors += error * error;
+
+    const previousLevel = level;
+    level =
+      alpha * (series[t] - seasonal) + (1 - alpha) * (level + DAMPING * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+    seasonals[t % seasonLength] =
+      gamma * (series[t] - level) + (1 - gamma) * seasonal;
+  }
+
+  return {
+    alpha,
+    beta,
+    gamma,
+    seasonLength,
+    level,
+    trend,
+    seasonals,
+    length: series.length,
+    rmse: Math.sqrt(squaredErrors / (series.length - seasonLength)),
+  };
+}
+
+/** φ + φ² + … + φʲ */
+function dampedTrendWeight(j: number): number {
+  let sum = 0;
+  for (let i = 1; i <= j; i++) {
+    sum += Math.pow(DAMPING, i);
+  }
+  return sum;
+}
@@ -0,0 +1,258 @@
+/**
+ * Breakpoint tables for the supported index standards.
+ *
+ * Concentrations are expressed in the unit each standard publishes its table
+ * in; `AqiCalculatorService` converts the µg/m³ (CO: mg/m³) input first.
+ */
+
+export type AqiStandard = 'us-epa' | 'china-mep' | 'eu-caqi';
+
+export type AqiPollutant =
+  | 'pm25'
+  | 'pm10'
+  | 'o3_8h'
+  | 'o3_1h'
+  | 'no2'
+  | 'so2'
+  | 'co';
+
+export type ConcentrationUnit = 'µg/m³' | 'mg/m³' | 'ppm' | 'ppb';
+
+export interface AqiBreakpoint {
+  cLow: number;
+  cHigh: number;
+  iLow: number;
+  iHigh: number;
+}
+
+export interface PollutantTable {
+  unit: ConcentrationUnit;
+  /** Decimal places the concentration is truncated to before the lookup */
+  precision: number;
+  breakpoints: AqiBreakpoint[];
+}
+
+export interface IndexCategory {
+  max: number;
+  name: string;
+}
+
+export interface AqiStandardDefinition {
+  name: string;
+  /** Highest value of the scale; concentrations beyond the table are capped */
+  maxIndex: number | null;
+  /** Round calculated sub-indexes up (China) instead of to nearest */
+  roundUp: boolean;
+  categories: IndexCategory[];
+  tables: Partial<Record<AqiPollutant, PollutantTable>>;
+}
+
+/** Build a table from a list of concentration limits and matching index limits */
+const band = (
+  unit: ConcentrationUnit,
+  precision: number,
+  concentrations: number[],
+  indexes: number[]
+): PollutantTable => ({
+  unit,
+  precision,
+  breakpoints: concentrations.slice(1).map((cHigh, i) => ({
+    cLow: concentrations[i],
+    cHigh,
+    iLow: indexes[i],
+    iHigh: indexes[i + 1],
+  })),
+});
+
+/**
+ * US EPA AQI (40 CFR Part 58 Appendix G, 2024 PM2.5 revision).
+ * Bands are discrete: each starts one precision step above the previous.
+ */
+const US_EPA: AqiStandardDefinition = {
+  name: 'US EPA AQI',
+  maxIndex: 500,
+  roundUp: false,
+  categories: [
+    { max: 50, name: 'Good' },
+    { max: 100, name: 'Moderate' },
+    { max: 150, name: 'Unhealthy for Sensitive Groups' },
+    { max: 200, name: 'Unhealthy' },
+    { max: 300, name: 'Very Unhealthy' },
+    { max: Infinity, name: 'Hazardous' },
+  ],
+  tables: {
+    pm25: {
+      unit: 'µg/m³',
+      precision: 1,
+      breakpoints: [
+        { cLow: 0.0, cHigh: 9.0, iLow: 0, iHigh: 50 },
+        { cLow: 9.1, cHigh: 35.4, iLow: 51, iHigh: 100 },
+        { cLow: 35.5, cHigh: 55.4, iLow: 101, iHigh: 150 },
+        { cLow: 55.5, cHigh: 125.4, iLow: 151, iHigh: 200 },
+        { cLow: 125.5, cHigh: 225.4, iLow: 201, iHigh: 300 },
+        { cLow: 225.5, cHigh: 325.4, iLow: 301, iHigh: 500 },
+      ],
+    },
+    pm10: {
+      unit: 'µg/m³',
+      precision: 0,
+      breakpoints: [
+        { cLow: 0, cHigh: 54, iLow: 0, iHigh: 50 },
+        { cLow: 55, cHigh: 154, iLow: 51, iHigh: 100 },
+        { cLow: 155, cHigh: 254, iLow: 101, iHigh: 150 },
+        { cLow: 255, cHigh: 354, iLow: 151, iHigh: 200 },
+        { cLow: 355, cHigh: 424, iLow: 201, iHigh: 300 },
+        { cLow: 425, cHigh: 604, iLow: 301, iHigh: 500 },
+      ],
+    },
+    o3_8h: {
+      unit: 'ppm',
+      precision: 3,
+      breakpoints: [
+        { cLow: 0.0, cHigh: 0.054, iLow: 0, iHigh: 50 },
+        { cLow: 0.055, cHigh: 0.07, iLow: 51, iHigh: 100 },
+        { cLow: 0.071, cHigh: 0.085, iLow: 101, iHigh: 150 },
+        { cLow: 0.086, cHigh: 0.105, iLow: 151, iHigh: 200 },
+        { cLow: 0.106, cHigh: 0.2, iLow: 201, iHigh: 300 },
+      ],
+    },
+    // 1-hour ozone is only defined from the USG category upwards
+    o3_1h: {
+      unit: 'ppm',
+      precision: 3,
+      breakpoints: [
+        { cLow: 0.125, cHigh: 0.164, iLow: 101, iHigh: 150 },
+        { cLow: 0.165, cHigh: 0.204, iLow: 151, iHigh: 200 },
+        { cLow: 0.205, cHigh: 0.404, iLow: 201, iHigh: 300 },
+        { cLow: 0.405, cHigh: 0.604, iLow: 301, iHigh: 500 },
+      ],
+    },
+    no2: {
+      unit: 'ppb',
+      precision: 0,
+      breakpoints: [
+        { cLow: 0, cHigh: 53, iLow: 0, iHigh: 50 },
+        { cLow: 54, cHigh: 100, iLow: 51, iHigh: 100 },
+        { cLow: 101, cHigh: 360, iLow: 101, iHigh: 150 },
+        { cLow: 361, cHigh: 649, iLow: 151, iHigh: 200 },
+        { cLow: 650, cHigh: 1249, iLow: 201, iHigh: 300 },
+        { cLow: 1250, cHigh: 2049, iLow: 301, iHigh: 500 },
+      ],
+    },
+    so2: {
+      unit: 'ppb',
+      precision: 0,
+      breakpoints: [
+        { cLow: 0, cHigh: 35, iLow: 0, iHigh: 50 },
+        { cLow: 36, cHigh: 75, iLow: 51, iHigh: 100 },
+        { cLow: 76, cHigh: 185, iLow: 101, iHigh: 150 },
+        { cLow: 186, cHigh: 304, iLow: 151, iHigh: 200 },
+        { cLow: 305, cHigh: 604, iLow: 201, iHigh: 300 },
+        { cLow: 605, cHigh: 1004, iLow: 301, iHigh: 500 },
+      ],
+    },
+    co: {
+      unit: 'ppm',
+      precision: 1,
+      breakpoints: [
+        { cLow: 0.0, cHigh: 4.4, iLow: 0, iHigh: 50 },
+        { cLow: 4.5, cHigh: 9.4, iLow: 51, iHigh: 100 },
+        { cLow: 9.5, cHigh: 12.4, iLow: 101, iHigh: 150 },
+        { cLow: 12.5, cHigh: 15.4, iLow: 151, iHigh: 200 },
+        { cLow: 15.5, cHigh: 30.4, iLow: 201, iHigh: 300 },
+        { cLow: 30.5, cHigh: 50.4, iLow: 301, iHigh: 500 },
+      ],
+    },
+  },
+};
+
+const CHINA_IAQI = [0, 50, 100, 150, 200, 300, 400, 500];
+
+/**
+ * China MEP AQI (HJ 633-2012), 24-hour limits except for ozone.
+ * Bands are continuous and sub-indexes are rounded up.
+ */
+const CHINA_MEP: AqiStandardDefinition = {
+  name: 'China MEP AQI',
+  maxIndex: 500,
+  roundUp: true,
+  categories: [
+    { max: 50, name: 'Excellent' },
+    { max: 100, name: 'Good' },
+    { max: 150, name: 'Lightly Polluted' },
+    { max: 200, name: 'Moderately Polluted' },
+    { max: 300, name: 'Heavily Polluted' },
+    { max: Infinity, name: 'Severely Polluted' },
+  ],
+  tables: {
+    pm25: band('µg/m³', 0, [0, 35, 75, 115, 150, 250, 350, 500], CHINA_IAQI),
+    pm10: band('µg/m³', 0, [0, 50, 150, 250, 350, 420, 500, 600], CHINA_IAQI),
+    // 8-hour ozone stops at IAQI 300; higher values are assessed on 1-hour ozone
+    o3_8h: band('µg/m³', 0, [0, 100, 160, 215, 265, 800], CHINA_IAQI),
+    o3_1h: band(
+      'µg/m³',
+      0,
+      [0, 160, 200, 300, 400, 800, 1000, 1200],
+      CHINA_IAQI
+    ),
+    no2: band('µg/m³', 0, [0, 40, 80, 180, 280, 565, 750, 940], CHINA_IAQI),
+    so2: band('µg/m³', 0, [0, 50, 150, 475, 800, 1600, 2100, 2620], CHINA_IAQI),
+    co: band('mg/m³', 1, [0, 2, 4, 14, 24, 36, 48, 60], CHINA_IAQI),
+  },
+};
+
+const CAQI_INDEX = [0, 25, 50, 75, 100];
+
+/**
+ * European CAQI, hourly background grid. The scale is open-ended above 100,
+ * so the last band is extrapolated.
+ */
+const EU_CAQI: AqiStandardDefinition = {
+  name: 'EU CAQI (background, hourly)',
+  maxIndex: null,
+  roundUp: false,
+  categories: [
+    { max: 25, name: 'Very Low' },
+    { max: 50, name: 'Low' },
+    { max: 75, name: 'Medium' },
+    { max: 100, name: 'High' },
+    { max: Infinity, name: 'Very High' },
+  ],
+  tables: {
+    pm25: band('µg/m³', 0, [0, 15, 30, 55, 110], CAQI_INDEX),
+    pm10: band('µg/m³', 0, [0, 25, 50, 90, 180], CAQI_INDEX),
+    o3_1h: band('µg/m³', 0, [0, 60, 120, 180, 240], CAQI_INDEX),
+    no2: band('µg/m³', 0, [0, 50, 100, 200, 400], CAQI_INDEX),
+    so2: band('µg/m³', 0, [0, 50, 100, 350, 500], CAQI_INDEX),
+    // CAQI publishes CO as 8-hour µg/m³
+    co: band('µg/m³', 0, [0, 5000, 7500, 10000, 20000], CAQI_INDEX),
+  },
+};
+
+export const AQI_STANDARDS: Record<AqiStandard, AqiStandardDefinition> = {
+  'us-epa': US_EPA,
+  'china-mep': CHINA_MEP,
+  'eu-caqi': EU_CAQI,
+};
+
+/** Molecular weights (g/mol) used for µg/m³ → ppb conversion at 25°C, 1 atm */
+export const MOLECULAR_WEIGHTS: Partial<Record<AqiPollutant, number>> = {
+  o3_8h: 48.0,
+  o3_1h: 48.0,
+  no2: 46.01,
+  so2: 64.07,
+  co: 28.01,
+};
+
+export const MOLAR_VOLUME = 24.45;
+
+/** IQAir pollutant codes, as stored in `main_pollutant` */
+export const POLLUTANT_CODES: Record<AqiPollutant, string> = {
+  pm25: 'p2',
+  pm10: 'p1',
+  o3_8h: 'o3',
+  o3_1h: 'o3',
+  no2: 'n2',
+  so2: 'so2',
+  co: 'co',
+};
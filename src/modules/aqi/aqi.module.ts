@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import {
+  AirQualityHot,
+  AirQualityHotSchema,
+} from '../database/schemas/air-quality-hot.schema';
+import { AqiController } from './controllers/aqi.controller';
+import { AqiCalculatorService } from './services/aqi-calculator.service';
+import { NowCastService } from './services/nowcast.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AirQualityHot.name, schema: AirQualityHotSchema },
+    ]),
+  ],
+  controllers: [AqiController],
+  providers: [AqiCalculatorService, NowCastService],
+  exports: [AqiCalculatorService, NowCastService],
+})
+export class AqiModule {}
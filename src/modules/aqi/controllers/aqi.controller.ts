@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { CalculateAqiDto } from '@/common/dto/aqi.dto';
+import { AqiCalculatorService } from '../services/aqi-calculator.service';
+
+@ApiTags('aqi')
+@RequireRole('reader')
+@Controller('aqi')
+export class AqiController {
+  private readonly logger = new Logger(AqiController.name);
+
+  constructor(private readonly aqiCalculatorService: AqiCalculatorService) {}
+
+  @Post('calculate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Calculate an AQI and per-pollutant sub-indexes',
+  })
+  @ApiResponse({ status: 200, description: 'AQI calculated successfully' })
+  @ApiResponse({
+    status: 422,
+    description: 'No concentration falls within the standard',
+  })
+  async calculate(@Body() calculateDto: CalculateAqiDto) {
+    const standard = calculateDto.standard ?? 'us-epa';
+    this.logger.log(`Calculating ${standard} AQI`);
+
+    const result = this.aqiCalculatorService.calculate(
+      calculateDto.concentrations,
+      standard
+    );
+
+    if (!result) {
+      throw new UnprocessableEntityException(
+        `No concentration can be indexed under ${standard}`
+      );
+    }
+
+    return result;
+  }
+
+  @Get('standards')
+  @ApiOperation({
+    summary: 'List supported AQI standards with their breakpoint tables',
+  })
+  @ApiResponse({ status: 200, description: 'Standards retrieved successfully' })
+  async getStandards() {
+    return {
+      standards: this.aqiCalculatorService.getStandards(),
+      timestamp: new Date(),
+    };
+  }
+}
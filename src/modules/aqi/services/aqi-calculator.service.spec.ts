@@ -0,0 +1,116 @@
+import { AqiCalculatorService } from './aqi-calculator.service';
+
+describe('AqiCalculatorService', () => {
+  const service = new AqiCalculatorService();
+
+  describe('calculate (US EPA)', () => {
+    it('should interpolate PM2.5 on the 2024 breakpoints', () => {
+      const result = service.calculate({ pm25: 35.4 });
+
+      expect(result).toMatchObject({
+        aqi: 100,
+        dominantPollutant: 'pm25',
+        main_pollutant: 'p2',
+        category: 'Moderate',
+      });
+      expect(result!.subIndexes[0].breakpoint).toEqual({
+        cLow: 9.1,
+        cHigh: 35.4,
+        iLow: 51,
+        iHigh: 100,
+      });
+    });
+
+    it('should truncate before the lookup so band gaps are not hit', () => {
+      // 9.05 truncates to 9.0, the top of the Good band
+      expect(service.calculate({ pm25: 9.05 })!.aqi).toBe(50);
+    });
+
+    it('should convert gases to ppm/ppb and report the highest sub-index', () => {
+      // 140 µg/m³ O3 ≈ 0.071 ppm, 100 µg/m³ NO2 ≈ 53 ppb
+      const result = service.calculate({ pm25: 5, o3_8h: 140, no2: 100 });
+
+      expect(result!.dominantPollutant).toBe('o3_8h');
+      expect(result!.aqi).toBe(101);
+      expect(result!.subIndexes.map(s => s.pollutant)).toEqual([
+        'pm25',
+        'o3_8h',
+        'no2',
+      ]);
+      expect(result!.subIndexes[1].unit).toBe('ppm');
+      expect(result!.subIndexes[2].standardConcentration).toBe(53);
+    });
+
+    it('should skip 1-hour ozone below the first breakpoint', () => {
+      const result = service.calculate({ pm25: 12, o3_1h: 100 });
+
+      expect(result!.skipped).toEqual(['o3_1h']);
+      expect(result!.subIndexes).toHaveLength(1);
+    });
+
+    it('should cap at 500 above the table', () => {
+      expect(service.calculate({ pm25: 600 })!.aqi).toBe(500);
+    });
+
+    it('should return null without usable concentrations', () => {
+      expect(service.calculate({})).toBeNull();
+    });
+  });
+
+  describe('calculate (China MEP)', () => {
+    it('should round sub-indexes up', () => {
+      // (100 - 50) / (75 - 35) * (60 - 35) + 50 = 81.25
+      const result = service.calculate({ pm25: 60 }, 'china-mep');
+
+      expect(result).toMatchObject({ aqi: 82, category: 'Good' });
+    });
+  });
+
+  describe('calculate (EU CAQI)', () => {
+    it('should extrapolate above 100', () => {
+      // (100 - 75) / (180 - 90) * (270 - 90) + 75 = 125
+      const result = service.calculate({ pm10: 270 }, 'eu-caqi');
+
+      expect(result).toMatchObject({ aqi: 125, category: 'Very High' });
+      expect(result!.subIndexes[0].breakpoint).toBeNull();
+    });
+  });
+
+  describe('calculateUsAqi', () => {
+    it('should include the pollution level', () => {
+      expect(service.calculateUsAqi({ pm10: 200 })).toMatchObject({
+        aqi: 123,
+        main_pollutant: 'p1',
+        pollution_level: 'Unhealthy for Sensitive Groups',
+      });
+    });
+  });
+
+  describe('calculateNowCast', () => {
+    it('should weight recent hours by the floored weight factor', () => {
+      // min/max = 0.25, floored to 0.5: (10 + 0.5 * 20 + 0.25 * 40) / 1.75
+      expect(service.calculateNowCast([10, 20, 40])).toBeCloseTo(17.14, 2);
+    });
+
+    it('should use the concentration range as weight factor when stable', () => {
+      // w = 0.8: (16 + 0.8 * 20) / 1.8
+      expect(service.calculateNowCast([16, 20])).toBeCloseTo(17.78, 2);
+    });
+
+    it('should skip missing hours but keep their weight position', () => {
+      // w = 0.5: (10 + 0.25 * 20) / 1.25
+      expect(service.calculateNowCast([10, null, 20])).toBeCloseTo(12, 5);
+    });
+
+    it('should require two of the three most recent hours', () => {
+      expect(service.calculateNowCast([10, null, null, 12, 14])).toBeNull();
+    });
+  });
+
+  describe('concentrationFromUsAqi', () => {
+    it('should invert the PM2.5 breakpoints', () => {
+      expect(service.concentrationFromUsAqi('pm25', 100)).toBeCloseTo(35.4);
+      expect(service.concentrationFromUsAqi('pm25', 50)).toBeCloseTo(9.0);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+
+import { PollutionLevel } from '@/common/types';
+import {
+  AQI_STANDARDS,
+  AqiBreakpoint,
+  AqiPollutant,
+  AqiStandard,
+  AqiStandardDefinition,
+  ConcentrationUnit,
+  MOLAR_VOLUME,
+  MOLECULAR_WEIGHTS,
+  POLLUTANT_CODES,
+  PollutantTable,
+} from '../aqi-breakpoints';
+
+/** Raw concentrations in µg/m³, except CO in mg/m³ */
+export type PollutantConcentrations = Partial<Record<AqiPollutant, number>>;
+
+export interface SubIndex {
+  pollutant: AqiPollutant;
+  /** Concentration as supplied (µg/m³, CO mg/m³) */
+  concentration: number;
+  /** Concentration after unit conversion and truncation, used for the lookup */
+  standardConcentration: number;
+  unit: ConcentrationUnit;
+  /** Band the concentration fell into; null when capped or extrapolated */
+  breakpoint: AqiBreakpoint | null;
+  index: number;
+}
+
+export interface AqiResult {
+  standard: AqiStandard;
+  aqi: number;
+  dominantPollutant: AqiPollutant;
+  /** IQAir code of the dominant pollutant (p2 = PM2.5, p1 = PM10, ...) */
+  main_pollutant: string;
+  category: string;
+  subIndexes: SubIndex[];
+  /** Pollutants supplied but outside the range the standard defines */
+  skipped: AqiPollutant[];
+}
+
+/** Trailing window of the EPA NowCast */
+export const NOWCAST_HOURS = 12;
+
+export interface UsAqiResult extends AqiResult {
+  pollution_level: PollutionLevel;
+}
+
+@Injectable()
+export class AqiCalculatorService {
+  /**
+   * Index for the given standard: the highest pollutant sub-index
+   */
+  calculate(
+    concentrations: PollutantConcentrations,
+    standard: AqiStandard = 'us-epa'
+  ): AqiResult | null {
+    const definition = AQI_STANDARDS[standard];
+    if (!definition) {
+      throw new BadRequestException(`Unknown AQI standard: ${standard}`);
+    }
+
+    const subIndexes: SubIndex[] = [];
+    const skipped: AqiPollutant[] = [];
+
+    for (const [pollutant, concentration] of Object.entries(concentrations) as [
+      AqiPollutant,
+      number | undefined,
+    ][]) {
+      if (concentration === undefined || concentration === null) continue;
+
+      const table = definition.tables[pollutant];
+      const subIndex = table
+        ? this.calculateSubIndex(pollutant, concentration, table, definition)
+        : null;
+
+      if (subIndex) {
+        subIndexes.push(subIndex);
+      } else {
+        skipped.push(pollutant);
+      }
+    }
+
+    if (subIndexes.length === 0) {
+      return null;
+    }
+
+    const dominant = subIndexes.reduce((max, sub) =>
+      sub.index > max.index ? sub : max
+    );
+
+    return {
+      standard,
+      aqi: dominant.index,
+      dominantPollutant: dominant.pollutant,
+      main_pollutant: POLLUTANT_CODES[dominant.pollutant],
+      category: this.getCategory(dominant.index, standard),
+      subIndexes,
+      skipped,
+    };
+  }
+
+  /**
+   * US EPA AQI, with the category in the `PollutionLevel` vocabulary used
+   * by the hot/warm/cold collections
+   */
+  calculateUsAqi(concentrations: PollutantConcentrations): UsAqiResult | null {
+    const result = this.calculate(concentrations, 'us-epa');
+    if (!result) {
+      return null;
+    }
+
+    return {
+      ...result,
+      pollution_level: this.getPollutionLevel(result.aqi),
+    };
+  }
+
+  /**
+   * Category name of an index value in the given standard
+   */
+  getCategory(index: number, standard: AqiStandard = 'us-epa'): string {
+    return AQI_STANDARDS[standard].categories.find(c => index <= c.max)!.name;
+  }
+
+  /**
+   * Convert US AQI number to air quality level
+   */
+  getPollutionLevel(aqi: number): PollutionLevel {
+    return this.getCategory(aqi, 'us-epa') as PollutionLevel;
+  }
+
+  /**
+   * EPA NowCast over hourly averages, most recent hour first (up to 12).
+   * Missing hours are null; at least two of the latest three are required.
+   */
+  calculateNowCast(hourlyAverages: (number | null)[]): number | null {
+    const hours = hourlyAverages.slice(0, NOWCAST_HOURS);
+    const recentHours = hours.slice(0, 3).filter(c => c !== null).length;
+    if (recentHours < 2) {
+      return null;
+    }
+
+    const available = hours.filter((c): c is number => c !== null);
+    const max = Math.max(...available);
+    if (max === 0) {
+      return 0;
+    }
+
+    // Weight factor: how much the concentration moved, floored at 0.5
+    const weight = Math.max(Math.min(...available) / max, 0.5);
+
+    let weightedSum = 0;
+    let weightTotal = 0;
+    hours.forEach((concentration, i) => {
+      if (concentration === null) return;
+      weightedSum += Math.pow(weight, i) * concentration;
+      weightTotal += Math.pow(weight, i);
+    });
+
+    return weightedSum / weightTotal;
+  }
+
+  /**
+   * Concentration (µg/m³) that yields a US AQI value, for records that only
+   * stored the index of their main pollutant
+   */
+  concentrationFromUsAqi(pollutant: 'pm25' | 'pm10', aqi: number): number {
+    const { breakpoints } = AQI_STANDARDS['us-epa'].tables[pollutant]!;
+    const bp =
+      breakpoints.find(b => aqi <= b.iHigh) ??
+      breakpoints[breakpoints.length - 1];
+    const index = Math.min(Math.max(aqi, bp.iLow), bp.iHigh);
+
+    return (
+      ((bp.cHigh - bp.cLow) / (bp.iHigh - bp.iLow)) * (index - bp.iLow) +
+      bp.cLow
+    );
+  }
+
+  getStandards(): Record<AqiStandard, AqiStandardDefinition> {
+    return AQI_STANDARDS;
+  }
+
+  private calculateSubIndex(
+    pollutant: AqiPollutant,
+    concentration: number,
+    table: PollutantTable,
+    definition: AqiStandardDefinition
+  ): SubIndex | null {
+    const converted = this.truncate(
+      this.convert(pollutant, concentration, table.unit),
+      table.precision
+    );
+    const { breakpoints } = table;
+    const first = breakpoints[0];
+    const last = breakpoints[breakpoints.length - 1];
+
+    const result = (breakpoint: AqiBreakpoint | null, index: number) => ({
+      pollutant,
+      concentration,
+      standardConcentration: converted,
+      unit: table.unit,
+      breakpoint,
+      index: this.round(index, definition),
+    });
+
+    // Some tables only start above zero (US 1-hour ozone)
+    if (converted < first.cLow) {
+      return null;
+    }
+
+    if (converted > last.cHigh) {
+      // Open-ended scale (CAQI): extend the last band
+      if (definition.maxIndex === null) {
+        return result(null, this.interpolate(converted, last));
+      }
+      // Table stops below the top of the scale (8-hour ozone): not defined
+      if (last.iHigh < definition.maxIndex) {
+        return null;
+      }
+      return result(null, definition.maxIndex);
+    }
+
+    // Discrete tables leave gaps between bands; a value in a gap belongs to the upper band
+    const breakpoint = breakpoints.find(bp => converted <= bp.cHigh)!;
+    const clamped = Math.max(converted, breakpoint.cLow);
+
+    return result(breakpoint, this.interpolate(clamped, breakpoint));
+  }
+
+  /**
+   * Input is µg/m³ (CO mg/m³); gases are converted to ppb/ppm at 25°C
+   */
+  private convert(
+    pollutant: AqiPollutant,
+    concentration: number,
+    unit: ConcentrationUnit
+  ): number {
+    const inputUnit: ConcentrationUnit = pollutant === 'co' ? 'mg/m³' : 'µg/m³';
+    if (unit === inputUnit) {
+      return concentration;
+    }
+
+    if (unit === 'µg/m³' && inputUnit === 'mg/m³') {
+      return concentration * 1000;
+    }
+
+    const molecularWeight = MOLECULAR_WEIGHTS[pollutant]!;
+    // µg/m³ → ppb and mg/m³ → ppm share the same factor
+    const mixingRatio = (concentration * MOLAR_VOLUME) / molecularWeight;
+
+    if (unit === 'ppm' && inputUnit === 'µg/m³') {
+      return mixingRatio / 1000;
+    }
+    return mixingRatio;
+  }
+
+  private interpolate(concentration: number, bp: AqiBreakpoint): number {
+    return (
+      ((bp.iHigh - bp.iLow) / (bp.cHigh - bp.cLow)) *
+        (concentration - bp.cLow) +
+      bp.iLow
+    );
+  }
+
+  private truncate(value: number, precision: number): number {
+    const factor = Math.pow(10, precision);
+    // Guard against floating point artefacts such as 12.099999
+    return Math.floor(Number((value * factor).toFixed(6))) / factor;
+  }
+
+  private round(index: number, definition: AqiStandardDefinition): number {
+    return definition.roundUp ? Math.ceil(index) : Math.round(index);
+  }
+}
@@ -0,0 +1,124 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { AirQualityHot } from '../../database/schemas/air-quality-hot.schema';
+import { AqiCalculatorService } from './aqi-calculator.service';
+import { NowCastService } from './nowcast.service';
+
+describe('NowCastService', () => {
+  let service: NowCastService;
+
+  const mockHotModel = {
+    find: jest.fn(),
+  };
+
+  const sensorRecord = (timestamp: string, pm25: number) => ({
+    timestamp: new Date(timestamp),
+    aqi: 0,
+    main_pollutant: 'p2',
+    sub_indexes: [{ pollutant: 'pm25', concentration: pm25, index: 0 }],
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NowCastService,
+        AqiCalculatorService,
+        {
+          provide: getModelToken(AirQualityHot.name),
+          useValue: mockHotModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<NowCastService>(NowCastService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildSeries', () => {
+    it('should damp a short spike compared to the instantaneous value', () => {
+      const records = [
+        sensorRecord('2024-08-05T07:10:00Z', 8),
+        sensorRecord('2024-08-05T08:10:00Z', 8),
+        sensorRecord('2024-08-05T09:10:00Z', 10),
+        sensorRecord('2024-08-05T09:40:00Z', 10),
+        sensorRecord('2024-08-05T10:05:00Z', 80),
+      ];
+
+      const [point] = service.buildSeries(
+        records,
+        new Date('2024-08-05T10:00:00Z'),
+        new Date('2024-08-05T10:30:00Z')
+      );
+
+      // w = 0.5: (80 + 0.5 * 10 + 0.25 * 8 + 0.125 * 8) / 1.875 = 46.9
+      expect(point).toMatchObject({
+        timestamp: new Date('2024-08-05T10:00:00Z'),
+        concentrations: { pm25: 46.9 },
+        aqi: 129,
+        main_pollutant: 'p2',
+      });
+    });
+
+    it('should derive concentrations from the AQI of provider records', () => {
+      const providerRecord = (timestamp: string) => ({
+        timestamp: new Date(timestamp),
+        aqi: 100,
+        main_pollutant: 'p2',
+      });
+
+      const series = service.buildSeries(
+        [
+          providerRecord('2024-08-05T09:00:00Z'),
+          providerRecord('2024-08-05T10:00:00Z'),
+        ],
+        new Date('2024-08-05T10:00:00Z'),
+        new Date('2024-08-05T10:00:00Z')
+      );
+
+      expect(series).toHaveLength(1);
+      expect(series[0]).toMatchObject({
+        aqi: 100,
+        concentrations: { pm25: 35.4 },
+      });
+    });
+
+    it('should skip hours without enough recent data', () => {
+      const series = service.buildSeries(
+        [sensorRecord('2024-08-05T10:05:00Z', 12)],
+        new Date('2024-08-05T10:00:00Z'),
+        new Date('2024-08-05T10:30:00Z')
+      );
+
+      expect(series).toEqual([]);
+    });
+  });
+
+  describe('getNowCast', () => {
+    it('should query the trailing 12 hours of the location', async () => {
+      mockHotModel.find.mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          lean: jest.fn().mockResolvedValue([]),
+        }),
+      });
+
+      const at = new Date('2024-08-05T10:30:00Z');
+      const result = await service.getNowCast(
+        'Paris, Ile-de-France, France',
+        at
+      );
+
+      expect(result).toBeNull();
+      expect(mockHotModel.find).toHaveBeenCalledWith({
+        location: 'Paris, Ile-de-France, France',
+        timestamp: {
+          $gte: new Date('2024-08-04T23:00:00Z'),
+          $lte: at,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { NowCastDto } from '@/common/dto/air-quality.dto';
+import {
+  AirQualityHot,
+  AirQualityHotDocument,
+} from '../../database/schemas/air-quality-hot.schema';
+import { POLLUTANT_CODES } from '../aqi-breakpoints';
+import {
+  AqiCalculatorService,
+  NOWCAST_HOURS,
+  PollutantConcentrations,
+} from './aqi-calculator.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** NowCast is defined for particulate matter only */
+const NOWCAST_POLLUTANTS = ['pm25', 'pm10'] as const;
+type NowCastPollutant = (typeof NOWCAST_POLLUTANTS)[number];
+
+/** Fields NowCast needs from a hot, warm or cold record */
+export interface NowCastRecord {
+  timestamp: Date | string;
+  aqi: number;
+  main_pollutant: string;
+  sub_indexes?: { pollutant: string; concentration: number }[];
+}
+
+type HourlyAverages = Map<number, Partial<Record<NowCastPollutant, number>>>;
+
+@Injectable()
+export class NowCastService {
+  private readonly logger = new Logger(NowCastService.name);
+
+  constructor(
+    @InjectModel(AirQualityHot.name)
+    private hotModel: Model<AirQualityHotDocument>,
+    private aqiCalculatorService: AqiCalculatorService
+  ) {}
+
+  /**
+   * NowCast for the hour containing `at`
+   */
+  async getNowCast(
+    location: string,
+    at: Date = new Date()
+  ): Promise<NowCastDto | null> {
+    const series = await this.getNowCastSeries(location, at, at);
+    return series[0] ?? null;
+  }
+
+  /**
+   * Hourly NowCast points for a location, read from the hot collection
+   */
+  async getNowCastSeries(
+    location: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<NowCastDto[]> {
+    const records = await this.hotModel
+      .find({
+        location,
+        timestamp: { $gte: this.getWindowStart(startDate), $lte: endDate },
+      })
+      .select('timestamp aqi main_pollutant sub_indexes')
+      .lean();
+
+    this.logger.debug(
+      `Calculating NowCast for ${location} from ${records.length} records`
+    );
+
+    return this.buildSeries(records, startDate, endDate);
+  }
+
+  /**
+   * Hourly NowCast points between two dates from already loaded records.
+   * Records should reach back to `getWindowStart(startDate)`.
+   */
+  buildSeries(
+    records: NowCastRecord[],
+    startDate: Date,
+    endDate: Date
+  ): NowCastDto[] {
+    const hourly = this.averageByHour(records);
+    const points: NowCastDto[] = [];
+
+    for (
+      let hour = this.getHourStart(startDate);
+      hour <= endDate.getTime();
+      hour += HOUR_MS
+    ) {
+      const point = this.calculatePoint(hourly, hour);
+      if (point) {
+        points.push(point);
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * Earliest timestamp that contributes to the NowCast at `date`
+   */
+  getWindowStart(date: Date): Date {
+    return new Date(this.getHourStart(date) - (NOWCAST_HOURS - 1) * HOUR_MS);
+  }
+
+  private calculatePoint(
+    hourly: HourlyAverages,
+    hour: number
+  ): NowCastDto | null {
+    const concentrations: PollutantConcentrations = {};
+
+    for (const pollutant of NOWCAST_POLLUTANTS) {
+      const window = Array.from(
+        { length: NOWCAST_HOURS },
+        (_, i) => hourly.get(hour - i * HOUR_MS)?.[pollutant] ?? null
+      );
+      const nowcast = this.aqiCalculatorService.calculateNowCast(window);
+      if (nowcast !== null) {
+        // EPA truncates NowCast concentrations, never rounds up
+        concentrations[pollutant] = Math.floor(nowcast * 10) / 10;
+      }
+    }
+
+    const usAqi = this.aqiCalculatorService.calculateUsAqi(concentrations);
+    if (!usAqi) {
+      return null;
+    }
+
+    return {
+      timestamp: new Date(hour),
+      aqi: usAqi.aqi,
+      main_pollutant: usAqi.main_pollutant,
+      pollution_level: usAqi.pollution_level,
+      concentrations,
+    };
+  }
+
+  private averageByHour(records: NowCastRecord[]): HourlyAverages {
+    const sums = new Map<
+      number,
+      Partial<Record<NowCastPollutant, { sum: number; count: number }>>
+    >();
+
+    for (const record of records) {
+      const hour = this.getHourStart(new Date(record.timestamp));
+      const bucket = sums.get(hour) ?? {};
+
+      for (const pollutant of NOWCAST_POLLUTANTS) {
+        const concentration = this.getConcentration(record, pollutant);
+        if (concentration === null) continue;
+
+        const total = bucket[pollutant] ?? { sum: 0, count: 0 };
+        total.sum += concentration;
+        total.count += 1;
+        bucket[pollutant] = total;
+      }
+
+      sums.set(hour, bucket);
+    }
+
+    const averages: HourlyAverages = new Map();
+    for (const [hour, bucket] of sums) {
+      const average: Partial<Record<NowCastPollutant, number>> = {};
+      for (const pollutant of NOWCAST_POLLUTANTS) {
+        const total = bucket[pollutant];
+        if (total) {
+          average[pollutant] = total.sum / total.count;
+        }
+      }
+      averages.set(hour, average);
+    }
+
+    return averages;
+  }
+
+  /**
+   * Measured concentration when stored, otherwise derived from the AQI of
+   * the record's main pollutant (provider records carry no concentrations)
+   */
+  private getConcentration(
+    record: NowCastRecord,
+    pollutant: NowCastPollutant
+  ): number | null {
+    const subIndex = record.sub_indexes?.find(s => s.pollutant === pollutant);
+    if (subIndex) {
+      return subIndex.concentration;
+    }
+
+    if (record.main_pollutant === POLLUTANT_CODES[pollutant]) {
+      return this.aqiCalculatorService.concentrationFromUsAqi(
+        pollutant,
+        record.aqi
+      );
+    }
+
+    return null;
+  }
+
+  private getHourStart(date: Date): number {
+    return Math.floor(date.getTime() / HOUR_MS) * HOUR_MS;
+  }
+}
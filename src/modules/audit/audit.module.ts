@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { AuditController } from './controllers/audit.controller';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { AuditEntry, AuditEntrySchema } from './schemas/audit-entry.schema';
+import { AuditService } from './services/audit.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuditEntry.name, schema: AuditEntrySchema },
+    ]),
+  ],
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Logger,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { AuditExportDto, AuditQueryDto } from '@/common/dto/audit.dto';
+import { AUDIT_CONTENT_TYPES, AuditService } from '../services/audit.service';
+
+@ApiTags('audit')
+@RequireRole('admin')
+@Controller('audit')
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Audit log entries, newest first' })
+  @ApiResponse({ status: 400, description: 'Invalid cursor' })
+  async findAll(@Query() query: AuditQueryDto) {
+    const { data, pagination } = await this.auditService.find(query);
+
+    return {
+      success: true,
+      data,
+      pagination,
+      timestamp: new Date(),
+    };
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export matching audit entries, oldest first, as NDJSON or CSV',
+  })
+  @ApiResponse({ status: 200, description: 'The export file, streamed' })
+  async export(
+    @Query() query: AuditExportDto,
+    @Res() res: Response
+  ): Promise<void> {
+    const format = query.format ?? 'ndjson';
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', AUDIT_CONTENT_TYPES[format]);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${this.auditService.getFileName(format)}"`
+    );
+
+    try {
+      const count = await this.auditService.exportEntries(query, res);
+      this.logger.log(`Exported ${count} audit entries as ${format}`);
+    } catch (error) {
+      if (!res.destroyed) {
+        this.logger.error('Error streaming audit export:', error);
+      }
+      // Headers are already sent; abort so the client sees a broken download
+      res.destroy(error);
+    }
+  }
+}
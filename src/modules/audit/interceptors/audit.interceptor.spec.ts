@@ -0,0 +1,132 @@
+import {
+  CallHandler,
+  Controller,
+  ExecutionContext,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Put,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { AuditService } from '../services/audit.service';
+import { AuditInterceptor } from './audit.interceptor';
+
+@RequireRole('reader')
+@Controller('queue')
+class QueueController {
+  @Get()
+  stats() {}
+
+  @Put('notes')
+  note() {}
+
+  @RequireRole('admin')
+  @HttpCode(202)
+  @Put('pause/:queueName')
+  pauseQueue() {}
+}
+
+describe('AuditInterceptor', () => {
+  const mockAuditService = { record: jest.fn() };
+  const interceptor = new AuditInterceptor(
+    new Reflector(),
+    mockAuditService as unknown as AuditService
+  );
+
+  const contextFor = (handler: string, method: string) => {
+    const headers: Record<string, string> = {
+      'x-audit-reason': '  Redis maintenance ',
+    };
+    const request: Record<string, any> = {
+      method,
+      ip: '203.0.113.7',
+      path: '/api/v1/queue/pause/air-quality',
+      originalUrl: '/api/v1/queue/pause/air-quality?force=true',
+      route: { path: '/api/v1/queue/pause/:queueName' },
+      params: { queueName: 'air-quality' },
+      query: { force: 'true' },
+      body: {},
+      apiKey: { id: 'key-2', name: 'Ops', role: 'admin', tier: 'standard' },
+      get: (name: string) => headers[name],
+    };
+    const context = {
+      getType: () => 'http',
+      getClass: () => QueueController,
+      getHandler: () => QueueController.prototype[handler],
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { context, request };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should record admin writes with the actor, reason and state', async () => {
+    const { context, request } = contextFor('pauseQueue', 'PUT');
+    const handler: CallHandler = {
+      handle: () => {
+        request.auditState.before = { paused: false };
+        request.auditState.after = { paused: true };
+        return of({ message: 'Queue paused' });
+      },
+    };
+
+    await lastValueFrom(interceptor.intercept(context, handler));
+
+    expect(mockAuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'queue.pauseQueue',
+        actor: expect.objectContaining({ keyId: 'key-2', role: 'admin' }),
+        route: '/api/v1/queue/pause/:queueName',
+        path: '/api/v1/queue/pause/air-quality',
+        parameters: {
+          params: { queueName: 'air-quality' },
+          query: { force: 'true' },
+          body: {},
+        },
+        reason: 'Redis maintenance',
+        before: { paused: false },
+        after: { paused: true },
+        outcome: 'success',
+        statusCode: 202,
+        error: null,
+      })
+    );
+  });
+
+  it('should record failures, and skip reads and reader routes', async () => {
+    const { context } = contextFor('pauseQueue', 'PUT');
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(context, {
+          handle: () =>
+            throwError(() => new NotFoundException('Queue nope not found')),
+        })
+      )
+    ).rejects.toThrow(NotFoundException);
+
+    expect(mockAuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: 'failure',
+        statusCode: 404,
+        error: 'Queue nope not found',
+      })
+    );
+
+    mockAuditService.record.mockClear();
+    for (const [handler, method] of [
+      ['stats', 'GET'],
+      ['note', 'PUT'],
+    ]) {
+      const { context: skipped } = contextFor(handler, method);
+      await lastValueFrom(
+        interceptor.intercept(skipped, { handle: () => of(null) })
+      );
+    }
+    expect(mockAuditService.record).not.toHaveBeenCalled();
+  });
+});
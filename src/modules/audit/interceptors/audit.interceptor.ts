@@ -0,0 +1,143 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { HTTP_CODE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable, tap } from 'rxjs';
+
+import { AuditState } from '@/common/decorators/audit.decorator';
+import {
+  IS_PUBLIC_KEY,
+  REQUIRED_ROLE_KEY,
+} from '@/common/decorators/auth.decorator';
+import { ApiRole, AuditOutcome } from '@/common/types';
+import { ApiKeyPrincipal, hasRole } from '../../auth/services/api-key.service';
+import { AuditService } from '../services/audit.service';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const MAX_REASON_LENGTH = 500;
+
+type AuditedRequest = Request & {
+  apiKey?: ApiKeyPrincipal;
+  auditState?: AuditState;
+};
+
+/**
+ * Records every HTTP call that changes something on an operator or admin
+ * route, whether it succeeds or fails. Handlers add before/after state
+ * through `@AuditTrail()`; callers can say why in `X-Audit-Reason`.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuditedRequest>();
+    if (!this.isAudited(context, request)) {
+      return next.handle();
+    }
+
+    const startedAt = Date.now();
+    request.auditState ??= {};
+
+    const record = (
+      outcome: AuditOutcome,
+      statusCode: number,
+      error: string | null = null
+    ) =>
+      this.auditService.record({
+        action: this.getAction(context),
+        actor: {
+          keyId: request.apiKey?.id ?? null,
+          name: request.apiKey?.name ?? null,
+          role: request.apiKey?.role ?? null,
+          ip: request.ip ?? null,
+          userAgent: request.get('user-agent') ?? null,
+        },
+        method: request.method,
+        route: request.route?.path ?? request.path,
+        path: request.originalUrl.split('?')[0],
+        parameters: {
+          params: request.params,
+          query: request.query,
+          body: request.body,
+        },
+        reason: this.getReason(request),
+        before: request.auditState?.before ?? null,
+        after: request.auditState?.after ?? null,
+        outcome,
+        statusCode,
+        error,
+        durationMs: Date.now() - startedAt,
+      });
+
+    return next.handle().pipe(
+      tap({
+        next: () => void record('success', this.getSuccessStatus(context)),
+        error: error =>
+          void record(
+            'failure',
+            error instanceof HttpException ? error.getStatus() : 500,
+            error?.message ?? String(error)
+          ),
+      })
+    );
+  }
+
+  /**
+   * Writes to routes that need at least an operator key
+   */
+  private isAudited(
+    context: ExecutionContext,
+    request: AuditedRequest
+  ): boolean {
+    if (READ_METHODS.includes(request.method)) {
+      return false;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return false;
+    }
+    const required =
+      this.reflector.getAllAndOverride<ApiRole>(REQUIRED_ROLE_KEY, targets) ??
+      'admin';
+    return hasRole(required, 'operator');
+  }
+
+  /**
+   * Status the response is sent with; not yet set on it at this point
+   */
+  private getSuccessStatus(context: ExecutionContext): number {
+    const request = context.switchToHttp().getRequest<AuditedRequest>();
+    return (
+      this.reflector.get<number>(HTTP_CODE_METADATA, context.getHandler()) ??
+      (request.method === 'POST' ? 201 : 200)
+    );
+  }
+
+  /**
+   * `QueueController.pauseQueue` → `queue.pauseQueue`
+   */
+  private getAction(context: ExecutionContext): string {
+    const controller = context.getClass().name.replace(/Controller$/, '');
+    return `${controller.charAt(0).toLowerCase()}${controller.slice(1)}.${context.getHandler().name}`;
+  }
+
+  private getReason(request: AuditedRequest): string | null {
+    const reason = request.get('x-audit-reason')?.trim();
+    return reason ? reason.slice(0, MAX_REASON_LENGTH) : null;
+  }
+}
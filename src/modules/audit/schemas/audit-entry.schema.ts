@@ -0,0 +1,102 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+import { ApiRole, AuditOutcome } from '@/common/types';
+
+export type AuditEntryDocument = AuditEntry & Document;
+
+/** Who performed an audited action */
+export class AuditActor {
+  /** API key id; null for the rare admin route reached without a key */
+  keyId: string | null;
+  name: string | null;
+  role: ApiRole | null;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * One administrative action: who did it, to which route, with what, why,
+ * and how it ended. Entries are append-only; updates and deletes are
+ * rejected, and none expire.
+ */
+@Schema({
+  timestamps: { createdAt: 'timestamp', updatedAt: false },
+  collection: 'audit_log',
+})
+export class AuditEntry {
+  /** `<controller>.<handler>`, e.g. `queue.pauseQueue` */
+  @Prop({ required: true })
+  action: string;
+
+  @Prop({ type: Object, required: true })
+  actor: AuditActor;
+
+  @Prop({ required: true })
+  method: string;
+
+  /** Route pattern, e.g. `/api/v1/queue/pause/:queueName` */
+  @Prop({ required: true })
+  route: string;
+
+  /** Path as requested */
+  @Prop({ required: true })
+  path: string;
+
+  /** Route parameters, query and body, with secrets redacted */
+  @Prop({ type: MongooseSchema.Types.Mixed, default: {} })
+  parameters: Record<string, unknown>;
+
+  /** From the `X-Audit-Reason` header */
+  @Prop({ type: String, default: null })
+  reason: string | null;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  before: unknown;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  after: unknown;
+
+  @Prop({ required: true, enum: ['success', 'failure'] })
+  outcome: AuditOutcome;
+
+  @Prop({ required: true })
+  statusCode: number;
+
+  @Prop({ type: String, default: null })
+  error: string | null;
+
+  @Prop({ required: true })
+  durationMs: number;
+
+  timestamp: Date;
+}
+
+export const AuditEntrySchema = SchemaFactory.createForClass(AuditEntry);
+
+AuditEntrySchema.index({ timestamp: -1 });
+AuditEntrySchema.index({ action: 1, timestamp: -1 });
+AuditEntrySchema.index({ 'actor.keyId': 1, timestamp: -1 });
+
+AuditEntrySchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+    'findOneAndRemove',
+  ],
+  () => {
+    throw new Error('Audit entries are append-only');
+  }
+);
+
+AuditEntrySchema.pre('save', function () {
+  if (!this.isNew) {
+    throw new Error('Audit entries are append-only');
+  }
+});
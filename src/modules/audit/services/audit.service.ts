@@ -0,0 +1,251 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { once } from 'events';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+
+import {
+  AuditExportDto,
+  AuditExportFormat,
+  AuditFilterDto,
+  AuditQueryDto,
+} from '@/common/dto/audit.dto';
+import { CursorPagination } from '@/common/types';
+import { AuditEntry, AuditEntryDocument } from '../schemas/audit-entry.schema';
+
+/** Parameters larger than this, serialized, are stored as a size only */
+const MAX_PARAMETER_BYTES = 10000;
+const SECRET_FIELD = /secret|password|token|apikey|authorization|^key$/i;
+
+export const AUDIT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+};
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'action',
+  'actor_key_id',
+  'actor_name',
+  'actor_role',
+  'actor_ip',
+  'method',
+  'path',
+  'reason',
+  'outcome',
+  'status_code',
+  'error',
+  'duration_ms',
+  'parameters',
+  'before',
+  'after',
+];
+
+export type AuditRecord = Omit<AuditEntry, 'timestamp'>;
+
+/**
+ * Records administrative actions in the append-only audit log, and lists
+ * and exports them for review
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectModel(AuditEntry.name)
+    private auditEntryModel: Model<AuditEntryDocument>
+  ) {}
+
+  /**
+   * Append an entry. The action has already happened, so a failure to
+   * record it is logged rather than failing the request.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    try {
+      await this.auditEntryModel.create({
+        ...record,
+        parameters: this.limitSize(this.redact(record.parameters)),
+        before: this.redact(record.before),
+        after: this.redact(record.after),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit entry for ${record.action}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * One page of entries, newest first. Pass `nextCursor` back as `cursor`
+   * for the next page.
+   */
+  async find(
+    query: AuditQueryDto
+  ): Promise<{ data: AuditEntryDocument[]; pagination: CursorPagination }> {
+    const limit = query.limit ?? 50;
+    const filter = this.buildFilter(query);
+    if (query.cursor) {
+      filter._id = { $lt: this.decodeCursor(query.cursor) };
+    }
+
+    const entries = await this.auditEntryModel
+      .find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .exec();
+
+    const hasNext = entries.length > limit;
+    const data = entries.slice(0, limit);
+    return {
+      data,
+      pagination: {
+        limit,
+        hasNext,
+        nextCursor: hasNext
+          ? Buffer.from(String(data[data.length - 1]._id)).toString('base64url')
+          : null,
+      },
+    };
+  }
+
+  getFileName(format: AuditExportFormat): string {
+    return `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+  }
+
+  /**
+   * Stream every matching entry, oldest first, onto `output`, which is
+   * ended when done. Returns the number of entries written.
+   */
+  async exportEntries(
+    query: AuditExportDto,
+    output: Writable
+  ): Promise<number> {
+    const format = query.format ?? 'ndjson';
+    const cursor = this.auditEntryModel
+      .find(this.buildFilter(query))
+      .sort({ _id: 1 })
+      .lean()
+      .cursor();
+
+    let count = 0;
+    if (format === 'csv') {
+      await this.write(output, `${CSV_COLUMNS.join(',')}\n`);
+    }
+    for await (const entry of cursor) {
+      await this.write(
+        output,
+        format === 'csv'
+          ? `${this.toCsvRow(entry)}\n`
+          : `${JSON.stringify(entry)}\n`
+      );
+      count++;
+    }
+
+    output.end();
+    await finished(output);
+    return count;
+  }
+
+  private buildFilter(query: AuditFilterDto): FilterQuery<AuditEntryDocument> {
+    const filter: FilterQuery<AuditEntryDocument> = {};
+
+    if (query.action) {
+      filter.action = query.action;
+    }
+    if (query.actor) {
+      filter['actor.keyId'] = query.actor;
+    }
+    if (query.outcome) {
+      filter.outcome = query.outcome;
+    }
+    if (query.path) {
+      filter.path = {
+        $regex: `^${query.path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`,
+      };
+    }
+    if (query.from || query.to) {
+      filter.timestamp = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to }),
+      };
+    }
+
+    return filter;
+  }
+
+  private decodeCursor(cursor: string): Types.ObjectId {
+    const id = Buffer.from(cursor, 'base64url').toString('utf8');
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    return new Types.ObjectId(id);
+  }
+
+  /**
+   * Copy of `value` with secret-looking fields replaced
+   */
+  private redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [
+          key,
+          SECRET_FIELD.test(key) ? '[redacted]' : this.redact(field),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private limitSize(value: unknown): Record<string, unknown> {
+    const bytes = Buffer.byteLength(JSON.stringify(value ?? {}));
+    return bytes > MAX_PARAMETER_BYTES
+      ? { truncated: true, bytes }
+      : ((value ?? {}) as Record<string, unknown>);
+  }
+
+  private toCsvRow(entry: AuditEntry): string {
+    const json = (value: unknown) =>
+      value === null || value === undefined ? '' : JSON.stringify(value);
+
+    return [
+      new Date(entry.timestamp).toISOString(),
+      entry.action,
+      entry.actor?.keyId,
+      entry.actor?.name,
+      entry.actor?.role,
+      entry.actor?.ip,
+      entry.method,
+      entry.path,
+      entry.reason,
+      entry.outcome,
+      entry.statusCode,
+      entry.error,
+      entry.durationMs,
+      json(entry.parameters),
+      json(entry.before),
+      json(entry.after),
+    ]
+      .map(value => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',');
+  }
+
+  /**
+   * Write a chunk, waiting for the stream to drain when its buffer is full
+   */
+  private async write(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed) {
+      throw new Error('Audit export output was closed');
+    }
+    if (!output.write(chunk)) {
+      await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    }
+  }
+}
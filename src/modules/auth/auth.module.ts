@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { ApiKeyController } from './controllers/api-key.controller';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { ApiKey, ApiKeySchema } from './schemas/api-key.schema';
+import { ApiKeyService } from './services/api-key.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: ApiKey.name, schema: ApiKeySchema }]),
+  ],
+  controllers: [ApiKeyController],
+  providers: [ApiKeyService, { provide: APP_GUARD, useClass: ApiKeyGuard }],
+  exports: [ApiKeyService],
+})
+export class AuthModule {}
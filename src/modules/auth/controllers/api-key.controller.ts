@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { CreateApiKeyDto, RotateApiKeyDto } from '@/common/dto/api-key.dto';
+import { ApiKeyDocument } from '../schemas/api-key.schema';
+import { ApiKeyService, IssuedApiKey } from '../services/api-key.service';
+
+@ApiTags('api-keys')
+@Controller('api-keys')
+@RequireRole('admin')
+export class ApiKeyController {
+  private readonly logger = new Logger(ApiKeyController.name);
+
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Issue an API key',
+    description: 'The response contains the key; it is not returned again.',
+  })
+  @ApiResponse({ status: 201, description: 'Key issued' })
+  async issue(@Body() dto: CreateApiKeyDto): Promise<IssuedApiKey> {
+    this.logger.log(`Issuing ${dto.role} API key "${dto.name}"`);
+    return this.apiKeyService.issue(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List API keys, without the keys themselves' })
+  async findAll(): Promise<ApiKeyDocument[]> {
+    return this.apiKeyService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an API key' })
+  @ApiParam({ name: 'id' })
+  async findOne(@Param('id') id: string): Promise<ApiKeyDocument> {
+    return this.apiKeyService.findOne(id);
+  }
+
+  @Post(':id/rotate')
+  @ApiOperation({
+    summary: 'Replace an API key with a new one of the same role',
+    description:
+      'The old key keeps working for graceMinutes. The new key is only returned here.',
+  })
+  @ApiParam({ name: 'id' })
+  @ApiResponse({ status: 409, description: 'Key is revoked' })
+  async rotate(
+    @Param('id') id: string,
+    @Body() dto: RotateApiKeyDto
+  ): Promise<IssuedApiKey> {
+    return this.apiKeyService.rotate(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id' })
+  async revoke(@Param('id') id: string): Promise<void> {
+    return this.apiKeyService.revoke(id);
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  Controller,
+  ExecutionContext,
+  ForbiddenException,
+  Get,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { Public, RequireRole } from '@/common/decorators/auth.decorator';
+import { ApiKeyService } from '../services/api-key.service';
+import { ApiKeyGuard } from './api-key.guard';
+
+@RequireRole('reader')
+@Controller('test')
+class TestController {
+  @Get()
+  read() {}
+
+  @RequireRole('operator')
+  @Get('run')
+  run() {}
+
+  @Public()
+  @Get('health')
+  health() {}
+}
+
+@Controller('unannotated')
+class UnannotatedController {
+  @Get()
+  read() {}
+}
+
+describe('ApiKeyGuard', () => {
+  const mockApiKeyService = { authenticate: jest.fn() };
+  const guard = new ApiKeyGuard(
+    new Reflector(),
+    mockApiKeyService as unknown as ApiKeyService
+  );
+
+  const contextFor = (
+    controller: new () => object,
+    handler: string,
+    headers: Record<string, string> = {}
+  ) => {
+    const request: Record<string, any> = { headers };
+    const context = {
+      getType: () => 'http',
+      getClass: () => controller,
+      getHandler: () => controller.prototype[handler],
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { context, request };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockApiKeyService.authenticate.mockImplementation(async (key: string) =>
+      key === 'reader-key'
+        ? { id: 'key-1', name: 'Dashboard', role: 'reader' }
+        : key === 'admin-key'
+          ? { id: 'key-2', name: 'Ops', role: 'admin' }
+          : null
+    );
+  });
+
+  it('should enforce the role of the route, falling back to the controller', async () => {
+    const { context, request } = contextFor(TestController, 'read', {
+      'x-api-key': 'reader-key',
+    });
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.apiKey).toEqual({
+      id: 'key-1',
+      name: 'Dashboard',
+      role: 'reader',
+    });
+
+    await expect(
+      guard.canActivate(
+        contextFor(TestController, 'run', { 'x-api-key': 'reader-key' }).context
+      )
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      guard.canActivate(
+        contextFor(TestController, 'run', { authorization: 'Bearer admin-key' })
+          .context
+      )
+    ).resolves.toBe(true);
+  });
+
+  it('should require an admin key on routes without a role', async () => {
+    await expect(
+      guard.canActivate(
+        contextFor(UnannotatedController, 'read', { 'x-api-key': 'reader-key' })
+          .context
+      )
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('should reject missing or unknown keys except on public routes', async () => {
+    await expect(
+      guard.canActivate(contextFor(TestController, 'read').context)
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(
+      guard.canActivate(
+        contextFor(TestController, 'read', { 'x-api-key': 'unknown' }).context
+      )
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(
+      guard.canActivate(contextFor(TestController, 'health').context)
+    ).resolves.toBe(true);
+    expect(mockApiKeyService.authenticate).toHaveBeenCalledTimes(1);
+  });
+});
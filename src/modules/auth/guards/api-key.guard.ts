@@ -0,0 +1,124 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { WsException } from '@nestjs/websockets';
+
+import {
+  IS_PUBLIC_KEY,
+  REQUIRED_ROLE_KEY,
+} from '@/common/decorators/auth.decorator';
+import { ApiRole } from '@/common/types';
+import {
+  ApiKeyPrincipal,
+  ApiKeyService,
+  hasRole,
+} from '../services/api-key.service';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * Authenticates every HTTP, GraphQL and WebSocket call by its API key and
+ * checks the role its route requires. Routes without `@RequireRole` need
+ * an admin key, so nothing new is exposed by accident.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+    const required =
+      this.reflector.getAllAndOverride<ApiRole>(REQUIRED_ROLE_KEY, targets) ??
+      'admin';
+
+    const { headers, carrier, fallbackKey } = this.getRequest(context);
+    const key = this.extractKey(headers) ?? fallbackKey;
+    if (!key) {
+      throw this.error(context, 401, 'An API key is required');
+    }
+
+    const principal = await this.apiKeyService.authenticate(key);
+    if (!principal) {
+      throw this.error(context, 401, 'Invalid API key');
+    }
+    if (!hasRole(principal.role, required)) {
+      throw this.error(context, 403, `This requires the ${required} role`);
+    }
+
+    carrier.apiKey = principal;
+    return true;
+  }
+
+  /**
+   * Headers of the call, and the object the principal is attached to
+   */
+  private getRequest(context: ExecutionContext): {
+    headers: Headers;
+    carrier: { apiKey?: ApiKeyPrincipal };
+    fallbackKey?: string;
+  } {
+    switch (context.getType<string>()) {
+      case 'graphql': {
+        const request = GqlExecutionContext.create(context).getContext().req;
+        return { headers: request.headers, carrier: request };
+      }
+      case 'ws': {
+        const client = context.switchToWs().getClient();
+        return {
+          headers: client.handshake.headers,
+          carrier: client.data,
+          // Browsers cannot set headers on WebSocket connections
+          fallbackKey: client.handshake.auth?.apiKey,
+        };
+      }
+      default: {
+        const request = context.switchToHttp().getRequest();
+        return { headers: request.headers, carrier: request };
+      }
+    }
+  }
+
+  /**
+   * `X-API-Key: <key>` or `Authorization: Bearer <key>`
+   */
+  private extractKey(headers: Headers): string | undefined {
+    const header = headers['x-api-key'];
+    if (typeof header === 'string' && header.trim() !== '') {
+      return header.trim();
+    }
+
+    const authorization = headers.authorization;
+    if (typeof authorization === 'string') {
+      const [scheme, token] = authorization.trim().split(/\s+/);
+      if (scheme?.toLowerCase() === 'bearer' && token) {
+        return token;
+      }
+    }
+    return undefined;
+  }
+
+  private error(
+    context: ExecutionContext,
+    status: 401 | 403,
+    message: string
+  ): Error {
+    if (context.getType() === 'ws') {
+      return new WsException(message);
+    }
+    return status === 401
+      ? new UnauthorizedException(message)
+      : new ForbiddenException(message);
+  }
+}
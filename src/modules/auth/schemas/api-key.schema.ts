@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+import { ApiKeyTier, ApiRole } from '@/common/types';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+/**
+ * An API key. Only its SHA-256 hash is stored; the key itself is shown
+ * once, when issued.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'api_keys',
+})
+export class ApiKey {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ required: true, enum: ['reader', 'operator', 'admin'] })
+  role: ApiRole;
+
+  /** Rate limit tier */
+  @Prop({
+    required: true,
+    enum: ['free', 'standard', 'premium'],
+    default: 'standard',
+  })
+  tier: ApiKeyTier;
+
+  @Prop({ required: true, unique: true, select: false })
+  keyHash: string;
+
+  /** Start of the key, to tell keys apart */
+  @Prop({ required: true })
+  prefix: string;
+
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  revokedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt: Date | null;
+
+  /** Key issued by rotating this one */
+  @Prop({ type: Types.ObjectId, default: null })
+  replacedBy: Types.ObjectId | null;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
+
+ApiKeySchema.index({ revokedAt: 1, createdAt: -1 });
+
+// Never serialize the hash, even on a freshly created document
+ApiKeySchema.set('toJSON', {
+  transform: (_doc, ret) => {
+    delete ret.keyHash;
+    return ret;
+  },
+});
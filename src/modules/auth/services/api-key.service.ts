@@ -0,0 +1,229 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { isValidObjectId, Model } from 'mongoose';
+
+import { API_ROLES } from '@/common/decorators/auth.decorator';
+import { CreateApiKeyDto, RotateApiKeyDto } from '@/common/dto/api-key.dto';
+import { ApiKeyTier, ApiRole } from '@/common/types';
+import { ApiKey, ApiKeyDocument } from '../schemas/api-key.schema';
+
+const KEY_PREFIX = 'aqi_';
+const DISPLAY_PREFIX_LENGTH = 12;
+/** Unknown keys are cached too; this bounds what random keys can fill */
+const MAX_CACHED_KEYS = 10000;
+
+/** The caller a request was authenticated as */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  role: ApiRole;
+  tier: ApiKeyTier;
+}
+
+export interface IssuedApiKey {
+  /** The key itself; not retrievable later */
+  key: string;
+  apiKey: ApiKeyDocument;
+}
+
+interface CachedKey {
+  principal: ApiKeyPrincipal | null;
+  expiresAt: number;
+  /** When the key itself stops working */
+  keyExpiresAt: number | null;
+}
+
+/**
+ * Whether `role` includes everything `required` grants
+ */
+export function hasRole(role: ApiRole, required: ApiRole): boolean {
+  return API_ROLES.indexOf(role) >= API_ROLES.indexOf(required);
+}
+
+/**
+ * Issues, rotates and revokes API keys, and authenticates requests by
+ * them. Lookups are cached briefly per instance, so a revoked key may keep
+ * working on other instances for up to `auth.cacheSeconds`.
+ */
+@Injectable()
+export class ApiKeyService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly cache = new Map<string, CachedKey>();
+  private readonly cacheMs: number;
+
+  constructor(
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+    private configService: ConfigService
+  ) {
+    this.cacheMs =
+      (this.configService.get<number>('auth.cacheSeconds') ?? 60) * 1000;
+  }
+
+  /**
+   * Store the configured bootstrap key as an admin key, so the first real
+   * keys can be issued
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const key = this.configService.get<string>('auth.bootstrapAdminKey');
+    if (!key) {
+      return;
+    }
+
+    try {
+      const keyHash = this.hashKey(key);
+      const existing = await this.apiKeyModel.exists({ keyHash });
+      if (!existing) {
+        await this.apiKeyModel.create({
+          name: 'bootstrap',
+          role: 'admin',
+          keyHash,
+          prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        });
+        this.logger.log('Stored the bootstrap admin API key');
+      }
+    } catch (error) {
+      this.logger.error('Failed to store the bootstrap API key:', error);
+    }
+  }
+
+  /**
+   * Issue a key. The key is returned here and never again.
+   */
+  async issue(dto: CreateApiKeyDto): Promise<IssuedApiKey> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const apiKey = await this.apiKeyModel.create({
+      name: dto.name,
+      role: dto.role,
+      tier: dto.tier ?? 'standard',
+      expiresAt: dto.expiresAt ?? null,
+      keyHash: this.hashKey(key),
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    });
+
+    this.logger.log(`Issued ${dto.role} API key ${apiKey.id} (${dto.name})`);
+    return { key, apiKey };
+  }
+
+  async findAll(): Promise<ApiKeyDocument[]> {
+    return this.apiKeyModel.find().sort({ createdAt: -1 }).exec();
+  }
+
+  async findOne(id: string): Promise<ApiKeyDocument> {
+    const apiKey = isValidObjectId(id)
+      ? await this.apiKeyModel.findById(id).exec()
+      : null;
+    if (!apiKey) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Replace a key with a new one of the same name, role and tier. The old key
+   * keeps working for `graceMinutes`, then stops.
+   */
+  async rotate(id: string, dto: RotateApiKeyDto): Promise<IssuedApiKey> {
+    const current = await this.findOne(id);
+    if (current.revokedAt) {
+      throw new ConflictException(`API key ${id} is revoked`);
+    }
+
+    const issued = await this.issue({
+      name: current.name,
+      role: current.role,
+      tier: current.tier,
+      expiresAt: current.expiresAt ?? undefined,
+    });
+
+    const now = Date.now();
+    const graceEnd = new Date(now + (dto.graceMinutes ?? 0) * 60 * 1000);
+    current.replacedBy = issued.apiKey._id as ApiKeyDocument['_id'];
+    if (graceEnd.getTime() <= now) {
+      current.revokedAt = new Date(now);
+    } else if (!current.expiresAt || current.expiresAt > graceEnd) {
+      current.expiresAt = graceEnd;
+    }
+    await current.save();
+    this.cache.clear();
+
+    this.logger.log(`Rotated API key ${id} to ${issued.apiKey.id}`);
+    return issued;
+  }
+
+  async revoke(id: string): Promise<void> {
+    const apiKey = await this.findOne(id);
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await apiKey.save();
+    }
+    this.cache.clear();
+    this.logger.log(`Revoked API key ${id}`);
+  }
+
+  /**
+   * The principal `key` belongs to, or null if it is unknown, revoked or
+   * expired
+   */
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const keyHash = this.hashKey(key);
+    const now = Date.now();
+
+    const cached = this.cache.get(keyHash);
+    if (cached && cached.expiresAt > now) {
+      return cached.keyExpiresAt !== null && cached.keyExpiresAt <= now
+        ? null
+        : cached.principal;
+    }
+
+    const apiKey = await this.apiKeyModel
+      .findOne({
+        keyHash,
+        revokedAt: null,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date(now) } }],
+      })
+      .lean()
+      .exec();
+
+    const principal: ApiKeyPrincipal | null = apiKey
+      ? {
+          id: String(apiKey._id),
+          name: apiKey.name,
+          role: apiKey.role,
+          // Keys issued before tiers existed
+          tier: apiKey.tier ?? 'standard',
+        }
+      : null;
+    if (this.cache.size >= MAX_CACHED_KEYS) {
+      this.cache.clear();
+    }
+    this.cache.set(keyHash, {
+      principal,
+      expiresAt: now + this.cacheMs,
+      keyExpiresAt: apiKey?.expiresAt?.getTime() ?? null,
+    });
+
+    if (apiKey) {
+      // Recorded at most once per cache period
+      this.apiKeyModel
+        .updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date(now) } })
+        .exec()
+        .catch(error =>
+          this.logger.warn(`Failed to record API key use: ${error.message}`)
+        );
+    }
+
+    return principal;
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -2,26 +2,48 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Query,
   Body,
   Param,
   HttpStatus,
   HttpCode,
+  ConflictException,
+  Logger,
+  Res,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { Response } from 'express';
+import { once } from 'events';
 
+import { AuditState, AuditTrail } from '@/common/decorators/audit.decorator';
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { AirQualityQueryDto } from '@/common/dto/air-quality-record.dto';
+import { UpdateRetentionPolicyDto } from '@/common/dto/retention.dto';
+import { parseFilters } from '@/common/filter-query';
+import { AirQualityDataService } from '../services/air-quality-data.service';
+import { AIR_QUALITY_FILTER_FIELDS } from '../services/air-quality-filters';
+import { ColdArchiveService } from '../services/cold-archive.service';
 import { DataMigrationService } from '../services/data-migration.service';
+import { RetentionPolicyService } from '../services/retention-policy.service';
 import {
   SmartQueryService,
   QueryResult,
+  TimeSeriesResult,
 } from '../services/smart-query.service';
 
 @ApiTags('Data Management')
+@RequireRole('reader')
 @Controller('data-management')
 export class DataManagementController {
+  private readonly logger = new Logger(DataManagementController.name);
+
   constructor(
     private readonly dataMigrationService: DataMigrationService,
-    private readonly smartQueryService: SmartQueryService
+    private readonly smartQueryService: SmartQueryService,
+    private readonly retentionPolicyService: RetentionPolicyService,
+    private readonly coldArchiveService: ColdArchiveService,
+    private readonly airQualityDataService: AirQualityDataService
   ) {}
 
   @Get('stats')
@@ -44,6 +66,7 @@ export class DataManagementController {
   }
 
   @Post('migrate')
+  @RequireRole('operator')
   @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Trigger manual data migration' })
   @ApiResponse({
@@ -56,23 +79,151 @@ export class DataManagementController {
       fromCollection: 'hot' | 'warm';
       toCollection: 'warm' | 'cold';
       cutoffDate: string;
-    }
+    },
+    @AuditTrail() audit: AuditState
   ) {
     const cutoffDate = new Date(body.cutoffDate);
-    const result = await this.dataMigrationService.manualMigration(
+    const run = await this.dataMigrationService.manualMigration(
       body.fromCollection,
       body.toCollection,
       cutoffDate
     );
+    audit.after = { runId: run.runId };
+
+    return {
+      message: 'Migration started',
+      runId: run.runId,
+      run,
+    };
+  }
+
+  @Get('migrations/:runId')
+  @ApiOperation({ summary: 'Get progress of a migration run' })
+  @ApiResponse({
+    status: 200,
+    description: 'Migration run retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Migration run not found' })
+  async getMigrationRun(@Param('runId') runId: string) {
+    return await this.dataMigrationService.getMigrationRun(runId);
+  }
+
+  @Post('archive')
+  @RequireRole('operator')
+  @ApiOperation({
+    summary: 'Archive cold data past the archive age to compressed files',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Cold data archived successfully',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'An archive run is already in progress',
+  })
+  async archiveColdData() {
+    const result = await this.coldArchiveService.archiveColdData();
+    if (!result) {
+      throw new ConflictException('An archive run is already in progress');
+    }
 
     return {
-      message: 'Migration completed',
+      message: 'Cold data archived',
       result,
     };
   }
 
+  @Post('backfill/legacy')
+  @RequireRole('operator')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Merge the legacy air quality collection into the hot tier',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Legacy backfill started successfully',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A legacy backfill is already in progress',
+  })
+  async startLegacyBackfill(@Body() body: { batchSize?: number } = {}) {
+    if (
+      !(await this.airQualityDataService.startLegacyBackfill(body.batchSize))
+    ) {
+      throw new ConflictException('A legacy backfill is already in progress');
+    }
+
+    return {
+      message: 'Legacy backfill started',
+      status: await this.airQualityDataService.getBackfillStatus(),
+    };
+  }
+
+  @Get('backfill/legacy')
+  @ApiOperation({ summary: 'Get progress of the legacy backfill' })
+  @ApiResponse({
+    status: 200,
+    description: 'Legacy backfill status retrieved successfully',
+  })
+  async getLegacyBackfillStatus() {
+    return this.airQualityDataService.getBackfillStatus();
+  }
+
+  @Get('retention')
+  @ApiOperation({
+    summary: 'Get the default retention policy and per-location overrides',
+  })
+  @ApiQuery({
+    name: 'location',
+    description: 'Only return the policy in effect for this location',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Retention policies retrieved successfully',
+  })
+  async getRetentionPolicies(@Query('location') location?: string) {
+    if (location) {
+      return {
+        location,
+        ...(await this.retentionPolicyService.getPolicy(location)),
+      };
+    }
+
+    return await this.retentionPolicyService.getPolicies();
+  }
+
+  @Put('retention')
+  @RequireRole('admin')
+  @ApiOperation({
+    summary: 'Set the default retention policy or a location override',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Retention policy updated successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid retention policy' })
+  async updateRetentionPolicy(
+    @Body() updateDto: UpdateRetentionPolicyDto,
+    @AuditTrail() audit: AuditState
+  ) {
+    const policies = await this.retentionPolicyService.getPolicies();
+    audit.before = updateDto.location
+      ? (policies.locations.find(
+          policy => policy.location === updateDto.location
+        ) ?? null)
+      : policies.default;
+
+    const updated = await this.retentionPolicyService.updatePolicy(updateDto);
+    audit.after = updated;
+    return updated;
+  }
+
   @Get('query')
-  @ApiOperation({ summary: 'Smart query across all collections' })
+  @ApiOperation({
+    summary: 'Smart query across all collections, one page at a time',
+  })
   @ApiQuery({
     name: 'startDate',
     description: 'Start date (ISO string)',
@@ -90,10 +241,25 @@ export class DataManagementController {
   })
   @ApiQuery({
     name: 'limit',
-    description: 'Result limit',
+    description: 'Page size',
     example: 100,
     required: false,
   })
+  @ApiQuery({
+    name: 'cursor',
+    description: 'pagination.nextCursor of the previous page',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'filter',
+    description:
+      'Filter expression, e.g. aqi:gte:100;main_pollutant:in:p2,o3 or a JSON array of {field, operator, value}',
+    required: false,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or mismatched cursor, or invalid filter',
+  })
   async smartQuery(
     @Query('startDate') startDate: string,
     @Query('endDate') endDate: string,
@@ -102,24 +268,109 @@ export class DataManagementController {
     @Query('minAqi') minAqi?: number,
     @Query('maxAqi') maxAqi?: number,
     @Query('pollutant') pollutant?: string,
-    @Query('pollution_level') pollution_level?: string
+    @Query('pollution_level') pollution_level?: string,
+    @Query('cursor') cursor?: string,
+    @Query('filter') filter?: string
   ): Promise<QueryResult> {
-    const queryOptions = {
-      location,
-      limit: limit ? parseInt(limit.toString()) : undefined,
-      minAqi: minAqi ? parseInt(minAqi.toString()) : undefined,
-      maxAqi: maxAqi ? parseInt(maxAqi.toString()) : undefined,
-      pollutant,
-      pollution_level,
-    };
-
     return await this.smartQueryService.getAirQualityData(
       new Date(startDate),
       new Date(endDate),
-      queryOptions
+      this.toQueryOptions({
+        location,
+        limit,
+        minAqi,
+        maxAqi,
+        pollutant,
+        pollution_level,
+        filter,
+      }),
+      cursor
     );
   }
 
+  @Get('query/stream')
+  @ApiOperation({
+    summary: 'Stream every matching record as newline-delimited JSON',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    description: 'Start date (ISO string)',
+    example: '2022-01-01T00:00:00Z',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    description: 'End date (ISO string)',
+    example: '2024-01-31T23:59:59Z',
+  })
+  @ApiQuery({
+    name: 'location',
+    description: 'Location filter',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'filter',
+    description:
+      'Filter expression, e.g. aqi:gte:100;main_pollutant:in:p2,o3 or a JSON array of {field, operator, value}',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One record per line (application/x-ndjson), newest first',
+  })
+  async streamQuery(
+    @Res() res: Response,
+    @Query('startDate') startDate: string,
+    @Query('endDate') endDate: string,
+    @Query('location') location?: string,
+    @Query('minAqi') minAqi?: number,
+    @Query('maxAqi') maxAqi?: number,
+    @Query('pollutant') pollutant?: string,
+    @Query('pollution_level') pollution_level?: string,
+    @Query('filter') filter?: string
+  ): Promise<void> {
+    // Reject a bad filter while an error status can still be sent
+    parseFilters(filter, AIR_QUALITY_FILTER_FIELDS);
+
+    const records = this.smartQueryService.streamAirQualityData(
+      new Date(startDate),
+      new Date(endDate),
+      this.toQueryOptions({
+        location,
+        minAqi,
+        maxAqi,
+        pollutant,
+        pollution_level,
+        filter,
+      })
+    );
+
+    let closed = false;
+    res.on('close', () => (closed = true));
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'application/x-ndjson');
+
+    try {
+      for await (const record of records) {
+        if (closed) {
+          break;
+        }
+        // Wait for the client to catch up rather than buffering; a client
+        // that disconnects never drains
+        if (!res.write(`${JSON.stringify(record)}\n`)) {
+          await Promise.race([once(res, 'drain'), once(res, 'close')]);
+        }
+      }
+      if (!closed) {
+        res.end();
+      }
+    } catch (error) {
+      // Headers are sent, so the only way to signal failure is to cut the
+      // stream short
+      this.logger.error('Error while streaming query results:', error);
+      res.destroy(error);
+    }
+  }
+
   @Get('latest/:location')
   @ApiOperation({ summary: 'Get latest air quality data for a location' })
   @ApiResponse({
@@ -183,7 +434,7 @@ export class DataManagementController {
     @Query('startDate') startDate: string,
     @Query('endDate') endDate: string,
     @Query('interval') interval: 'hourly' | 'daily' | 'weekly' = 'daily'
-  ): Promise<QueryResult> {
+  ): Promise<TimeSeriesResult> {
     return await this.smartQueryService.getTimeSeriesData(
       location,
       new Date(startDate),
@@ -193,19 +444,44 @@ export class DataManagementController {
   }
 
   @Post('cleanup')
+  @RequireRole('admin')
   @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Emergency cleanup of old data' })
   @ApiResponse({
     status: 202,
     description: 'Cleanup completed successfully',
   })
-  async emergencyCleanup(@Body() body: { cutoffDate: string }) {
+  async emergencyCleanup(
+    @Body() body: { cutoffDate: string },
+    @AuditTrail() audit: AuditState
+  ) {
     const cutoffDate = new Date(body.cutoffDate);
     const result = await this.dataMigrationService.emergencyCleanup(cutoffDate);
+    audit.after = result;
 
     return {
       message: 'Emergency cleanup completed',
       result,
     };
   }
+
+  private toQueryOptions(query: {
+    location?: string;
+    limit?: number;
+    minAqi?: number;
+    maxAqi?: number;
+    pollutant?: string;
+    pollution_level?: string;
+    filter?: string;
+  }): Partial<AirQualityQueryDto> {
+    return {
+      location: query.location,
+      limit: query.limit ? parseInt(query.limit.toString()) : undefined,
+      minAqi: query.minAqi ? parseInt(query.minAqi.toString()) : undefined,
+      maxAqi: query.maxAqi ? parseInt(query.maxAqi.toString()) : undefined,
+      pollutant: query.pollutant,
+      pollution_level: query.pollution_level,
+      filter: query.filter,
+    };
+  }
 }
@@ -1,6 +1,10 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 
+import {
+  AirQuality,
+  AirQualitySchema,
+} from '../air-quality/schemas/air-quality.schema';
 import {
   AirQualityHot,
   AirQualityHotSchema,
@@ -13,9 +17,27 @@ import {
   AirQualityCold,
   AirQualityColdSchema,
 } from './schemas/air-quality-cold.schema';
+import {
+  LegacyBackfillRun,
+  LegacyBackfillRunSchema,
+} from './schemas/legacy-backfill-run.schema';
+import {
+  MigrationRun,
+  MigrationRunSchema,
+} from './schemas/migration-run.schema';
+import {
+  RetentionPolicy,
+  RetentionPolicySchema,
+} from './schemas/retention-policy.schema';
+import { AirQualityDataService } from './services/air-quality-data.service';
+import { ColdArchiveService } from './services/cold-archive.service';
 import { DataMigrationService } from './services/data-migration.service';
+import { DownsamplingService } from './services/downsampling.service';
+import { RetentionPolicyService } from './services/retention-policy.service';
 import { SmartQueryService } from './services/smart-query.service';
+import { TierIndexService } from './services/tier-index.service';
 import { DataManagementController } from './controllers/data-management.controller';
+import { AqiModule } from '../aqi/aqi.module';
 
 @Module({
   imports: [
@@ -31,10 +53,30 @@ import { DataManagementController } from './controllers/data-management.controll
       { name: AirQualityHot.name, schema: AirQualityHotSchema },
       { name: AirQualityWarm.name, schema: AirQualityWarmSchema },
       { name: AirQualityCold.name, schema: AirQualityColdSchema },
+      { name: MigrationRun.name, schema: MigrationRunSchema },
+      { name: LegacyBackfillRun.name, schema: LegacyBackfillRunSchema },
+      { name: RetentionPolicy.name, schema: RetentionPolicySchema },
+      // Legacy collection, read until merged by the backfill job
+      { name: AirQuality.name, schema: AirQualitySchema },
     ]),
+    AqiModule,
   ],
   controllers: [DataManagementController],
-  providers: [DataMigrationService, SmartQueryService],
-  exports: [MongooseModule, DataMigrationService, SmartQueryService],
+  providers: [
+    AirQualityDataService,
+    ColdArchiveService,
+    DataMigrationService,
+    DownsamplingService,
+    RetentionPolicyService,
+    SmartQueryService,
+    TierIndexService,
+  ],
+  exports: [
+    MongooseModule,
+    AirQualityDataService,
+    DataMigrationService,
+    RetentionPolicyService,
+    SmartQueryService,
+  ],
 })
 export class DatabaseModule {}
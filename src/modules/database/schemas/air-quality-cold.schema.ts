@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 
+import { AqiStats, Granularity } from '@/common/types';
+
 export type AirQualityColdDocument = AirQualityCold & Document;
 
 @Schema({
@@ -59,16 +61,36 @@ export class AirQualityCold {
   })
   pollution_level: string;
 
+  // Records migrated before downsampling have no granularity and are raw
+  @Prop({ enum: ['raw', 'hourly', 'daily'] })
+  granularity?: Granularity;
+
+  /** AQI over the daily bucket; `aqi` holds the rounded average */
+  @Prop({
+    type: {
+      min: Number,
+      max: Number,
+      avg: Number,
+      p95: Number,
+      count: Number,
+    },
+  })
+  aqi_stats?: AqiStats;
+
+  /** Last migration batch merged into this rollup, so a replay skips it */
+  @Prop()
+  migration_batch?: string;
+
   @Prop({
     type: {
-      temperature: { type: Number, required: true },
-      humidity: { type: Number, required: true, min: 0, max: 100 },
+      temperature: { type: Number },
+      humidity: { type: Number, min: 0, max: 100 },
     },
     required: true,
   })
   weather: {
-    temperature: number;
-    humidity: number;
+    temperature?: number;
+    humidity?: number;
   };
 
   @Prop({
@@ -100,6 +122,10 @@ export const AirQualityColdSchema =
   SchemaFactory.createForClass(AirQualityCold);
 
 // Minimal indexing for cold data (archival)
-AirQualityColdSchema.index({ timestamp: -1 }); // Only essential index
+AirQualityColdSchema.index({ timestamp: -1 });
+// Nearby lookups
+AirQualityColdSchema.index({ coordinates: '2dsphere' });
+// One rollup per location and day; migration upserts merge into it
+AirQualityColdSchema.index({ location: 1, timestamp: 1 }, { unique: true });
 
 // No TTL - Permanent storage
@@ -1,8 +1,27 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 
+import { AnomalyReason, AnomalyStatus, DataSource } from '@/common/types';
+
 export type AirQualityHotDocument = AirQualityHot & Document;
 
+export interface AnomalyFlag {
+  flagged: boolean;
+  /** Largest of the checks as a fraction of its limit; above 1 is flagged */
+  score: number;
+  reasons: AnomalyReason[];
+  /** Rolling median and MAD of the location's recent readings */
+  median?: number;
+  mad?: number;
+  /** AQI change per hour since the previous reading */
+  rate?: number;
+  /** Set on flagged readings only */
+  status?: AnomalyStatus;
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  note?: string;
+}
+
 @Schema({
   timestamps: true,
   collection: 'air_quality_hot',
@@ -61,23 +80,66 @@ export class AirQualityHot {
   })
   pollution_level: string;
 
+  // China MEP index, kept for readings that report one
+  @Prop({ min: 0 })
+  aqicn?: number;
+
+  @Prop()
+  maincn?: string;
+
+  // Present when the AQI was computed locally from concentrations
+  @Prop({
+    type: [
+      {
+        _id: false,
+        pollutant: String,
+        concentration: Number,
+        index: Number,
+      },
+    ],
+    default: undefined,
+  })
+  sub_indexes?: {
+    pollutant: string;
+    concentration: number;
+    index: number;
+  }[];
+
   @Prop({
     type: {
-      temperature: { type: Number, required: true },
-      humidity: { type: Number, required: true, min: 0, max: 100 },
+      temperature: { type: Number },
+      humidity: { type: Number, min: 0, max: 100 },
+      pressure: { type: Number },
+      wind_speed: { type: Number },
+      wind_direction: { type: Number },
+      icon: { type: String },
     },
     required: true,
   })
   weather: {
-    temperature: number;
-    humidity: number;
+    temperature?: number;
+    humidity?: number;
+    pressure?: number;
+    wind_speed?: number;
+    wind_direction?: number;
+    icon?: string;
   };
 
+  @Prop({
+    required: true,
+    enum: ['iqair', 'openaq', 'fixture', 'manual', 'sensor', 'aggregated'],
+    default: 'iqair',
+    index: true,
+  })
+  source: DataSource;
+
   @Prop({
     type: {
       api_response_time: { type: Number, default: 0 },
       cached: { type: Boolean, default: false },
       retry_count: { type: Number, default: 0, min: 0 },
+      provider: { type: String },
+      device_id: { type: String },
     },
     default: {
       api_response_time: 0,
@@ -89,8 +151,28 @@ export class AirQualityHot {
     api_response_time: number;
     cached: boolean;
     retry_count: number;
+    provider?: string;
+    device_id?: string;
   };
 
+  // Set by the anomaly detector on fetched readings
+  @Prop({
+    type: {
+      flagged: { type: Boolean, required: true },
+      score: { type: Number, required: true },
+      reasons: { type: [String], enum: ['outlier', 'rate_of_change'] },
+      median: { type: Number },
+      mad: { type: Number },
+      rate: { type: Number },
+      status: { type: String, enum: ['pending', 'confirmed', 'dismissed'] },
+      reviewed_by: { type: String },
+      reviewed_at: { type: Date },
+      note: { type: String },
+    },
+    default: undefined,
+  })
+  anomaly?: AnomalyFlag;
+
   @Prop({ default: Date.now })
   createdAt: Date;
 
@@ -105,6 +187,21 @@ AirQualityHotSchema.index({ timestamp: -1 });
 AirQualityHotSchema.index({ timestamp: -1, aqi: -1 });
 AirQualityHotSchema.index({ location: 1, timestamp: -1 });
 
+// One reading per sensor device and timestamp
+AirQualityHotSchema.index(
+  { 'metadata.device_id': 1, timestamp: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'metadata.device_id': { $exists: true } },
+  }
+);
+
+// Anomaly review queue
+AirQualityHotSchema.index(
+  { 'anomaly.status': 1, _id: -1 },
+  { partialFilterExpression: { 'anomaly.status': { $exists: true } } }
+);
+
 // Geospatial index for location-based queries
 AirQualityHotSchema.index({
   coordinates: '2dsphere',
@@ -121,12 +218,4 @@ AirQualityHotSchema.index(
   }
 );
 
-// TTL index - Auto-delete after 30 days
-AirQualityHotSchema.index(
-  {
-    timestamp: 1,
-  },
-  {
-    expireAfterSeconds: 30 * 24 * 60 * 60, // 30 days
-  }
-);
+// No TTL - records leave hot through migration, per the retention policy
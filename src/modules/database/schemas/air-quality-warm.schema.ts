@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 
+import { AqiStats, Granularity } from '@/common/types';
+
 export type AirQualityWarmDocument = AirQualityWarm & Document;
 
 @Schema({
@@ -60,16 +62,36 @@ export class AirQualityWarm {
   })
   pollution_level: string;
 
+  // Records migrated before downsampling have no granularity and are raw
+  @Prop({ enum: ['raw', 'hourly', 'daily'] })
+  granularity?: Granularity;
+
+  /** AQI over the hourly bucket; `aqi` holds the rounded average */
+  @Prop({
+    type: {
+      min: Number,
+      max: Number,
+      avg: Number,
+      p95: Number,
+      count: Number,
+    },
+  })
+  aqi_stats?: AqiStats;
+
+  /** Last migration batch merged into this rollup, so a replay skips it */
+  @Prop()
+  migration_batch?: string;
+
   @Prop({
     type: {
-      temperature: { type: Number, required: true },
-      humidity: { type: Number, required: true, min: 0, max: 100 },
+      temperature: { type: Number },
+      humidity: { type: Number, min: 0, max: 100 },
     },
     required: true,
   })
   weather: {
-    temperature: number;
-    humidity: number;
+    temperature?: number;
+    humidity?: number;
   };
 
   @Prop({
@@ -107,12 +129,10 @@ AirQualityWarmSchema.index({ date: 1 }); // For daily aggregations
 // Compound index for location-based queries
 AirQualityWarmSchema.index({ location: 1, timestamp: -1 });
 
-// TTL index - Auto-delete after 1 year
-AirQualityWarmSchema.index(
-  {
-    timestamp: 1,
-  },
-  {
-    expireAfterSeconds: 365 * 24 * 60 * 60, // 365 days
-  }
-);
+// Geospatial index for nearby lookups
+AirQualityWarmSchema.index({ coordinates: '2dsphere' });
+
+// One rollup per location and bucket; migration upserts merge into it
+AirQualityWarmSchema.index({ location: 1, timestamp: 1 }, { unique: true });
+
+// No TTL - records leave warm through migration, per the retention policy
@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type LegacyBackfillRunDocument = LegacyBackfillRun & Document;
+
+export type LegacyBackfillRunStatus = 'running' | 'completed' | 'failed';
+
+@Schema({
+  timestamps: true,
+  collection: 'legacy_backfill_runs',
+})
+export class LegacyBackfillRun {
+  @Prop({
+    required: true,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running',
+  })
+  status: LegacyBackfillRunStatus;
+
+  @Prop({ required: true, min: 1 })
+  batchSize: number;
+
+  /** Legacy records read so far */
+  @Prop({ default: 0 })
+  processed: number;
+
+  /** Records inserted into the hot tier */
+  @Prop({ default: 0 })
+  merged: number;
+
+  /** Records skipped because hot already had the reading */
+  @Prop({ default: 0 })
+  duplicates: number;
+
+  @Prop({ default: Date.now })
+  startedAt: Date;
+
+  @Prop({ default: Date.now })
+  heartbeatAt: Date;
+
+  @Prop({ type: Date, default: null })
+  completedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  lastError: string | null;
+
+  @Prop({ default: Date.now })
+  createdAt: Date;
+
+  @Prop({ default: Date.now })
+  updatedAt: Date;
+}
+
+export const LegacyBackfillRunSchema =
+  SchemaFactory.createForClass(LegacyBackfillRun);
+
+// At most one running backfill across instances
+LegacyBackfillRunSchema.index(
+  { status: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+LegacyBackfillRunSchema.index({ startedAt: -1 });
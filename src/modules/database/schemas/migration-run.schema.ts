@@ -0,0 +1,106 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type MigrationRunDocument = MigrationRun & Document;
+
+export type MigrationTier = 'hot' | 'warm' | 'cold';
+export type MigrationRunStatus = 'running' | 'completed' | 'failed';
+
+@Schema({
+  timestamps: true,
+  collection: 'migration_runs',
+})
+export class MigrationRun {
+  @Prop({ required: true, unique: true })
+  runId: string;
+
+  @Prop({ required: true, enum: ['hot', 'warm'] })
+  source: MigrationTier;
+
+  @Prop({ required: true, enum: ['warm', 'cold'] })
+  target: MigrationTier;
+
+  /**
+   * Records older than this are migrated, unless their location has its own
+   * cutoff; aligned to a bucket boundary and fixed for the life of the run
+   */
+  @Prop({ required: true })
+  cutoffDate: Date;
+
+  /** Retention policy overrides; these locations use their own cutoff */
+  @Prop({
+    type: [{ _id: false, location: String, cutoffDate: Date }],
+    default: [],
+  })
+  locationCutoffs: { location: string; cutoffDate: Date }[];
+
+  @Prop({ required: true, enum: ['scheduled', 'manual'] })
+  trigger: 'scheduled' | 'manual';
+
+  @Prop({
+    required: true,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running',
+    index: true,
+  })
+  status: MigrationRunStatus;
+
+  @Prop({ required: true, min: 1 })
+  batchSize: number;
+
+  /** End of the last migrated bucket; the run resumes from here */
+  @Prop({
+    type: { timestamp: { type: Date } },
+    default: null,
+  })
+  checkpoint: {
+    timestamp: Date;
+  } | null;
+
+  /** Source records matching the cutoff when the run started */
+  @Prop({ default: 0 })
+  totalRecords: number;
+
+  @Prop({ default: 0 })
+  migrated: number;
+
+  /** Hourly or daily records written to the target */
+  @Prop({ default: 0 })
+  written: number;
+
+  @Prop({ default: 0 })
+  deleted: number;
+
+  @Prop({ default: 0 })
+  batches: number;
+
+  /** Number of times the run was picked up again after being interrupted */
+  @Prop({ default: 0 })
+  resumeCount: number;
+
+  @Prop({ default: Date.now })
+  heartbeatAt: Date;
+
+  @Prop({ type: Date, default: null })
+  completedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  lastError: string | null;
+
+  @Prop({ default: Date.now })
+  createdAt: Date;
+
+  @Prop({ default: Date.now })
+  updatedAt: Date;
+}
+
+export const MigrationRunSchema = SchemaFactory.createForClass(MigrationRun);
+
+MigrationRunSchema.index({ source: 1, target: 1, status: 1 });
+
+// At most one running migration per path
+MigrationRunSchema.index(
+  { source: 1, target: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+MigrationRunSchema.index({ createdAt: -1 });
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type RetentionPolicyDocument = RetentionPolicy & Document;
+
+/**
+ * Ages, in days, at which a location's records move between tiers and are
+ * finally purged. The policy without a location is the default.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'retention_policies',
+})
+export class RetentionPolicy {
+  /** "City, State, Country" label, or null for the default policy */
+  @Prop({ type: String, default: null })
+  location: string | null;
+
+  /** Records older than this move from hot to warm */
+  @Prop({ required: true, min: 1 })
+  hotDays: number;
+
+  /** Records older than this move from warm to cold */
+  @Prop({ required: true, min: 1 })
+  warmDays: number;
+
+  /** Records older than this are deleted; null keeps cold data forever */
+  @Prop({ type: Number, default: null, min: 1 })
+  purgeAfterDays: number | null;
+
+  @Prop({ default: Date.now })
+  createdAt: Date;
+
+  @Prop({ default: Date.now })
+  updatedAt: Date;
+}
+
+export const RetentionPolicySchema =
+  SchemaFactory.createForClass(RetentionPolicy);
+
+RetentionPolicySchema.index({ location: 1 }, { unique: true });
@@ -0,0 +1,346 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+
+import { AirQuality } from '../../air-quality/schemas/air-quality.schema';
+import { AirQualityCold } from '../schemas/air-quality-cold.schema';
+import { AirQualityHot } from '../schemas/air-quality-hot.schema';
+import { AirQualityWarm } from '../schemas/air-quality-warm.schema';
+import { LegacyBackfillRun } from '../schemas/legacy-backfill-run.schema';
+import { AirQualityDataService } from './air-quality-data.service';
+
+describe('AirQualityDataService', () => {
+  let service: AirQualityDataService;
+
+  const mockHotModel = {
+    collection: { name: 'air_quality_hot' },
+    aggregate: jest.fn(),
+    bulkWrite: jest.fn(),
+  };
+  const mockWarmModel = {
+    collection: { name: 'air_quality_warm' },
+    aggregate: jest.fn(),
+  };
+  const mockColdModel = {
+    collection: { name: 'air_quality_cold' },
+    aggregate: jest.fn(),
+  };
+  const mockLegacyModel = {
+    collection: { name: 'airqualities' },
+    aggregate: jest.fn(),
+    find: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+
+  const mockBackfillRunModel = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+  };
+
+  const exec = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  // Applies updates to a stored run, like the backfill run collection would
+  const givenStoredRun = () => {
+    const stored: Record<string, unknown> = {
+      _id: new Types.ObjectId(),
+      status: 'running',
+      batchSize: 2,
+      processed: 0,
+      merged: 0,
+      duplicates: 0,
+      startedAt: new Date(),
+      heartbeatAt: new Date(),
+      completedAt: null,
+      lastError: null,
+    };
+    mockBackfillRunModel.create.mockResolvedValue({ ...stored });
+    mockBackfillRunModel.findByIdAndUpdate.mockImplementation((_id, update) => {
+      Object.assign(stored, update.$set);
+      for (const [field, value] of Object.entries(update.$inc ?? {})) {
+        stored[field] = (stored[field] as number) + (value as number);
+      }
+      return exec({ ...stored });
+    });
+    return stored;
+  };
+
+  const legacyRecord = (aqius: number) => ({
+    _id: new Types.ObjectId(),
+    city: 'Paris',
+    state: 'Ile-de-France',
+    country: 'France',
+    location: { type: 'Point', coordinates: [2.352222, 48.856613] },
+    pollution: { aqius, mainus: 'p2', aqicn: 40, maincn: 'p2' },
+    weather: { tp: 22, pr: 1013, hu: 60, ws: 3.5, wd: 270, ic: '01d' },
+    timestamp: new Date('2024-08-01T10:00:00Z'),
+  });
+
+  const givenLegacyBatches = (...batches: unknown[][]) => {
+    for (const batch of [...batches, []]) {
+      mockLegacyModel.find.mockReturnValueOnce({
+        sort: () => ({
+          limit: () => ({
+            lean: () => ({ exec: jest.fn().mockResolvedValue(batch) }),
+          }),
+        }),
+      });
+    }
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AirQualityDataService,
+        { provide: getModelToken(AirQualityHot.name), useValue: mockHotModel },
+        {
+          provide: getModelToken(AirQualityWarm.name),
+          useValue: mockWarmModel,
+        },
+        {
+          provide: getModelToken(AirQualityCold.name),
+          useValue: mockColdModel,
+        },
+        {
+          provide: getModelToken(AirQuality.name),
+          useValue: mockLegacyModel,
+        },
+        {
+          provide: getModelToken(LegacyBackfillRun.name),
+          useValue: mockBackfillRunModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AirQualityDataService>(AirQualityDataService);
+    for (const model of [
+      mockHotModel,
+      mockWarmModel,
+      mockColdModel,
+      mockLegacyModel,
+    ]) {
+      model.aggregate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([]),
+      });
+    }
+    mockBackfillRunModel.findOne.mockReturnValue(exec(null));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should read every tier and the legacy collection with one scope', async () => {
+    const startDate = new Date('2024-08-01T00:00:00Z');
+
+    await service.aggregate({ city: 'Paris', country: 'France', startDate }, [
+      { $limit: 1 },
+    ]);
+
+    const [pipeline] = mockHotModel.aggregate.mock.calls[0];
+    expect(pipeline[0].$match).toEqual({
+      location: /^Paris, [^,]+, France$/,
+      timestamp: { $gte: startDate },
+    });
+    expect(
+      pipeline.filter(stage => stage.$unionWith).map(s => s.$unionWith.coll)
+    ).toEqual(['air_quality_warm', 'air_quality_cold', 'airqualities']);
+    expect(pipeline[4].$unionWith.pipeline[0].$match).toEqual({
+      city: 'Paris',
+      country: 'France',
+      timestamp: { $gte: startDate },
+    });
+    expect(pipeline[pipeline.length - 1]).toEqual({ $limit: 1 });
+  });
+
+  it('should sort and limit inside every collection before the union', async () => {
+    await service.findReadings(
+      { city: 'Paris', country: 'France' },
+      { limit: 5 }
+    );
+
+    const [pipeline] = mockHotModel.aggregate.mock.calls[0];
+    const window = [{ $sort: { timestamp: -1 } }, { $limit: 5 }];
+    expect(pipeline.slice(1, 3)).toEqual(window);
+    const [warm, cold, legacy] = pipeline
+      .filter(stage => stage.$unionWith)
+      .map(stage => stage.$unionWith.pipeline);
+    expect(warm.slice(1, 3)).toEqual(window);
+    expect(cold.slice(1, 3)).toEqual(window);
+    expect(legacy.slice(2)).toEqual(window);
+    expect(pipeline.slice(-2)).toEqual(window);
+  });
+
+  it('should page every collection from the cursor before the union', async () => {
+    const scope = { city: 'Paris', country: 'France' };
+    const reading = (tier: string) => ({
+      _id: new Types.ObjectId(),
+      timestamp: new Date('2024-08-01T10:00:00Z'),
+      tier,
+    });
+    mockHotModel.aggregate.mockReturnValueOnce({
+      exec: jest
+        .fn()
+        .mockResolvedValue([reading('hot'), reading('warm'), reading('cold')]),
+    });
+
+    const first = await service.findPage(scope, 2);
+    await service.findPage(scope, 2, first.pagination.nextCursor!);
+
+    const [pipeline] = mockHotModel.aggregate.mock.calls[1];
+    const [warm, cold, legacy] = pipeline
+      .filter(stage => stage.$unionWith)
+      .map(stage => stage.$unionWith.pipeline);
+    const after = new Date('2024-08-01T10:00:00Z');
+    const page = [{ $sort: { timestamp: -1, _id: -1 } }, { $limit: 3 }];
+    // The cursor stopped at warm: hot is past it at that time, cold and legacy not
+    expect(pipeline[0].$match.$and[1]).toEqual({
+      timestamp: { $lt: after },
+    });
+    expect(warm[0].$match.$and[1].$or).toHaveLength(2);
+    expect(cold[0].$match.$and[1]).toEqual({ timestamp: { $lte: after } });
+    expect(legacy[0].$match.$and[1]).toEqual({ timestamp: { $lte: after } });
+    expect(pipeline.slice(1, 3)).toEqual(page);
+    expect(warm.slice(1, 3)).toEqual(page);
+    expect(cold.slice(1, 3)).toEqual(page);
+    expect(legacy.slice(2)).toEqual(page);
+  });
+
+  it('should read the latest reading only for locations the geospatial index finds', async () => {
+    const PARIS = 'Paris, Ile-de-France, France';
+    const LYON = 'Lyon, Auvergne-Rhone-Alpes, France';
+    const aggregated = (value: unknown[]) => ({
+      exec: jest.fn().mockResolvedValue(value),
+    });
+    mockHotModel.aggregate
+      .mockReturnValueOnce(aggregated([{ _id: PARIS, distance: 1300 }]))
+      .mockReturnValueOnce(
+        aggregated([
+          { reading: { location: LYON, tier: 'warm' } },
+          { reading: { location: PARIS, tier: 'hot' } },
+        ])
+      );
+    mockWarmModel.aggregate.mockReturnValueOnce(
+      aggregated([
+        { _id: PARIS, distance: 1200 },
+        { _id: LYON, distance: 40000 },
+      ])
+    );
+    const startDate = new Date('2024-08-05T09:00:00Z');
+
+    const readings = await service.findNearest(48.8566, 2.3522, 50000, {
+      startDate,
+    });
+
+    expect(readings).toEqual([
+      { location: PARIS, tier: 'hot', distance: 1200 },
+      { location: LYON, tier: 'warm', distance: 40000 },
+    ]);
+    expect(mockHotModel.aggregate.mock.calls[0][0][0]).toEqual({
+      $geoNear: {
+        near: { type: 'Point', coordinates: [2.3522, 48.8566] },
+        key: 'coordinates',
+        distanceField: 'distance',
+        maxDistance: 50000,
+        query: { timestamp: { $gte: startDate } },
+        spherical: true,
+      },
+    });
+    expect(mockLegacyModel.aggregate.mock.calls[0][0][0].$geoNear.key).toBe(
+      'location'
+    );
+    const [latest] = mockHotModel.aggregate.mock.calls[1];
+    expect(latest[0].$match.location).toEqual({ $in: [PARIS, LYON] });
+  });
+
+  it('should not read latest readings when no location is in range', async () => {
+    await expect(service.findNearest(48.8566, 2.3522, 1000)).resolves.toEqual(
+      []
+    );
+    expect(mockHotModel.aggregate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only read the other collections when hot has no latest reading', async () => {
+    const hotReading = {
+      location: 'Paris, Ile-de-France, France',
+      tier: 'hot',
+    };
+    mockHotModel.aggregate.mockReturnValueOnce({
+      exec: jest.fn().mockResolvedValue([hotReading]),
+    });
+
+    await expect(
+      service.findLatest({ city: 'Paris', country: 'France' })
+    ).resolves.toBe(hotReading);
+    const [pipeline] = mockHotModel.aggregate.mock.calls[0];
+    expect(pipeline.some(stage => stage.$unionWith)).toBe(false);
+
+    mockHotModel.aggregate.mockClear();
+    await expect(service.findLatest({ city: 'Lyon' })).resolves.toBeNull();
+    expect(mockHotModel.aggregate).toHaveBeenCalledTimes(2);
+    const [unionPipeline] = mockHotModel.aggregate.mock.calls[1];
+    expect(unionPipeline.filter(stage => stage.$unionWith)).toHaveLength(3);
+  });
+
+  it('should merge legacy records into the hot tier without overwriting', async () => {
+    const batch = [legacyRecord(65), legacyRecord(120)];
+    givenLegacyBatches(batch);
+    const stored = givenStoredRun();
+    mockHotModel.bulkWrite.mockResolvedValue({ upsertedCount: 1 });
+
+    const result = await service.backfillLegacy(2);
+
+    expect(result).toMatchObject({
+      status: 'completed',
+      processed: 2,
+      merged: 1,
+      duplicates: 1,
+    });
+    const [operations] = mockHotModel.bulkWrite.mock.calls[0];
+    expect(operations[0].updateOne).toMatchObject({
+      filter: {
+        location: 'Paris, Ile-de-France, France',
+        timestamp: new Date('2024-08-01T10:00:00Z'),
+      },
+      update: {
+        $setOnInsert: {
+          coordinates: { latitude: 48.856613, longitude: 2.352222 },
+          aqi: 65,
+          pollution_level: 'Moderate',
+          weather: { temperature: 22, humidity: 60, wind_speed: 3.5 },
+          source: 'iqair',
+        },
+      },
+      upsert: true,
+    });
+    expect(mockLegacyModel.deleteMany).toHaveBeenCalledWith({
+      _id: { $in: batch.map(record => record._id) },
+    });
+    expect(stored).toMatchObject({ status: 'completed', processed: 2 });
+  });
+
+  it('should keep backfill status in the database across instances', async () => {
+    const stored = givenStoredRun();
+    mockBackfillRunModel.findOne.mockReturnValue(exec(stored));
+
+    await expect(service.startLegacyBackfill()).resolves.toBe(false);
+    await expect(service.getBackfillStatus()).resolves.toMatchObject({
+      status: 'running',
+      processed: 0,
+    });
+
+    // A failed run records its error
+    mockBackfillRunModel.findOne.mockReturnValue(exec(null));
+    mockLegacyModel.find.mockImplementationOnce(() => {
+      throw new Error('connection lost');
+    });
+    await expect(service.backfillLegacy()).rejects.toThrow('connection lost');
+    expect(stored).toMatchObject({
+      status: 'failed',
+      lastError: 'connection lost',
+    });
+  });
+});
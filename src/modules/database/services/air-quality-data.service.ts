@@ -0,0 +1,780 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage, Types, UpdateQuery } from 'mongoose';
+
+import { CursorPagination, DataSource, Granularity } from '@/common/types';
+import {
+  AirQuality,
+  AirQualityDocument,
+} from '../../air-quality/schemas/air-quality.schema';
+import {
+  AirQualityCold,
+  AirQualityColdDocument,
+} from '../schemas/air-quality-cold.schema';
+import {
+  AirQualityHot,
+  AirQualityHotDocument,
+  AnomalyFlag,
+} from '../schemas/air-quality-hot.schema';
+import {
+  AirQualityWarm,
+  AirQualityWarmDocument,
+} from '../schemas/air-quality-warm.schema';
+import {
+  LegacyBackfillRun,
+  LegacyBackfillRunDocument,
+} from '../schemas/legacy-backfill-run.schema';
+import { TierRecord } from './downsampling.service';
+import {
+  CURSOR_TIERS,
+  CursorPosition,
+  decodeCursor,
+  encodeCursor,
+  getCursorPosition,
+  TIER_PAGE_SORT,
+  withAfterCursor,
+} from './query-cursor';
+
+/** A running backfill without a heartbeat for this long is considered dead */
+const BACKFILL_STALE_MS = 10 * 60 * 1000;
+
+export type ReadingTier = 'hot' | 'warm' | 'cold' | 'legacy';
+
+/**
+ * One reading in the shape every consumer reads, whichever collection it
+ * came from. Rollups carry their min/max and the number of raw readings.
+ */
+export interface AirQualityReading {
+  _id: Types.ObjectId;
+  location: string;
+  city: string;
+  state: string;
+  country: string;
+  coordinates: { latitude: number; longitude: number };
+  timestamp: Date;
+  aqi: number;
+  main_pollutant: string;
+  aqicn?: number;
+  maincn?: string;
+  pollution_level: string;
+  weather: {
+    temperature?: number;
+    humidity?: number;
+    pressure?: number;
+    wind_speed?: number;
+    wind_direction?: number;
+    icon?: string;
+  };
+  source?: DataSource;
+  granularity: Granularity;
+  aqi_min: number;
+  aqi_max: number;
+  sample_count: number;
+  tier: ReadingTier;
+  /** Only on raw readings that went through the anomaly detector */
+  anomaly?: AnomalyFlag;
+}
+
+/** Which readings to read; city/country match every state unless given */
+export interface ReadingScope {
+  city?: string;
+  state?: string;
+  country?: string;
+  locations?: string[];
+  startDate?: Date;
+  endDate?: Date;
+  /** Exclude readings at exactly `endDate` */
+  endExclusive?: boolean;
+  /** Leave out readings flagged as anomalies and not dismissed */
+  excludeAnomalies?: boolean;
+}
+
+/**
+ * Sort and limit applied inside each collection before the union, so no
+ * collection contributes more than `limit` readings. Sort on stored fields.
+ */
+export interface TierWindow {
+  sort: Record<string, 1 | -1>;
+  limit: number;
+  /** Only readings after this page cursor, matched in each collection */
+  after?: CursorPosition | null;
+}
+
+type GeoPoint = PipelineStage.GeoNear['$geoNear']['near'];
+
+export interface NearbyReading extends AirQualityReading {
+  distance: number;
+}
+
+/** Latest backfill run, or `idle` when none was ever started */
+export interface LegacyBackfillStatus {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  startedAt?: Date;
+  completedAt?: Date;
+  processed: number;
+  merged: number;
+  duplicates: number;
+  error?: string;
+}
+
+/**
+ * Single read path over the hot/warm/cold tiers and the legacy `AirQuality`
+ * collection. Every reading is normalized to `AirQualityReading` inside the
+ * pipeline, so callers can append their own stages on the unified fields.
+ */
+@Injectable()
+export class AirQualityDataService {
+  private readonly logger = new Logger(AirQualityDataService.name);
+
+  constructor(
+    @InjectModel(AirQualityHot.name)
+    private hotModel: Model<AirQualityHotDocument>,
+    @InjectModel(AirQualityWarm.name)
+    private warmModel: Model<AirQualityWarmDocument>,
+    @InjectModel(AirQualityCold.name)
+    private coldModel: Model<AirQualityColdDocument>,
+    @InjectModel(AirQuality.name)
+    private legacyModel: Model<AirQualityDocument>,
+    @InjectModel(LegacyBackfillRun.name)
+    private backfillRunModel: Model<LegacyBackfillRunDocument>
+  ) {}
+
+  /**
+   * Run `stages` over the normalized readings of every collection in scope.
+   * A `window` bounds each collection's contribution before the union.
+   */
+  async aggregate<T>(
+    scope: ReadingScope,
+    stages: PipelineStage[] = [],
+    window?: TierWindow
+  ): Promise<T[]> {
+    const union = (coll: string, tier: 'warm' | 'cold') => ({
+      $unionWith: {
+        coll,
+        pipeline: this.buildTierPipeline(scope, tier, window),
+      },
+    });
+
+    // Legacy fields are renamed by the projection, so it sorts after it
+    const legacyWindow = window
+      ? [{ $sort: window.sort }, { $limit: window.limit }]
+      : [];
+
+    const pipeline = [
+      ...this.buildTierPipeline(scope, 'hot', window),
+      union(this.warmModel.collection.name, 'warm'),
+      union(this.coldModel.collection.name, 'cold'),
+      {
+        $unionWith: {
+          coll: this.legacyModel.collection.name,
+          pipeline: [
+            {
+              $match: withAfterCursor(
+                this.buildLegacyMatch(scope),
+                window?.after ?? null,
+                'legacy'
+              ),
+            },
+            { $project: this.buildLegacyProjection() },
+            ...legacyWindow,
+          ],
+        },
+      },
+      ...stages,
+    ];
+
+    return this.hotModel.aggregate<T>(pipeline as PipelineStage[]).exec();
+  }
+
+  /**
+   * Readings in scope, newest first unless another sort is given
+   */
+  async findReadings(
+    scope: ReadingScope,
+    options: { limit?: number; sort?: Record<string, 1 | -1> } = {}
+  ): Promise<AirQualityReading[]> {
+    const sort = options.sort ?? { timestamp: -1 };
+    if (!options.limit) {
+      return this.aggregate<AirQualityReading>(scope, [{ $sort: sort }]);
+    }
+
+    return this.aggregate<AirQualityReading>(
+      scope,
+      [{ $sort: sort }, { $limit: options.limit }],
+      { sort, limit: options.limit }
+    );
+  }
+
+  /**
+   * One page of readings in scope, newest first. Pass `nextCursor` back as
+   * `cursor` for the next page; the date range may move between pages.
+   */
+  async findPage(
+    scope: ReadingScope,
+    limit: number,
+    cursor?: string
+  ): Promise<{ data: AirQualityReading[]; pagination: CursorPagination }> {
+    const filters = {
+      city: scope.city,
+      state: scope.state,
+      country: scope.country,
+      locations: scope.locations,
+    };
+    const after = cursor ? decodeCursor(cursor, filters) : null;
+
+    // Each collection contributes at most limit + 1 readings after the
+    // cursor, enough to fill the merged page and tell if another follows
+    const readings = await this.aggregate<AirQualityReading>(
+      scope,
+      [
+        {
+          $addFields: { tier_rank: { $indexOfArray: [CURSOR_TIERS, '$tier'] } },
+        },
+        { $sort: { timestamp: -1, tier_rank: 1, _id: -1 } },
+        { $limit: limit + 1 },
+        { $unset: 'tier_rank' },
+      ],
+      { sort: TIER_PAGE_SORT, limit: limit + 1, after }
+    );
+
+    const data = readings.slice(0, limit);
+    const hasNext = readings.length > limit;
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      pagination: {
+        limit,
+        nextCursor: hasNext
+          ? encodeCursor(getCursorPosition(last, last.tier), filters)
+          : null,
+        hasNext,
+      },
+    };
+  }
+
+  /**
+   * Newest reading in scope. New readings are written to hot, so the other
+   * collections are only read when hot has none in scope.
+   */
+  async findLatest(scope: ReadingScope): Promise<AirQualityReading | null> {
+    const [hot] = await this.hotModel
+      .aggregate<AirQualityReading>(
+        this.buildTierPipeline(scope, 'hot', {
+          sort: { timestamp: -1 },
+          limit: 1,
+        })
+      )
+      .exec();
+    if (hot) {
+      return hot;
+    }
+
+    const [latest] = await this.findReadings(scope, { limit: 1 });
+    return latest ?? null;
+  }
+
+  /**
+   * Latest reading of every location in scope, one query for all of them
+   */
+  async findLatestPerLocation(
+    scope: ReadingScope
+  ): Promise<AirQualityReading[]> {
+    const latestPerLocation = await this.aggregate<{
+      reading: AirQualityReading;
+    }>(scope, [
+      { $sort: { timestamp: -1 } },
+      { $group: { _id: '$location', reading: { $first: '$$ROOT' } } },
+    ]);
+
+    return latestPerLocation.map(({ reading }) => reading);
+  }
+
+  /**
+   * Latest reading of each location within `maxDistance` metres, nearest
+   * first. Only locations with a reading in scope are considered.
+   */
+  async findNearest(
+    latitude: number,
+    longitude: number,
+    maxDistance: number,
+    scope: ReadingScope = {}
+  ): Promise<NearbyReading[]> {
+    // Locations in range come from each collection's geospatial index
+    const near: GeoPoint = {
+      type: 'Point',
+      coordinates: [longitude, latitude],
+    };
+    const nearby = (
+      await Promise.all([
+        this.findNearbyLocations(this.hotModel, near, maxDistance, scope),
+        this.findNearbyLocations(this.warmModel, near, maxDistance, scope),
+        this.findNearbyLocations(this.coldModel, near, maxDistance, scope),
+        this.legacyModel
+          .aggregate<{ _id: string; distance: number }>([
+            {
+              $geoNear: {
+                near,
+                key: 'location',
+                distanceField: 'distance',
+                maxDistance,
+                query: this.buildLegacyMatch(scope),
+                spherical: true,
+              },
+            },
+            {
+              $group: {
+                _id: { $concat: ['$city', ', ', '$state', ', ', '$country'] },
+                distance: { $min: '$distance' },
+              },
+            },
+          ])
+          .exec(),
+      ])
+    ).flat();
+
+    const distances = new Map<string, number>();
+    for (const { _id: location, distance } of nearby) {
+      distances.set(
+        location,
+        Math.min(distances.get(location) ?? Infinity, distance)
+      );
+    }
+    if (distances.size === 0) {
+      return [];
+    }
+
+    const latestPerLocation = await this.findLatestPerLocation({
+      ...scope,
+      locations: [...distances.keys()],
+    });
+
+    return latestPerLocation
+      .map(reading => ({
+        ...reading,
+        distance: distances.get(reading.location)!,
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Store a new reading; all writes go to the hot tier
+   */
+  async saveReading(
+    reading: Partial<AirQualityHot>
+  ): Promise<AirQualityHotDocument> {
+    return new this.hotModel(reading).save();
+  }
+
+  async getBackfillStatus(): Promise<LegacyBackfillStatus> {
+    const run = await this.backfillRunModel
+      .findOne()
+      .sort({ startedAt: -1 })
+      .exec();
+
+    return run
+      ? this.toBackfillStatus(run)
+      : { status: 'idle', processed: 0, merged: 0, duplicates: 0 };
+  }
+
+  /**
+   * Start merging the legacy collection into the hot tier in the background.
+   * Returns false when a backfill is already running on any instance.
+   */
+  async startLegacyBackfill(batchSize: number = 500): Promise<boolean> {
+    const run = await this.startBackfillRun(batchSize);
+    if (!run) {
+      return false;
+    }
+
+    this.runBackfill(run).catch(error =>
+      this.logger.error('Legacy backfill failed:', error)
+    );
+    return true;
+  }
+
+  /**
+   * Run a backfill to completion; null when one is already running
+   */
+  async backfillLegacy(
+    batchSize: number = 500
+  ): Promise<LegacyBackfillStatus | null> {
+    const run = await this.startBackfillRun(batchSize);
+    return run ? this.runBackfill(run) : null;
+  }
+
+  /**
+   * Copy legacy records into the hot tier and delete them once copied.
+   * Existing hot readings for the same location and timestamp win. Deleting
+   * each merged batch makes the job safe to rerun after a failure. Records
+   * older than the hot retention move on with the next migration, which
+   * merges them into the warm/cold rollups already stored.
+   */
+  private async runBackfill(
+    run: LegacyBackfillRunDocument
+  ): Promise<LegacyBackfillStatus> {
+    try {
+      for (;;) {
+        const batch = await this.legacyModel
+          .find()
+          .sort({ _id: 1 })
+          .limit(run.batchSize)
+          .lean()
+          .exec();
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        const result = await this.hotModel.bulkWrite(
+          batch.map(record => {
+            const reading = this.toHotRecord(record);
+            return {
+              updateOne: {
+                filter: {
+                  location: reading.location,
+                  timestamp: reading.timestamp,
+                },
+                update: { $setOnInsert: reading },
+                upsert: true,
+              },
+            };
+          }),
+          { ordered: false }
+        );
+
+        await this.legacyModel.deleteMany({
+          _id: { $in: batch.map(record => record._id) },
+        });
+
+        run = await this.updateBackfillRun(run, {
+          $set: { heartbeatAt: new Date() },
+          $inc: {
+            processed: batch.length,
+            merged: result.upsertedCount,
+            duplicates: batch.length - result.upsertedCount,
+          },
+        });
+      }
+
+      run = await this.updateBackfillRun(run, {
+        $set: { status: 'completed', completedAt: new Date() },
+      });
+      this.logger.log(
+        `Legacy backfill completed: ${run.merged} merged, ${run.duplicates} duplicates`
+      );
+    } catch (error) {
+      run = await this.updateBackfillRun(run, {
+        $set: {
+          status: 'failed',
+          completedAt: new Date(),
+          lastError: error.message,
+        },
+      });
+      throw error;
+    }
+
+    return this.toBackfillStatus(run);
+  }
+
+  /**
+   * Take over a running backfill whose instance died, or start a new one.
+   * Returns null when another instance is still actively backfilling.
+   */
+  private async startBackfillRun(
+    batchSize: number
+  ): Promise<LegacyBackfillRunDocument | null> {
+    const active = await this.backfillRunModel
+      .findOne({ status: 'running' })
+      .exec();
+
+    if (active) {
+      if (Date.now() - active.heartbeatAt.getTime() <= BACKFILL_STALE_MS) {
+        return null;
+      }
+
+      this.logger.warn(
+        `Resuming interrupted legacy backfill after ${active.processed} records`
+      );
+      return this.backfillRunModel
+        .findOneAndUpdate(
+          {
+            _id: active._id,
+            status: 'running',
+            heartbeatAt: active.heartbeatAt,
+          },
+          { $set: { heartbeatAt: new Date(), batchSize } },
+          { new: true }
+        )
+        .exec();
+    }
+
+    try {
+      return await this.backfillRunModel.create({ batchSize });
+    } catch (error) {
+      // Another instance started a backfill in the meantime
+      if (error.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async updateBackfillRun(
+    run: LegacyBackfillRunDocument,
+    update: UpdateQuery<LegacyBackfillRunDocument>
+  ): Promise<LegacyBackfillRunDocument> {
+    return (
+      (await this.backfillRunModel
+        .findByIdAndUpdate(run._id, update, { new: true })
+        .exec()) ?? run
+    );
+  }
+
+  private toBackfillStatus(run: LegacyBackfillRun): LegacyBackfillStatus {
+    return {
+      status: run.status,
+      startedAt: run.startedAt,
+      ...(run.completedAt && { completedAt: run.completedAt }),
+      processed: run.processed,
+      merged: run.merged,
+      duplicates: run.duplicates,
+      ...(run.lastError && { error: run.lastError }),
+    };
+  }
+
+  /**
+   * "City, State, Country" label used as `location` by the tiered schemas
+   */
+  toLocationLabel(city: string, state: string, country: string): string {
+    return `${city}, ${state}, ${country}`;
+  }
+
+  /**
+   * Distance to each location of one tier with a reading in scope within
+   * `maxDistance` metres of `near`
+   */
+  private findNearbyLocations(
+    model: Model<TierRecord>,
+    near: GeoPoint,
+    maxDistance: number,
+    scope: ReadingScope
+  ): Promise<{ _id: string; distance: number }[]> {
+    return model
+      .aggregate<{ _id: string; distance: number }>([
+        {
+          $geoNear: {
+            near,
+            key: 'coordinates',
+            distanceField: 'distance',
+            maxDistance,
+            query: this.buildTierMatch(scope),
+            spherical: true,
+          },
+        },
+        { $group: { _id: '$location', distance: { $min: '$distance' } } },
+      ])
+      .exec();
+  }
+
+  private buildTierPipeline(
+    scope: ReadingScope,
+    tier: 'hot' | 'warm' | 'cold',
+    window?: TierWindow
+  ): PipelineStage[] {
+    return [
+      {
+        $match: withAfterCursor(
+          this.buildTierMatch(scope),
+          window?.after ?? null,
+          tier
+        ),
+      },
+      ...(window ? [{ $sort: window.sort }, { $limit: window.limit }] : []),
+      { $project: this.buildTierProjection(tier) },
+    ];
+  }
+
+  private buildTierMatch(scope: ReadingScope): Record<string, unknown> {
+    const match: Record<string, unknown> = {};
+
+    if (scope.locations) {
+      match.location = { $in: scope.locations };
+    } else if (scope.city && scope.state && scope.country) {
+      match.location = this.toLocationLabel(
+        scope.city,
+        scope.state,
+        scope.country
+      );
+    } else if (scope.city || scope.country) {
+      const part = (value?: string) =>
+        value ? this.escapeRegex(value) : '[^,]+';
+      match.location = new RegExp(
+        `^${part(scope.city)}, ${part(scope.state)}, ${part(scope.country)}$`
+      );
+    }
+    // Rollups and archived readings are built without flagged readings
+    if (scope.excludeAnomalies) {
+      match['anomaly.flagged'] = { $ne: true };
+    }
+
+    return { ...match, ...this.buildTimestampMatch(scope) };
+  }
+
+  private buildLegacyMatch(scope: ReadingScope): Record<string, unknown> {
+    const match: Record<string, unknown> = {};
+
+    if (scope.locations) {
+      match.$or = scope.locations.map(location => {
+        const [city, state, country] = location.split(', ');
+        return { city, state, country };
+      });
+    } else {
+      for (const field of ['city', 'state', 'country'] as const) {
+        if (scope[field]) {
+          match[field] = scope[field];
+        }
+      }
+    }
+
+    return { ...match, ...this.buildTimestampMatch(scope) };
+  }
+
+  private buildTimestampMatch(scope: ReadingScope): Record<string, unknown> {
+    if (!scope.startDate && !scope.endDate) {
+      return {};
+    }
+
+    return {
+      timestamp: {
+        ...(scope.startDate && { $gte: scope.startDate }),
+        ...(scope.endDate &&
+          (scope.endExclusive
+            ? { $lt: scope.endDate }
+            : { $lte: scope.endDate })),
+      },
+    };
+  }
+
+  private buildTierProjection(tier: ReadingTier): Record<string, unknown> {
+    const labelPart = (index: number) => ({
+      $arrayElemAt: [{ $split: ['$location', ', '] }, index],
+    });
+
+    return {
+      location: 1,
+      city: labelPart(0),
+      state: labelPart(1),
+      country: labelPart(-1),
+      coordinates: 1,
+      timestamp: 1,
+      aqi: 1,
+      main_pollutant: 1,
+      aqicn: 1,
+      maincn: 1,
+      pollution_level: 1,
+      weather: 1,
+      source: 1,
+      granularity: { $ifNull: ['$granularity', 'raw'] },
+      aqi_min: { $ifNull: ['$aqi_stats.min', '$aqi'] },
+      aqi_max: { $ifNull: ['$aqi_stats.max', '$aqi'] },
+      sample_count: { $ifNull: ['$aqi_stats.count', 1] },
+      tier: { $literal: tier },
+      anomaly: 1,
+    };
+  }
+
+  private buildLegacyProjection(): Record<string, unknown> {
+    return {
+      location: { $concat: ['$city', ', ', '$state', ', ', '$country'] },
+      city: 1,
+      state: 1,
+      country: 1,
+      coordinates: {
+        latitude: { $arrayElemAt: ['$location.coordinates', 1] },
+        longitude: { $arrayElemAt: ['$location.coordinates', 0] },
+      },
+      timestamp: 1,
+      aqi: '$pollution.aqius',
+      main_pollutant: '$pollution.mainus',
+      aqicn: '$pollution.aqicn',
+      maincn: '$pollution.maincn',
+      pollution_level: {
+        $switch: {
+          branches: [
+            { case: { $lte: ['$pollution.aqius', 50] }, then: 'Good' },
+            { case: { $lte: ['$pollution.aqius', 100] }, then: 'Moderate' },
+            {
+              case: { $lte: ['$pollution.aqius', 150] },
+              then: 'Unhealthy for Sensitive Groups',
+            },
+            { case: { $lte: ['$pollution.aqius', 200] }, then: 'Unhealthy' },
+            {
+              case: { $lte: ['$pollution.aqius', 300] },
+              then: 'Very Unhealthy',
+            },
+          ],
+          default: 'Hazardous',
+        },
+      },
+      weather: {
+        temperature: '$weather.tp',
+        humidity: '$weather.hu',
+        pressure: '$weather.pr',
+        wind_speed: '$weather.ws',
+        wind_direction: '$weather.wd',
+        icon: '$weather.ic',
+      },
+      granularity: { $literal: 'raw' },
+      aqi_min: '$pollution.aqius',
+      aqi_max: '$pollution.aqius',
+      sample_count: { $literal: 1 },
+      tier: { $literal: 'legacy' },
+    };
+  }
+
+  private toHotRecord(record: AirQuality): Partial<AirQualityHot> {
+    const [longitude, latitude] = record.location.coordinates;
+
+    return {
+      location: this.toLocationLabel(record.city, record.state, record.country),
+      coordinates: { latitude, longitude },
+      timestamp: record.timestamp,
+      aqi: record.pollution.aqius,
+      main_pollutant: record.pollution.mainus,
+      aqicn: record.pollution.aqicn,
+      maincn: record.pollution.maincn,
+      pollution_level: this.getPollutionLevel(record.pollution.aqius),
+      ...(record.subIndexes && { sub_indexes: record.subIndexes.us }),
+      weather: {
+        temperature: record.weather.tp,
+        humidity: record.weather.hu,
+        pressure: record.weather.pr,
+        wind_speed: record.weather.ws,
+        wind_direction: record.weather.wd,
+        icon: record.weather.ic,
+      },
+      // Only manual records stored concentrations or sub-indexes
+      source: record.concentrations || record.subIndexes ? 'manual' : 'iqair',
+      metadata: {
+        api_response_time: 0,
+        cached: false,
+        retry_count: 0,
+        provider: 'legacy',
+      },
+    };
+  }
+
+  private getPollutionLevel(aqi: number): string {
+    if (aqi <= 50) return 'Good';
+    if (aqi <= 100) return 'Moderate';
+    if (aqi <= 150) return 'Unhealthy for Sensitive Groups';
+    if (aqi <= 200) return 'Unhealthy';
+    if (aqi <= 300) return 'Very Unhealthy';
+    return 'Hazardous';
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
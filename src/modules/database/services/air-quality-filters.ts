@@ -0,0 +1,43 @@
+import { FilterFields } from '@/common/filter-query';
+
+/**
+ * Reading fields clients may filter on through the `filter` expression.
+ * Shared by every tier and the archive, which all store these paths.
+ */
+export const AIR_QUALITY_FILTER_FIELDS: FilterFields = {
+  timestamp: { type: 'date' },
+  location: { type: 'string' },
+  aqi: { type: 'number' },
+  main_pollutant: {
+    type: 'string',
+    values: [
+      'p1',
+      'p2',
+      'p3',
+      'p4',
+      'p5',
+      'n2',
+      's4',
+      'co',
+      'o3',
+      'no2',
+      'so2',
+    ],
+  },
+  pollution_level: {
+    type: 'string',
+    values: [
+      'Good',
+      'Moderate',
+      'Unhealthy for Sensitive Groups',
+      'Unhealthy',
+      'Very Unhealthy',
+      'Hazardous',
+    ],
+  },
+  source: { type: 'string' },
+  'weather.temperature': { type: 'number' },
+  'weather.humidity': { type: 'number' },
+  'weather.pressure': { type: 'number' },
+  'weather.wind_speed': { type: 'number' },
+};
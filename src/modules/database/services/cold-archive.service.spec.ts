@@ -0,0 +1,188 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { promises as fs } from 'fs';
+import { Types } from 'mongoose';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { AirQualityCold } from '../schemas/air-quality-cold.schema';
+import { ColdArchiveService } from './cold-archive.service';
+import { RetentionPolicyService } from './retention-policy.service';
+
+describe('ColdArchiveService', () => {
+  let service: ColdArchiveService;
+  let archivePath: string;
+
+  const PARIS = 'Paris, Ile-de-France, France';
+  const now = new Date('2024-08-05T00:00:00Z');
+
+  const record = (location: string, day: string, aqi: number) => ({
+    _id: new Types.ObjectId(),
+    __v: 0,
+    location,
+    timestamp: new Date(`${day}T00:00:00Z`),
+    granularity: 'daily',
+    aqi,
+    main_pollutant: 'p2',
+    pollution_level: 'Good',
+  });
+
+  const mockColdModel = {
+    find: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+
+  const mockRetentionPolicyService = {
+    getCutoffs: jest.fn(),
+  };
+
+  const givenColdRecords = (records: unknown[]) =>
+    mockColdModel.find.mockReturnValue({
+      sort: () => ({ lean: () => ({ cursor: () => records }) }),
+    });
+
+  beforeEach(async () => {
+    // File system and zlib callbacks need real timers
+    jest.useRealTimers();
+    archivePath = await fs.mkdtemp(join(tmpdir(), 'cold-archive-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ColdArchiveService,
+        {
+          provide: getModelToken(AirQualityCold.name),
+          useValue: mockColdModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'database.archive.path' ? archivePath : 365
+            ),
+          },
+        },
+        {
+          provide: RetentionPolicyService,
+          useValue: mockRetentionPolicyService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ColdArchiveService>(ColdArchiveService);
+
+    mockRetentionPolicyService.getCutoffs.mockResolvedValue({
+      cutoffDate: null,
+      locationCutoffs: [],
+    });
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    await fs.rm(archivePath, { recursive: true, force: true });
+  });
+
+  it('should write one partition per location and month with a checksum manifest', async () => {
+    const records = [
+      record(PARIS, '2023-06-01', 40),
+      record(PARIS, '2023-06-02', 80),
+      record(PARIS, '2023-07-01', 60),
+    ];
+    givenColdRecords(records);
+
+    const result = await service.archiveColdData(now);
+
+    expect(result).toMatchObject({
+      cutoffDate: new Date('2023-08-01T00:00:00Z'),
+      partitions: 2,
+      records: 3,
+    });
+    expect(mockColdModel.find).toHaveBeenCalledWith({
+      timestamp: { $lt: new Date('2023-08-01T00:00:00Z') },
+    });
+    expect(mockColdModel.deleteMany).toHaveBeenNthCalledWith(1, {
+      _id: { $in: [records[0]._id, records[1]._id] },
+    });
+
+    const dir = join(archivePath, encodeURIComponent(PARIS), '2023', '06');
+    const manifest = JSON.parse(
+      await fs.readFile(join(dir, 'manifest.json'), 'utf8')
+    );
+    expect(manifest).toMatchObject({ location: PARIS, year: 2023, month: 6 });
+    expect(manifest.files[0]).toMatchObject({
+      records: 2,
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+      from: '2023-06-01T00:00:00.000Z',
+      to: '2023-06-02T00:00:00.000Z',
+    });
+  });
+
+  it('should read archived records back with the query filters applied', async () => {
+    givenColdRecords([
+      record(PARIS, '2023-06-01', 40),
+      record(PARIS, '2023-06-02', 80),
+      record(PARIS, '2023-07-01', 60),
+    ]);
+    await service.archiveColdData(now);
+
+    const records = await service.readArchived(
+      new Date('2023-06-02T00:00:00Z'),
+      new Date('2023-12-31T00:00:00Z'),
+      { location: PARIS, minAqi: 50 }
+    );
+
+    expect(records.map(r => [r.timestamp, r.aqi])).toEqual([
+      [new Date('2023-07-01T00:00:00Z'), 60],
+      [new Date('2023-06-02T00:00:00Z'), 80],
+    ]);
+  });
+
+  it('should skip files whose checksum does not match', async () => {
+    givenColdRecords([record(PARIS, '2023-06-01', 40)]);
+    await service.archiveColdData(now);
+
+    const dir = join(archivePath, encodeURIComponent(PARIS), '2023', '06');
+    const [file] = (await fs.readdir(dir)).filter(f => f.endsWith('.gz'));
+    await fs.appendFile(join(dir, file), 'corrupted');
+
+    const records = await service.readArchived(
+      new Date('2023-01-01T00:00:00Z'),
+      new Date('2023-12-31T00:00:00Z')
+    );
+
+    expect(records).toEqual([]);
+  });
+
+  it('should keep dot-only locations inside the archive path', async () => {
+    givenColdRecords([record('..', '2023-06-01', 40)]);
+    await service.archiveColdData(now);
+
+    expect(await fs.readdir(archivePath)).toEqual(['%2E%2E']);
+    const records = await service.readArchived(
+      new Date('2023-01-01T00:00:00Z'),
+      new Date('2023-12-31T00:00:00Z'),
+      { location: '..' }
+    );
+    expect(records.map(r => [r.location, r.aqi])).toEqual([['..', 40]]);
+  });
+
+  it('should remove partitions past their purge age', async () => {
+    givenColdRecords([
+      record(PARIS, '2023-06-01', 40),
+      record(PARIS, '2023-07-01', 60),
+    ]);
+    mockRetentionPolicyService.getCutoffs.mockResolvedValue({
+      cutoffDate: new Date('2023-07-01T00:00:00Z'),
+      locationCutoffs: [],
+    });
+
+    const result = await service.archiveColdData(now);
+
+    expect(result?.purgedPartitions).toBe(1);
+    const months = await fs.readdir(
+      join(archivePath, encodeURIComponent(PARIS), '2023')
+    );
+    expect(months).toEqual(['07']);
+  });
+});
@@ -0,0 +1,436 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron } from '@nestjs/schedule';
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { Model } from 'mongoose';
+import { join } from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+import { AirQualityQueryDto } from '@/common/dto/air-quality-record.dto';
+import { matchesFilters, parseFilters } from '@/common/filter-query';
+import { FilterOptions } from '@/common/types';
+import {
+  AirQualityCold,
+  AirQualityColdDocument,
+} from '../schemas/air-quality-cold.schema';
+import { AIR_QUALITY_FILTER_FIELDS } from './air-quality-filters';
+import { TierRecord } from './downsampling.service';
+import { RetentionPolicyService } from './retention-policy.service';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MANIFEST_FILE = 'manifest.json';
+const DATE_FIELDS = ['timestamp', 'createdAt', 'updatedAt'];
+
+export interface ArchiveFileEntry {
+  name: string;
+  records: number;
+  bytes: number;
+  /** SHA-256 of the compressed file */
+  sha256: string;
+  from: string;
+  to: string;
+  createdAt: string;
+}
+
+/** One per location/year/month partition */
+export interface ArchiveManifest {
+  location: string;
+  year: number;
+  month: number;
+  files: ArchiveFileEntry[];
+}
+
+export interface ArchiveRunResult {
+  cutoffDate: Date;
+  partitions: number;
+  records: number;
+  purgedPartitions: number;
+}
+
+/**
+ * Moves cold records past the archive age out of MongoDB into gzipped NDJSON
+ * files partitioned by location/year/month, and reads them back for queries.
+ */
+@Injectable()
+export class ColdArchiveService {
+  private readonly logger = new Logger(ColdArchiveService.name);
+  private readonly archivePath: string;
+  private readonly archiveAfterDays: number;
+  private running = false;
+
+  constructor(
+    @InjectModel(AirQualityCold.name)
+    private coldModel: Model<AirQualityColdDocument>,
+    private configService: ConfigService,
+    private retentionPolicyService: RetentionPolicyService
+  ) {
+    this.archivePath =
+      this.configService.get<string>('database.archive.path') ||
+      './data/archive';
+    this.archiveAfterDays =
+      this.configService.get<number>('database.archive.afterDays') || 730;
+  }
+
+  /**
+   * Monthly CRON: archive cold data and drop partitions past their purge age
+   * Runs at 5 AM on the 2nd of each month, after the warm → cold migration
+   */
+  @Cron('0 5 2 * *')
+  async scheduledArchive(): Promise<ArchiveRunResult | null> {
+    try {
+      return await this.archiveColdData();
+    } catch (error) {
+      this.logger.error('Error during cold data archiving:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Archive every cold record older than the archive cutoff. A partition's
+   * records are deleted from MongoDB only after its file and manifest are on
+   * disk; a crash in between leaves duplicates that reads drop.
+   */
+  async archiveColdData(
+    now: Date = new Date()
+  ): Promise<ArchiveRunResult | null> {
+    if (this.running) {
+      this.logger.warn('Skipping cold archive: a run is already in progress');
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const cutoffDate = this.getArchiveCutoff(now);
+      const result: ArchiveRunResult = {
+        cutoffDate,
+        partitions: 0,
+        records: 0,
+        purgedPartitions: 0,
+      };
+
+      const cursor = this.coldModel
+        .find({ timestamp: { $lt: cutoffDate } })
+        .sort({ location: 1, timestamp: 1 })
+        .lean()
+        .cursor();
+
+      let partition: TierRecord[] = [];
+      for await (const record of cursor) {
+        if (
+          partition.length > 0 &&
+          this.getPartitionKey(partition[0]) !== this.getPartitionKey(record)
+        ) {
+          result.records += await this.archivePartition(partition);
+          result.partitions++;
+          partition = [];
+        }
+        partition.push(record);
+      }
+      if (partition.length > 0) {
+        result.records += await this.archivePartition(partition);
+        result.partitions++;
+      }
+
+      result.purgedPartitions = await this.purgeExpiredPartitions(now);
+
+      this.logger.log(`Cold archive completed: ${JSON.stringify(result)}`);
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Records older than this live in archive files rather than MongoDB,
+   * once the archive job has run. Always the start of a UTC month.
+   */
+  getArchiveCutoff(now: Date = new Date()): Date {
+    const date = new Date(now.getTime() - this.archiveAfterDays * DAY_MS);
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  /**
+   * Archived records in [startDate, endDate] matching the query filters,
+   * newest first. Files failing their checksum are skipped.
+   */
+  async readArchived(
+    startDate: Date,
+    endDate: Date,
+    queryOptions: Partial<AirQualityQueryDto> = {}
+  ): Promise<TierRecord[]> {
+    const records = new Map<string, TierRecord>();
+    const filters = parseFilters(
+      queryOptions.filter,
+      AIR_QUALITY_FILTER_FIELDS
+    );
+
+    for (const location of await this.listLocations(queryOptions.location)) {
+      for (const dir of await this.listPartitions(
+        location,
+        startDate,
+        endDate
+      )) {
+        const manifest = await this.readManifest(dir);
+        if (!manifest) {
+          continue;
+        }
+
+        for (const file of manifest.files) {
+          if (new Date(file.to) < startDate || new Date(file.from) > endDate) {
+            continue;
+          }
+
+          for (const record of await this.readFile(dir, file)) {
+            if (
+              record.timestamp >= startDate &&
+              record.timestamp <= endDate &&
+              this.matches(record, queryOptions, filters)
+            ) {
+              // Later files win over copies left by an interrupted run
+              records.set(
+                `${record.location}|${record.timestamp.toISOString()}`,
+                record
+              );
+            }
+          }
+        }
+      }
+    }
+
+    return [...records.values()].sort(
+      (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+    );
+  }
+
+  private async archivePartition(
+    records: (TierRecord & { __v?: number })[]
+  ): Promise<number> {
+    const { location, timestamp } = records[0];
+    const year = timestamp.getUTCFullYear();
+    const month = timestamp.getUTCMonth() + 1;
+    const dir = this.getPartitionDir(location, year, month);
+    await fs.mkdir(dir, { recursive: true });
+
+    const ndjson = records
+      .map(({ _id, __v, ...record }) => JSON.stringify(record))
+      .join('\n');
+    const compressed = await gzipAsync(Buffer.from(`${ndjson}\n`));
+
+    const name = `part-${Date.now()}-${randomUUID().slice(0, 8)}.ndjson.gz`;
+    await this.writeAtomic(join(dir, name), compressed);
+
+    const manifest = (await this.readManifest(dir)) ?? {
+      location,
+      year,
+      month,
+      files: [],
+    };
+    manifest.files.push({
+      name,
+      records: records.length,
+      bytes: compressed.length,
+      sha256: this.checksum(compressed),
+      from: timestamp.toISOString(),
+      to: records[records.length - 1].timestamp.toISOString(),
+      createdAt: new Date().toISOString(),
+    });
+    await this.writeAtomic(
+      join(dir, MANIFEST_FILE),
+      Buffer.from(JSON.stringify(manifest, null, 2))
+    );
+
+    await this.coldModel.deleteMany({
+      _id: { $in: records.map(record => record._id) },
+    });
+
+    this.logger.debug(
+      `Archived ${records.length} records to ${join(dir, name)}`
+    );
+    return records.length;
+  }
+
+  /**
+   * Remove whole partitions past their location's purge age
+   */
+  private async purgeExpiredPartitions(now: Date): Promise<number> {
+    const cutoffs = await this.retentionPolicyService.getCutoffs(
+      'purgeAfterDays',
+      now
+    );
+    let purged = 0;
+
+    for (const location of await this.listLocations()) {
+      const override = cutoffs.locationCutoffs.find(
+        c => c.location === location
+      );
+      const cutoff = override ? override.cutoffDate : cutoffs.cutoffDate;
+      if (!cutoff) {
+        continue;
+      }
+
+      for (const dir of await this.listPartitions(
+        location,
+        new Date(0),
+        cutoff
+      )) {
+        const manifest = await this.readManifest(dir);
+        // The partition ends at the start of the next month
+        if (
+          manifest &&
+          Date.UTC(manifest.year, manifest.month, 1) <= cutoff.getTime()
+        ) {
+          await fs.rm(dir, { recursive: true, force: true });
+          purged++;
+        }
+      }
+    }
+
+    return purged;
+  }
+
+  private async readFile(
+    dir: string,
+    file: ArchiveFileEntry
+  ): Promise<TierRecord[]> {
+    const compressed = await fs.readFile(join(dir, file.name));
+
+    if (this.checksum(compressed) !== file.sha256) {
+      this.logger.error(
+        `Checksum mismatch for ${join(dir, file.name)}; skipping file`
+      );
+      return [];
+    }
+
+    return (await gunzipAsync(compressed))
+      .toString('utf8')
+      .split('\n')
+      .filter(line => line.length > 0)
+      .map(line => {
+        const record = JSON.parse(line);
+        for (const field of DATE_FIELDS) {
+          if (record[field]) {
+            record[field] = new Date(record[field]);
+          }
+        }
+        return record;
+      });
+  }
+
+  private async readManifest(dir: string): Promise<ArchiveManifest | null> {
+    try {
+      return JSON.parse(
+        await fs.readFile(join(dir, MANIFEST_FILE), 'utf8')
+      ) as ArchiveManifest;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async listLocations(location?: string): Promise<string[]> {
+    if (location) {
+      return [location];
+    }
+
+    const entries = await this.readDir(this.archivePath);
+    return entries.map(entry => decodeURIComponent(entry));
+  }
+
+  /**
+   * Partition directories of a location overlapping [startDate, endDate]
+   */
+  private async listPartitions(
+    location: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<string[]> {
+    const locationDir = join(this.archivePath, this.encodeLocation(location));
+    const first = startDate.getUTCFullYear() * 12 + startDate.getUTCMonth();
+    const last = endDate.getUTCFullYear() * 12 + endDate.getUTCMonth();
+    const dirs: string[] = [];
+
+    for (const year of await this.readDir(locationDir)) {
+      for (const month of await this.readDir(join(locationDir, year))) {
+        const index = Number(year) * 12 + Number(month) - 1;
+        if (index >= first && index <= last) {
+          dirs.push(join(locationDir, year, month));
+        }
+      }
+    }
+
+    return dirs;
+  }
+
+  private async readDir(path: string): Promise<string[]> {
+    try {
+      return await fs.readdir(path);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private matches(
+    record: TierRecord,
+    queryOptions: Partial<AirQualityQueryDto>,
+    filters: FilterOptions[]
+  ): boolean {
+    return (
+      (queryOptions.minAqi === undefined ||
+        record.aqi >= queryOptions.minAqi) &&
+      (queryOptions.maxAqi === undefined ||
+        record.aqi <= queryOptions.maxAqi) &&
+      (!queryOptions.pollutant ||
+        record.main_pollutant === queryOptions.pollutant) &&
+      (!queryOptions.pollution_level ||
+        record.pollution_level === queryOptions.pollution_level) &&
+      matchesFilters(record, filters)
+    );
+  }
+
+  /**
+   * Write through a temporary file so readers never see a partial file
+   */
+  private async writeAtomic(path: string, data: Buffer): Promise<void> {
+    const tmp = `${path}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, path);
+  }
+
+  private getPartitionKey(record: TierRecord): string {
+    const { location, timestamp } = record;
+    return `${location}|${timestamp.getUTCFullYear()}|${timestamp.getUTCMonth()}`;
+  }
+
+  private getPartitionDir(location: string, year: number, month: number) {
+    return join(
+      this.archivePath,
+      this.encodeLocation(location),
+      String(year),
+      String(month).padStart(2, '0')
+    );
+  }
+
+  /**
+   * Directory name of a location. encodeURIComponent leaves dots alone, so
+   * `.` and `..` are escaped too, keeping every partition under archivePath.
+   */
+  private encodeLocation(location: string): string {
+    const encoded = encodeURIComponent(location);
+    return /^\.{1,2}$/.test(encoded) ? encoded.replace(/\./g, '%2E') : encoded;
+  }
+
+  private checksum(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+}
@@ -0,0 +1,324 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+import { AirQualityCold } from '../schemas/air-quality-cold.schema';
+import { AirQualityHot } from '../schemas/air-quality-hot.schema';
+import { AirQualityWarm } from '../schemas/air-quality-warm.schema';
+import {
+  MigrationRun,
+  MigrationRunDocument,
+} from '../schemas/migration-run.schema';
+import { RetentionPolicy } from '../schemas/retention-policy.schema';
+import { DataMigrationService } from './data-migration.service';
+import { DownsampledRecord, DownsamplingService } from './downsampling.service';
+import { RetentionPolicyService } from './retention-policy.service';
+
+describe('DataMigrationService', () => {
+  let service: DataMigrationService;
+
+  const exec = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const record = (time: string, aqi = 42) => ({
+    _id: new Types.ObjectId(),
+    __v: 0,
+    location: 'Paris, Ile-de-France, France',
+    coordinates: { latitude: 48.8566, longitude: 2.3522 },
+    timestamp: new Date(`2024-06-01T${time}:00Z`),
+    aqi,
+    main_pollutant: 'p2',
+    weather: { temperature: 20, humidity: 50 },
+  });
+
+  const mockHotModel = {
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+    deleteMany: jest.fn(),
+    db: {
+      db: {
+        admin: () => ({
+          command: jest.fn().mockResolvedValue({ isWritablePrimary: true }),
+        }),
+      },
+    },
+  };
+
+  const mockWarmModel = {
+    find: jest.fn(),
+    bulkWrite: jest.fn(),
+  };
+
+  /** Warm buckets already stamped with the batch being migrated */
+  const givenMerged = (merged: unknown[]) =>
+    mockWarmModel.find.mockReturnValue({
+      lean: jest.fn().mockReturnValue(exec(merged)),
+    });
+
+  const mockMigrationRunModel = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+
+  const run = (overrides: Partial<MigrationRun> = {}) =>
+    ({
+      _id: 'run-object-id',
+      runId: 'run-1',
+      source: 'hot',
+      target: 'warm',
+      cutoffDate: new Date('2024-07-06T00:00:00Z'),
+      batchSize: 3,
+      checkpoint: null,
+      migrated: 0,
+      heartbeatAt: new Date(),
+      ...overrides,
+    }) as MigrationRunDocument;
+
+  // The rollup a merge update carries into the stored bucket
+  const incoming = (operation: {
+    updateOne: {
+      update: { $set: { _incoming: { $literal: DownsampledRecord } } }[];
+    };
+  }) => operation.updateOne.update[0].$set._incoming.$literal;
+
+  /** Each call to find() returns the next batch, with or without a limit */
+  const givenBatches = (...batches: unknown[][]) => {
+    for (const batch of [...batches, []]) {
+      const lean = jest.fn().mockResolvedValue(batch);
+      mockHotModel.find.mockReturnValueOnce({
+        sort: jest.fn().mockReturnValue({
+          limit: jest.fn().mockReturnValue({ lean }),
+          lean,
+        }),
+      });
+    }
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataMigrationService,
+        DownsamplingService,
+        AqiCalculatorService,
+        RetentionPolicyService,
+        { provide: getModelToken(AirQualityHot.name), useValue: mockHotModel },
+        {
+          provide: getModelToken(AirQualityWarm.name),
+          useValue: mockWarmModel,
+        },
+        { provide: getModelToken(AirQualityCold.name), useValue: {} },
+        {
+          provide: getModelToken(MigrationRun.name),
+          useValue: mockMigrationRunModel,
+        },
+        { provide: getModelToken(RetentionPolicy.name), useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<DataMigrationService>(DataMigrationService);
+
+    mockWarmModel.bulkWrite.mockResolvedValue({});
+    givenMerged([]);
+    mockHotModel.deleteMany.mockImplementation(async filter => ({
+      deletedCount: filter._id.$in.length,
+    }));
+    mockMigrationRunModel.updateOne.mockReturnValue(exec({}));
+    mockMigrationRunModel.findByIdAndUpdate.mockImplementation((_id, update) =>
+      exec({ ...run(), ...update.$set })
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    // Drop batches a failing test left queued
+    mockHotModel.find.mockReset();
+  });
+
+  describe('executeRun', () => {
+    it('should merge hourly rollups of complete buckets into warm before deleting the source records', async () => {
+      const first = [record('10:00', 40), record('10:30', 60), record('11:00')];
+      const second = [record('11:00')];
+      givenBatches(first, second);
+
+      const result = await service.executeRun(run());
+
+      expect(result.status).toBe('completed');
+      expect(mockWarmModel.bulkWrite).toHaveBeenCalledTimes(2);
+
+      // The 11:00 bucket may be incomplete, so it waits for the next batch
+      const [operations] = mockWarmModel.bulkWrite.mock.calls[0];
+      expect(operations).toHaveLength(1);
+      expect(operations[0].updateOne).toEqual({
+        filter: {
+          location: first[0].location,
+          timestamp: new Date('2024-06-01T10:00:00Z'),
+        },
+        update: expect.any(Array),
+        upsert: true,
+      });
+      expect(incoming(operations[0])).toEqual(
+        expect.objectContaining({
+          granularity: 'hourly',
+          aqi: 50,
+          aqi_stats: { min: 40, max: 60, avg: 50, p95: 60, count: 2 },
+        })
+      );
+      expect(mockHotModel.deleteMany).toHaveBeenNthCalledWith(
+        1,
+        { _id: { $in: [first[0]._id, first[1]._id] } },
+        expect.anything()
+      );
+
+      // Checkpoint advances to the end of the last migrated bucket
+      expect(mockMigrationRunModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: 'run-object-id' },
+        {
+          $set: {
+            checkpoint: { timestamp: new Date('2024-06-01T12:00:00Z') },
+            heartbeatAt: expect.any(Date),
+          },
+          $inc: { migrated: 1, written: 1, deleted: 1, batches: 1 },
+        }
+      );
+    });
+
+    it('should read a bucket larger than the batch size whole', async () => {
+      const bucket = [record('10:00'), record('10:20'), record('10:40')];
+      givenBatches(bucket.slice(0, 3), [...bucket, record('10:50')]);
+
+      await service.executeRun(run());
+
+      expect(mockHotModel.find).toHaveBeenNthCalledWith(2, {
+        timestamp: {
+          $gte: new Date('2024-06-01T10:00:00Z'),
+          $lt: new Date('2024-06-01T11:00:00Z'),
+        },
+        'anomaly.status': { $ne: 'pending' },
+      });
+      const [operations] = mockWarmModel.bulkWrite.mock.calls[0];
+      expect(incoming(operations[0]).aqi_stats.count).toBe(4);
+    });
+
+    it('should continue after the checkpoint of a resumed run', async () => {
+      const checkpoint = { timestamp: new Date('2024-06-01T11:00:00Z') };
+      givenBatches();
+
+      await service.executeRun(run({ checkpoint }));
+
+      expect(mockHotModel.find).toHaveBeenCalledWith({
+        timestamp: {
+          $lt: new Date('2024-07-06T00:00:00Z'),
+          $gte: checkpoint.timestamp,
+        },
+        'anomaly.status': { $ne: 'pending' },
+      });
+    });
+
+    it('should leave confirmed anomalies out of the rollup and pending ones in hot', async () => {
+      const confirmed = {
+        ...record('10:30', 480),
+        anomaly: { flagged: true, status: 'confirmed' },
+      };
+      givenBatches([record('10:00', 40), confirmed]);
+
+      await service.executeRun(run());
+
+      // Pending flags never match the batch query
+      expect(mockHotModel.find.mock.calls[0][0]).toMatchObject({
+        'anomaly.status': { $ne: 'pending' },
+      });
+      const [operations] = mockWarmModel.bulkWrite.mock.calls[0];
+      expect(incoming(operations[0]).aqi_stats).toMatchObject({
+        max: 40,
+        count: 1,
+      });
+      expect(mockHotModel.deleteMany).toHaveBeenCalledWith(
+        { _id: { $in: [expect.anything(), confirmed._id] } },
+        expect.anything()
+      );
+    });
+
+    it('should skip buckets a replayed batch already merged', async () => {
+      const checkpoint = { timestamp: new Date('2024-06-01T10:00:00Z') };
+      const batch = [record('10:00'), record('11:00'), record('11:30')];
+      givenBatches(batch.slice(0, 2), batch.slice(2));
+      // Crashed after the upsert of the 10:00 bucket, before the delete
+      givenMerged([
+        { location: batch[0].location, timestamp: batch[0].timestamp },
+      ]);
+
+      await service.executeRun(run({ checkpoint, batchSize: 2 }));
+
+      expect(mockWarmModel.find).toHaveBeenCalledWith(
+        {
+          location: { $in: [batch[0].location] },
+          timestamp: { $in: [new Date('2024-06-01T10:00:00Z')] },
+          migration_batch: 'run-1@2024-06-01T10:00:00.000Z',
+        },
+        { location: 1, timestamp: 1 },
+        { session: undefined }
+      );
+      // Only the 11:00 bucket of the second batch is merged
+      expect(mockWarmModel.bulkWrite).toHaveBeenCalledTimes(1);
+      const [operations] = mockWarmModel.bulkWrite.mock.calls[0];
+      expect(incoming(operations[0]).timestamp).toEqual(batch[1].timestamp);
+      expect(operations[0].updateOne.update.at(-1)).toEqual({
+        $set: { migration_batch: 'run-1@2024-06-01T11:00:00.000Z' },
+      });
+      // The replayed records still leave hot
+      expect(mockHotModel.deleteMany).toHaveBeenNthCalledWith(
+        1,
+        { _id: { $in: [batch[0]._id] } },
+        expect.anything()
+      );
+    });
+
+    it('should mark the run as failed and keep the source batch when the upsert fails', async () => {
+      givenBatches([record('10:00')]);
+      mockWarmModel.bulkWrite.mockRejectedValueOnce(new Error('write failed'));
+
+      const result = await service.executeRun(run());
+
+      expect(result).toMatchObject({
+        status: 'failed',
+        lastError: 'write failed',
+      });
+      expect(mockHotModel.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('manualMigration', () => {
+    it('should refuse to start while another run is active', async () => {
+      mockMigrationRunModel.findOne.mockReturnValue(exec(run()));
+
+      await expect(
+        service.manualMigration('hot', 'warm', new Date())
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should take over a run whose heartbeat is stale', async () => {
+      const stale = run({ heartbeatAt: new Date(Date.now() - 60 * 60 * 1000) });
+      mockMigrationRunModel.findOne.mockReturnValue(exec(stale));
+      mockMigrationRunModel.findOneAndUpdate.mockReturnValue(exec(stale));
+      givenBatches();
+
+      const result = await service.manualMigration('hot', 'warm', new Date());
+
+      expect(result.runId).toBe('run-1');
+      expect(mockMigrationRunModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: stale._id, status: 'running', heartbeatAt: stale.heartbeatAt },
+        expect.objectContaining({ $inc: { resumeCount: 1 } }),
+        { new: true }
+      );
+      expect(mockMigrationRunModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,7 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import { ClientSession, Model } from 'mongoose';
 
 import {
   AirQualityHot,
@@ -15,24 +24,33 @@ import {
   AirQualityCold,
   AirQualityColdDocument,
 } from '../schemas/air-quality-cold.schema';
+import {
+  MigrationRun,
+  MigrationRunDocument,
+  MigrationTier,
+} from '../schemas/migration-run.schema';
+import {
+  DownsampledRecord,
+  DownsamplingService,
+  RollupGranularity,
+  TierRecord,
+} from './downsampling.service';
+import {
+  RetentionPolicyService,
+  TierCutoffs,
+} from './retention-policy.service';
 
-export interface MigrationStats {
-  hotToWarm: {
-    migrated: number;
-    deleted: number;
-    errors: number;
-  };
-  warmToCold: {
-    migrated: number;
-    deleted: number;
-    errors: number;
-  };
-  timestamp: Date;
-}
+/** A running migration without a heartbeat for this long is considered dead */
+const MIGRATION_STALE_MS = 10 * 60 * 1000;
+
+type MigrationCheckpoint = MigrationRun['checkpoint'];
 
 @Injectable()
-export class DataMigrationService {
+export class DataMigrationService implements OnApplicationBootstrap {
   private readonly logger = new Logger(DataMigrationService.name);
+  private readonly batchSize: number;
+  private readonly excludeAnomalies: boolean;
+  private transactionsSupported?: boolean;
 
   constructor(
     @InjectModel(AirQualityHot.name)
@@ -40,190 +58,546 @@ export class DataMigrationService {
     @InjectModel(AirQualityWarm.name)
     private warmModel: Model<AirQualityWarmDocument>,
     @InjectModel(AirQualityCold.name)
-    private coldModel: Model<AirQualityColdDocument>
-  ) {}
+    private coldModel: Model<AirQualityColdDocument>,
+    @InjectModel(MigrationRun.name)
+    private migrationRunModel: Model<MigrationRunDocument>,
+    private configService: ConfigService,
+    private downsamplingService: DownsamplingService,
+    private retentionPolicyService: RetentionPolicyService
+  ) {
+    this.batchSize =
+      this.configService.get<number>('database.migration.batchSize') || 1000;
+    this.excludeAnomalies =
+      this.configService.get<boolean>('anomalies.exclude') ?? true;
+  }
+
+  /**
+   * Pick up runs left behind by a crash or restart
+   */
+  onApplicationBootstrap() {
+    this.resumeInterruptedRuns().catch(error =>
+      this.logger.error('Failed to resume interrupted migrations:', error)
+    );
+  }
 
   /**
-   * Daily CRON: Move 30-day-old data from hot → warm
+   * Daily CRON: Move data past its retention policy's `hotDays` from hot → warm
    * Runs at 2 AM daily
    */
   @Cron(CronExpression.EVERY_DAY_AT_2AM)
-  async migrateHotToWarm() {
-    this.logger.log('Starting hot to warm data migration...');
+  async migrateHotToWarm(): Promise<MigrationRunDocument | null> {
+    return this.runScheduledMigration('hot', 'warm', 'hotDays');
+  }
 
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-    const stats = { migrated: 0, deleted: 0, errors: 0 };
+  /**
+   * Monthly CRON: Move data past its retention policy's `warmDays` from warm → cold
+   * Runs at 3 AM on the 1st of each month
+   */
+  @Cron('0 3 1 * *')
+  async migrateWarmToCold(): Promise<MigrationRunDocument | null> {
+    return this.runScheduledMigration('warm', 'cold', 'warmDays');
+  }
 
-    try {
-      // Find hot data older than 30 days
-      const hotDataToMigrate = await this.hotModel
-        .find({
-          timestamp: { $lt: thirtyDaysAgo },
-        })
-        .lean();
+  /**
+   * Daily CRON: Delete data past its retention policy's `purgeAfterDays`
+   * Runs at 4 AM daily
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async purgeExpiredData(): Promise<{
+    hotDeleted: number;
+    warmDeleted: number;
+    coldDeleted: number;
+  }> {
+    const query = this.retentionPolicyService.buildCutoffQuery(
+      await this.retentionPolicyService.getCutoffs('purgeAfterDays')
+    );
+    if (!query) {
+      return { hotDeleted: 0, warmDeleted: 0, coldDeleted: 0 };
+    }
 
-      this.logger.log(
-        `Found ${hotDataToMigrate.length} records to migrate from hot to warm`
-      );
+    // Lagging migrations can leave expired records in any tier
+    const [hotResult, warmResult, coldResult] = await Promise.all([
+      this.hotModel.deleteMany(query),
+      this.warmModel.deleteMany(query),
+      this.coldModel.deleteMany(query),
+    ]);
 
-      if (hotDataToMigrate.length > 0) {
-        // Batch insert to warm collection
-        const warmData = hotDataToMigrate.map(record => ({
-          ...record,
-          _id: undefined, // Remove _id to allow MongoDB to generate new one
-        }));
+    const result = {
+      hotDeleted: hotResult.deletedCount,
+      warmDeleted: warmResult.deletedCount,
+      coldDeleted: coldResult.deletedCount,
+    };
 
-        await this.warmModel.insertMany(warmData);
-        stats.migrated = warmData.length;
+    this.logger.log(`Retention purge completed: ${JSON.stringify(result)}`);
+    return result;
+  }
 
-        // Delete from hot collection
-        const deleteResult = await this.hotModel.deleteMany({
-          timestamp: { $lt: thirtyDaysAgo },
-        });
-        stats.deleted = deleteResult.deletedCount;
+  /**
+   * Manual migration for testing or emergencies.
+   * Returns the run immediately; progress is tracked in `migration_runs`.
+   */
+  async manualMigration(
+    fromCollection: 'hot' | 'warm',
+    toCollection: 'warm' | 'cold',
+    cutoffDate: Date
+  ): Promise<MigrationRunDocument> {
+    this.logger.log(
+      `Manual migration: ${fromCollection} → ${toCollection}, cutoff: ${cutoffDate}`
+    );
 
-        this.logger.log(
-          `Successfully migrated ${stats.migrated} records from hot to warm collection`
-        );
-      }
-    } catch (error) {
-      stats.errors++;
-      this.logger.error('Error during hot to warm migration:', error);
+    if (
+      !(fromCollection === 'hot' && toCollection === 'warm') &&
+      !(fromCollection === 'warm' && toCollection === 'cold')
+    ) {
+      throw new BadRequestException('Invalid migration path');
     }
 
-    this.logger.log(
-      `Hot to warm migration completed. Stats: ${JSON.stringify(stats)}`
+    const run = await this.startRun(
+      fromCollection,
+      toCollection,
+      { cutoffDate, locationCutoffs: [] },
+      'manual'
+    );
+    if (!run) {
+      throw new ConflictException(
+        `A ${fromCollection} → ${toCollection} migration is already running`
+      );
+    }
+
+    this.executeRun(run).catch(error =>
+      this.logger.error(`Migration run ${run.runId} failed:`, error)
     );
+
+    return run;
   }
 
   /**
-   * Monthly CRON: Move 1-year-old data from warm → cold
-   * Runs at 3 AM on the 1st of each month
+   * Get progress of a migration run
    */
-  @Cron('0 3 1 * *')
-  async migrateWarmToCold() {
-    this.logger.log('Starting warm to cold data migration...');
+  async getMigrationRun(runId: string): Promise<MigrationRunDocument> {
+    const run = await this.migrationRunModel.findOne({ runId }).exec();
+
+    if (!run) {
+      throw new NotFoundException(`Migration run ${runId} not found`);
+    }
+
+    return run;
+  }
 
-    const oneYearAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
-    const stats = { migrated: 0, deleted: 0, errors: 0 };
+  /**
+   * Migrate every record older than the run's cutoff, a batch of whole
+   * buckets at a time. Each batch is rolled up and merged into the target
+   * keyed on location + bucket start before its records are deleted from the
+   * source. Without transactions a crash in between replays the batch on
+   * resume; buckets it already merged carry its id and are skipped, so their
+   * counts and averages are not added twice.
+   * Readings with a pending anomaly flag stay in hot until they are reviewed.
+   */
+  async executeRun(run: MigrationRunDocument): Promise<MigrationRunDocument> {
+    const { sourceModel, targetModel, granularity } = this.getModels(
+      run.source,
+      run.target
+    );
+    const useTransactions = await this.supportsTransactions();
+    let checkpoint = run.checkpoint;
+
+    this.logger.log(
+      `Running migration ${run.runId} (${run.source} → ${run.target}) from checkpoint ${checkpoint ? checkpoint.timestamp.toISOString() : 'start'}`
+    );
 
     try {
-      // Find warm data older than 1 year
-      const warmDataToMigrate = await this.warmModel
-        .find({
-          timestamp: { $lt: oneYearAgo },
-        })
-        .lean();
+      for (;;) {
+        const batch = await this.readBatch(
+          sourceModel,
+          run,
+          checkpoint,
+          granularity
+        );
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        const rollups = this.downsamplingService.rollup(
+          batch,
+          granularity,
+          this.excludeAnomalies
+        );
+        const deleted = await this.migrateBatch(
+          batch,
+          rollups,
+          // The same on replay: the checkpoint only moves once it is deleted
+          `${run.runId}@${checkpoint ? checkpoint.timestamp.toISOString() : 'start'}`,
+          sourceModel,
+          targetModel,
+          useTransactions
+        );
+
+        checkpoint = {
+          timestamp: this.downsamplingService.getBucketEnd(
+            batch[batch.length - 1].timestamp,
+            granularity
+          ),
+        };
+
+        await this.migrationRunModel
+          .updateOne(
+            { _id: run._id },
+            {
+              $set: { checkpoint, heartbeatAt: new Date() },
+              $inc: {
+                migrated: batch.length,
+                written: rollups.length,
+                deleted,
+                batches: 1,
+              },
+            }
+          )
+          .exec();
+      }
+
+      const completed = await this.migrationRunModel
+        .findByIdAndUpdate(
+          run._id,
+          {
+            $set: {
+              status: 'completed',
+              completedAt: new Date(),
+              heartbeatAt: new Date(),
+            },
+          },
+          { new: true }
+        )
+        .exec();
 
       this.logger.log(
-        `Found ${warmDataToMigrate.length} records to migrate from warm to cold`
+        `Migration ${run.runId} completed: ${completed!.migrated} records rolled up into ${completed!.written} ${granularity} records in ${completed!.batches} batches`
       );
 
-      if (warmDataToMigrate.length > 0) {
-        // Batch insert to cold collection
-        const coldData = warmDataToMigrate.map(record => ({
-          ...record,
-          _id: undefined, // Remove _id to allow MongoDB to generate new one
-        }));
-
-        await this.coldModel.insertMany(coldData);
-        stats.migrated = coldData.length;
+      return completed!;
+    } catch (error) {
+      this.logger.error(`Error during migration ${run.runId}:`, error);
+
+      return (await this.migrationRunModel
+        .findByIdAndUpdate(
+          run._id,
+          { $set: { status: 'failed', lastError: error.message } },
+          { new: true }
+        )
+        .exec())!;
+    }
+  }
 
-        // Delete from warm collection
-        const deleteResult = await this.warmModel.deleteMany({
-          timestamp: { $lt: oneYearAgo },
-        });
-        stats.deleted = deleteResult.deletedCount;
+  private async runScheduledMigration(
+    source: 'hot' | 'warm',
+    target: 'warm' | 'cold',
+    boundary: 'hotDays' | 'warmDays'
+  ): Promise<MigrationRunDocument | null> {
+    this.logger.log(`Starting ${source} to ${target} data migration...`);
 
-        this.logger.log(
-          `Successfully migrated ${stats.migrated} records from warm to cold collection`
+    try {
+      // hotDays and warmDays are never null
+      const cutoffs = (await this.retentionPolicyService.getCutoffs(
+        boundary
+      )) as TierCutoffs<Date>;
+      const run = await this.startRun(source, target, cutoffs, 'scheduled');
+      if (!run) {
+        this.logger.warn(
+          `Skipping ${source} to ${target} migration: another run is in progress`
         );
+        return null;
       }
+
+      return await this.executeRun(run);
     } catch (error) {
-      stats.errors++;
-      this.logger.error('Error during warm to cold migration:', error);
+      this.logger.error(
+        `Error during ${source} to ${target} migration:`,
+        error
+      );
+      return null;
     }
-
-    this.logger.log(
-      `Warm to cold migration completed. Stats: ${JSON.stringify(stats)}`
-    );
   }
 
   /**
-   * Manual migration method for testing or emergency migrations
+   * Resume an interrupted run of the same path or start a new one.
+   * Returns null when another process is still actively migrating the path.
    */
-  async manualMigration(
-    fromCollection: 'hot' | 'warm',
-    toCollection: 'warm' | 'cold',
-    cutoffDate: Date
-  ): Promise<MigrationStats> {
-    this.logger.log(
-      `Manual migration: ${fromCollection} → ${toCollection}, cutoff: ${cutoffDate}`
-    );
+  private async startRun(
+    source: MigrationTier,
+    target: MigrationTier,
+    cutoffs: TierCutoffs<Date>,
+    trigger: 'scheduled' | 'manual'
+  ): Promise<MigrationRunDocument | null> {
+    const active = await this.migrationRunModel
+      .findOne({ source, target, status: 'running' })
+      .exec();
+
+    if (active) {
+      return this.isStale(active) ? this.claimRun(active) : null;
+    }
 
-    const stats: MigrationStats = {
-      hotToWarm: { migrated: 0, deleted: 0, errors: 0 },
-      warmToCold: { migrated: 0, deleted: 0, errors: 0 },
-      timestamp: new Date(),
+    const { sourceModel, granularity } = this.getModels(source, target);
+    // Never split a bucket: the rest of it would be rolled up separately
+    const align = (cutoffDate: Date) =>
+      this.downsamplingService.getBucketStart(cutoffDate, granularity);
+    const aligned: TierCutoffs<Date> = {
+      cutoffDate: align(cutoffs.cutoffDate),
+      locationCutoffs: cutoffs.locationCutoffs.map(c => ({
+        location: c.location,
+        cutoffDate: align(c.cutoffDate),
+      })),
     };
+    const totalRecords = await sourceModel.countDocuments(
+      this.withoutPendingAnomalies(
+        source,
+        this.retentionPolicyService.buildCutoffQuery(aligned)!
+      )
+    );
 
     try {
-      let sourceModel: Model<any>;
-      let targetModel: Model<any>;
-
-      if (fromCollection === 'hot' && toCollection === 'warm') {
-        sourceModel = this.hotModel;
-        targetModel = this.warmModel;
-      } else if (fromCollection === 'warm' && toCollection === 'cold') {
-        sourceModel = this.warmModel;
-        targetModel = this.coldModel;
-      } else {
-        throw new Error('Invalid migration path');
+      return await this.migrationRunModel.create({
+        runId: randomUUID(),
+        source,
+        target,
+        cutoffDate: aligned.cutoffDate,
+        locationCutoffs: aligned.locationCutoffs,
+        trigger,
+        batchSize: this.batchSize,
+        totalRecords,
+      });
+    } catch (error) {
+      // Another process started a run for this path in the meantime
+      if (error.code === 11000) {
+        return null;
       }
+      throw error;
+    }
+  }
+
+  private async resumeInterruptedRuns(): Promise<void> {
+    const runs = await this.migrationRunModel
+      .find({
+        status: 'running',
+        heartbeatAt: { $lt: new Date(Date.now() - MIGRATION_STALE_MS) },
+      })
+      .exec();
+
+    for (const run of runs) {
+      const claimed = await this.claimRun(run);
+      if (claimed) {
+        await this.executeRun(claimed);
+      }
+    }
+  }
+
+  /**
+   * Take over a stale run; fails if another process claimed it first
+   */
+  private async claimRun(
+    run: MigrationRunDocument
+  ): Promise<MigrationRunDocument | null> {
+    const claimed = await this.migrationRunModel
+      .findOneAndUpdate(
+        { _id: run._id, status: 'running', heartbeatAt: run.heartbeatAt },
+        { $set: { heartbeatAt: new Date() }, $inc: { resumeCount: 1 } },
+        { new: true }
+      )
+      .exec();
+
+    if (claimed) {
+      this.logger.warn(
+        `Resuming interrupted migration ${run.runId} after ${run.migrated} records`
+      );
+    }
 
-      // Find data older than cutoff date
-      const dataToMigrate = await sourceModel
-        .find({
-          timestamp: { $lt: cutoffDate },
-        })
-        .lean();
+    return claimed;
+  }
+
+  /**
+   * Up to `batchSize` source records forming complete buckets
+   */
+  private async readBatch(
+    sourceModel: Model<TierRecord>,
+    run: MigrationRunDocument,
+    checkpoint: MigrationCheckpoint,
+    granularity: RollupGranularity
+  ): Promise<TierRecord[]> {
+    const query = this.buildBatchQuery(run, checkpoint?.timestamp ?? null);
+    const batch = await sourceModel
+      .find(query)
+      .sort({ timestamp: 1, _id: 1 })
+      .limit(run.batchSize)
+      .lean();
+
+    // A short batch holds everything up to the (bucket-aligned) cutoff
+    if (batch.length < run.batchSize) {
+      return batch;
+    }
+
+    // Leave the last, possibly incomplete, bucket for the next batch
+    const lastBucket = this.downsamplingService.getBucketStart(
+      batch[batch.length - 1].timestamp,
+      granularity
+    );
+    const complete = batch.filter(record => record.timestamp < lastBucket);
+    if (complete.length > 0) {
+      return complete;
+    }
 
-      this.logger.log(`Found ${dataToMigrate.length} records to migrate`);
+    // A single bucket holds more records than a batch: take it whole
+    return sourceModel
+      .find(
+        this.buildBatchQuery(
+          run,
+          lastBucket,
+          this.downsamplingService.getBucketEnd(lastBucket, granularity)
+        )
+      )
+      .sort({ timestamp: 1, _id: 1 })
+      .lean();
+  }
 
-      if (dataToMigrate.length > 0) {
-        // Batch insert to target collection
-        const targetData = dataToMigrate.map(record => ({
-          ...record,
-          _id: undefined,
+  private async migrateBatch(
+    batch: TierRecord[],
+    rollups: DownsampledRecord[],
+    batchId: string,
+    sourceModel: Model<TierRecord>,
+    targetModel: Model<TierRecord>,
+    useTransactions: boolean
+  ): Promise<number> {
+    const key = (record: { location: string; timestamp: Date }) =>
+      `${record.location}|${record.timestamp.toISOString()}`;
+    const ids = batch.map(record => record._id);
+
+    const write = async (session?: ClientSession) => {
+      const merged = await targetModel
+        .find(
+          {
+            location: { $in: [...new Set(rollups.map(r => r.location))] },
+            timestamp: { $in: rollups.map(r => r.timestamp) },
+            migration_batch: batchId,
+          },
+          { location: 1, timestamp: 1 },
+          { session }
+        )
+        .lean()
+        .exec();
+      const skipped = new Set(merged.map(key));
+      const operations = rollups
+        .filter(rollup => !skipped.has(key(rollup)))
+        .map(rollup => ({
+          updateOne: {
+            filter: { location: rollup.location, timestamp: rollup.timestamp },
+            update: [
+              ...this.downsamplingService.mergeUpdate(rollup),
+              { $set: { migration_batch: batchId } },
+            ],
+            upsert: true,
+          },
         }));
 
-        await targetModel.insertMany(targetData);
+      if (operations.length > 0) {
+        await targetModel.bulkWrite(operations, { ordered: false, session });
+      }
+      const result = await sourceModel.deleteMany(
+        { _id: { $in: ids } },
+        { session }
+      );
+      return result.deletedCount;
+    };
 
-        // Delete from source collection
-        const deleteResult = await sourceModel.deleteMany({
-          timestamp: { $lt: cutoffDate },
-        });
+    if (!useTransactions) {
+      return write();
+    }
 
-        if (fromCollection === 'hot') {
-          stats.hotToWarm.migrated = targetData.length;
-          stats.hotToWarm.deleted = deleteResult.deletedCount;
-        } else {
-          stats.warmToCold.migrated = targetData.length;
-          stats.warmToCold.deleted = deleteResult.deletedCount;
-        }
+    const session = await sourceModel.db.startSession();
+    try {
+      let deleted = 0;
+      await session.withTransaction(async () => {
+        deleted = await write(session);
+      });
+      return deleted;
+    } finally {
+      await session.endSession();
+    }
+  }
 
-        this.logger.log(`Manual migration completed successfully`);
-      }
-    } catch (error) {
-      this.logger.error('Error during manual migration:', error);
-      if (fromCollection === 'hot') {
-        stats.hotToWarm.errors++;
-      } else {
-        stats.warmToCold.errors++;
+  private buildBatchQuery(
+    run: MigrationRunDocument,
+    from: Date | null,
+    to?: Date
+  ) {
+    return this.withoutPendingAnomalies(
+      run.source,
+      this.retentionPolicyService.buildCutoffQuery(
+        {
+          cutoffDate: run.cutoffDate,
+          locationCutoffs: run.locationCutoffs ?? [],
+        },
+        from,
+        to
+      )!
+    );
+  }
+
+  /**
+   * Hot readings awaiting anomaly review are not migrated, so the review
+   * decides whether they reach the rollups
+   */
+  private withoutPendingAnomalies(
+    source: MigrationTier,
+    query: Record<string, unknown>
+  ): Record<string, unknown> {
+    return source === 'hot'
+      ? { ...query, 'anomaly.status': { $ne: 'pending' } }
+      : query;
+  }
+
+  private getModels(
+    source: MigrationTier,
+    target: MigrationTier
+  ): {
+    sourceModel: Model<TierRecord>;
+    targetModel: Model<TierRecord>;
+    granularity: RollupGranularity;
+  } {
+    if (source === 'hot' && target === 'warm') {
+      return {
+        sourceModel: this.hotModel,
+        targetModel: this.warmModel,
+        granularity: 'hourly',
+      };
+    }
+    if (source === 'warm' && target === 'cold') {
+      return {
+        sourceModel: this.warmModel,
+        targetModel: this.coldModel,
+        granularity: 'daily',
+      };
+    }
+    throw new BadRequestException('Invalid migration path');
+  }
+
+  private isStale(run: MigrationRunDocument): boolean {
+    return Date.now() - run.heartbeatAt.getTime() > MIGRATION_STALE_MS;
+  }
+
+  /**
+   * Transactions need a replica set or sharded cluster; standalone servers
+   * rely on the batch id recorded on each merged bucket instead
+   */
+  private async supportsTransactions(): Promise<boolean> {
+    if (this.transactionsSupported === undefined) {
+      try {
+        const hello = await this.hotModel.db.db.admin().command({ hello: 1 });
+        this.transactionsSupported =
+          Boolean(hello.setName) || hello.msg === 'isdbgrid';
+      } catch {
+        this.transactionsSupported = false;
       }
     }
 
-    return stats;
+    return this.transactionsSupported;
   }
 
   /**
@@ -0,0 +1,99 @@
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+import { DownsampleInput, DownsamplingService } from './downsampling.service';
+
+describe('DownsamplingService', () => {
+  const service = new DownsamplingService(new AqiCalculatorService());
+
+  const reading = (
+    timestamp: string,
+    aqi: number,
+    overrides: Partial<DownsampleInput> = {}
+  ): DownsampleInput => ({
+    location: 'Paris, Ile-de-France, France',
+    coordinates: { latitude: 48.8566, longitude: 2.3522 },
+    timestamp: new Date(timestamp),
+    aqi,
+    main_pollutant: 'p2',
+    weather: { temperature: 20, humidity: 50 },
+    ...overrides,
+  });
+
+  it('should roll raw readings up into one record per location and hour', () => {
+    const readings = Array.from({ length: 20 }, (_, i) =>
+      reading(`2024-06-01T10:${String(i * 3).padStart(2, '0')}:00Z`, i + 1)
+    );
+    readings.push(
+      reading('2024-06-01T10:30:00Z', 100, {
+        location: 'Lyon, Auvergne-Rhone-Alpes, France',
+      }),
+      reading('2024-06-01T11:00:00Z', 7)
+    );
+
+    const rollups = service.rollup(readings, 'hourly');
+
+    expect(rollups).toHaveLength(3);
+    expect(rollups[0]).toMatchObject({
+      location: 'Paris, Ile-de-France, France',
+      timestamp: new Date('2024-06-01T10:00:00Z'),
+      granularity: 'hourly',
+      aqi: 11,
+      pollution_level: 'Good',
+      aqi_stats: { min: 1, max: 20, avg: 10.5, p95: 19, count: 20 },
+    });
+    expect(rollups[2].timestamp).toEqual(new Date('2024-06-01T11:00:00Z'));
+  });
+
+  it('should only leave flagged readings out when asked to', () => {
+    const readings = [
+      reading('2024-06-01T10:00:00Z', 40),
+      reading('2024-06-01T10:30:00Z', 480, { anomaly: { flagged: true } }),
+    ];
+
+    expect(service.rollup(readings, 'hourly')[0].aqi_stats.max).toBe(480);
+    expect(service.rollup(readings, 'hourly', true)[0].aqi_stats).toMatchObject(
+      { max: 40, count: 1 }
+    );
+  });
+
+  it('should average weather over the readings that report it', () => {
+    const readings = [
+      reading('2024-06-01T10:00:00Z', 40, { weather: { temperature: 18 } }),
+      reading('2024-06-01T10:20:00Z', 50, {
+        weather: { temperature: 22, humidity: 60 },
+      }),
+      reading('2024-06-01T10:40:00Z', 60, { weather: {} }),
+    ];
+
+    expect(service.rollup(readings, 'hourly')[0].weather).toEqual({
+      temperature: 20,
+      humidity: 60,
+    });
+    expect(service.rollup([readings[2]], 'hourly')[0].weather).toEqual({
+      temperature: undefined,
+      humidity: undefined,
+    });
+  });
+
+  it('should weight hourly rollups by their sample count when rolling up a day', () => {
+    const hours = [
+      reading('2024-06-01T00:00:00Z', 20, {
+        main_pollutant: 'p2',
+        aqi_stats: { min: 10, max: 30, avg: 20, p95: 28, count: 30 },
+      }),
+      reading('2024-06-01T23:00:00Z', 100, {
+        main_pollutant: 'o3',
+        aqi_stats: { min: 90, max: 150, avg: 100, p95: 140, count: 10 },
+      }),
+    ];
+
+    const [day] = service.rollup(hours, 'daily');
+
+    expect(day).toMatchObject({
+      timestamp: new Date('2024-06-01T00:00:00Z'),
+      granularity: 'daily',
+      aqi: 40,
+      main_pollutant: 'p2',
+      aqi_stats: { min: 10, max: 150, avg: 40, p95: 140, count: 40 },
+    });
+  });
+});
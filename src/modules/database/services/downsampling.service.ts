@@ -0,0 +1,362 @@
+import { Injectable } from '@nestjs/common';
+import { Types } from 'mongoose';
+
+import { AqiStats, DataSource, Granularity } from '@/common/types';
+import { AQI_STANDARDS } from '../../aqi/aqi-breakpoints';
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+
+export type RollupGranularity = Exclude<Granularity, 'raw'>;
+
+const BUCKET_MS: Record<RollupGranularity, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+/** Fields read from raw hot records or existing hourly/daily rollups */
+export interface DownsampleInput {
+  location: string;
+  coordinates: { latitude: number; longitude: number };
+  timestamp: Date;
+  aqi: number;
+  main_pollutant: string;
+  /** Unset when the source did not report it */
+  weather: { temperature?: number; humidity?: number };
+  aqi_stats?: AqiStats;
+  anomaly?: { flagged: boolean };
+}
+
+/** A reading or rollup as stored in a tier collection or archive file */
+export interface TierRecord extends DownsampleInput {
+  _id?: Types.ObjectId;
+  pollution_level: string;
+  source?: DataSource;
+  /** Missing on records migrated before downsampling, which are raw */
+  granularity?: Granularity;
+}
+
+export interface DownsampledRecord {
+  location: string;
+  coordinates: { latitude: number; longitude: number };
+  /** Start of the bucket (UTC) */
+  timestamp: Date;
+  granularity: RollupGranularity;
+  aqi: number;
+  main_pollutant: string;
+  pollution_level: string;
+  /** Averaged over the readings reporting each field */
+  weather: { temperature?: number; humidity?: number };
+  aqi_stats: AqiStats;
+  metadata: {
+    api_response_time: number;
+    cached: boolean;
+    retry_count: number;
+  };
+}
+
+@Injectable()
+export class DownsamplingService {
+  constructor(private aqiCalculatorService: AqiCalculatorService) {}
+
+  /**
+   * Start of the UTC hour or day containing `date`
+   */
+  getBucketStart(date: Date, granularity: RollupGranularity): Date {
+    const size = BUCKET_MS[granularity];
+    return new Date(Math.floor(date.getTime() / size) * size);
+  }
+
+  getBucketEnd(date: Date, granularity: RollupGranularity): Date {
+    return new Date(
+      this.getBucketStart(date, granularity).getTime() + BUCKET_MS[granularity]
+    );
+  }
+
+  /**
+   * Roll records up into one record per location and bucket. Inputs may be
+   * raw readings or finer rollups; rollups are weighted by their count.
+   * Readings flagged as anomalies are left out when `excludeAnomalies` is set.
+   */
+  rollup(
+    records: DownsampleInput[],
+    granularity: RollupGranularity,
+    excludeAnomalies: boolean = false
+  ): DownsampledRecord[] {
+    const buckets = new Map<string, DownsampleInput[]>();
+
+    for (const record of records) {
+      if (excludeAnomalies && record.anomaly?.flagged) {
+        continue;
+      }
+      const bucket = this.getBucketStart(record.timestamp, granularity);
+      const key = `${record.location}|${bucket.toISOString()}`;
+      const group = buckets.get(key) ?? [];
+      group.push(record);
+      buckets.set(key, group);
+    }
+
+    return [...buckets.values()].map(group =>
+      this.rollupBucket(group, granularity)
+    );
+  }
+
+  /**
+   * Update pipeline upserting `rollup` into the record stored for its
+   * location and bucket. Counts, min/max and count-weighted averages are
+   * merged, so late readings add to a bucket instead of replacing it.
+   */
+  mergeUpdate(rollup: DownsampledRecord): Record<string, unknown>[] {
+    // Records migrated before downsampling hold a single raw reading
+    const storedCount = {
+      $cond: [
+        { $eq: [{ $type: '$aqi' }, 'missing'] },
+        0,
+        { $ifNull: ['$aqi_stats.count', 1] },
+      ],
+    };
+    const weighted = (stored: unknown, incoming: string) => ({
+      $divide: [
+        {
+          $add: [
+            { $multiply: [{ $ifNull: [stored, 0] }, '$_stored'] },
+            { $multiply: [incoming, '$_incoming.aqi_stats.count'] },
+          ],
+        },
+        '$_count',
+      ],
+    });
+
+    // Weather is only averaged when both sides report it
+    const mergeWeather = (field: 'temperature' | 'humidity') => {
+      const stored = `$weather.${field}`;
+      const incoming = `$_incoming.weather.${field}`;
+      return {
+        $switch: {
+          branches: [
+            {
+              case: { $eq: [{ $ifNull: [stored, null] }, null] },
+              then: incoming,
+            },
+            {
+              case: { $eq: [{ $ifNull: [incoming, null] }, null] },
+              then: stored,
+            },
+          ],
+          default: { $round: [weighted(stored, incoming), 2] },
+        },
+      };
+    };
+
+    // Same nearest-rank rule as `weightedPercentile`, over the two p95 values
+    const storedP95 = {
+      $ifNull: [
+        '$aqi_stats.p95',
+        { $ifNull: ['$aqi', '$_incoming.aqi_stats.p95'] },
+      ],
+    };
+    const rank = { $ceil: { $multiply: [0.95, '$_count'] } };
+    const p95 = {
+      $cond: [
+        { $lte: [storedP95, '$_incoming.aqi_stats.p95'] },
+        {
+          $cond: [
+            { $gte: ['$_stored', rank] },
+            storedP95,
+            '$_incoming.aqi_stats.p95',
+          ],
+        },
+        {
+          $cond: [
+            { $gte: ['$_incoming.aqi_stats.count', rank] },
+            '$_incoming.aqi_stats.p95',
+            storedP95,
+          ],
+        },
+      ],
+    };
+
+    const categories = AQI_STANDARDS['us-epa'].categories;
+
+    return [
+      {
+        $set: { _incoming: { $literal: rollup }, _stored: storedCount },
+      },
+      {
+        $set: {
+          _count: { $add: ['$_stored', '$_incoming.aqi_stats.count'] },
+        },
+      },
+      {
+        $set: {
+          _avg: weighted(
+            { $ifNull: ['$aqi_stats.avg', '$aqi'] },
+            '$_incoming.aqi_stats.avg'
+          ),
+          coordinates: { $ifNull: ['$coordinates', '$_incoming.coordinates'] },
+          granularity: '$_incoming.granularity',
+          main_pollutant: {
+            $cond: [
+              { $gte: ['$_stored', '$_incoming.aqi_stats.count'] },
+              '$main_pollutant',
+              '$_incoming.main_pollutant',
+            ],
+          },
+          weather: {
+            temperature: mergeWeather('temperature'),
+            humidity: mergeWeather('humidity'),
+          },
+          aqi_stats: {
+            min: {
+              $min: [
+                { $ifNull: ['$aqi_stats.min', '$aqi'] },
+                '$_incoming.aqi_stats.min',
+              ],
+            },
+            max: {
+              $max: [
+                { $ifNull: ['$aqi_stats.max', '$aqi'] },
+                '$_incoming.aqi_stats.max',
+              ],
+            },
+            p95,
+            count: '$_count',
+          },
+          metadata: { $ifNull: ['$metadata', '$_incoming.metadata'] },
+          createdAt: { $ifNull: ['$createdAt', '$$NOW'] },
+          updatedAt: '$$NOW',
+        },
+      },
+      {
+        $set: {
+          // Math.round, not $round's round-half-to-even
+          aqi: { $floor: { $add: ['$_avg', 0.5] } },
+          'aqi_stats.avg': { $round: ['$_avg', 2] },
+        },
+      },
+      {
+        $set: {
+          pollution_level: {
+            $switch: {
+              branches: categories.slice(0, -1).map(category => ({
+                case: { $lte: ['$aqi', category.max] },
+                then: category.name,
+              })),
+              default: categories[categories.length - 1].name,
+            },
+          },
+        },
+      },
+      { $unset: ['_incoming', '_stored', '_count', '_avg'] },
+    ];
+  }
+
+  private rollupBucket(
+    records: DownsampleInput[],
+    granularity: RollupGranularity
+  ): DownsampledRecord {
+    const samples = records.map(record => ({
+      record,
+      stats: record.aqi_stats ?? {
+        min: record.aqi,
+        max: record.aqi,
+        avg: record.aqi,
+        p95: record.aqi,
+        count: 1,
+      },
+    }));
+
+    const count = samples.reduce((sum, s) => sum + s.stats.count, 0);
+    const weightedAverage = (value: (s: (typeof samples)[0]) => number) =>
+      samples.reduce((sum, s) => sum + value(s) * s.stats.count, 0) / count;
+
+    const avg = weightedAverage(s => s.stats.avg);
+    const aqi = Math.round(avg);
+
+    // Readings without the field are left out rather than counted as 0
+    const weatherAverage = (field: 'temperature' | 'humidity') => {
+      const reporting = samples.filter(
+        s => typeof s.record.weather?.[field] === 'number'
+      );
+      if (reporting.length === 0) {
+        return undefined;
+      }
+      const weight = reporting.reduce((sum, s) => sum + s.stats.count, 0);
+      return this.round(
+        reporting.reduce(
+          (sum, s) => sum + s.record.weather[field]! * s.stats.count,
+          0
+        ) / weight
+      );
+    };
+
+    return {
+      location: records[0].location,
+      coordinates: records[0].coordinates,
+      timestamp: this.getBucketStart(records[0].timestamp, granularity),
+      granularity,
+      aqi,
+      main_pollutant: this.getDominantPollutant(samples),
+      pollution_level: this.aqiCalculatorService.getPollutionLevel(aqi),
+      weather: {
+        temperature: weatherAverage('temperature'),
+        humidity: weatherAverage('humidity'),
+      },
+      aqi_stats: {
+        min: Math.min(...samples.map(s => s.stats.min)),
+        max: Math.max(...samples.map(s => s.stats.max)),
+        avg: this.round(avg),
+        // Exact for raw readings; for rollups of rollups this is the
+        // count-weighted percentile of the finer p95 values
+        p95: this.weightedPercentile(
+          samples.map(s => ({ value: s.stats.p95, weight: s.stats.count })),
+          0.95
+        ),
+        count,
+      },
+      metadata: {
+        api_response_time: 0,
+        cached: false,
+        retry_count: 0,
+      },
+    };
+  }
+
+  /**
+   * Nearest-rank percentile
+   */
+  private weightedPercentile(
+    values: { value: number; weight: number }[],
+    percentile: number
+  ): number {
+    const sorted = [...values].sort((a, b) => a.value - b.value);
+    const total = sorted.reduce((sum, v) => sum + v.weight, 0);
+    const rank = Math.ceil(percentile * total);
+
+    let cumulative = 0;
+    for (const { value, weight } of sorted) {
+      cumulative += weight;
+      if (cumulative >= rank) {
+        return value;
+      }
+    }
+
+    return sorted[sorted.length - 1].value;
+  }
+
+  private getDominantPollutant(
+    samples: { record: DownsampleInput; stats: AqiStats }[]
+  ): string {
+    const counts = new Map<string, number>();
+    for (const { record, stats } of samples) {
+      counts.set(
+        record.main_pollutant,
+        (counts.get(record.main_pollutant) ?? 0) + stats.count
+      );
+    }
+
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,161 @@
+import { BadRequestException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+
+/** Every place a reading can be read from, in cursor order */
+export const CURSOR_TIERS = [
+  'hot',
+  'warm',
+  'cold',
+  'archive',
+  'legacy',
+] as const;
+
+export type CursorTier = (typeof CURSOR_TIERS)[number];
+
+/**
+ * Position of a record in the cross-tier order: newest first, then by tier,
+ * then by id descending. The id is the ObjectId for MongoDB records and the
+ * location for archived ones, which have one record per location and time.
+ */
+export interface CursorPosition {
+  timestamp: Date;
+  tier: CursorTier;
+  id: string;
+}
+
+interface EncodedCursor {
+  t: string;
+  r: CursorTier;
+  i: string;
+  /** Fingerprint of the filters the cursor was issued for */
+  f: string;
+}
+
+/**
+ * Opaque cursor for the record after which the next page starts
+ */
+export function encodeCursor(
+  position: CursorPosition,
+  filters: Record<string, unknown>
+): string {
+  const cursor: EncodedCursor = {
+    t: position.timestamp.toISOString(),
+    r: position.tier,
+    i: position.id,
+    f: fingerprint(filters),
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, rejecting malformed ones and ones issued for other filters
+ */
+export function decodeCursor(
+  cursor: string,
+  filters: Record<string, unknown>
+): CursorPosition {
+  let decoded: EncodedCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const timestamp = new Date(decoded?.t);
+  if (
+    isNaN(timestamp.getTime()) ||
+    !CURSOR_TIERS.includes(decoded.r) ||
+    typeof decoded.i !== 'string' ||
+    (decoded.r !== 'archive' && !Types.ObjectId.isValid(decoded.i))
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (decoded.f !== fingerprint(filters)) {
+    throw new BadRequestException(
+      'Cursor was issued for different query filters'
+    );
+  }
+
+  return { timestamp, tier: decoded.r, id: decoded.i };
+}
+
+export function getCursorPosition(
+  record: { timestamp: Date; _id?: unknown; location?: string },
+  tier: CursorTier
+): CursorPosition {
+  return {
+    timestamp: new Date(record.timestamp),
+    tier,
+    id: tier === 'archive' ? record.location! : String(record._id),
+  };
+}
+
+/**
+ * Sort comparator for the cross-tier order
+ */
+export function compareCursorPositions(
+  a: CursorPosition,
+  b: CursorPosition
+): number {
+  return (
+    b.timestamp.getTime() - a.timestamp.getTime() ||
+    CURSOR_TIERS.indexOf(a.tier) - CURSOR_TIERS.indexOf(b.tier) ||
+    (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+  );
+}
+
+/**
+ * Mongo filter for the records of one tier that come after `after`
+ */
+export function buildAfterCursorQuery(
+  after: CursorPosition,
+  tier: CursorTier
+): Record<string, any> {
+  const order = CURSOR_TIERS.indexOf(tier) - CURSOR_TIERS.indexOf(after.tier);
+
+  if (order < 0) {
+    return { timestamp: { $lt: after.timestamp } };
+  }
+  if (order > 0) {
+    return { timestamp: { $lte: after.timestamp } };
+  }
+  return {
+    $or: [
+      { timestamp: { $lt: after.timestamp } },
+      {
+        timestamp: after.timestamp,
+        _id: { $lt: new Types.ObjectId(after.id) },
+      },
+    ],
+  };
+}
+
+/** Order each tier is read in for a page, the cross-tier order within it */
+export const TIER_PAGE_SORT: Record<string, 1 | -1> = {
+  timestamp: -1,
+  _id: -1,
+};
+
+/**
+ * `query` narrowed to the records of one tier that come after `after`
+ */
+export function withAfterCursor(
+  query: Record<string, unknown>,
+  after: CursorPosition | null,
+  tier: CursorTier
+): Record<string, unknown> {
+  return after ? { $and: [query, buildAfterCursorQuery(after, tier)] } : query;
+}
+
+function fingerprint(filters: Record<string, unknown>): string {
+  const defined = Object.keys(filters)
+    .filter(key => filters[key] !== undefined && filters[key] !== null)
+    .sort()
+    .map(key => [key, filters[key]]);
+
+  return createHash('sha256')
+    .update(JSON.stringify(defined))
+    .digest('hex')
+    .slice(0, 16);
+}
@@ -0,0 +1,93 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { RetentionPolicy } from '../schemas/retention-policy.schema';
+import { RetentionPolicyService } from './retention-policy.service';
+
+describe('RetentionPolicyService', () => {
+  let service: RetentionPolicyService;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = new Date('2024-08-05T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  const mockRetentionPolicyModel = {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const givenPolicies = (policies: unknown[]) =>
+    mockRetentionPolicyModel.find.mockReturnValue({
+      lean: () => ({ exec: jest.fn().mockResolvedValue(policies) }),
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RetentionPolicyService,
+        {
+          provide: getModelToken(RetentionPolicy.name),
+          useValue: mockRetentionPolicyModel,
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<RetentionPolicyService>(RetentionPolicyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should give overridden locations their own cutoff', async () => {
+    givenPolicies([
+      { location: 'Paris, Ile-de-France, France', hotDays: 7, warmDays: 90 },
+    ]);
+
+    const cutoffs = await service.getCutoffs('hotDays', now);
+
+    expect(service.buildCutoffQuery(cutoffs)).toEqual({
+      $or: [
+        {
+          location: { $nin: ['Paris, Ile-de-France, France'] },
+          timestamp: { $lt: daysAgo(30) },
+        },
+        {
+          location: 'Paris, Ile-de-France, France',
+          timestamp: { $lt: daysAgo(7) },
+        },
+      ],
+    });
+  });
+
+  it('should widen tier windows to cover every policy when no location is given', async () => {
+    givenPolicies([
+      { location: null, hotDays: 14, warmDays: 180, purgeAfterDays: 730 },
+      { location: 'Paris, Ile-de-France, France', hotDays: 60, warmDays: 90 },
+    ]);
+
+    // Hot and warm also cover records waiting for the daily and monthly runs
+    expect(await service.getTierWindows(undefined, now)).toEqual({
+      hot: { from: daysAgo(62) },
+      warm: { from: daysAgo(212), to: daysAgo(14) },
+      cold: { to: daysAgo(90) },
+    });
+    expect(
+      await service.getTierWindows('Lyon, Auvergne-Rhone-Alpes, France', now)
+    ).toEqual({
+      hot: { from: daysAgo(16) },
+      warm: { from: daysAgo(212), to: daysAgo(14) },
+      cold: { to: daysAgo(180) },
+    });
+  });
+
+  it('should reject tiers that are not in increasing age order', async () => {
+    await expect(
+      service.updatePolicy({ hotDays: 30, warmDays: 365, purgeAfterDays: 300 })
+    ).rejects.toThrow(BadRequestException);
+    expect(mockRetentionPolicyModel.updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { UpdateRetentionPolicyDto } from '@/common/dto/retention.dto';
+import {
+  RetentionPolicy,
+  RetentionPolicyDocument,
+} from '../schemas/retention-policy.schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a record can stay in a tier past its retention boundary: hot → warm
+ * runs daily and warm → cold monthly, with cutoffs aligned down to the hour
+ * or day
+ */
+const MIGRATION_LAG_DAYS = { hot: 1 + 1, warm: 31 + 1 };
+
+export interface RetentionRule {
+  hotDays: number;
+  warmDays: number;
+  purgeAfterDays: number | null;
+}
+
+export interface LocationRetentionRule extends RetentionRule {
+  location: string;
+}
+
+export interface RetentionPolicies {
+  default: RetentionRule;
+  locations: LocationRetentionRule[];
+}
+
+/**
+ * Cutoff for every location without an override, plus the overrides.
+ * A null cutoff matches nothing.
+ */
+export interface TierCutoffs<T extends Date | null = Date | null> {
+  cutoffDate: T;
+  locationCutoffs: { location: string; cutoffDate: T }[];
+}
+
+/** Timestamp range each tier can hold records for, migration lag included */
+export interface TierWindows {
+  hot: { from: Date };
+  warm: { from: Date; to: Date };
+  cold: { to: Date };
+}
+
+@Injectable()
+export class RetentionPolicyService {
+  private readonly logger = new Logger(RetentionPolicyService.name);
+
+  constructor(
+    @InjectModel(RetentionPolicy.name)
+    private retentionPolicyModel: Model<RetentionPolicyDocument>,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Default policy (stored, or from configuration) and per-location overrides
+   */
+  async getPolicies(): Promise<RetentionPolicies> {
+    const stored = await this.retentionPolicyModel.find().lean().exec();
+    const storedDefault = stored.find(policy => policy.location === null);
+
+    return {
+      default: storedDefault
+        ? this.toRule(storedDefault)
+        : this.getConfiguredDefault(),
+      locations: stored
+        .filter(policy => policy.location !== null)
+        .map(policy => ({
+          location: policy.location!,
+          ...this.toRule(policy),
+        })),
+    };
+  }
+
+  /**
+   * Policy in effect for a location
+   */
+  async getPolicy(location: string): Promise<RetentionRule> {
+    const policies = await this.getPolicies();
+    const override = policies.locations.find(p => p.location === location);
+
+    return override ? this.toRule(override) : policies.default;
+  }
+
+  /**
+   * Create or replace the default policy or a location override
+   */
+  async updatePolicy(
+    updateDto: UpdateRetentionPolicyDto
+  ): Promise<RetentionRule & { location: string | null }> {
+    const rule: RetentionRule = {
+      hotDays: updateDto.hotDays,
+      warmDays: updateDto.warmDays,
+      purgeAfterDays: updateDto.purgeAfterDays ?? null,
+    };
+
+    if (rule.warmDays <= rule.hotDays) {
+      throw new BadRequestException('warmDays must be greater than hotDays');
+    }
+    if (rule.purgeAfterDays !== null && rule.purgeAfterDays <= rule.warmDays) {
+      throw new BadRequestException(
+        'purgeAfterDays must be greater than warmDays'
+      );
+    }
+
+    const location = updateDto.location ?? null;
+    await this.retentionPolicyModel
+      .updateOne({ location }, { $set: rule }, { upsert: true })
+      .exec();
+
+    this.logger.log(
+      `Updated ${location ?? 'default'} retention policy: ${JSON.stringify(rule)}`
+    );
+
+    return { location, ...rule };
+  }
+
+  /**
+   * Cutoffs at which records leave the hot or warm tier, or are purged
+   */
+  async getCutoffs(
+    boundary: keyof RetentionRule,
+    now: Date = new Date()
+  ): Promise<TierCutoffs> {
+    const policies = await this.getPolicies();
+    const cutoff = (rule: RetentionRule) =>
+      rule[boundary] === null
+        ? null
+        : new Date(now.getTime() - rule[boundary]! * DAY_MS);
+
+    return {
+      cutoffDate: cutoff(policies.default),
+      locationCutoffs: policies.locations.map(rule => ({
+        location: rule.location,
+        cutoffDate: cutoff(rule),
+      })),
+    };
+  }
+
+  /**
+   * Ranges each tier holds for one location, or for any location when none
+   * is given. Query routing reads tiers from these so that it always agrees
+   * with migration. Hot and warm reach back past their boundary by
+   * `MIGRATION_LAG_DAYS`, since records only leave when the next run does.
+   */
+  async getTierWindows(
+    location?: string,
+    now: Date = new Date()
+  ): Promise<TierWindows> {
+    let rules: RetentionRule[];
+    if (location) {
+      rules = [await this.getPolicy(location)];
+    } else {
+      const policies = await this.getPolicies();
+      rules = [policies.default, ...policies.locations];
+    }
+
+    const ago = (days: number) => new Date(now.getTime() - days * DAY_MS);
+    const hotDays = rules.map(rule => rule.hotDays);
+    const warmDays = rules.map(rule => rule.warmDays);
+
+    return {
+      hot: { from: ago(Math.max(...hotDays) + MIGRATION_LAG_DAYS.hot) },
+      warm: {
+        from: ago(Math.max(...warmDays) + MIGRATION_LAG_DAYS.warm),
+        to: ago(Math.min(...hotDays)),
+      },
+      cold: { to: ago(Math.min(...warmDays)) },
+    };
+  }
+
+  /**
+   * Mongo filter for records older than their location's cutoff, optionally
+   * restricted to [from, to). Returns null when nothing can match.
+   */
+  buildCutoffQuery(
+    cutoffs: TierCutoffs,
+    from: Date | null = null,
+    to?: Date
+  ): Record<string, any> | null {
+    const timestamp = (cutoffDate: Date) => ({
+      $lt: to && to < cutoffDate ? to : cutoffDate,
+      ...(from && { $gte: from }),
+    });
+    const overridden = cutoffs.locationCutoffs.map(c => c.location);
+    const conditions: Record<string, any>[] = [];
+
+    if (cutoffs.cutoffDate) {
+      conditions.push(
+        overridden.length > 0
+          ? {
+              location: { $nin: overridden },
+              timestamp: timestamp(cutoffs.cutoffDate),
+            }
+          : { timestamp: timestamp(cutoffs.cutoffDate) }
+      );
+    }
+    for (const { location, cutoffDate } of cutoffs.locationCutoffs) {
+      if (cutoffDate) {
+        conditions.push({ location, timestamp: timestamp(cutoffDate) });
+      }
+    }
+
+    if (conditions.length === 0) {
+      return null;
+    }
+    return conditions.length === 1 ? conditions[0] : { $or: conditions };
+  }
+
+  private getConfiguredDefault(): RetentionRule {
+    return {
+      hotDays:
+        this.configService.get<number>('database.retention.hotDays') || 30,
+      warmDays:
+        this.configService.get<number>('database.retention.warmDays') || 365,
+      purgeAfterDays:
+        this.configService.get<number>('database.retention.purgeAfterDays') ||
+        null,
+    };
+  }
+
+  private toRule(policy: RetentionRule): RetentionRule {
+    return {
+      hotDays: policy.hotDays,
+      warmDays: policy.warmDays,
+      purgeAfterDays: policy.purgeAfterDays ?? null,
+    };
+  }
+}
@@ -0,0 +1,235 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+
+import { NowCastService } from '../../aqi/services/nowcast.service';
+import { AirQualityCold } from '../schemas/air-quality-cold.schema';
+import { AirQualityHot } from '../schemas/air-quality-hot.schema';
+import { AirQualityWarm } from '../schemas/air-quality-warm.schema';
+import { ColdArchiveService } from './cold-archive.service';
+import { RetentionPolicyService } from './retention-policy.service';
+import { QueryResult, SmartQueryService } from './smart-query.service';
+
+describe('SmartQueryService', () => {
+  let service: SmartQueryService;
+
+  const PARIS = 'Paris, Ile-de-France, France';
+  const record = (time: string, aqi: number) => ({
+    _id: new Types.ObjectId(),
+    location: PARIS,
+    timestamp: new Date(time),
+    aqi,
+  });
+
+  const mockModel = () => ({ find: jest.fn() });
+  const mockHotModel = mockModel();
+  const mockWarmModel = mockModel();
+  const mockColdModel = mockModel();
+  const mockColdArchiveService = {
+    getArchiveCutoff: () => new Date('2022-08-01T00:00:00Z'),
+    readArchived: jest.fn().mockResolvedValue([]),
+  };
+
+  const tierPage = (records: unknown[]) => ({
+    sort: () => ({
+      limit: (limit: number) => ({
+        lean: () => ({
+          exec: jest.fn().mockResolvedValue(records.slice(0, limit)),
+        }),
+      }),
+    }),
+  });
+  const givenRecords = (
+    model: ReturnType<typeof mockModel>,
+    records: unknown[]
+  ) => model.find.mockReturnValue(tierPage(records));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SmartQueryService,
+        { provide: getModelToken(AirQualityHot.name), useValue: mockHotModel },
+        {
+          provide: getModelToken(AirQualityWarm.name),
+          useValue: mockWarmModel,
+        },
+        {
+          provide: getModelToken(AirQualityCold.name),
+          useValue: mockColdModel,
+        },
+        {
+          provide: NowCastService,
+          useValue: {
+            getWindowStart: (date: Date) => date,
+            buildSeries: jest.fn().mockReturnValue([]),
+          },
+        },
+        {
+          provide: RetentionPolicyService,
+          useValue: {
+            getTierWindows: jest.fn().mockResolvedValue({
+              hot: { from: new Date('2024-07-06T00:00:00Z') },
+              warm: {
+                from: new Date('2023-08-06T00:00:00Z'),
+                to: new Date('2024-07-06T00:00:00Z'),
+              },
+              cold: { to: new Date('2023-08-06T00:00:00Z') },
+            }),
+          },
+        },
+        { provide: ColdArchiveService, useValue: mockColdArchiveService },
+      ],
+    }).compile();
+
+    service = module.get<SmartQueryService>(SmartQueryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should page across the hot/warm boundary without gaps', async () => {
+    const hot = [
+      record('2024-08-01T00:00:00Z', 40),
+      record('2024-07-10T00:00:00Z', 50),
+    ];
+    const warm = [
+      record('2024-07-01T00:00:00Z', 60),
+      record('2024-06-01T00:00:00Z', 70),
+    ];
+    givenRecords(mockHotModel, hot);
+    givenRecords(mockWarmModel, warm);
+    const range = [
+      new Date('2024-05-01T00:00:00Z'),
+      new Date('2024-08-05T00:00:00Z'),
+    ] as const;
+
+    const first = await service.getAirQualityData(...range, {
+      location: PARIS,
+      limit: 3,
+    });
+
+    expect(first.data.map(r => r.aqi)).toEqual([40, 50, 60]);
+    expect(first.sources).toMatchObject({ hot: 2, warm: 1 });
+    expect(first.pagination).toMatchObject({ limit: 3, hasNext: true });
+
+    givenRecords(mockHotModel, []);
+    givenRecords(mockWarmModel, warm.slice(1));
+    const second = await service.getAirQualityData(
+      ...range,
+      { location: PARIS, limit: 3 },
+      first.pagination!.nextCursor!
+    );
+
+    expect(second.data.map(r => r.aqi)).toEqual([70]);
+    expect(second.pagination).toEqual({
+      limit: 3,
+      nextCursor: null,
+      hasNext: false,
+    });
+    expect(mockHotModel.find.mock.calls[1][0].$and[1]).toEqual({
+      timestamp: { $lt: warm[0].timestamp },
+    });
+    expect(mockWarmModel.find.mock.calls[1][0].$and[1]).toEqual({
+      $or: [
+        { timestamp: { $lt: warm[0].timestamp } },
+        { timestamp: warm[0].timestamp, _id: { $lt: warm[0]._id } },
+      ],
+    });
+  });
+
+  it('should read records left in cold by an interrupted archive run once', async () => {
+    const cold = record('2022-07-20T00:00:00Z', 60);
+    const archived = { location: PARIS, timestamp: cold.timestamp, aqi: 60 };
+    mockColdModel.find
+      .mockReturnValueOnce(tierPage([cold]))
+      .mockReturnValueOnce({
+        select: () => ({
+          lean: () => ({
+            exec: jest
+              .fn()
+              .mockResolvedValue([
+                { location: PARIS, timestamp: cold.timestamp },
+              ]),
+          }),
+        }),
+      });
+    mockColdArchiveService.readArchived.mockResolvedValueOnce([
+      archived,
+      { ...archived, timestamp: new Date('2022-07-10T00:00:00Z'), aqi: 45 },
+    ]);
+
+    const result = await service.getAirQualityData(
+      new Date('2022-06-01T00:00:00Z'),
+      new Date('2022-07-31T00:00:00Z'),
+      { location: PARIS }
+    );
+
+    expect(result.data.map(r => r.aqi)).toEqual([60, 45]);
+    expect(result.sources).toMatchObject({ cold: 1, archive: 1 });
+    expect(mockColdModel.find).toHaveBeenLastCalledWith({
+      location: { $in: [PARIS] },
+      timestamp: { $in: [cold.timestamp, new Date('2022-07-10T00:00:00Z')] },
+    });
+  });
+
+  it('should build time series from every page of the range', async () => {
+    const page = (aqi: number, nextCursor: string | null): QueryResult => ({
+      data: [
+        {
+          ...record('2024-08-01T10:00:00Z', aqi),
+          weather: { temperature: 20, humidity: 50 },
+          granularity: 'raw',
+        },
+      ],
+      sources: { hot: 1, warm: 0, cold: 0, archive: 0 },
+      granularity: 'raw',
+      totalCount: 1,
+      executionTime: 0,
+      pagination: { limit: 10000, nextCursor, hasNext: !!nextCursor },
+    });
+    const getAirQualityData = jest
+      .spyOn(service, 'getAirQualityData')
+      .mockResolvedValueOnce(page(40, 'next'))
+      .mockResolvedValueOnce(page(60, null));
+
+    const result = await service.getTimeSeriesData(
+      PARIS,
+      new Date('2024-08-01T00:00:00Z'),
+      new Date('2024-08-02T00:00:00Z')
+    );
+
+    expect(getAirQualityData).toHaveBeenCalledTimes(2);
+    expect(getAirQualityData.mock.calls[1][3]).toBe('next');
+    expect(result.sources.hot).toBe(2);
+    expect(result.data).toEqual([
+      expect.objectContaining({ avg_aqi: 50, record_count: 2 }),
+    ]);
+  });
+
+  it('should reject a cursor issued for different filters', async () => {
+    givenRecords(mockHotModel, [
+      record('2024-08-01T00:00:00Z', 40),
+      record('2024-07-30T00:00:00Z', 50),
+    ]);
+    givenRecords(mockWarmModel, []);
+    const range = [
+      new Date('2024-07-01T00:00:00Z'),
+      new Date('2024-08-05T00:00:00Z'),
+    ] as const;
+
+    const first = await service.getAirQualityData(...range, {
+      location: PARIS,
+      limit: 1,
+    });
+
+    await expect(
+      service.getAirQualityData(
+        ...range,
+        { location: PARIS, limit: 1, minAqi: 100 },
+        first.pagination!.nextCursor!
+      )
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -15,6 +15,29 @@ import {
   AirQualityColdDocument,
 } from '../schemas/air-quality-cold.schema';
 import { AirQualityQueryDto } from '@/common/dto/air-quality-record.dto';
+import { NowCastDto } from '@/common/dto/air-quality.dto';
+import { NowCastService } from '../../aqi/services/nowcast.service';
+import { ColdArchiveService } from './cold-archive.service';
+import { RetentionPolicyService } from './retention-policy.service';
+import { CursorPagination, Granularity } from '@/common/types';
+import { compileFilters, parseFilters } from '@/common/filter-query';
+import { AIR_QUALITY_FILTER_FIELDS } from './air-quality-filters';
+import { TierRecord } from './downsampling.service';
+import {
+  compareCursorPositions,
+  CursorPosition,
+  CursorTier,
+  decodeCursor,
+  encodeCursor,
+  getCursorPosition,
+  TIER_PAGE_SORT,
+  withAfterCursor,
+} from './query-cursor';
+
+const GRANULARITY_ORDER: Granularity[] = ['raw', 'hourly', 'daily'];
+
+/** A tier record as read back for a time series, granularity filled in */
+type SeriesRecord = TierRecord & { granularity: Granularity };
 
 export interface QueryResult<T = any> {
   data: T[];
@@ -22,9 +45,20 @@ export interface QueryResult<T = any> {
     hot: number;
     warm: number;
     cold: number;
+    /** Records read back from cold archive files */
+    archive: number;
   };
+  /** Coarsest resolution among the returned records */
+  granularity: Granularity;
   totalCount: number;
   executionTime: number;
+  /** Present on paged queries */
+  pagination?: CursorPagination;
+}
+
+export interface TimeSeriesResult extends QueryResult {
+  /** Hourly EPA NowCast over the same range */
+  nowcast: NowCastDto[];
 }
 
 @Injectable()
@@ -37,43 +71,64 @@ export class SmartQueryService {
     @InjectModel(AirQualityWarm.name)
     private warmModel: Model<AirQualityWarmDocument>,
     @InjectModel(AirQualityCold.name)
-    private coldModel: Model<AirQualityColdDocument>
+    private coldModel: Model<AirQualityColdDocument>,
+    private nowCastService: NowCastService,
+    private retentionPolicyService: RetentionPolicyService,
+    private coldArchiveService: ColdArchiveService
   ) {}
 
   /**
-   * Smart query that automatically determines which collections to query based on date range
+   * Smart query that automatically determines which collections to query
+   * based on date range and the location's retention policy. Returns one
+   * page, newest first; pass `pagination.nextCursor` back as `cursor` for
+   * the next one. `queryOptions.filter` narrows the results further with a
+   * filter expression over `AIR_QUALITY_FILTER_FIELDS`.
    */
   async getAirQualityData(
     startDate: Date,
     endDate: Date,
-    queryOptions: Partial<AirQualityQueryDto> = {}
+    queryOptions: Partial<AirQualityQueryDto> = {},
+    cursor?: string
   ): Promise<QueryResult> {
     const startTime = Date.now();
-    const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const oneYearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
+    const limit = queryOptions.limit || 1000;
+    const filters = this.getCursorFilters(queryOptions);
+    const after = cursor ? decodeCursor(cursor, filters) : null;
+    const expression = parseFilters(
+      queryOptions.filter,
+      AIR_QUALITY_FILTER_FIELDS
+    );
+    const windows = await this.retentionPolicyService.getTierWindows(
+      queryOptions.location
+    );
 
-    const results: any[] = [];
-    const sources = { hot: 0, warm: 0, cold: 0 };
+    const sources = { hot: 0, warm: 0, cold: 0, archive: 0 };
 
     try {
       // Build base query
-      const baseQuery: any = {};
+      const baseQuery: Record<string, unknown> = {
+        timestamp: {
+          $gte: startDate,
+          $lte: endDate,
+        },
+      };
 
       if (queryOptions.location) {
         baseQuery.location = queryOptions.location;
       }
 
-      if (queryOptions.minAqi !== undefined) {
-        baseQuery.aqi = { $gte: queryOptions.minAqi };
-      }
-
-      if (queryOptions.maxAqi !== undefined) {
-        if (baseQuery.aqi) {
-          baseQuery.aqi.$lte = queryOptions.maxAqi;
-        } else {
-          baseQuery.aqi = { $lte: queryOptions.maxAqi };
-        }
+      if (
+        queryOptions.minAqi !== undefined ||
+        queryOptions.maxAqi !== undefined
+      ) {
+        baseQuery.aqi = {
+          ...(queryOptions.minAqi !== undefined && {
+            $gte: queryOptions.minAqi,
+          }),
+          ...(queryOptions.maxAqi !== undefined && {
+            $lte: queryOptions.maxAqi,
+          }),
+        };
       }
 
       if (queryOptions.pollutant) {
@@ -84,81 +139,90 @@ export class SmartQueryService {
         baseQuery.pollution_level = queryOptions.pollution_level;
       }
 
-      // Query hot collection if date range includes last 30 days
-      if (endDate >= thirtyDaysAgo) {
-        const hotQuery = {
-          ...baseQuery,
-          timestamp: {
-            $gte: startDate,
-            $lte: endDate,
-          },
-        };
-
-        const hotData = await this.hotModel
-          .find(hotQuery)
-          .sort({ timestamp: -1 })
-          .limit(queryOptions.limit || 1000)
-          .lean();
+      Object.assign(baseQuery, compileFilters(expression));
+
+      // Each tier contributes at most limit + 1 records, which is enough to
+      // fill the merged page and tell whether another one follows
+      const candidates: {
+        record: TierRecord & { granularity: Granularity };
+        position: CursorPosition;
+      }[] = [];
+      const collect = (records: TierRecord[], tier: CursorTier) => {
+        for (const record of this.withGranularity(records)) {
+          candidates.push({
+            record,
+            position: getCursorPosition(record, tier),
+          });
+        }
+        this.logger.debug(`Read ${records.length} records from ${tier}`);
+      };
 
-        results.push(...hotData);
-        sources.hot = hotData.length;
-        this.logger.debug(`Queried hot collection: ${hotData.length} records`);
+      // Query hot collection if date range overlaps the hot window
+      if (endDate >= windows.hot.from) {
+        collect(
+          await this.findTierPage(
+            this.hotModel,
+            'hot',
+            baseQuery,
+            after,
+            limit
+          ),
+          'hot'
+        );
       }
 
-      // Query warm collection if date range includes 30 days to 1 year
-      if (startDate <= thirtyDaysAgo && endDate >= oneYearAgo) {
-        const warmQuery = {
-          ...baseQuery,
-          timestamp: {
-            $gte: startDate < thirtyDaysAgo ? startDate : thirtyDaysAgo,
-            $lte: endDate > thirtyDaysAgo ? endDate : thirtyDaysAgo,
-          },
-        };
-
-        const warmData = await this.warmModel
-          .find(warmQuery)
-          .sort({ timestamp: -1 })
-          .limit(queryOptions.limit || 1000)
-          .lean();
-
-        results.push(...warmData);
-        sources.warm = warmData.length;
-        this.logger.debug(
-          `Queried warm collection: ${warmData.length} records`
+      // Query warm collection if date range overlaps the warm window
+      if (startDate <= windows.warm.to && endDate >= windows.warm.from) {
+        collect(
+          await this.findTierPage(
+            this.warmModel,
+            'warm',
+            baseQuery,
+            after,
+            limit
+          ),
+          'warm'
         );
       }
 
-      // Query cold collection if date range includes data older than 1 year
-      if (startDate <= oneYearAgo) {
-        const coldQuery = {
-          ...baseQuery,
-          timestamp: {
-            $gte: startDate < oneYearAgo ? startDate : oneYearAgo,
-            $lte: endDate > oneYearAgo ? endDate : oneYearAgo,
-          },
-        };
-
-        const coldData = await this.coldModel
-          .find(coldQuery)
-          .sort({ timestamp: -1 })
-          .limit(queryOptions.limit || 1000)
-          .lean();
+      // Query cold collection if date range overlaps the cold window
+      if (startDate <= windows.cold.to) {
+        collect(
+          await this.findTierPage(
+            this.coldModel,
+            'cold',
+            baseQuery,
+            after,
+            limit
+          ),
+          'cold'
+        );
+      }
 
-        results.push(...coldData);
-        sources.cold = coldData.length;
-        this.logger.debug(
-          `Queried cold collection: ${coldData.length} records`
+      // Read archive files if date range reaches past what is kept in Mongo
+      if (startDate < this.coldArchiveService.getArchiveCutoff()) {
+        collect(
+          await this.withoutColdCopies(
+            await this.readArchivePage(
+              startDate,
+              endDate,
+              queryOptions,
+              after,
+              limit
+            )
+          ),
+          'archive'
         );
       }
 
-      // Sort all results by timestamp
-      results.sort(
-        (a, b) =>
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
+      candidates.sort((a, b) => compareCursorPositions(a.position, b.position));
+      const page = candidates.slice(0, limit);
+      const hasNext = candidates.length > limit;
 
-      // Apply limit to final results
-      const finalResults = results.slice(0, queryOptions.limit || 1000);
+      for (const { position } of page) {
+        sources[position.tier]++;
+      }
+      const finalResults = page.map(({ record }) => record);
 
       const executionTime = Date.now() - startTime;
 
@@ -169,8 +233,16 @@ export class SmartQueryService {
       return {
         data: finalResults,
         sources,
+        granularity: this.getCoarsestGranularity(finalResults),
         totalCount: finalResults.length,
         executionTime,
+        pagination: {
+          limit,
+          nextCursor: hasNext
+            ? encodeCursor(page[page.length - 1].position, filters)
+            : null,
+          hasNext,
+        },
       };
     } catch (error) {
       this.logger.error('Error during smart query:', error);
@@ -178,6 +250,29 @@ export class SmartQueryService {
     }
   }
 
+  /**
+   * Every record matching the query, newest first, read a page at a time so
+   * memory stays bounded however long the range is
+   */
+  async *streamAirQualityData(
+    startDate: Date,
+    endDate: Date,
+    queryOptions: Partial<AirQualityQueryDto> = {}
+  ): AsyncGenerator<TierRecord> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.getAirQualityData(
+        startDate,
+        endDate,
+        queryOptions,
+        cursor
+      );
+      yield* page.data;
+      cursor = page.pagination?.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
   /**
    * Get latest air quality data for a location
    */
@@ -204,7 +299,7 @@ export class SmartQueryService {
         .lean();
     }
 
-    return latestRecord;
+    return latestRecord ? this.withGranularity([latestRecord])[0] : null;
   }
 
   /**
@@ -218,7 +313,7 @@ export class SmartQueryService {
   ): Promise<QueryResult> {
     const startTime = Date.now();
     const results: any[] = [];
-    const sources = { hot: 0, warm: 0, cold: 0 };
+    const sources = { hot: 0, warm: 0, cold: 0, archive: 0 };
 
     try {
       // Query all collections with geospatial search
@@ -272,7 +367,11 @@ export class SmartQueryService {
           .lean(),
       ]);
 
-      results.push(...hotData, ...warmData, ...coldData);
+      results.push(
+        ...this.withGranularity(hotData),
+        ...this.withGranularity(warmData),
+        ...this.withGranularity(coldData)
+      );
       sources.hot = hotData.length;
       sources.warm = warmData.length;
       sources.cold = coldData.length;
@@ -289,6 +388,7 @@ export class SmartQueryService {
       return {
         data: finalResults,
         sources,
+        granularity: this.getCoarsestGranularity(finalResults),
         totalCount: finalResults.length,
         executionTime,
       };
@@ -339,33 +439,61 @@ export class SmartQueryService {
     startDate: Date,
     endDate: Date,
     interval: 'hourly' | 'daily' | 'weekly' = 'daily'
-  ): Promise<QueryResult> {
+  ): Promise<TimeSeriesResult> {
     const startTime = Date.now();
 
-    // Use smart query to get data from appropriate collections
-    const queryResult = await this.getAirQualityData(startDate, endDate, {
-      location,
-      limit: 10000, // Higher limit for time-series analysis
-    });
+    // Use smart query to get data from appropriate collections, reaching
+    // back far enough for the NowCast of the first hour. Every page is read,
+    // so long ranges are not cut short.
+    const records: SeriesRecord[] = [];
+    const sources = { hot: 0, warm: 0, cold: 0, archive: 0 };
+    let cursor: string | undefined;
+    do {
+      const page = await this.getAirQualityData(
+        this.nowCastService.getWindowStart(startDate),
+        endDate,
+        {
+          location,
+          limit: 10000, // Higher limit for time-series analysis
+        },
+        cursor
+      );
+      records.push(...page.data);
+      for (const tier of Object.keys(sources) as (keyof typeof sources)[]) {
+        sources[tier] += page.sources[tier];
+      }
+      cursor = page.pagination?.nextCursor ?? undefined;
+    } while (cursor);
 
     // Group data by time interval
-    const groupedData = this.groupByTimeInterval(queryResult.data, interval);
+    const groupedData = this.groupByTimeInterval(
+      records.filter(r => new Date(r.timestamp) >= startDate),
+      interval
+    );
+
+    const nowcast = this.nowCastService.buildSeries(
+      records,
+      startDate,
+      endDate
+    );
 
     const executionTime = Date.now() - startTime;
 
     return {
       data: groupedData,
-      sources: queryResult.sources,
+      nowcast,
+      sources,
+      granularity: this.getCoarsestGranularity(records),
       totalCount: groupedData.length,
       executionTime,
     };
   }
 
   private groupByTimeInterval(
-    data: any[],
+    data: SeriesRecord[],
     interval: 'hourly' | 'daily' | 'weekly'
   ) {
-    const grouped: { [key: string]: any[] } = {};
+    const grouped: { [key: string]: SeriesRecord[] } = {};
 
     data.forEach(record => {
       const date = new Date(record.timestamp);
@@ -394,24 +522,43 @@ export class SmartQueryService {
       grouped[key].push(record);
     });
 
-    // Convert to array and calculate averages
+    // Convert to array and calculate averages, weighting hourly and daily
+    // rollups by the number of readings they summarise
     return Object.entries(grouped)
       .map(([timeKey, records]) => {
-        const avgAqi =
-          records.reduce((sum, r) => sum + r.aqi, 0) / records.length;
-        const avgTemp =
-          records.reduce((sum, r) => sum + r.weather.temperature, 0) /
-          records.length;
-        const avgHumidity =
-          records.reduce((sum, r) => sum + r.weather.humidity, 0) /
-          records.length;
+        const weight = (r: SeriesRecord) => r.aqi_stats?.count ?? 1;
+        const sampleCount = records.reduce((sum, r) => sum + weight(r), 0);
+        const average = (value: (r: SeriesRecord) => number) =>
+          records.reduce((sum, r) => sum + value(r) * weight(r), 0) /
+          sampleCount;
+
+        const avgAqi = average(r => r.aqi_stats?.avg ?? r.aqi);
+        // Over the records reporting the field; null when none does
+        const weatherAverage = (field: 'temperature' | 'humidity') => {
+          const reporting = records.filter(
+            r => typeof r.weather?.[field] === 'number'
+          );
+          if (reporting.length === 0) {
+            return null;
+          }
+          const total = reporting.reduce((sum, r) => sum + weight(r), 0);
+          const value = reporting.reduce(
+            (sum, r) => sum + r.weather[field] * weight(r),
+            0
+          );
+          return Math.round((value / total) * 100) / 100;
+        };
 
         return {
           timestamp: timeKey,
           avg_aqi: Math.round(avgAqi * 100) / 100,
-          avg_temperature: Math.round(avgTemp * 100) / 100,
-          avg_humidity: Math.round(avgHumidity * 100) / 100,
+          min_aqi: Math.min(...records.map(r => r.aqi_stats?.min ?? r.aqi)),
+          max_aqi: Math.max(...records.map(r => r.aqi_stats?.max ?? r.aqi)),
+          avg_temperature: weatherAverage('temperature'),
+          avg_humidity: weatherAverage('humidity'),
           record_count: records.length,
+          sample_count: sampleCount,
+          granularity: this.getCoarsestGranularity(records),
           dominant_pollutant: this.getDominantPollutant(records),
           pollution_level: this.getDominantPollutionLevel(records),
         };
@@ -422,6 +569,126 @@ export class SmartQueryService {
       );
   }
 
+  private findTierPage(
+    model: Model<TierRecord>,
+    tier: CursorTier,
+    baseQuery: Record<string, unknown>,
+    after: CursorPosition | null,
+    limit: number
+  ): Promise<TierRecord[]> {
+    return model
+      .find(withAfterCursor(baseQuery, after, tier))
+      .sort(TIER_PAGE_SORT)
+      .limit(limit + 1)
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Archived records after the cursor, read a month at a time backwards
+   * until there are enough for a page
+   */
+  private async readArchivePage(
+    startDate: Date,
+    endDate: Date,
+    queryOptions: Partial<AirQualityQueryDto>,
+    after: CursorPosition | null,
+    limit: number
+  ): Promise<TierRecord[]> {
+    const records: TierRecord[] = [];
+    let to = after && after.timestamp < endDate ? after.timestamp : endDate;
+
+    while (to >= startDate && records.length <= limit) {
+      const monthStart = new Date(
+        Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), 1)
+      );
+      const month = await this.coldArchiveService.readArchived(
+        monthStart > startDate ? monthStart : startDate,
+        to,
+        queryOptions
+      );
+
+      records.push(
+        ...month.filter(
+          record =>
+            !after ||
+            compareCursorPositions(
+              after,
+              getCursorPosition(record, 'archive')
+            ) < 0
+        )
+      );
+      to = new Date(monthStart.getTime() - 1);
+    }
+
+    return records;
+  }
+
+  /**
+   * Archived records still in cold, left there when an archive run stopped
+   * between writing a partition and deleting its records, are read from
+   * cold only
+   */
+  private async withoutColdCopies<
+    T extends { location: string; timestamp: Date },
+  >(records: T[]): Promise<T[]> {
+    if (records.length === 0) {
+      return records;
+    }
+
+    const copies = await this.coldModel
+      .find({
+        location: { $in: [...new Set(records.map(r => r.location))] },
+        timestamp: { $in: records.map(r => r.timestamp) },
+      })
+      .select({ location: 1, timestamp: 1 })
+      .lean()
+      .exec();
+    const key = (record: { location: string; timestamp: Date }) =>
+      `${record.location}|${new Date(record.timestamp).toISOString()}`;
+    const inCold = new Set(copies.map(key));
+
+    return records.filter(record => !inCold.has(key(record)));
+  }
+
+  /**
+   * Filters a cursor is bound to. The date range is left out so that
+   * relative ranges ("last 7 days") can be paged.
+   */
+  private getCursorFilters(queryOptions: Partial<AirQualityQueryDto>) {
+    return {
+      location: queryOptions.location,
+      minAqi: queryOptions.minAqi,
+      maxAqi: queryOptions.maxAqi,
+      pollutant: queryOptions.pollutant,
+      pollution_level: queryOptions.pollution_level,
+      filter: queryOptions.filter,
+    };
+  }
+
+  /**
+   * Records migrated before downsampling carry no granularity and are raw
+   */
+  private withGranularity(
+    records: TierRecord[]
+  ): (TierRecord & { granularity: Granularity })[] {
+    return records.map(record => ({
+      ...record,
+      granularity: record.granularity ?? 'raw',
+    }));
+  }
+
+  private getCoarsestGranularity(records: { granularity: Granularity }[]) {
+    return records.reduce<Granularity>(
+      (coarsest, record) =>
+        GRANULARITY_ORDER.indexOf(record.granularity) >
+        GRANULARITY_ORDER.indexOf(coarsest)
+          ? record.granularity
+          : coarsest,
+      'raw'
+    );
+  }
+
   private getDominantPollutant(records: any[]): string {
     const pollutantCounts: { [key: string]: number } = {};
     records.forEach(record => {
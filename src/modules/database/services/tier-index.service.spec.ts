@@ -0,0 +1,178 @@
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+
+import { AqiCalculatorService } from '../../aqi/services/aqi-calculator.service';
+import { AirQualityCold } from '../schemas/air-quality-cold.schema';
+import { AirQualityHot } from '../schemas/air-quality-hot.schema';
+import { AirQualityWarm } from '../schemas/air-quality-warm.schema';
+import { DownsamplingService } from './downsampling.service';
+import { TierIndexService } from './tier-index.service';
+
+describe('TierIndexService', () => {
+  let service: TierIndexService;
+
+  const location = 'Paris, Ile-de-France, France';
+  const timestamp = new Date('2024-06-01T10:00:00Z');
+
+  const record = (aqi: number) => ({
+    _id: new Types.ObjectId(),
+    location,
+    coordinates: { latitude: 48.8566, longitude: 2.3522 },
+    timestamp,
+    aqi,
+    main_pollutant: 'p2',
+    pollution_level: 'Good',
+    weather: { temperature: 20, humidity: 50 },
+  });
+
+  const mockModel = (collectionName: string) => ({
+    collection: {
+      collectionName,
+      indexes: jest.fn().mockResolvedValue([]),
+      dropIndex: jest.fn(),
+    },
+    aggregate: jest.fn().mockReturnValue({
+      allowDiskUse: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue([]),
+      }),
+    }),
+    find: jest.fn(),
+    updateOne: jest.fn(),
+    deleteMany: jest.fn(async filter => ({
+      deletedCount: filter._id.$in.length,
+    })),
+    createIndexes: jest.fn(),
+  });
+
+  const mockHotModel = mockModel('air_quality_hot');
+  const mockWarmModel = mockModel('air_quality_warm');
+  const mockColdModel = mockModel('air_quality_cold');
+
+  const givenDuplicates = (records: ReturnType<typeof record>[]) => {
+    mockWarmModel.aggregate.mockReturnValueOnce({
+      allowDiskUse: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue([
+          {
+            _id: { location, timestamp },
+            ids: records.map(r => r._id),
+          },
+        ]),
+      }),
+    });
+    mockWarmModel.find.mockReturnValueOnce({
+      sort: jest.fn().mockReturnValue({
+        lean: jest.fn().mockReturnValue({
+          exec: jest.fn().mockResolvedValue(records),
+        }),
+      }),
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TierIndexService,
+        DownsamplingService,
+        AqiCalculatorService,
+        { provide: getModelToken(AirQualityHot.name), useValue: mockHotModel },
+        {
+          provide: getModelToken(AirQualityWarm.name),
+          useValue: mockWarmModel,
+        },
+        {
+          provide: getModelToken(AirQualityCold.name),
+          useValue: mockColdModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TierIndexService>(TierIndexService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should drop the TTL indexes left on hot and warm', async () => {
+    mockHotModel.collection.indexes.mockResolvedValueOnce([
+      { name: '_id_', key: { _id: 1 } },
+      {
+        name: 'timestamp_1',
+        key: { timestamp: 1 },
+        expireAfterSeconds: 2592000,
+      },
+    ]);
+
+    await service.upgradeIndexes();
+
+    expect(mockHotModel.collection.dropIndex).toHaveBeenCalledTimes(1);
+    expect(mockHotModel.collection.dropIndex).toHaveBeenCalledWith(
+      'timestamp_1'
+    );
+    expect(mockWarmModel.collection.dropIndex).not.toHaveBeenCalled();
+  });
+
+  it('should treat a missing collection as having no indexes', async () => {
+    mockColdModel.collection.indexes.mockRejectedValueOnce(
+      Object.assign(new Error('ns does not exist'), { code: 26 })
+    );
+
+    await expect(service.upgradeIndexes()).resolves.toBeUndefined();
+    expect(mockColdModel.createIndexes).toHaveBeenCalled();
+  });
+
+  it('should drop copies of a record before building the unique index', async () => {
+    const original = record(42);
+    const copy = { ...original, _id: new Types.ObjectId() };
+    givenDuplicates([original, copy]);
+
+    await service.upgradeIndexes();
+
+    expect(mockWarmModel.updateOne).not.toHaveBeenCalled();
+    expect(mockWarmModel.deleteMany).toHaveBeenCalledWith({
+      _id: { $in: [copy._id] },
+    });
+    expect(mockWarmModel.deleteMany.mock.invocationCallOrder[0]).toBeLessThan(
+      mockWarmModel.createIndexes.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should roll distinct records up into the oldest one', async () => {
+    const [first, second] = [record(40), record(60)];
+    givenDuplicates([first, second]);
+
+    await service.upgradeIndexes();
+
+    expect(mockWarmModel.updateOne).toHaveBeenCalledWith(
+      { _id: first._id },
+      {
+        $set: expect.objectContaining({
+          timestamp,
+          aqi: 50,
+          aqi_stats: expect.objectContaining({ min: 40, max: 60, count: 2 }),
+        }),
+      }
+    );
+    expect(mockWarmModel.deleteMany).toHaveBeenCalledWith({
+      _id: { $in: [second._id] },
+    });
+  });
+
+  it('should skip deduplication once the unique index exists', async () => {
+    const unique = {
+      name: 'location_1_timestamp_1',
+      key: { location: 1, timestamp: 1 },
+      unique: true,
+    };
+    // Listed once for TTL indexes, once for the unique index
+    mockWarmModel.collection.indexes
+      .mockResolvedValueOnce([unique])
+      .mockResolvedValueOnce([unique]);
+
+    await service.upgradeIndexes();
+
+    expect(mockWarmModel.aggregate).not.toHaveBeenCalled();
+    expect(mockWarmModel.createIndexes).not.toHaveBeenCalled();
+  });
+});
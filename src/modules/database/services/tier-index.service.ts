@@ -0,0 +1,187 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+
+import {
+  AirQualityHot,
+  AirQualityHotDocument,
+} from '../schemas/air-quality-hot.schema';
+import {
+  AirQualityWarm,
+  AirQualityWarmDocument,
+} from '../schemas/air-quality-warm.schema';
+import {
+  AirQualityCold,
+  AirQualityColdDocument,
+} from '../schemas/air-quality-cold.schema';
+import {
+  DownsamplingService,
+  RollupGranularity,
+  TierRecord,
+} from './downsampling.service';
+
+/** Error code MongoDB returns for a collection that does not exist yet */
+const NAMESPACE_NOT_FOUND = 26;
+
+interface DuplicateGroup {
+  _id: { location: string; timestamp: Date };
+  ids: Types.ObjectId[];
+}
+
+/**
+ * Brings indexes of deployments created before retention policies and
+ * rollup merging in line with the tier schemas
+ */
+@Injectable()
+export class TierIndexService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(TierIndexService.name);
+
+  constructor(
+    @InjectModel(AirQualityHot.name)
+    private hotModel: Model<AirQualityHotDocument>,
+    @InjectModel(AirQualityWarm.name)
+    private warmModel: Model<AirQualityWarmDocument>,
+    @InjectModel(AirQualityCold.name)
+    private coldModel: Model<AirQualityColdDocument>,
+    private downsamplingService: DownsamplingService
+  ) {}
+
+  onApplicationBootstrap() {
+    this.upgradeIndexes().catch(error =>
+      this.logger.error('Failed to upgrade tier indexes:', error)
+    );
+  }
+
+  async upgradeIndexes(): Promise<void> {
+    // Retention policies decide when records leave hot and warm
+    await this.dropTtlIndexes(this.hotModel);
+    await this.dropTtlIndexes(this.warmModel);
+
+    await this.ensureUniqueBuckets(this.warmModel, 'hourly');
+    await this.ensureUniqueBuckets(this.coldModel, 'daily');
+  }
+
+  /**
+   * Drop the `expireAfterSeconds` indexes the hot and warm schemas used to
+   * declare; left in place they still expire records after 30 days and 1 year
+   */
+  private async dropTtlIndexes(model: Model<TierRecord>): Promise<void> {
+    const indexes = await this.listIndexes(model);
+
+    for (const index of indexes) {
+      if (index.expireAfterSeconds === undefined) {
+        continue;
+      }
+      await model.collection.dropIndex(index.name);
+      this.logger.warn(
+        `Dropped TTL index ${index.name} from ${model.collection.collectionName}`
+      );
+    }
+  }
+
+  /**
+   * Merge records sharing a location and timestamp, then build the unique
+   * `{ location, timestamp }` index, which fails to build over duplicates
+   */
+  private async ensureUniqueBuckets(
+    model: Model<TierRecord>,
+    granularity: RollupGranularity
+  ): Promise<void> {
+    const indexes = await this.listIndexes(model);
+    const built = indexes.some(
+      index =>
+        index.unique &&
+        JSON.stringify(index.key) ===
+          JSON.stringify({ location: 1, timestamp: 1 })
+    );
+    if (built) {
+      return;
+    }
+
+    const groups = await model
+      .aggregate<DuplicateGroup>([
+        {
+          $group: {
+            _id: { location: '$location', timestamp: '$timestamp' },
+            ids: { $push: '$_id' },
+          },
+        },
+        { $match: { 'ids.1': { $exists: true } } },
+      ])
+      .allowDiskUse(true)
+      .exec();
+
+    let removed = 0;
+    for (const group of groups) {
+      removed += await this.mergeDuplicates(model, group, granularity);
+    }
+    if (groups.length > 0) {
+      this.logger.warn(
+        `Merged ${removed} duplicate records into ${groups.length} in ${model.collection.collectionName}`
+      );
+    }
+
+    await model.createIndexes();
+  }
+
+  /**
+   * Copies left by a replayed migration are dropped; distinct records are
+   * rolled up into the oldest one. Returns the number of records removed.
+   */
+  private async mergeDuplicates(
+    model: Model<TierRecord>,
+    group: DuplicateGroup,
+    granularity: RollupGranularity
+  ): Promise<number> {
+    const records = await model
+      .find({ _id: { $in: group.ids } })
+      .sort({ _id: 1 })
+      .lean()
+      .exec();
+    if (records.length < 2) {
+      return 0;
+    }
+
+    const [kept, ...rest] = records;
+    const distinct = new Map(
+      records.map(record => [
+        JSON.stringify([
+          record.granularity,
+          record.aqi,
+          record.aqi_stats,
+          record.main_pollutant,
+          record.weather,
+        ]),
+        record,
+      ])
+    );
+
+    if (distinct.size > 1) {
+      const [merged] = this.downsamplingService.rollup(
+        [...distinct.values()],
+        granularity
+      );
+      // Keep the stored timestamp so the record stays in its key
+      await model.updateOne(
+        { _id: kept._id },
+        { $set: { ...merged, timestamp: kept.timestamp } }
+      );
+    }
+
+    const result = await model.deleteMany({
+      _id: { $in: rest.map(record => record._id) },
+    });
+    return result.deletedCount;
+  }
+
+  private async listIndexes(model: Model<TierRecord>) {
+    try {
+      return await model.collection.indexes();
+    } catch (error) {
+      if ((error as { code?: number }).code === NAMESPACE_NOT_FOUND) {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Logger,
+  Param,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { RateLimit } from '@/common/decorators/rate-limit.decorator';
+import { ExportAirQualityDto } from '@/common/dto/export.dto';
+import { ExportJobDocument } from '../schemas/export-job.schema';
+import { ExportService } from '../services/export.service';
+
+@ApiTags('Export')
+@RequireRole('reader')
+@RateLimit('export')
+@Controller('export')
+export class ExportController {
+  private readonly logger = new Logger(ExportController.name);
+
+  constructor(private readonly exportService: ExportService) {}
+
+  /**
+   * GET /api/v1/export/air-quality?format=csv&location=...&startDate=...
+   * Streams small exports directly; large ones are queued and answered with
+   * a download token
+   */
+  @Get('air-quality')
+  @ApiOperation({
+    summary: 'Export readings and daily aggregations as CSV, NDJSON or Excel',
+  })
+  @ApiResponse({ status: 200, description: 'The export file, streamed' })
+  @ApiResponse({
+    status: 202,
+    description: 'Export queued; poll the status URL for the download token',
+  })
+  async exportAirQuality(
+    @Query() query: ExportAirQualityDto,
+    @Res() res: Response
+  ): Promise<void> {
+    const format = query.format ?? 'csv';
+    const include = query.include ?? 'all';
+    const filters = this.exportService.resolveFilters(query);
+
+    if (this.exportService.isLargeExport(filters, query.async)) {
+      const job = await this.exportService.startExportJob(
+        filters,
+        format,
+        include
+      );
+      res.status(HttpStatus.ACCEPTED).json({
+        success: true,
+        data: this.toJobResponse(job),
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', this.exportService.getContentType(format));
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${this.exportService.getFileName(filters, format)}"`
+    );
+
+    try {
+      await this.exportService.writeExport(filters, format, include, res);
+    } catch (error) {
+      if (!res.destroyed) {
+        this.logger.error('Error streaming export:', error);
+      }
+      // Headers are already sent; abort so the client sees a broken download
+      res.destroy(error);
+    }
+  }
+
+  @Get('air-quality/jobs/:token')
+  @ApiOperation({ summary: 'Get the status of a background export' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired token' })
+  async getExportJob(@Param('token') token: string) {
+    const job = await this.exportService.getExportJob(token);
+
+    return {
+      success: true,
+      data: this.toJobResponse(job),
+      timestamp: new Date(),
+    };
+  }
+
+  @Get('air-quality/download/:token')
+  @ApiOperation({ summary: 'Download a finished background export' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired token' })
+  @ApiResponse({ status: 409, description: 'Export has not finished yet' })
+  async downloadExport(
+    @Param('token') token: string,
+    @Res() res: Response
+  ): Promise<void> {
+    const download = await this.exportService.openDownload(token);
+
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', download.contentType);
+    res.setHeader('Content-Length', download.bytes);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${download.fileName}"`
+    );
+    download.stream.on('error', error => res.destroy(error));
+    download.stream.pipe(res);
+  }
+
+  private toJobResponse(job: ExportJobDocument) {
+    const base = '/api/v1/export/air-quality';
+
+    return {
+      token: job.token,
+      status: job.status,
+      format: job.format,
+      include: job.include,
+      filters: job.filters,
+      rows: job.rows,
+      bytes: job.bytes,
+      error: job.error,
+      completedAt: job.completedAt,
+      expiresAt: job.expiresAt,
+      statusUrl: `${base}/jobs/${job.token}`,
+      downloadUrl: `${base}/download/${job.token}`,
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { BullModule } from '@nestjs/bull';
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import {
+  DailyAggregation,
+  DailyAggregationSchema,
+} from '../analytics/schemas/daily-aggregation.schema';
+import { DatabaseModule } from '../database/database.module';
+import { ExportController } from './controllers/export.controller';
+import { ExportProcessor } from './export.processor';
+import { ExportJob, ExportJobSchema } from './schemas/export-job.schema';
+import { ExportService } from './services/export.service';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'export',
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 1,
+      },
+    }),
+    MongooseModule.forFeature([
+      { name: ExportJob.name, schema: ExportJobSchema },
+      { name: DailyAggregation.name, schema: DailyAggregationSchema },
+    ]),
+    DatabaseModule,
+  ],
+  controllers: [ExportController],
+  providers: [ExportService, ExportProcessor],
+  exports: [ExportService],
+})
+export class ExportModule {}
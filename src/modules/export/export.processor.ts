@@ -0,0 +1,37 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+
+import { ExportService } from './services/export.service';
+
+interface ExportJobData {
+  token: string;
+}
+
+@Processor('export')
+export class ExportProcessor {
+  private readonly logger = new Logger(ExportProcessor.name);
+
+  constructor(private readonly exportService: ExportService) {}
+
+  @Process('generate-export')
+  async handleGenerateExport(job: Job<ExportJobData>) {
+    this.logger.log(`Processing export job ${job.id}`);
+
+    try {
+      const exportJob = await this.exportService.runExportJob(job.data.token);
+
+      return {
+        success: true,
+        rows: exportJob.rows,
+        bytes: exportJob.bytes,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to generate export job ${job.id}:`, error);
+
+      // Re-throw the error to mark the job as failed
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+import { ExportDataset, ExportFormat } from '@/common/dto/export.dto';
+
+export type ExportJobDocument = ExportJob & Document;
+
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+@Schema({
+  timestamps: true,
+  collection: 'export_jobs',
+})
+export class ExportJob {
+  /** Unguessable download token; the only handle clients get */
+  @Prop({ required: true, unique: true })
+  token: string;
+
+  @Prop({
+    required: true,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued',
+  })
+  status: ExportJobStatus;
+
+  @Prop({ required: true, enum: ['csv', 'ndjson', 'xlsx'] })
+  format: ExportFormat;
+
+  @Prop({ required: true, enum: ['readings', 'daily', 'all'] })
+  include: ExportDataset;
+
+  /** Query filters, with the date range resolved when the job was created */
+  @Prop({ type: Object, required: true })
+  filters: {
+    location?: string;
+    startDate: Date;
+    endDate: Date;
+    minAqi?: number;
+    maxAqi?: number;
+    pollutant?: string;
+    pollution_level?: string;
+    filter?: string;
+  };
+
+  @Prop({ required: true })
+  fileName: string;
+
+  @Prop({ type: String, default: null })
+  path: string | null;
+
+  @Prop({ default: 0 })
+  rows: number;
+
+  @Prop({ default: 0 })
+  bytes: number;
+
+  @Prop({ type: String, default: null })
+  error: string | null;
+
+  @Prop({ type: Date, default: null })
+  completedAt: Date | null;
+
+  /** The file is deleted and the token stops working after this */
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const ExportJobSchema = SchemaFactory.createForClass(ExportJob);
+
+ExportJobSchema.index({ expiresAt: 1 });
@@ -0,0 +1,190 @@
+import { Worksheet, stream as excelStream } from 'exceljs';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+
+import { ExportDataset, ExportFormat } from '@/common/dto/export.dto';
+
+export type ExportRowType = 'reading' | 'daily';
+
+export interface ExportRow {
+  type: ExportRowType;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Serializes export rows onto an output stream. Readings are always written
+ * before daily aggregations.
+ */
+export interface ExportWriter {
+  write(row: ExportRow): Promise<void>;
+  end(): Promise<void>;
+}
+
+export const READING_COLUMNS = [
+  'timestamp',
+  'location',
+  'aqi',
+  'main_pollutant',
+  'pollution_level',
+  'temperature',
+  'humidity',
+  'granularity',
+  'aqi_min',
+  'aqi_max',
+  'sample_count',
+  'source',
+];
+
+export const DAILY_COLUMNS = [
+  'date',
+  'city',
+  'country',
+  'averageAQI',
+  'minAQI',
+  'maxAQI',
+  'dominantPollutant',
+  'pollutionLevel',
+  'totalRecords',
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function createExportWriter(
+  format: ExportFormat,
+  include: ExportDataset,
+  output: Writable
+): ExportWriter {
+  switch (format) {
+    case 'ndjson':
+      return new NdjsonExportWriter(output);
+    case 'xlsx':
+      return new XlsxExportWriter(include, output);
+    default:
+      return new CsvExportWriter(include, output);
+  }
+}
+
+/**
+ * Write a chunk, waiting for the stream to drain when its buffer is full
+ */
+async function writeChunk(output: Writable, chunk: string): Promise<void> {
+  if (output.destroyed) {
+    throw new Error('Export output was closed');
+  }
+  if (!output.write(chunk)) {
+    await Promise.race([once(output, 'drain'), once(output, 'close')]);
+  }
+}
+
+async function endStream(output: Writable): Promise<void> {
+  output.end();
+  await finished(output);
+}
+
+/**
+ * One CSV with a `record_type` column; readings and daily rows share the
+ * header and leave the other dataset's columns empty
+ */
+class CsvExportWriter implements ExportWriter {
+  private readonly columns: string[];
+  private headerWritten = false;
+
+  constructor(
+    include: ExportDataset,
+    private readonly output: Writable
+  ) {
+    this.columns = [
+      ...(include === 'daily' ? [] : READING_COLUMNS),
+      ...(include === 'readings' ? [] : DAILY_COLUMNS),
+    ].filter((column, index, all) => all.indexOf(column) === index);
+  }
+
+  async write(row: ExportRow): Promise<void> {
+    await this.writeHeader();
+    const line = [row.type, ...this.columns.map(c => row.values[c])]
+      .map(value => this.escape(value))
+      .join(',');
+    await writeChunk(this.output, `${line}\n`);
+  }
+
+  async end(): Promise<void> {
+    await this.writeHeader();
+    await endStream(this.output);
+  }
+
+  private async writeHeader(): Promise<void> {
+    if (!this.headerWritten) {
+      this.headerWritten = true;
+      await writeChunk(
+        this.output,
+        `${['record_type', ...this.columns].join(',')}\n`
+      );
+    }
+  }
+
+  private escape(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+class NdjsonExportWriter implements ExportWriter {
+  constructor(private readonly output: Writable) {}
+
+  async write(row: ExportRow): Promise<void> {
+    await writeChunk(
+      this.output,
+      `${JSON.stringify({ type: row.type, ...row.values })}\n`
+    );
+  }
+
+  async end(): Promise<void> {
+    await endStream(this.output);
+  }
+}
+
+/**
+ * Streaming workbook with a "Readings" and a "Daily" sheet. Rows are
+ * committed as they are written, so memory stays flat for large exports.
+ */
+class XlsxExportWriter implements ExportWriter {
+  private readonly workbook: excelStream.xlsx.WorkbookWriter;
+  private readonly sheets = new Map<ExportRowType, Worksheet>();
+
+  constructor(include: ExportDataset, output: Writable) {
+    this.workbook = new excelStream.xlsx.WorkbookWriter({ stream: output });
+
+    if (include !== 'daily') {
+      this.addSheet('reading', 'Readings', READING_COLUMNS);
+    }
+    if (include !== 'readings') {
+      this.addSheet('daily', 'Daily', DAILY_COLUMNS);
+    }
+  }
+
+  async write(row: ExportRow): Promise<void> {
+    // Daily rows come after readings; close the readings sheet first
+    if (row.type === 'daily') {
+      this.sheets.get('reading')?.commit();
+    }
+    this.sheets.get(row.type)?.addRow(row.values).commit();
+  }
+
+  async end(): Promise<void> {
+    await this.workbook.commit();
+  }
+
+  private addSheet(type: ExportRowType, name: string, columns: string[]) {
+    const sheet = this.workbook.addWorksheet(name);
+    sheet.columns = columns.map(key => ({ header: key, key }));
+    this.sheets.set(type, sheet);
+  }
+}
@@ -0,0 +1,135 @@
+import { getQueueToken } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassThrough } from 'stream';
+
+import { DailyAggregation } from '../../analytics/schemas/daily-aggregation.schema';
+import { SmartQueryService } from '../../database/services/smart-query.service';
+import { ExportJob } from '../schemas/export-job.schema';
+import { ExportService } from './export.service';
+
+describe('ExportService', () => {
+  let service: ExportService;
+
+  const PARIS = 'Paris, Ile-de-France, France';
+
+  const mockDailyModel = { find: jest.fn() };
+  const mockExportJobModel = { create: jest.fn() };
+  const mockExportQueue = { add: jest.fn() };
+  const mockSmartQueryService = { streamAirQualityData: jest.fn() };
+
+  async function* records(...items: unknown[]) {
+    yield* items;
+  }
+
+  const collect = (output: PassThrough) => {
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    return () => Buffer.concat(chunks).toString('utf8');
+  };
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportService,
+        {
+          provide: getModelToken(DailyAggregation.name),
+          useValue: mockDailyModel,
+        },
+        {
+          provide: getModelToken(ExportJob.name),
+          useValue: mockExportJobModel,
+        },
+        { provide: getQueueToken('export'), useValue: mockExportQueue },
+        { provide: SmartQueryService, useValue: mockSmartQueryService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ExportService>(ExportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  it('should write readings then daily aggregations as one CSV', async () => {
+    mockSmartQueryService.streamAirQualityData.mockReturnValue(
+      records({
+        location: PARIS,
+        timestamp: new Date('2024-08-01T10:00:00Z'),
+        aqi: 42,
+        main_pollutant: 'p2',
+        pollution_level: 'Good',
+        weather: { temperature: 21, humidity: 55 },
+        source: 'iqair',
+      })
+    );
+    mockDailyModel.find.mockReturnValue({
+      sort: () => ({
+        lean: () => ({
+          cursor: () =>
+            records({
+              date: '2024-08-01',
+              city: 'Paris',
+              country: 'France',
+              averageAQI: 40,
+              minAQI: 30,
+              maxAQI: 55,
+              dominantPollutant: 'p2',
+              pollutionLevel: 'Good',
+              totalRecords: 24,
+            }),
+        }),
+      }),
+    });
+    const filters = service.resolveFilters({
+      location: PARIS,
+      startDate: new Date('2024-08-01T00:00:00Z'),
+      endDate: new Date('2024-08-02T00:00:00Z'),
+    });
+    const output = new PassThrough();
+    const read = collect(output);
+
+    const result = await service.writeExport(filters, 'csv', 'all', output);
+
+    expect(result).toEqual({ rows: 2 });
+    expect(read().split('\n')).toEqual([
+      'record_type,timestamp,location,aqi,main_pollutant,pollution_level,temperature,humidity,granularity,aqi_min,aqi_max,sample_count,source,date,city,country,averageAQI,minAQI,maxAQI,dominantPollutant,pollutionLevel,totalRecords',
+      'reading,2024-08-01T10:00:00.000Z,"Paris, Ile-de-France, France",42,p2,Good,21,55,raw,42,42,1,iqair,,,,,,,,,',
+      'daily,,,,,,,,,,,,,2024-08-01,Paris,France,40,30,55,p2,Good,24',
+      '',
+    ]);
+    expect(mockDailyModel.find).toHaveBeenCalledWith({
+      date: { $gte: '2024-08-01', $lte: '2024-08-02' },
+      city: 'Paris',
+      country: 'France',
+    });
+  });
+
+  it('should queue ranges over the sync limit as a background job', async () => {
+    const filters = service.resolveFilters({
+      endDate: new Date('2024-08-05T00:00:00Z'),
+      startDate: new Date('2024-06-01T00:00:00Z'),
+    });
+    mockExportJobModel.create.mockImplementation(async job => job);
+
+    expect(service.isLargeExport(filters)).toBe(true);
+    expect(service.isLargeExport(service.resolveFilters({}))).toBe(false);
+
+    const job = await service.startExportJob(filters, 'xlsx', 'readings');
+
+    expect(job).toMatchObject({
+      format: 'xlsx',
+      include: 'readings',
+      fileName: 'air-quality-2024-06-01-2024-08-05.xlsx',
+    });
+    expect(mockExportQueue.add).toHaveBeenCalledWith('generate-export', {
+      token: job.token,
+    });
+  });
+});
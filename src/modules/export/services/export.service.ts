@@ -0,0 +1,349 @@
+import { InjectQueue } from '@nestjs/bull';
+import {
+  ConflictException,
+  GoneException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Queue } from 'bull';
+import { randomBytes } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { Model } from 'mongoose';
+import { join } from 'path';
+import { Readable, Writable } from 'stream';
+
+import {
+  ExportAirQualityDto,
+  ExportDataset,
+  ExportFormat,
+} from '@/common/dto/export.dto';
+import { parseFilters } from '@/common/filter-query';
+import {
+  DailyAggregation,
+  DailyAggregationDocument,
+} from '../../analytics/schemas/daily-aggregation.schema';
+import { AIR_QUALITY_FILTER_FIELDS } from '../../database/services/air-quality-filters';
+import { SmartQueryService } from '../../database/services/smart-query.service';
+import { ExportJob, ExportJobDocument } from '../schemas/export-job.schema';
+import { EXPORT_CONTENT_TYPES, createExportWriter } from './export-writers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+
+export type ExportFilters = ExportJob['filters'];
+
+export interface ExportResult {
+  rows: number;
+}
+
+export interface ExportDownload {
+  stream: Readable;
+  fileName: string;
+  contentType: string;
+  bytes: number;
+}
+
+/**
+ * Writes readings and daily aggregations as CSV, NDJSON or Excel. Small
+ * ranges stream straight to the client; large ones run on the export queue
+ * and are fetched later with a download token.
+ */
+@Injectable()
+export class ExportService {
+  private readonly logger = new Logger(ExportService.name);
+  private readonly exportPath: string;
+  private readonly syncMaxDays: number;
+  private readonly ttlHours: number;
+
+  constructor(
+    @InjectModel(DailyAggregation.name)
+    private dailyModel: Model<DailyAggregationDocument>,
+    @InjectModel(ExportJob.name)
+    private exportJobModel: Model<ExportJobDocument>,
+    @InjectQueue('export') private exportQueue: Queue,
+    private smartQueryService: SmartQueryService,
+    private configService: ConfigService
+  ) {
+    this.exportPath =
+      this.configService.get<string>('export.path') || './data/exports';
+    this.syncMaxDays =
+      this.configService.get<number>('export.syncMaxDays') || 31;
+    this.ttlHours = this.configService.get<number>('export.ttlHours') || 24;
+  }
+
+  /**
+   * Query filters with the date range filled in. The filter expression is
+   * checked here so a bad one fails the request rather than the stream.
+   */
+  resolveFilters(query: ExportAirQualityDto): ExportFilters {
+    parseFilters(query.filter, AIR_QUALITY_FILTER_FIELDS);
+    const endDate = query.endDate ?? new Date();
+    const startDate =
+      query.startDate ??
+      new Date(endDate.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    return {
+      location: query.location,
+      startDate,
+      endDate,
+      minAqi: query.minAqi,
+      maxAqi: query.maxAqi,
+      pollutant: query.pollutant,
+      pollution_level: query.pollution_level,
+      filter: query.filter,
+    };
+  }
+
+  /**
+   * Whether an export should run as a background job instead of streaming
+   */
+  isLargeExport(filters: ExportFilters, forceAsync = false): boolean {
+    const days =
+      (filters.endDate.getTime() - filters.startDate.getTime()) / DAY_MS;
+    return forceAsync || days > this.syncMaxDays;
+  }
+
+  getFileName(filters: ExportFilters, format: ExportFormat): string {
+    const day = (date: Date) => date.toISOString().slice(0, 10);
+    return `air-quality-${day(filters.startDate)}-${day(filters.endDate)}.${format}`;
+  }
+
+  getContentType(format: ExportFormat): string {
+    return EXPORT_CONTENT_TYPES[format];
+  }
+
+  /**
+   * Stream readings, then daily aggregations, onto `output`, which is ended
+   * when done
+   */
+  async writeExport(
+    filters: ExportFilters,
+    format: ExportFormat,
+    include: ExportDataset,
+    output: Writable
+  ): Promise<ExportResult> {
+    const writer = createExportWriter(format, include, output);
+    let rows = 0;
+
+    if (include !== 'daily') {
+      for await (const record of this.smartQueryService.streamAirQualityData(
+        filters.startDate,
+        filters.endDate,
+        filters
+      )) {
+        await writer.write({
+          type: 'reading',
+          values: {
+            timestamp: new Date(record.timestamp),
+            location: record.location,
+            aqi: record.aqi,
+            main_pollutant: record.main_pollutant,
+            pollution_level: record.pollution_level,
+            temperature: record.weather?.temperature,
+            humidity: record.weather?.humidity,
+            granularity: record.granularity ?? 'raw',
+            aqi_min: record.aqi_stats?.min ?? record.aqi,
+            aqi_max: record.aqi_stats?.max ?? record.aqi,
+            sample_count: record.aqi_stats?.count ?? 1,
+            source: record.source,
+          },
+        });
+        rows++;
+      }
+    }
+
+    if (include !== 'readings') {
+      const cursor = this.dailyModel
+        .find(this.buildDailyQuery(filters))
+        .sort({ date: -1 })
+        .lean()
+        .cursor();
+
+      for await (const daily of cursor) {
+        await writer.write({
+          type: 'daily',
+          values: {
+            date: daily.date,
+            city: daily.city,
+            country: daily.country,
+            averageAQI: daily.averageAQI,
+            minAQI: daily.minAQI,
+            maxAQI: daily.maxAQI,
+            dominantPollutant: daily.dominantPollutant,
+            pollutionLevel: daily.pollutionLevel,
+            totalRecords: daily.totalRecords,
+          },
+        });
+        rows++;
+      }
+    }
+
+    await writer.end();
+    return { rows };
+  }
+
+  /**
+   * Queue a background export and return its job record
+   */
+  async startExportJob(
+    filters: ExportFilters,
+    format: ExportFormat,
+    include: ExportDataset
+  ): Promise<ExportJobDocument> {
+    const job = await this.exportJobModel.create({
+      token: randomBytes(24).toString('base64url'),
+      format,
+      include,
+      filters,
+      fileName: this.getFileName(filters, format),
+      expiresAt: new Date(Date.now() + this.ttlHours * 60 * 60 * 1000),
+    });
+
+    await this.exportQueue.add('generate-export', { token: job.token });
+    this.logger.log(`Queued ${format} export ${job.id}`);
+
+    return job;
+  }
+
+  /**
+   * Run a queued export: write it to a temporary file, then publish it
+   */
+  async runExportJob(token: string): Promise<ExportJobDocument> {
+    const job = await this.exportJobModel.findOne({ token }).exec();
+    if (!job) {
+      throw new NotFoundException('Export job not found');
+    }
+
+    job.status = 'running';
+    job.error = null;
+    await job.save();
+
+    await fs.mkdir(this.exportPath, { recursive: true });
+    const path = join(this.exportPath, `${job.id}.${job.format}`);
+    const tmp = `${path}.tmp`;
+
+    try {
+      const filters = {
+        ...job.filters,
+        startDate: new Date(job.filters.startDate),
+        endDate: new Date(job.filters.endDate),
+      };
+      const { rows } = await this.writeExport(
+        filters,
+        job.format,
+        job.include,
+        createWriteStream(tmp)
+      );
+      await fs.rename(tmp, path);
+
+      job.status = 'completed';
+      job.path = path;
+      job.rows = rows;
+      job.bytes = (await fs.stat(path)).size;
+      job.completedAt = new Date();
+      await job.save();
+
+      this.logger.log(`Export ${job.id} completed with ${rows} rows`);
+      return job;
+    } catch (error) {
+      await fs.rm(tmp, { force: true });
+      job.status = 'failed';
+      job.error = error.message;
+      await job.save();
+      throw error;
+    }
+  }
+
+  async getExportJob(token: string): Promise<ExportJobDocument> {
+    const job = await this.exportJobModel.findOne({ token }).exec();
+    if (!job || job.expiresAt <= new Date()) {
+      throw new NotFoundException('Export job not found or expired');
+    }
+    return job;
+  }
+
+  /**
+   * Open a finished export for download
+   */
+  async openDownload(token: string): Promise<ExportDownload> {
+    const job = await this.getExportJob(token);
+
+    if (job.status !== 'completed' || !job.path) {
+      throw new ConflictException(`Export is ${job.status}`);
+    }
+
+    try {
+      const { size } = await fs.stat(job.path);
+      return {
+        stream: createReadStream(job.path),
+        fileName: job.fileName,
+        contentType: this.getContentType(job.format),
+        bytes: size,
+      };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new GoneException('Export file is no longer available');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Hourly CRON: delete expired export files and their job records
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async removeExpiredExports(): Promise<number> {
+    try {
+      const expired = await this.exportJobModel
+        .find({ expiresAt: { $lte: new Date() } })
+        .exec();
+
+      for (const job of expired) {
+        if (job.path) {
+          await fs.rm(job.path, { force: true });
+        }
+      }
+      await this.exportJobModel.deleteMany({
+        _id: { $in: expired.map(job => job._id) },
+      });
+
+      if (expired.length > 0) {
+        this.logger.log(`Removed ${expired.length} expired exports`);
+      }
+      return expired.length;
+    } catch (error) {
+      this.logger.error('Error removing expired exports:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Daily aggregations are stored per city/country and calendar day
+   */
+  private buildDailyQuery(filters: ExportFilters): Record<string, any> {
+    const query: Record<string, any> = {
+      date: {
+        $gte: filters.startDate.toISOString().slice(0, 10),
+        $lte: filters.endDate.toISOString().slice(0, 10),
+      },
+    };
+
+    if (filters.location) {
+      const parts = filters.location.split(',').map(part => part.trim());
+      query.city = parts[0];
+      query.country = parts[parts.length - 1];
+    }
+    if (filters.pollution_level) {
+      query.pollutionLevel = filters.pollution_level;
+    }
+    if (filters.pollutant) {
+      query.dominantPollutant = filters.pollutant;
+    }
+
+    return query;
+  }
+}
@@ -0,0 +1,51 @@
+import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { GraphQLModule } from '@nestjs/graphql';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { AirQualityModule } from '../air-quality/air-quality.module';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import {
+  DailyAggregation,
+  DailyAggregationSchema,
+} from '../analytics/schemas/daily-aggregation.schema';
+import { DatabaseModule } from '../database/database.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { createDepthLimitRule, createQueryCostPlugin } from './graphql-limits';
+import { GraphqlLoaders } from './loaders/graphql-loaders';
+import { AlertResolver } from './resolvers/alert.resolver';
+import { LocationResolver } from './resolvers/location.resolver';
+
+@Module({
+  imports: [
+    GraphQLModule.forRootAsync<ApolloDriverConfig>({
+      driver: ApolloDriver,
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        autoSchemaFile: true,
+        sortSchema: true,
+        // Served at /api/v1/graphql
+        useGlobalPrefix: true,
+        playground: false,
+        introspection: configService.get('nodeEnv') !== 'production',
+        validationRules: [
+          createDepthLimitRule(configService.get<number>('graphql.maxDepth')),
+        ],
+        plugins: [
+          createQueryCostPlugin(configService.get<number>('graphql.maxCost')),
+        ],
+      }),
+      inject: [ConfigService],
+    }),
+    MongooseModule.forFeature([
+      { name: DailyAggregation.name, schema: DailyAggregationSchema },
+    ]),
+    AirQualityModule,
+    AnalyticsModule,
+    DatabaseModule,
+    NotificationsModule,
+  ],
+  providers: [GraphqlLoaders, LocationResolver, AlertResolver],
+})
+export class GraphqlApiModule {}
@@ -0,0 +1,63 @@
+import { buildSchema, parse, specifiedRules, validate } from 'graphql';
+
+import {
+  calculateQueryCost,
+  createDepthLimitRule,
+  DEFAULT_LIST_SIZE,
+} from './graphql-limits';
+
+const schema = buildSchema(`
+  type Reading {
+    aqi: Float
+  }
+
+  type Location {
+    name: String
+    latest: Reading
+    readings(limit: Int = 24): [Reading!]!
+    neighbours: [Location!]!
+  }
+
+  type Query {
+    locations: [Location!]!
+    location(name: String!): Location
+  }
+`);
+
+function cost(query: string, variables: Record<string, unknown> = {}) {
+  const document = parse(query);
+  const operation = document.definitions[0];
+  if (operation.kind !== 'OperationDefinition') {
+    throw new Error('Expected an operation');
+  }
+  return calculateQueryCost(schema, document, variables, operation);
+}
+
+describe('graphql limits', () => {
+  it('should reject queries nested deeper than the limit', () => {
+    const rules = [...specifiedRules, createDepthLimitRule(3)];
+    const shallow = parse('{ locations { latest { aqi } } }');
+    const deep = parse(`
+      query { ...Deep }
+      fragment Deep on Query { locations { neighbours { latest { aqi } } } }
+    `);
+
+    expect(validate(schema, shallow, rules)).toHaveLength(0);
+    const errors = validate(schema, deep, rules);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].extensions.code).toBe('QUERY_TOO_DEEP');
+  });
+
+  it('should multiply list costs by their size argument', () => {
+    // locations: default size x (1 + latest 1 + readings 24)
+    expect(cost('{ locations { name latest { aqi } readings { aqi } } }')).toBe(
+      DEFAULT_LIST_SIZE * (1 + 1 + 24)
+    );
+    expect(
+      cost(
+        'query ($limit: Int) { location(name: "x") { readings(limit: $limit) { aqi } } }',
+        { limit: 500 }
+      )
+    ).toBe(1 + 500);
+  });
+});
@@ -0,0 +1,241 @@
+import { ApolloServerPlugin } from '@apollo/server';
+import {
+  ArgumentNode,
+  DocumentNode,
+  FragmentDefinitionNode,
+  getNamedType,
+  getNullableType,
+  GraphQLError,
+  GraphQLField,
+  GraphQLSchema,
+  isCompositeType,
+  isListType,
+  isObjectType,
+  isInterfaceType,
+  GraphQLCompositeType,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+  valueFromASTUntyped,
+} from 'graphql';
+
+/** Arguments that bound the length of a list field */
+const LIST_SIZE_ARGUMENTS = ['limit', 'days'];
+
+/** Assumed length of list fields without a size argument */
+export const DEFAULT_LIST_SIZE = 10;
+
+/**
+ * Reject operations nesting fields deeper than `maxDepth`. Introspection
+ * fields are not counted.
+ */
+export function createDepthLimitRule(maxDepth: number): ValidationRule {
+  return (context: ValidationContext) => ({
+    OperationDefinition(operation: OperationDefinitionNode) {
+      const depth = getDepth(operation.selectionSet, context, new Set());
+      if (depth > maxDepth) {
+        context.reportError(
+          new GraphQLError(
+            `Query depth ${depth} exceeds the maximum of ${maxDepth}`,
+            {
+              nodes: [operation],
+              extensions: { code: 'QUERY_TOO_DEEP' },
+            }
+          )
+        );
+      }
+    },
+  });
+}
+
+/**
+ * Reject operations whose estimated cost exceeds `maxCost`. Cost is checked
+ * once variables are known, so list sizes passed as variables count too.
+ */
+export function createQueryCostPlugin(maxCost: number): ApolloServerPlugin {
+  return {
+    async requestDidStart() {
+      return {
+        async didResolveOperation({ schema, document, request, operation }) {
+          const cost = calculateQueryCost(
+            schema,
+            document,
+            request.variables ?? {},
+            operation
+          );
+          if (cost > maxCost) {
+            throw new GraphQLError(
+              `Query cost ${cost} exceeds the maximum of ${maxCost}`,
+              {
+                extensions: {
+                  code: 'QUERY_TOO_COMPLEX',
+                  cost,
+                  maxCost,
+                  http: { status: 400 },
+                },
+              }
+            );
+          }
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Estimated cost of an operation: each object field costs 1, and the cost
+ * of a list field's selection is multiplied by its `limit`/`days` argument,
+ * or `DEFAULT_LIST_SIZE` without one
+ */
+export function calculateQueryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables: Record<string, unknown>,
+  operation: OperationDefinitionNode
+): number {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+
+  const rootType =
+    operation.operation === 'mutation'
+      ? schema.getMutationType()
+      : operation.operation === 'subscription'
+        ? schema.getSubscriptionType()
+        : schema.getQueryType();
+
+  return getCost(operation.selectionSet, rootType, {
+    schema,
+    fragments,
+    variables,
+  });
+}
+
+function getDepth(
+  selectionSet: SelectionSetNode,
+  context: ValidationContext,
+  visited: Set<string>
+): number {
+  let depth = 0;
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith('__')) {
+        continue;
+      }
+      const childDepth = selection.selectionSet
+        ? getDepth(selection.selectionSet, context, visited)
+        : 0;
+      depth = Math.max(depth, 1 + childDepth);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      depth = Math.max(
+        depth,
+        getDepth(selection.selectionSet, context, visited)
+      );
+    } else {
+      const name = selection.name.value;
+      const fragment = context.getFragment(name);
+      // Fragment cycles are reported by the standard rules
+      if (fragment && !visited.has(name)) {
+        depth = Math.max(
+          depth,
+          getDepth(fragment.selectionSet, context, new Set([...visited, name]))
+        );
+      }
+    }
+  }
+
+  return depth;
+}
+
+interface CostContext {
+  schema: GraphQLSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+}
+
+function getCost(
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLCompositeType | null | undefined,
+  context: CostContext,
+  visited: Set<string> = new Set()
+): number {
+  let cost = 0;
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      const name = selection.name.value;
+      if (
+        name.startsWith('__') ||
+        !selection.selectionSet ||
+        !(isObjectType(parentType) || isInterfaceType(parentType))
+      ) {
+        continue;
+      }
+
+      const field = parentType.getFields()[name];
+      const fieldType = field ? getNamedType(field.type) : null;
+      if (!field || !isCompositeType(fieldType)) {
+        continue;
+      }
+
+      const multiplier = isListType(getNullableType(field.type))
+        ? getListSize(field, selection.arguments ?? [], context.variables)
+        : 1;
+      cost +=
+        multiplier *
+        (1 + getCost(selection.selectionSet, fieldType, context, visited));
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const type = selection.typeCondition
+        ? context.schema.getType(selection.typeCondition.name.value)
+        : parentType;
+      cost += getCost(
+        selection.selectionSet,
+        isCompositeType(type) ? type : parentType,
+        context,
+        visited
+      );
+    } else {
+      const name = selection.name.value;
+      const fragment = context.fragments.get(name);
+      if (fragment && !visited.has(name)) {
+        const type = context.schema.getType(fragment.typeCondition.name.value);
+        cost += getCost(
+          fragment.selectionSet,
+          isCompositeType(type) ? type : parentType,
+          context,
+          new Set([...visited, name])
+        );
+      }
+    }
+  }
+
+  return cost;
+}
+
+/**
+ * The size argument as passed, or its schema default when omitted
+ */
+function getListSize(
+  field: GraphQLField<unknown, unknown>,
+  args: readonly ArgumentNode[],
+  variables: Record<string, unknown>
+): number {
+  for (const name of LIST_SIZE_ARGUMENTS) {
+    const argument = args.find(arg => arg.name.value === name);
+    const size = argument
+      ? Number(valueFromASTUntyped(argument.value, variables))
+      : Number(field.args.find(arg => arg.name === name)?.defaultValue);
+
+    if (Number.isFinite(size) && size > 0) {
+      return size;
+    }
+  }
+
+  return DEFAULT_LIST_SIZE;
+}
@@ -0,0 +1,151 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import DataLoader from 'dataloader';
+import { Model } from 'mongoose';
+
+import {
+  DailyAggregation,
+  DailyAggregationDocument,
+} from '../../analytics/schemas/daily-aggregation.schema';
+import { AnalyticsService } from '../../analytics/services/analytics.service';
+import { AirQualityDataService } from '../../database/services/air-quality-data.service';
+import {
+  DailyAggregationModel,
+  PollutionPattern,
+  Trend,
+} from '../models/analytics.model';
+import { Reading, toReading } from '../models/reading.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CityRangeKey {
+  city: string;
+  country: string;
+  days: number;
+}
+
+export interface CityPeriodKey {
+  city: string;
+  country: string;
+  period: 'weekly' | 'monthly';
+}
+
+/**
+ * Loaders for one GraphQL request. Fields resolved per location go through
+ * these so a list of N locations costs one query per field, not N.
+ */
+export interface RequestLoaders {
+  latestReading: DataLoader<string, Reading | null>;
+  dailyAggregations: DataLoader<CityRangeKey, DailyAggregationModel[], string>;
+  trends: DataLoader<CityRangeKey, Trend[], string>;
+  pollutionPatterns: DataLoader<CityPeriodKey, PollutionPattern[], string>;
+}
+
+@Injectable()
+export class GraphqlLoaders {
+  private readonly loaders = new WeakMap<object, RequestLoaders>();
+
+  constructor(
+    @InjectModel(DailyAggregation.name)
+    private dailyModel: Model<DailyAggregationDocument>,
+    private airQualityDataService: AirQualityDataService,
+    private analyticsService: AnalyticsService
+  ) {}
+
+  /**
+   * Loaders of the request `context` belongs to, created on first use
+   */
+  for(context: object): RequestLoaders {
+    let loaders = this.loaders.get(context);
+    if (!loaders) {
+      loaders = this.create();
+      this.loaders.set(context, loaders);
+    }
+    return loaders;
+  }
+
+  private create(): RequestLoaders {
+    const cacheKeyFn = (key: object) => JSON.stringify(key);
+
+    return {
+      latestReading: new DataLoader(locations =>
+        this.loadLatestReadings(locations)
+      ),
+      dailyAggregations: new DataLoader<
+        CityRangeKey,
+        DailyAggregationModel[],
+        string
+      >(keys => this.loadDailyAggregations(keys), { cacheKeyFn }),
+      // The analytics service caches per city; the loader dedupes within
+      // a request
+      trends: new DataLoader<CityRangeKey, Trend[], string>(
+        keys =>
+          Promise.all(
+            keys.map(({ city, country, days }) =>
+              this.analyticsService.getHistoricalTrends(city, country, days)
+            )
+          ),
+        { cacheKeyFn }
+      ),
+      pollutionPatterns: new DataLoader<
+        CityPeriodKey,
+        PollutionPattern[],
+        string
+      >(
+        keys =>
+          Promise.all(
+            keys.map(({ city, country, period }) =>
+              this.analyticsService.getPollutionPatterns(city, country, period)
+            )
+          ),
+        { cacheKeyFn }
+      ),
+    };
+  }
+
+  private async loadLatestReadings(
+    locations: readonly string[]
+  ): Promise<(Reading | null)[]> {
+    const latest = await this.airQualityDataService.findLatestPerLocation({
+      locations: [...locations],
+    });
+    const byLocation = new Map(
+      latest.map(reading => [reading.location, toReading(reading)])
+    );
+
+    return locations.map(location => byLocation.get(location) ?? null);
+  }
+
+  /**
+   * One query for every requested city; each key gets the days of its own
+   * range, newest first
+   */
+  private async loadDailyAggregations(
+    keys: readonly CityRangeKey[]
+  ): Promise<DailyAggregationModel[][]> {
+    const now = Date.now();
+    const since = (days: number) =>
+      new Date(now - days * DAY_MS).toISOString().slice(0, 10);
+
+    const aggregations = await this.dailyModel
+      .find({
+        $or: keys.map(({ city, country, days }) => ({
+          city,
+          country,
+          date: { $gte: since(days) },
+        })),
+      })
+      .sort({ date: -1 })
+      .lean()
+      .exec();
+
+    return keys.map(({ city, country, days }) =>
+      aggregations.filter(
+        daily =>
+          daily.city === city &&
+          daily.country === country &&
+          daily.date >= since(days)
+      )
+    );
+  }
+}
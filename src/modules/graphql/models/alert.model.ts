@@ -0,0 +1,37 @@
+import { Field, ID, ObjectType } from '@nestjs/graphql';
+
+@ObjectType({ description: 'A triggered alert' })
+export class Alert {
+  @Field(() => ID)
+  id: string;
+
+  @Field()
+  type: string;
+
+  @Field()
+  severity: string;
+
+  @Field()
+  message: string;
+
+  @Field()
+  timestamp: Date;
+
+  @Field()
+  acknowledged: boolean;
+
+  @Field({ nullable: true })
+  acknowledgedBy?: string;
+
+  @Field({ nullable: true })
+  acknowledgedAt?: Date;
+
+  @Field()
+  escalated: boolean;
+
+  @Field({ nullable: true })
+  escalatedAt?: Date;
+
+  @Field()
+  emailSent: boolean;
+}
@@ -0,0 +1,102 @@
+import { Field, Float, Int, ObjectType } from '@nestjs/graphql';
+
+@ObjectType('DailyAggregation', {
+  description: 'Stored daily aggregation of a city',
+})
+export class DailyAggregationModel {
+  @Field({ description: 'YYYY-MM-DD' })
+  date: string;
+
+  @Field()
+  city: string;
+
+  @Field()
+  country: string;
+
+  @Field(() => Float)
+  averageAQI: number;
+
+  @Field(() => Float)
+  minAQI: number;
+
+  @Field(() => Float)
+  maxAQI: number;
+
+  @Field()
+  dominantPollutant: string;
+
+  @Field()
+  pollutionLevel: string;
+
+  @Field(() => Int)
+  totalRecords: number;
+}
+
+@ObjectType({ description: 'One interval of a location time series' })
+export class TimeSeriesPoint {
+  @Field()
+  timestamp: string;
+
+  @Field(() => Float)
+  avgAqi: number;
+
+  @Field(() => Float)
+  minAqi: number;
+
+  @Field(() => Float)
+  maxAqi: number;
+
+  @Field(() => Float, { nullable: true })
+  avgTemperature?: number;
+
+  @Field(() => Float, { nullable: true })
+  avgHumidity?: number;
+
+  @Field(() => Int)
+  recordCount: number;
+
+  @Field({ nullable: true })
+  dominantPollutant?: string;
+
+  @Field({ nullable: true })
+  pollutionLevel?: string;
+}
+
+@ObjectType({ description: 'Daily AQI trend point' })
+export class Trend {
+  @Field()
+  date: string;
+
+  @Field(() => Float)
+  averageAQI: number;
+
+  @Field(() => Float)
+  minAQI: number;
+
+  @Field(() => Float)
+  maxAQI: number;
+
+  @Field()
+  dominantPollutant: string;
+
+  @Field(() => Int)
+  recordCount: number;
+}
+
+@ObjectType({ description: 'Average AQI of a recurring time slot' })
+export class PollutionPattern {
+  @Field()
+  timeSlot: string;
+
+  @Field(() => Float)
+  averageAQI: number;
+
+  @Field(() => Int)
+  frequency: number;
+
+  @Field()
+  dominantPollutant: string;
+
+  @Field()
+  pollutionLevel: string;
+}
@@ -0,0 +1,28 @@
+import { Field, Float, ObjectType } from '@nestjs/graphql';
+
+@ObjectType({
+  description:
+    'A monitored location; readings and analytics are resolved on demand',
+})
+export class Location {
+  @Field({ description: 'Location label, "City, State, Country"' })
+  name: string;
+
+  @Field()
+  city: string;
+
+  @Field()
+  state: string;
+
+  @Field()
+  country: string;
+
+  @Field(() => Float, { nullable: true })
+  latitude?: number;
+
+  @Field(() => Float, { nullable: true })
+  longitude?: number;
+
+  @Field({ description: 'Whether the location is in the tracked registry' })
+  tracked: boolean;
+}
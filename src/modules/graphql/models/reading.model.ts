@@ -0,0 +1,70 @@
+import { Field, Float, ID, ObjectType } from '@nestjs/graphql';
+
+import { AqiStats } from '@/common/types';
+import { AirQualityReading } from '../../database/services/air-quality-data.service';
+
+@ObjectType({ description: 'A stored reading from any storage tier' })
+export class Reading {
+  @Field(() => ID)
+  id: string;
+
+  @Field({ description: 'Location label, "City, State, Country"' })
+  location: string;
+
+  @Field()
+  timestamp: Date;
+
+  @Field(() => Float)
+  aqi: number;
+
+  @Field({ nullable: true })
+  mainPollutant?: string;
+
+  @Field({ nullable: true })
+  pollutionLevel?: string;
+
+  @Field(() => Float, { nullable: true })
+  temperature?: number;
+
+  @Field(() => Float, { nullable: true })
+  humidity?: number;
+
+  @Field({ description: 'raw, hourly or daily' })
+  granularity: string;
+
+  @Field(() => Float)
+  aqiMin: number;
+
+  @Field(() => Float)
+  aqiMax: number;
+
+  @Field(() => Float, { description: 'Raw readings this one stands for' })
+  sampleCount: number;
+
+  @Field({ nullable: true })
+  source?: string;
+}
+
+/** Fields read from a tier record or a unified-data-layer reading */
+type ReadingSource = Partial<AirQualityReading> & { aqi_stats?: AqiStats };
+
+/**
+ * Map a tier record or a unified-data-layer reading to the GraphQL shape
+ */
+export function toReading(record: ReadingSource): Reading {
+  return {
+    id: String(record._id ?? `${record.location}|${record.timestamp}`),
+    location: record.location,
+    timestamp: new Date(record.timestamp),
+    aqi: record.aqi,
+    mainPollutant: record.main_pollutant,
+    pollutionLevel: record.pollution_level,
+    temperature: record.weather?.temperature,
+    humidity: record.weather?.humidity,
+    granularity: record.granularity ?? 'raw',
+    aqiMin: record.aqi_min ?? record.aqi_stats?.min ?? record.aqi,
+    aqiMax: record.aqi_max ?? record.aqi_stats?.max ?? record.aqi,
+    sampleCount: record.sample_count ?? record.aqi_stats?.count ?? 1,
+    source: record.source,
+  };
+}
@@ -0,0 +1,45 @@
+import { BadRequestException } from '@nestjs/common';
+import { Args, Int, Query, Resolver } from '@nestjs/graphql';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { AlertService } from '../../notifications/services/alert.service';
+import { Alert } from '../models/alert.model';
+
+const MAX_ALERTS = 500;
+
+@RequireRole('reader')
+@Resolver(() => Alert)
+export class AlertResolver {
+  constructor(private readonly alertService: AlertService) {}
+
+  @Query(() => [Alert], {
+    description: 'Alert history, newest first unless sorted otherwise',
+  })
+  async alerts(
+    @Args('limit', { type: () => Int, defaultValue: 50 }) limit: number,
+    @Args('activeOnly', {
+      defaultValue: false,
+      description: 'Only unacknowledged alerts',
+    })
+    activeOnly: boolean,
+    @Args('filter', {
+      nullable: true,
+      description: 'Filter expression, e.g. severity:in:high,critical',
+    })
+    filter?: string,
+    @Args('sort', { nullable: true, description: 'e.g. type,-timestamp' })
+    sort?: string
+  ): Promise<Alert[]> {
+    if (limit < 1 || limit > MAX_ALERTS) {
+      throw new BadRequestException(
+        `limit must be between 1 and ${MAX_ALERTS}`
+      );
+    }
+
+    return this.alertService.getAlertHistory(
+      activeOnly ? { acknowledged: false } : undefined,
+      limit,
+      { filter, sort }
+    );
+  }
+}
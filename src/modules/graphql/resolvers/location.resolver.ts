@@ -0,0 +1,199 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  Args,
+  Context,
+  Int,
+  Parent,
+  Query,
+  ResolveField,
+  Resolver,
+} from '@nestjs/graphql';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { TrackedLocationService } from '../../air-quality/services/tracked-location.service';
+import { SmartQueryService } from '../../database/services/smart-query.service';
+import { GraphqlLoaders } from '../loaders/graphql-loaders';
+import {
+  DailyAggregationModel,
+  PollutionPattern,
+  TimeSeriesPoint,
+  Trend,
+} from '../models/analytics.model';
+import { Location } from '../models/location.model';
+import { Reading, toReading } from '../models/reading.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_READINGS = 1000;
+const MAX_DAYS = 365;
+
+@RequireRole('reader')
+@Resolver(() => Location)
+export class LocationResolver {
+  constructor(
+    private readonly trackedLocationService: TrackedLocationService,
+    private readonly smartQueryService: SmartQueryService,
+    private readonly loaders: GraphqlLoaders
+  ) {}
+
+  @Query(() => [Location], { description: 'Locations in the registry' })
+  async locations(
+    @Args('enabledOnly', { defaultValue: true }) enabledOnly: boolean
+  ): Promise<Location[]> {
+    const tracked = await this.trackedLocationService.findAll(
+      enabledOnly ? { enabled: true } : {}
+    );
+
+    return tracked.map(location => ({
+      name: this.trackedLocationService.toLocationLabel(location),
+      city: location.city,
+      state: location.state,
+      country: location.country,
+      latitude: location.coordinates.latitude,
+      longitude: location.coordinates.longitude,
+      tracked: true,
+    }));
+  }
+
+  @Query(() => Location, {
+    nullable: true,
+    description: 'A location by label, whether tracked or not',
+  })
+  async location(@Args('name') name: string): Promise<Location | null> {
+    const parts = name.split(',').map(part => part.trim());
+    if (parts.length !== 3 || parts.some(part => part === '')) {
+      throw new BadRequestException(
+        'Location name must be "City, State, Country"'
+      );
+    }
+
+    const [city, state, country] = parts;
+    const tracked = (await this.trackedLocationService.findAll()).find(
+      location =>
+        location.city === city &&
+        location.state === state &&
+        location.country === country
+    );
+
+    return {
+      name: `${city}, ${state}, ${country}`,
+      city,
+      state,
+      country,
+      latitude: tracked?.coordinates.latitude,
+      longitude: tracked?.coordinates.longitude,
+      tracked: !!tracked,
+    };
+  }
+
+  @ResolveField(() => Reading, { nullable: true })
+  latest(
+    @Parent() location: Location,
+    @Context() context: object
+  ): Promise<Reading | null> {
+    return this.loaders.for(context).latestReading.load(location.name);
+  }
+
+  @ResolveField(() => [Reading], {
+    description: 'Readings from every tier, newest first',
+  })
+  async readings(
+    @Parent() location: Location,
+    @Args('days', { type: () => Int, defaultValue: 1 }) days: number,
+    @Args('limit', { type: () => Int, defaultValue: 24 }) limit: number,
+    @Args('filter', {
+      nullable: true,
+      description: 'Filter expression, e.g. aqi:gte:100',
+    })
+    filter?: string
+  ): Promise<Reading[]> {
+    this.assertRange('limit', limit, MAX_READINGS);
+    this.assertRange('days', days, MAX_DAYS);
+
+    const endDate = new Date();
+    const result = await this.smartQueryService.getAirQualityData(
+      new Date(endDate.getTime() - days * DAY_MS),
+      endDate,
+      { location: location.name, limit, filter }
+    );
+    return result.data.map(toReading);
+  }
+
+  @ResolveField(() => [TimeSeriesPoint])
+  async timeSeries(
+    @Parent() location: Location,
+    @Args('days', { type: () => Int, defaultValue: 7 }) days: number,
+    @Args('interval', { defaultValue: 'daily' }) interval: string
+  ): Promise<TimeSeriesPoint[]> {
+    this.assertRange('days', days, MAX_DAYS);
+    if (!['hourly', 'daily', 'weekly'].includes(interval)) {
+      throw new BadRequestException('interval must be hourly, daily or weekly');
+    }
+
+    const endDate = new Date();
+    const result = await this.smartQueryService.getTimeSeriesData(
+      location.name,
+      new Date(endDate.getTime() - days * DAY_MS),
+      endDate,
+      interval as 'hourly' | 'daily' | 'weekly'
+    );
+
+    return result.data.map(point => ({
+      timestamp: point.timestamp,
+      avgAqi: point.avg_aqi,
+      minAqi: point.min_aqi,
+      maxAqi: point.max_aqi,
+      avgTemperature: point.avg_temperature,
+      avgHumidity: point.avg_humidity,
+      recordCount: point.record_count,
+      dominantPollutant: point.dominant_pollutant,
+      pollutionLevel: point.pollution_level,
+    }));
+  }
+
+  @ResolveField(() => [DailyAggregationModel], {
+    description: 'Stored daily aggregations of the city, newest first',
+  })
+  dailyAggregations(
+    @Parent() location: Location,
+    @Args('days', { type: () => Int, defaultValue: 7 }) days: number,
+    @Context() context: object
+  ): Promise<DailyAggregationModel[]> {
+    this.assertRange('days', days, MAX_DAYS);
+    const { city, country } = location;
+    return this.loaders
+      .for(context)
+      .dailyAggregations.load({ city, country, days });
+  }
+
+  @ResolveField(() => [Trend])
+  trends(
+    @Parent() location: Location,
+    @Args('days', { type: () => Int, defaultValue: 30 }) days: number,
+    @Context() context: object
+  ): Promise<Trend[]> {
+    this.assertRange('days', days, MAX_DAYS);
+    const { city, country } = location;
+    return this.loaders.for(context).trends.load({ city, country, days });
+  }
+
+  @ResolveField(() => [PollutionPattern])
+  pollutionPatterns(
+    @Parent() location: Location,
+    @Args('period', { defaultValue: 'weekly' }) period: string,
+    @Context() context: object
+  ): Promise<PollutionPattern[]> {
+    if (period !== 'weekly' && period !== 'monthly') {
+      throw new BadRequestException('period must be weekly or monthly');
+    }
+    const { city, country } = location;
+    return this.loaders
+      .for(context)
+      .pollutionPatterns.load({ city, country, period });
+  }
+
+  private assertRange(name: string, value: number, max: number): void {
+    if (value < 1 || value > max) {
+      throw new BadRequestException(`${name} must be between 1 and ${max}`);
+    }
+  }
+}
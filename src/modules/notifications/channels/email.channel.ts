@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+
+import { AlertHistory } from '../services/alert.service';
+import { EmailService } from '../services/email.service';
+import {
+  ChannelDelivery,
+  NotificationChannelPlugin,
+} from './notification-channel.interface';
+
+/**
+ * Emails the alert to its recipients using the template of its type
+ */
+@Injectable()
+export class EmailChannel implements NotificationChannelPlugin {
+  readonly name = 'email' as const;
+
+  constructor(private readonly emailService: EmailService) {}
+
+  async send(alert: AlertHistory): Promise<ChannelDelivery> {
+    if (alert.recipients.length === 0) {
+      return {
+        channel: this.name,
+        status: 'skipped',
+        detail: 'No recipients configured',
+        timestamp: new Date(),
+      };
+    }
+
+    const template = this.emailService.generateEmailTemplate(alert.type, {
+      ...alert.data,
+      alertId: alert.id,
+      severity: alert.severity,
+      timestamp: alert.timestamp,
+    });
+
+    const delivery = await this.emailService.sendEmail(
+      alert.recipients.join(', '),
+      template.subject,
+      template.html,
+      template.text,
+      alert.type
+    );
+
+    return {
+      channel: this.name,
+      status: 'sent',
+      deliveryId: delivery.id,
+      timestamp: new Date(),
+    };
+  }
+}
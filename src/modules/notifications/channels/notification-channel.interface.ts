@@ -0,0 +1,32 @@
+import { NotificationChannel } from '@/common/types';
+import { AlertHistory } from '../services/alert.service';
+
+/**
+ * Injection token for the list of registered channels
+ */
+export const NOTIFICATION_CHANNELS = 'NOTIFICATION_CHANNELS';
+
+export type ChannelDeliveryStatus = 'sent' | 'queued' | 'skipped' | 'failed';
+
+/**
+ * Outcome of sending one alert over one channel
+ */
+export interface ChannelDelivery {
+  channel: NotificationChannel;
+  status: ChannelDeliveryStatus;
+  /** Channel-specific reference, e.g. the email delivery ID */
+  deliveryId?: string;
+  detail?: string;
+  error?: string;
+  timestamp: Date;
+}
+
+/**
+ * A way of delivering alerts. Implementations report what happened rather
+ * than throwing; the dispatcher records a throw as a failed delivery.
+ */
+export interface NotificationChannelPlugin {
+  readonly name: NotificationChannel;
+
+  send(alert: AlertHistory): Promise<ChannelDelivery>;
+}
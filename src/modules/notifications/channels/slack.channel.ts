@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import { AlertHistory } from '../services/alert.service';
+import {
+  ChannelDelivery,
+  NotificationChannelPlugin,
+} from './notification-channel.interface';
+
+const SEVERITY_COLORS = {
+  low: '#36a64f',
+  medium: '#f2c744',
+  high: '#ff8c00',
+  critical: '#d00000',
+};
+
+/**
+ * Slack incoming-webhook message for an alert; also accepted by
+ * Slack-compatible receivers such as Mattermost
+ */
+export function buildSlackMessage(alert: AlertHistory): Record<string, any> {
+  const fields = [
+    { type: 'mrkdwn', text: `*Severity*\n${alert.severity}` },
+    { type: 'mrkdwn', text: `*Type*\n${alert.type}` },
+  ];
+  const location = alert.data?.location ?? alert.data?.city;
+  if (location) {
+    fields.push({ type: 'mrkdwn', text: `*Location*\n${location}` });
+  }
+  if (typeof alert.data?.aqi === 'number') {
+    fields.push({ type: 'mrkdwn', text: `*AQI*\n${alert.data.aqi}` });
+  }
+
+  return {
+    text: `[${alert.severity.toUpperCase()}] ${alert.message}`,
+    attachments: [
+      {
+        color: SEVERITY_COLORS[alert.severity],
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: `*${alert.message}*` },
+          },
+          { type: 'section', fields },
+          {
+            type: 'context',
+            elements: [
+              {
+                type: 'mrkdwn',
+                text: `Alert ${alert.id} at ${new Date(alert.timestamp).toISOString()}`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Posts alerts to a Slack incoming webhook
+ */
+@Injectable()
+export class SlackChannel implements NotificationChannelPlugin {
+  readonly name = 'slack' as const;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(alert: AlertHistory): Promise<ChannelDelivery> {
+    const webhookUrl = this.configService.get<string>(
+      'notificationChannels.slack.webhookUrl'
+    );
+    if (!webhookUrl) {
+      return {
+        channel: this.name,
+        status: 'skipped',
+        detail: 'SLACK_WEBHOOK_URL is not set',
+        timestamp: new Date(),
+      };
+    }
+
+    await axios.post(webhookUrl, buildSlackMessage(alert), {
+      timeout: 10000,
+    });
+
+    return { channel: this.name, status: 'sent', timestamp: new Date() };
+  }
+}
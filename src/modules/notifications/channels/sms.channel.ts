@@ -0,0 +1,64 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+import { AlertHistory } from '../services/alert.service';
+import {
+  ChannelDelivery,
+  NotificationChannelPlugin,
+} from './notification-channel.interface';
+
+const SMS_MAX_LENGTH = 160;
+
+/**
+ * Stand-in for an SMS gateway: appends each message it would send to a
+ * local NDJSON file instead
+ */
+@Injectable()
+export class SmsChannel implements NotificationChannelPlugin {
+  readonly name = 'sms' as const;
+  private readonly logger = new Logger(SmsChannel.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(alert: AlertHistory): Promise<ChannelDelivery> {
+    const recipients =
+      this.configService.get<string[]>('notificationChannels.sms.recipients') ||
+      [];
+    if (recipients.length === 0) {
+      return {
+        channel: this.name,
+        status: 'skipped',
+        detail: 'SMS_RECIPIENTS is not set',
+        timestamp: new Date(),
+      };
+    }
+
+    const logPath =
+      this.configService.get<string>('notificationChannels.sms.logPath') ||
+      './data/sms.log';
+    const body = `[AQI ${alert.severity.toUpperCase()}] ${alert.message}`.slice(
+      0,
+      SMS_MAX_LENGTH
+    );
+    const timestamp = new Date();
+
+    await fs.mkdir(dirname(logPath), { recursive: true });
+    await fs.appendFile(
+      logPath,
+      JSON.stringify({ timestamp, alertId: alert.id, to: recipients, body }) +
+        '\n'
+    );
+    this.logger.log(
+      `Logged SMS for ${alert.id} to ${recipients.length} recipient(s)`
+    );
+
+    return {
+      channel: this.name,
+      status: 'sent',
+      detail: `Written to ${logPath}`,
+      timestamp,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+
+import { AlertHistory } from '../services/alert.service';
+import { SubscriberService } from '../services/subscriber.service';
+import {
+  ChannelDelivery,
+  NotificationChannelPlugin,
+} from './notification-channel.interface';
+
+/**
+ * Fans pollution alerts out to public subscribers of their location
+ */
+@Injectable()
+export class SubscriberChannel implements NotificationChannelPlugin {
+  readonly name = 'subscribers' as const;
+
+  constructor(private readonly subscriberService: SubscriberService) {}
+
+  async send(alert: AlertHistory): Promise<ChannelDelivery> {
+    const { sent, queued } = await this.subscriberService.notifyAlert(alert);
+
+    return {
+      channel: this.name,
+      status: sent + queued > 0 ? 'sent' : 'skipped',
+      detail: `${sent} sent, ${queued} queued for digests`,
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+
+import { AlertHistory } from '../services/alert.service';
+import { WebhookService } from '../services/webhook.service';
+import {
+  ChannelDelivery,
+  NotificationChannelPlugin,
+} from './notification-channel.interface';
+
+/**
+ * Queues signed deliveries to every matching webhook subscription
+ */
+@Injectable()
+export class WebhookChannel implements NotificationChannelPlugin {
+  readonly name = 'webhook' as const;
+
+  constructor(private readonly webhookService: WebhookService) {}
+
+  async send(alert: AlertHistory): Promise<ChannelDelivery> {
+    const queued = await this.webhookService.dispatchAlert(alert);
+
+    return {
+      channel: this.name,
+      status: queued > 0 ? 'queued' : 'skipped',
+      detail:
+        queued > 0
+          ? `Queued for ${queued} subscription(s)`
+          : 'No matching subscriptions',
+      timestamp: new Date(),
+    };
+  }
+}
@@ -17,6 +17,8 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 
+import { AuditState, AuditTrail } from '@/common/decorators/audit.decorator';
+import { Public, RequireRole } from '@/common/decorators/auth.decorator';
 import {
   EmailService,
   AlertType,
@@ -53,6 +55,7 @@ export class SendEmailDto {
 }
 
 @ApiTags('notifications')
+@RequireRole('reader')
 @Controller('notifications')
 export class NotificationsController {
   private readonly logger = new Logger(NotificationsController.name);
@@ -86,16 +89,31 @@ export class NotificationsController {
     required: false,
     description: 'Number of alerts to return',
   })
+  @ApiQuery({
+    name: 'filter',
+    required: false,
+    description:
+      'Filter expression, e.g. severity:in:high,critical;acknowledged:eq:false',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      'Sort fields, prefix with - for descending, e.g. type,-timestamp',
+  })
   @ApiResponse({
     status: 200,
     description: 'Alert history retrieved successfully',
   })
+  @ApiResponse({ status: 400, description: 'Invalid filter or sort' })
   async getAlertHistory(
     @Query('type') type?: AlertType,
     @Query('severity') severity?: string,
     @Query('acknowledged') acknowledged?: boolean,
     @Query('escalated') escalated?: boolean,
-    @Query('limit') limit?: number
+    @Query('limit') limit?: number,
+    @Query('filter') filter?: string,
+    @Query('sort') sort?: string
   ): Promise<AlertHistory[]> {
     this.logger.log('Fetching alert history with filters');
 
@@ -106,7 +124,10 @@ export class NotificationsController {
       escalated,
     };
 
-    return this.alertService.getAlertHistory(filters, limit || 100);
+    return this.alertService.getAlertHistory(filters, limit || 100, {
+      filter,
+      sort,
+    });
   }
 
   @Get('alerts/active')
@@ -148,11 +169,11 @@ export class NotificationsController {
   ): Promise<AlertHistory | null> {
     this.logger.log(`Fetching alert: ${alertId}`);
 
-    const alerts = await this.alertService.getAlertHistory();
-    return alerts.find(alert => alert.id === alertId) || null;
+    return this.alertService.getAlert(alertId);
   }
 
   @Put('alerts/:alertId/acknowledge')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Acknowledge an alert' })
   @ApiParam({ name: 'alertId', description: 'Alert ID' })
   @ApiResponse({ status: 200, description: 'Alert acknowledged successfully' })
@@ -181,22 +202,27 @@ export class NotificationsController {
   }
 
   @Put('alerts/thresholds')
+  @RequireRole('admin')
   @ApiOperation({ summary: 'Update alert thresholds' })
   @ApiResponse({
     status: 200,
     description: 'Alert thresholds updated successfully',
   })
   async updateAlertThresholds(
-    @Body() thresholdsDto: UpdateThresholdsDto
+    @Body() thresholdsDto: UpdateThresholdsDto,
+    @AuditTrail() audit: AuditState
   ): Promise<{ message: string }> {
     this.logger.log('Updating alert thresholds:', thresholdsDto);
 
+    audit.before = this.alertService.getAlertThresholds();
     await this.alertService.updateAlertThresholds(thresholdsDto);
+    audit.after = this.alertService.getAlertThresholds();
 
     return { message: 'Alert thresholds updated successfully' };
   }
 
   @Delete('alerts/clear')
+  @RequireRole('admin')
   @ApiOperation({ summary: 'Clear old alerts' })
   @ApiQuery({
     name: 'days',
@@ -218,6 +244,7 @@ export class NotificationsController {
   }
 
   @Post('email/send')
+  @RequireRole('admin')
   @ApiOperation({ summary: 'Send email notification' })
   @ApiResponse({ status: 200, description: 'Email sent successfully' })
   async sendEmail(@Body() sendEmailDto: SendEmailDto): Promise<EmailDelivery> {
@@ -233,6 +260,7 @@ export class NotificationsController {
   }
 
   @Get('email/delivery/:deliveryId')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Get email delivery status' })
   @ApiParam({ name: 'deliveryId', description: 'Email delivery ID' })
   @ApiResponse({
@@ -247,6 +275,7 @@ export class NotificationsController {
   }
 
   @Get('email/stats')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Get email delivery statistics' })
   @ApiResponse({
     status: 200,
@@ -264,6 +293,7 @@ export class NotificationsController {
   }
 
   @Post('alerts/trigger')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Manually trigger alerts for testing' })
   @ApiResponse({ status: 200, description: 'Alerts triggered successfully' })
   async triggerAlerts(@Body() data: any): Promise<AlertHistory[]> {
@@ -272,6 +302,7 @@ export class NotificationsController {
   }
 
   @Post('alerts/pollution')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Send pollution alert' })
   @ApiResponse({
     status: 200,
@@ -298,6 +329,7 @@ export class NotificationsController {
   }
 
   @Post('alerts/daily-summary')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Send daily summary alert' })
   @ApiResponse({ status: 200, description: 'Daily summary sent successfully' })
   async sendDailySummary(
@@ -318,6 +350,7 @@ export class NotificationsController {
   }
 
   @Post('alerts/weekly-report')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Send weekly report alert' })
   @ApiResponse({ status: 200, description: 'Weekly report sent successfully' })
   async sendWeeklyReport(
@@ -341,6 +374,7 @@ export class NotificationsController {
   }
 
   @Post('alerts/system-health')
+  @RequireRole('operator')
   @ApiOperation({ summary: 'Send system health alert' })
   @ApiResponse({
     status: 200,
@@ -361,6 +395,7 @@ export class NotificationsController {
   }
 
   @Get('health')
+  @Public()
   @ApiOperation({ summary: 'Get notifications service health status' })
   @ApiResponse({
     status: 200,
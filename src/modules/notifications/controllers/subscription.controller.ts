@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Logger,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { Public } from '@/common/decorators/auth.decorator';
+import {
+  CreateSubscriptionDto,
+  SubscriptionTokenDto,
+} from '@/common/dto/subscription.dto';
+import { SubscriberPreferences } from '../schemas/alert-subscriber.schema';
+import { SubscriberService } from '../services/subscriber.service';
+
+@ApiTags('subscriptions')
+@Public()
+@Controller('subscriptions')
+export class SubscriptionController {
+  private readonly logger = new Logger(SubscriptionController.name);
+
+  constructor(private readonly subscriberService: SubscriberService) {}
+
+  @Post()
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Subscribe to pollution alerts by email',
+    description:
+      'Sends a confirmation link; alerts start once it is opened. Also used to change the preferences of an existing subscription.',
+  })
+  @ApiResponse({ status: 202, description: 'Confirmation email sent' })
+  async subscribe(
+    @Body() dto: CreateSubscriptionDto
+  ): Promise<{ message: string }> {
+    await this.subscriberService.subscribe(dto);
+    // Same answer whether or not the address is known
+    return { message: 'Check your inbox to confirm your subscription' };
+  }
+
+  @Get('confirm')
+  @ApiOperation({ summary: 'Confirm a subscription from the email link' })
+  @ApiResponse({ status: 404, description: 'Link is invalid or expired' })
+  async confirm(@Query() query: SubscriptionTokenDto): Promise<{
+    message: string;
+    subscription: SubscriberPreferences;
+  }> {
+    const subscription = await this.subscriberService.confirm(query.token);
+    return { message: 'Subscription confirmed', subscription };
+  }
+
+  @Get('unsubscribe')
+  @ApiOperation({ summary: 'Unsubscribe from the email link' })
+  async unsubscribe(
+    @Query() query: SubscriptionTokenDto
+  ): Promise<{ message: string }> {
+    await this.subscriberService.unsubscribe(query.token);
+    return { message: 'You have been unsubscribed' };
+  }
+
+  @Post('unsubscribe')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'One-click unsubscribe (RFC 8058 List-Unsubscribe-Post)',
+  })
+  async unsubscribeOneClick(
+    @Query() query: SubscriptionTokenDto
+  ): Promise<{ message: string }> {
+    this.logger.debug('One-click unsubscribe request');
+    await this.subscriberService.unsubscribe(query.token);
+    return { message: 'You have been unsubscribed' };
+  }
+}
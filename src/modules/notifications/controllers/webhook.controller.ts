@@ -0,0 +1,120 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from '@/common/dto/webhook.dto';
+import { WebhookDeliveryDocument } from '../schemas/webhook-delivery.schema';
+import { WebhookSubscriptionDocument } from '../schemas/webhook-subscription.schema';
+import { WebhookService } from '../services/webhook.service';
+
+@ApiTags('webhooks')
+@RequireRole('admin')
+@Controller('webhooks')
+export class WebhookController {
+  private readonly logger = new Logger(WebhookController.name);
+
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a webhook subscription',
+    description:
+      'The response contains the signing secret; it is not returned again.',
+  })
+  @ApiResponse({ status: 201, description: 'Webhook created' })
+  async create(@Body() dto: CreateWebhookDto) {
+    this.logger.log(`Creating webhook for ${dto.url}`);
+    return this.webhookService.create(dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List webhook subscriptions' })
+  async findAll(): Promise<WebhookSubscriptionDocument[]> {
+    return this.webhookService.findAll();
+  }
+
+  @Get('deliveries')
+  @ApiOperation({ summary: 'Delivery log across all webhooks' })
+  async getDeliveries(
+    @Query() query: WebhookDeliveryQueryDto
+  ): Promise<WebhookDeliveryDocument[]> {
+    return this.webhookService.getDeliveries(query);
+  }
+
+  @Get('dead-letters')
+  @ApiOperation({ summary: 'Deliveries that exhausted their retries' })
+  async getDeadLetters(
+    @Query() query: WebhookDeliveryQueryDto
+  ): Promise<WebhookDeliveryDocument[]> {
+    return this.webhookService.getDeliveries({ ...query, status: 'dead' });
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  @HttpCode(202)
+  @ApiOperation({ summary: 'Queue a dead-lettered delivery again' })
+  @ApiParam({ name: 'deliveryId' })
+  @ApiResponse({ status: 409, description: 'Delivery is not dead' })
+  async redeliver(
+    @Param('deliveryId') deliveryId: string
+  ): Promise<WebhookDeliveryDocument> {
+    return this.webhookService.redeliver(deliveryId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook subscription' })
+  @ApiParam({ name: 'id' })
+  async findOne(@Param('id') id: string): Promise<WebhookSubscriptionDocument> {
+    return this.webhookService.findOne(id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a webhook subscription' })
+  @ApiParam({ name: 'id' })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateWebhookDto
+  ): Promise<WebhookSubscriptionDocument> {
+    return this.webhookService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a webhook subscription' })
+  @ApiParam({ name: 'id' })
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.webhookService.remove(id);
+  }
+
+  @Post(':id/test')
+  @HttpCode(202)
+  @ApiOperation({ summary: 'Send a webhook.test event' })
+  @ApiParam({ name: 'id' })
+  async sendTest(@Param('id') id: string): Promise<WebhookDeliveryDocument> {
+    return this.webhookService.sendTest(id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Delivery log of one webhook' })
+  @ApiParam({ name: 'id' })
+  async getWebhookDeliveries(
+    @Param('id') id: string,
+    @Query() query: WebhookDeliveryQueryDto
+  ): Promise<WebhookDeliveryDocument[]> {
+    return this.webhookService.getDeliveries(query, id);
+  }
+}
@@ -1,27 +1,110 @@
 import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { CacheModule } from '@nestjs/cache-manager';
+import { MongooseModule } from '@nestjs/mongoose';
 
+import { RealtimeModule } from '../realtime/realtime.module';
+import { RedisModule } from '../redis/redis.module';
 import { NotificationsService } from './notifications.service';
 import { NotificationsProcessor } from './notifications.processor';
 import { EmailService } from './services/email.service';
 import { AlertService } from './services/alert.service';
 import { NotificationsController } from './controllers/notifications.controller';
+import { WebhookController } from './controllers/webhook.controller';
+import { SubscriptionController } from './controllers/subscription.controller';
+import { WebhookService } from './services/webhook.service';
+import { SubscriberService } from './services/subscriber.service';
+import { NotificationDispatcher } from './services/notification-dispatcher.service';
+import { NOTIFICATION_CHANNELS } from './channels/notification-channel.interface';
+import { EmailChannel } from './channels/email.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import { SlackChannel } from './channels/slack.channel';
+import { SmsChannel } from './channels/sms.channel';
+import { SubscriberChannel } from './channels/subscriber.channel';
+import { WebhookProcessor } from './webhook.processor';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionSchema,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from './schemas/webhook-delivery.schema';
+import {
+  AlertSubscriber,
+  AlertSubscriberSchema,
+} from './schemas/alert-subscriber.schema';
+import { AlertRecord, AlertRecordSchema } from './schemas/alert-record.schema';
+import {
+  AlertThrottle,
+  AlertThrottleSchema,
+} from './schemas/alert-throttle.schema';
+import {
+  AlertEscalation,
+  AlertEscalationSchema,
+} from './schemas/alert-escalation.schema';
+import {
+  EmailDeliveryRecord,
+  EmailDeliveryRecordSchema,
+} from './schemas/email-delivery.schema';
 
 @Module({
   imports: [
     BullModule.registerQueue({
       name: 'notifications',
     }),
+    // Attempts and backoff are set per job from the webhooks config
+    BullModule.registerQueue({
+      name: 'webhooks',
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    }),
+    MongooseModule.forFeature([
+      { name: WebhookSubscription.name, schema: WebhookSubscriptionSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+      { name: AlertSubscriber.name, schema: AlertSubscriberSchema },
+      { name: AlertRecord.name, schema: AlertRecordSchema },
+      { name: AlertThrottle.name, schema: AlertThrottleSchema },
+      { name: AlertEscalation.name, schema: AlertEscalationSchema },
+      { name: EmailDeliveryRecord.name, schema: EmailDeliveryRecordSchema },
+    ]),
     CacheModule.register(),
+    RealtimeModule,
+    RedisModule,
+  ],
+  controllers: [
+    NotificationsController,
+    WebhookController,
+    SubscriptionController,
   ],
-  controllers: [NotificationsController],
   providers: [
     NotificationsService,
     NotificationsProcessor,
     EmailService,
     AlertService,
+    WebhookService,
+    WebhookProcessor,
+    SubscriberService,
+    EmailChannel,
+    WebhookChannel,
+    SlackChannel,
+    SmsChannel,
+    SubscriberChannel,
+    {
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (...channels) => channels,
+      inject: [
+        EmailChannel,
+        WebhookChannel,
+        SlackChannel,
+        SmsChannel,
+        SubscriberChannel,
+      ],
+    },
+    NotificationDispatcher,
   ],
-  exports: [NotificationsService, EmailService, AlertService],
+  exports: [NotificationsService, EmailService, AlertService, WebhookService],
 })
 export class NotificationsModule {}
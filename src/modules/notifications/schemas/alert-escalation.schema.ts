@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AlertEscalationDocument = AlertEscalation & Document;
+
+/**
+ * An alert sent to the escalation recipients on top of its own. Kept as
+ * long as alert history.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'alert_escalations',
+})
+export class AlertEscalation {
+  @Prop({ required: true, index: true })
+  alertId: string;
+
+  @Prop({ required: true, index: true })
+  conditionId: string;
+
+  @Prop({ type: [String], default: [] })
+  originalRecipients: string[];
+
+  @Prop({ type: [String], default: [] })
+  escalatedRecipients: string[];
+
+  @Prop({ required: true })
+  escalationTime: Date;
+
+  @Prop({ required: true })
+  reason: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const AlertEscalationSchema =
+  SchemaFactory.createForClass(AlertEscalation);
+
+AlertEscalationSchema.index({ escalationTime: -1 });
+AlertEscalationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+import { ChannelDelivery } from '../channels/notification-channel.interface';
+import { AlertType } from '../services/email.service';
+
+export type AlertRecordDocument = AlertRecord & Document;
+
+/**
+ * A triggered alert. Records expire after `retention.alertHistoryDays`.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'alert_history',
+})
+export class AlertRecord {
+  @Prop({ required: true, unique: true })
+  alertId: string;
+
+  @Prop({ required: true, index: true })
+  conditionId: string;
+
+  @Prop({ required: true, enum: Object.values(AlertType) })
+  type: AlertType;
+
+  @Prop({ required: true, enum: ['low', 'medium', 'high', 'critical'] })
+  severity: 'low' | 'medium' | 'high' | 'critical';
+
+  @Prop({ required: true })
+  message: string;
+
+  @Prop({ type: Object, default: {} })
+  data: Record<string, any>;
+
+  @Prop({ required: true })
+  timestamp: Date;
+
+  @Prop({ default: false })
+  acknowledged: boolean;
+
+  @Prop()
+  acknowledgedBy?: string;
+
+  @Prop()
+  acknowledgedAt?: Date;
+
+  @Prop({ default: false })
+  escalated: boolean;
+
+  @Prop()
+  escalatedAt?: Date;
+
+  @Prop({ type: [String], default: [] })
+  recipients: string[];
+
+  @Prop({ default: false })
+  emailSent: boolean;
+
+  @Prop()
+  emailDeliveryId?: string;
+
+  @Prop({ type: [Object], default: [] })
+  deliveries: ChannelDelivery[];
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const AlertRecordSchema = SchemaFactory.createForClass(AlertRecord);
+
+AlertRecordSchema.index({ timestamp: -1 });
+AlertRecordSchema.index({ acknowledged: 1, timestamp: -1 });
+AlertRecordSchema.index({ type: 1, severity: 1, timestamp: -1 });
+AlertRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,94 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+import { AlertFrequency, AlertLevel } from '@/common/types';
+
+export type AlertSubscriberDocument = AlertSubscriber & Document;
+
+export type SubscriberStatus = 'pending' | 'active' | 'unsubscribed';
+
+export interface SubscriberPreferences {
+  locations: string[];
+  level: AlertLevel;
+  frequency: AlertFrequency;
+}
+
+/** An alert waiting for the subscriber's next digest */
+export interface PendingSubscriberAlert {
+  alertId: string;
+  location: string;
+  aqi: number;
+  level: string;
+  message: string;
+  timestamp: Date;
+}
+
+/**
+ * A member of the public receiving pollution alerts by email. Sign-ups stay
+ * `pending` until the address is confirmed.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'alert_subscribers',
+})
+export class AlertSubscriber {
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  email: string;
+
+  @Prop({
+    required: true,
+    enum: ['pending', 'active', 'unsubscribed'],
+    default: 'pending',
+  })
+  status: SubscriberStatus;
+
+  /** Location labels, or `*` for every location */
+  @Prop({ type: [String], required: true })
+  locations: string[];
+
+  @Prop({
+    required: true,
+    enum: ['all', 'moderate', 'unhealthy', 'very_unhealthy', 'hazardous'],
+  })
+  level: AlertLevel;
+
+  @Prop({ required: true, enum: ['immediate', 'hourly', 'daily'] })
+  frequency: AlertFrequency;
+
+  /** Preferences requested by an active subscriber, applied on confirmation */
+  @Prop({ type: Object, default: null })
+  pendingPreferences: SubscriberPreferences | null;
+
+  /** SHA-256 of the emailed confirmation token */
+  @Prop({ type: String, default: null, index: true })
+  confirmTokenHash: string | null;
+
+  @Prop({ type: Date, default: null })
+  confirmTokenExpiresAt: Date | null;
+
+  /** Sent in every email; kept as-is so links can be rebuilt */
+  @Prop({ required: true, unique: true, select: false })
+  unsubscribeToken: string;
+
+  @Prop({ type: [Object], default: [] })
+  pendingAlerts: PendingSubscriberAlert[];
+
+  @Prop({ type: Date, default: null })
+  confirmedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  unsubscribedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastDigestAt: Date | null;
+
+  /** Set only on sign-ups never confirmed; MongoDB deletes them after it */
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+}
+
+export const AlertSubscriberSchema =
+  SchemaFactory.createForClass(AlertSubscriber);
+
+AlertSubscriberSchema.index({ status: 1, locations: 1, level: 1 });
+AlertSubscriberSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
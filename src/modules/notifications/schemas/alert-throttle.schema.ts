@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AlertThrottleDocument = AlertThrottle & Document;
+
+/**
+ * How often an alert condition has fired. The document expires after
+ * `alerts.throttleResetHours` without a trigger, which resets the count.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'alert_throttles',
+})
+export class AlertThrottle {
+  @Prop({ required: true, unique: true })
+  conditionId: string;
+
+  @Prop({ required: true })
+  lastTriggered: Date;
+
+  @Prop({ default: 0 })
+  count: number;
+
+  @Prop({ default: false })
+  escalated: boolean;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const AlertThrottleSchema = SchemaFactory.createForClass(AlertThrottle);
+
+AlertThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+import { AlertType } from '../services/email.service';
+
+export type EmailDeliveryRecordDocument = EmailDeliveryRecord & Document;
+
+/**
+ * Tracking of one email. Records expire after
+ * `retention.emailDeliveryDays`.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'email_deliveries',
+})
+export class EmailDeliveryRecord {
+  @Prop({ required: true, unique: true })
+  deliveryId: string;
+
+  @Prop({ required: true })
+  to: string;
+
+  @Prop({ required: true })
+  subject: string;
+
+  @Prop({
+    required: true,
+    enum: ['pending', 'sent', 'failed', 'retrying'],
+    default: 'pending',
+  })
+  status: 'pending' | 'sent' | 'failed' | 'retrying';
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ required: true })
+  maxAttempts: number;
+
+  // Plain string: the enum lives in EmailService, which imports this file
+  @Prop({ type: String })
+  alertType?: AlertType;
+
+  @Prop()
+  sentAt?: Date;
+
+  @Prop()
+  error?: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const EmailDeliveryRecordSchema =
+  SchemaFactory.createForClass(EmailDeliveryRecord);
+
+EmailDeliveryRecordSchema.index({ status: 1, createdAt: -1 });
+EmailDeliveryRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
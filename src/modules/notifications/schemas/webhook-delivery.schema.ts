@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+import { WebhookDeliveryStatus } from '@/common/dto/webhook.dto';
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document;
+
+export interface WebhookAttempt {
+  attemptedAt: Date;
+  statusCode?: number;
+  error?: string;
+  responseTimeMs: number;
+}
+
+/**
+ * One event sent to one subscription. Deliveries that exhaust their retries
+ * stay here with status `dead` and form the dead-letter store.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'webhook_deliveries',
+})
+export class WebhookDelivery {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  subscriptionId: Types.ObjectId;
+
+  @Prop({ required: true })
+  event: string;
+
+  @Prop({ type: Object, required: true })
+  payload: Record<string, any>;
+
+  @Prop({
+    required: true,
+    enum: ['pending', 'retrying', 'delivered', 'dead'],
+    default: 'pending',
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ type: [Object], default: [] })
+  attempts: WebhookAttempt[];
+
+  @Prop({ type: Date, default: null })
+  deliveredAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  deadLetteredAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  lastError: string | null;
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+WebhookDeliverySchema.index({ status: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type WebhookSubscriptionDocument = WebhookSubscription & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'webhook_subscriptions',
+})
+export class WebhookSubscription {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ required: true })
+  url: string;
+
+  /** HMAC signing secret; never returned after creation */
+  @Prop({ required: true, select: false })
+  secret: string;
+
+  /** `alert.<type>` event names, or `*` */
+  @Prop({ type: [String], default: ['*'] })
+  events: string[];
+
+  @Prop({
+    enum: ['low', 'medium', 'high', 'critical'],
+    default: 'low',
+  })
+  minSeverity: 'low' | 'medium' | 'high' | 'critical';
+
+  @Prop({ default: true })
+  enabled: boolean;
+}
+
+export const WebhookSubscriptionSchema =
+  SchemaFactory.createForClass(WebhookSubscription);
+
+WebhookSubscriptionSchema.index({ enabled: 1, events: 1 });
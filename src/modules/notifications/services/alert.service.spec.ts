@@ -0,0 +1,132 @@
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { RealtimeService } from '../../realtime/services/realtime.service';
+import { RedisService } from '../../redis/services/redis.service';
+import { AlertEscalation } from '../schemas/alert-escalation.schema';
+import { AlertRecord } from '../schemas/alert-record.schema';
+import { AlertThrottle } from '../schemas/alert-throttle.schema';
+import { AlertCondition, AlertService } from './alert.service';
+import { AlertType, EmailService } from './email.service';
+import { NotificationDispatcher } from './notification-dispatcher.service';
+
+describe('AlertService', () => {
+  let service: AlertService;
+
+  const mockAlertModel = { create: jest.fn(), updateOne: jest.fn() };
+  const mockThrottleModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockEscalationModel = { create: jest.fn() };
+  const mockRedisService = { incrementWindow: jest.fn() };
+  const mockDispatcher = { dispatch: jest.fn() };
+
+  const condition: AlertCondition = {
+    id: 'high_pollution',
+    type: AlertType.POLLUTION,
+    condition: () => true,
+    severity: 'medium',
+    throttleMinutes: 60,
+    escalationMinutes: 120,
+    recipients: ['health@example.com'],
+    template: 'pollution',
+    channels: ['email'],
+  };
+
+  const lean = (value: unknown) => ({
+    lean: () => ({ exec: jest.fn().mockResolvedValue(value) }),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertService,
+        { provide: getModelToken(AlertRecord.name), useValue: mockAlertModel },
+        {
+          provide: getModelToken(AlertThrottle.name),
+          useValue: mockThrottleModel,
+        },
+        {
+          provide: getModelToken(AlertEscalation.name),
+          useValue: mockEscalationModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, fallback?: unknown) =>
+              key === 'alerts.escalationRecipients'
+                ? ['oncall@example.com']
+                : fallback
+            ),
+          },
+        },
+        { provide: CACHE_MANAGER, useValue: {} },
+        { provide: EmailService, useValue: {} },
+        { provide: RealtimeService, useValue: { publishAlert: jest.fn() } },
+        { provide: NotificationDispatcher, useValue: mockDispatcher },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<AlertService>(AlertService);
+    mockDispatcher.dispatch.mockResolvedValue([
+      { channel: 'email', status: 'sent', deliveryId: 'delivery-1' },
+    ]);
+  });
+
+  it('should skip a condition another trigger already counted in its window', async () => {
+    mockRedisService.incrementWindow.mockResolvedValue(2);
+
+    const alert = await service.triggerAlert(condition, { aqi: 180 });
+
+    expect(alert).toBeNull();
+    expect(mockRedisService.incrementWindow).toHaveBeenCalledWith(
+      'alerts:throttle:high_pollution',
+      60 * 60 * 1000
+    );
+    expect(mockAlertModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should persist the alert and escalate a condition that keeps firing', async () => {
+    mockRedisService.incrementWindow.mockResolvedValue(1);
+    mockThrottleModel.findOneAndUpdate.mockReturnValue(
+      lean({
+        conditionId: 'high_pollution',
+        count: 4,
+        lastTriggered: new Date(Date.now() - 60 * 60 * 1000),
+      })
+    );
+
+    const alert = await service.triggerAlert(condition, {
+      aqi: 180,
+      city: 'Paris',
+    });
+
+    expect(alert).toMatchObject({
+      escalated: true,
+      recipients: ['health@example.com', 'oncall@example.com'],
+      emailSent: true,
+      emailDeliveryId: 'delivery-1',
+    });
+    expect(mockAlertModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        alertId: alert.id,
+        conditionId: 'high_pollution',
+        expiresAt: new Date(alert.timestamp.getTime() + 30 * 86400000),
+      })
+    );
+    expect(mockAlertModel.create.mock.calls[0][0]).not.toHaveProperty('id');
+    expect(mockEscalationModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        alertId: alert.id,
+        escalatedRecipients: ['oncall@example.com'],
+      })
+    );
+  });
+});
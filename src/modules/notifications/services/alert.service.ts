@@ -1,7 +1,32 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { CACHE_MANAGER, Cache } from '@nestjs/cache-manager';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  compileFilters,
+  FilterFields,
+  parseFilters,
+  parseSort,
+} from '@/common/filter-query';
+import { NotificationChannel } from '@/common/types';
+import { RealtimeService } from '../../realtime/services/realtime.service';
+import { RedisService } from '../../redis/services/redis.service';
+import { ChannelDelivery } from '../channels/notification-channel.interface';
+import {
+  AlertEscalation,
+  AlertEscalationDocument,
+} from '../schemas/alert-escalation.schema';
+import {
+  AlertRecord,
+  AlertRecordDocument,
+} from '../schemas/alert-record.schema';
+import {
+  AlertThrottle,
+  AlertThrottleDocument,
+} from '../schemas/alert-throttle.schema';
 import { EmailService, AlertType } from './email.service';
+import { NotificationDispatcher } from './notification-dispatcher.service';
 
 export interface AlertThreshold {
   consecutive_api_failures: number;
@@ -23,6 +48,8 @@ export interface AlertCondition {
   escalationMinutes: number;
   recipients: string[];
   template: string;
+  /** Channels the alert is sent over */
+  channels: NotificationChannel[];
 }
 
 export interface AlertHistory {
@@ -40,29 +67,36 @@ export interface AlertHistory {
   recipients: string[];
   emailSent: boolean;
   emailDeliveryId?: string;
+  /** Outcome of each channel the alert was sent over */
+  deliveries: ChannelDelivery[];
 }
 
-export interface AlertThrottle {
-  alertId: string;
-  lastTriggered: Date;
-  count: number;
-  escalated: boolean;
-}
-
-export interface AlertEscalation {
-  alertId: string;
-  originalRecipients: string[];
-  escalatedRecipients: string[];
-  escalationTime: Date;
-  reason: string;
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Triggers after which a condition that keeps firing is escalated */
+const ESCALATION_TRIGGER_COUNT = 3;
+
+/**
+ * Alert fields clients may filter and sort on through `filter` and `sort`
+ */
+export const ALERT_FILTER_FIELDS: FilterFields = {
+  type: { type: 'string', values: Object.values(AlertType) },
+  severity: { type: 'string', values: ['low', 'medium', 'high', 'critical'] },
+  message: { type: 'string' },
+  timestamp: { type: 'date' },
+  acknowledged: { type: 'boolean' },
+  acknowledgedBy: { type: 'string' },
+  acknowledgedAt: { type: 'date' },
+  escalated: { type: 'boolean' },
+  escalatedAt: { type: 'date' },
+  emailSent: { type: 'boolean' },
+};
 
 @Injectable()
 export class AlertService {
   private readonly logger = new Logger(AlertService.name);
-  private readonly alertHistory = new Map<string, AlertHistory>();
-  private readonly alertThrottles = new Map<string, AlertThrottle>();
-  private readonly alertEscalations = new Map<string, AlertEscalation>();
+  private readonly historyDays: number;
+  private readonly throttleResetHours: number;
 
   // Default alert thresholds
   private readonly ALERT_THRESHOLDS: AlertThreshold = {
@@ -77,10 +111,23 @@ export class AlertService {
   };
 
   constructor(
+    @InjectModel(AlertRecord.name)
+    private alertModel: Model<AlertRecordDocument>,
+    @InjectModel(AlertThrottle.name)
+    private throttleModel: Model<AlertThrottleDocument>,
+    @InjectModel(AlertEscalation.name)
+    private escalationModel: Model<AlertEscalationDocument>,
     private configService: ConfigService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
-    private emailService: EmailService
+    private emailService: EmailService,
+    private realtimeService: RealtimeService,
+    private notificationDispatcher: NotificationDispatcher,
+    private redisService: RedisService
   ) {
+    this.historyDays =
+      this.configService.get<number>('retention.alertHistoryDays') || 30;
+    this.throttleResetHours =
+      this.configService.get<number>('alerts.throttleResetHours') || 24;
     this.initializeAlertConditions();
   }
 
@@ -101,6 +148,7 @@ export class AlertService {
         escalationMinutes: 60,
         recipients: this.getAdminRecipients(),
         template: 'critical',
+        channels: ['email', 'webhook', 'slack', 'sms'],
       },
       // High pollution alerts
       {
@@ -114,6 +162,7 @@ export class AlertService {
         escalationMinutes: 120,
         recipients: this.getPollutionRecipients(),
         template: 'pollution',
+        channels: ['email', 'webhook', 'slack', 'subscribers'],
       },
       // Extreme pollution alerts
       {
@@ -126,6 +175,7 @@ export class AlertService {
         escalationMinutes: 60,
         recipients: this.getPollutionRecipients(),
         template: 'pollution',
+        channels: ['email', 'webhook', 'slack', 'sms', 'subscribers'],
       },
       // Queue backlog alerts
       {
@@ -138,6 +188,7 @@ export class AlertService {
         escalationMinutes: 45,
         recipients: this.getSystemRecipients(),
         template: 'system_health',
+        channels: ['email', 'webhook', 'slack'],
       },
       // System error rate alerts
       {
@@ -150,6 +201,7 @@ export class AlertService {
         escalationMinutes: 30,
         recipients: this.getSystemRecipients(),
         template: 'system_health',
+        channels: ['email', 'webhook', 'slack'],
       },
       // Storage usage alerts
       {
@@ -162,6 +214,7 @@ export class AlertService {
         escalationMinutes: 180,
         recipients: this.getSystemRecipients(),
         template: 'system_health',
+        channels: ['email', 'webhook', 'slack'],
       },
     ];
   }
@@ -196,127 +249,177 @@ export class AlertService {
     const alertId = `${condition.id}_${Date.now()}`;
 
     // Check throttling
-    if (this.isThrottled(condition.id, condition.throttleMinutes)) {
+    if (await this.isThrottled(condition.id, condition.throttleMinutes)) {
       this.logger.debug(`Alert ${condition.id} is throttled`);
       return null;
     }
 
-    // Check if escalation is needed
+    // Count the trigger; escalate if the condition keeps firing
+    const previous = await this.updateThrottle(condition.id);
     const shouldEscalate = this.shouldEscalate(
-      condition.id,
+      previous,
       condition.escalationMinutes
     );
     const recipients = shouldEscalate
       ? this.getEscalatedRecipients(condition.recipients)
       : condition.recipients;
 
-    // Create alert history
+    const timestamp = new Date();
     const alert: AlertHistory = {
       id: alertId,
       type: condition.type,
       severity: condition.severity,
       message: this.generateAlertMessage(condition, data),
       data,
-      timestamp: new Date(),
+      timestamp,
       acknowledged: false,
       escalated: shouldEscalate,
-      escalatedAt: shouldEscalate ? new Date() : undefined,
+      escalatedAt: shouldEscalate ? timestamp : undefined,
       recipients,
       emailSent: false,
+      deliveries: [],
     };
 
-    // Store alert history
-    this.alertHistory.set(alertId, alert);
-
-    // Update throttle
-    this.updateThrottle(condition.id);
+    // Store alert history; `id` would overwrite the document's `_id`
+    const { id, ...fields } = alert;
+    await this.alertModel.create({
+      ...fields,
+      alertId: id,
+      conditionId: condition.id,
+      expiresAt: this.getExpiry(timestamp),
+    });
 
-    // Send email notification
-    try {
-      const emailDelivery = await this.sendAlertEmail(alert, condition, data);
-      alert.emailSent = true;
-      alert.emailDeliveryId = emailDelivery.id;
-      this.alertHistory.set(alertId, alert);
-    } catch (error) {
-      this.logger.error(
-        `Failed to send alert email for ${condition.id}:`,
-        error
-      );
+    if (shouldEscalate) {
+      await this.recordEscalation(alert, condition, previous);
     }
 
+    // Push to connected clients
+    await this.realtimeService.publishAlert(alert);
+
+    // Send over the condition's channels
+    alert.deliveries = await this.notificationDispatcher.dispatch(
+      alert,
+      condition.channels
+    );
+    const email = alert.deliveries.find(
+      delivery => delivery.channel === 'email'
+    );
+    alert.emailSent = email?.status === 'sent';
+    alert.emailDeliveryId = email?.deliveryId;
+    await this.alertModel.updateOne(
+      { alertId },
+      {
+        $set: {
+          deliveries: alert.deliveries,
+          emailSent: alert.emailSent,
+          emailDeliveryId: alert.emailDeliveryId,
+        },
+      }
+    );
+
     this.logger.log(`Alert triggered: ${condition.id} (${condition.severity})`);
     return alert;
   }
 
   /**
-   * Send alert email
+   * Whether the condition fired within its throttle window. The first
+   * instance to count a trigger in the window wins, so only one alert is
+   * sent however many instances see the condition.
    */
-  private async sendAlertEmail(
-    alert: AlertHistory,
-    condition: AlertCondition,
-    data: any
-  ): Promise<any> {
-    const template = this.emailService.generateEmailTemplate(condition.type, {
-      ...data,
-      alertId: alert.id,
-      severity: condition.severity,
-      timestamp: alert.timestamp,
-    });
+  private async isThrottled(
+    conditionId: string,
+    throttleMinutes: number
+  ): Promise<boolean> {
+    const windowMs = throttleMinutes * 60 * 1000;
 
-    return await this.emailService.sendEmail(
-      alert.recipients.join(', '),
-      template.subject,
-      template.html,
-      template.text,
-      condition.type
-    );
+    try {
+      const count = await this.redisService.incrementWindow(
+        `alerts:throttle:${conditionId}`,
+        windowMs
+      );
+      return count > 1;
+    } catch (error) {
+      // Without Redis, fall back to the last trigger stored in MongoDB
+      this.logger.warn(
+        `Throttle counter unavailable for ${conditionId}: ${error.message}`
+      );
+      const throttle = await this.throttleModel
+        .findOne({ conditionId })
+        .lean()
+        .exec();
+      return (
+        !!throttle && throttle.lastTriggered.getTime() > Date.now() - windowMs
+      );
+    }
   }
 
   /**
-   * Check if alert is throttled
+   * Count a trigger of the condition, returning its throttle as it was
+   * before, if any
    */
-  private isThrottled(alertId: string, throttleMinutes: number): boolean {
-    const throttle = this.alertThrottles.get(alertId);
-    if (!throttle) return false;
-
+  private async updateThrottle(
+    conditionId: string
+  ): Promise<AlertThrottle | null> {
     const now = new Date();
-    const throttleWindow = new Date(
-      now.getTime() - throttleMinutes * 60 * 1000
-    );
-
-    return throttle.lastTriggered > throttleWindow;
-  }
-
-  /**
-   * Update alert throttle
-   */
-  private updateThrottle(alertId: string): void {
-    const throttle = this.alertThrottles.get(alertId) || {
-      alertId,
-      lastTriggered: new Date(),
-      count: 0,
-      escalated: false,
-    };
 
-    throttle.lastTriggered = new Date();
-    throttle.count++;
-    this.alertThrottles.set(alertId, throttle);
+    return this.throttleModel
+      .findOneAndUpdate(
+        { conditionId },
+        {
+          $inc: { count: 1 },
+          $set: {
+            lastTriggered: now,
+            expiresAt: new Date(
+              now.getTime() + this.throttleResetHours * 60 * 60 * 1000
+            ),
+          },
+        },
+        { upsert: true, new: false }
+      )
+      .lean()
+      .exec();
   }
 
   /**
-   * Check if alert should be escalated
+   * Escalate a condition that has fired repeatedly, the last time within
+   * its escalation window
    */
-  private shouldEscalate(alertId: string, escalationMinutes: number): boolean {
-    const throttle = this.alertThrottles.get(alertId);
+  private shouldEscalate(
+    throttle: AlertThrottle | null,
+    escalationMinutes: number
+  ): boolean {
     if (!throttle) return false;
 
-    const now = new Date();
     const escalationWindow = new Date(
-      now.getTime() - escalationMinutes * 60 * 1000
+      Date.now() - escalationMinutes * 60 * 1000
     );
 
-    // Escalate if alert has been triggered multiple times within escalation window
-    return throttle.count > 3 && throttle.lastTriggered > escalationWindow;
+    return (
+      throttle.count > ESCALATION_TRIGGER_COUNT &&
+      throttle.lastTriggered > escalationWindow
+    );
+  }
+
+  private async recordEscalation(
+    alert: AlertHistory,
+    condition: AlertCondition,
+    throttle: AlertThrottle
+  ): Promise<void> {
+    await this.escalationModel.create({
+      alertId: alert.id,
+      conditionId: condition.id,
+      originalRecipients: condition.recipients,
+      escalatedRecipients: alert.recipients.filter(
+        recipient => !condition.recipients.includes(recipient)
+      ),
+      escalationTime: alert.escalatedAt,
+      reason: `Triggered ${throttle.count + 1} times, the previous one within ${condition.escalationMinutes} minutes`,
+      expiresAt: this.getExpiry(alert.timestamp),
+    });
+    await this.throttleModel.updateOne(
+      { conditionId: condition.id },
+      { $set: { escalated: true } }
+    );
   }
 
   /**
@@ -359,23 +462,39 @@ export class AlertService {
     alertId: string,
     acknowledgedBy: string
   ): Promise<AlertHistory | null> {
-    const alert = this.alertHistory.get(alertId);
-    if (!alert) {
+    const record = await this.alertModel
+      .findOneAndUpdate(
+        { alertId },
+        {
+          $set: {
+            acknowledged: true,
+            acknowledgedBy,
+            acknowledgedAt: new Date(),
+          },
+        },
+        { new: true }
+      )
+      .lean()
+      .exec();
+    if (!record) {
       return null;
     }
 
-    alert.acknowledged = true;
-    alert.acknowledgedBy = acknowledgedBy;
-    alert.acknowledgedAt = new Date();
-
-    this.alertHistory.set(alertId, alert);
     this.logger.log(`Alert ${alertId} acknowledged by ${acknowledgedBy}`);
+    return this.toAlertHistory(record);
+  }
 
-    return alert;
+  /**
+   * Get a single alert
+   */
+  async getAlert(alertId: string): Promise<AlertHistory | null> {
+    const record = await this.alertModel.findOne({ alertId }).lean().exec();
+    return record ? this.toAlertHistory(record) : null;
   }
 
   /**
-   * Get alert history
+   * Get alert history. `expression` takes a filter and sort expression over
+   * `ALERT_FILTER_FIELDS`; without a sort, newest alerts come first.
    */
   async getAlertHistory(
     filters?: {
@@ -386,36 +505,46 @@ export class AlertService {
       startDate?: Date;
       endDate?: Date;
     },
-    limit: number = 100
+    limit: number = 100,
+    expression: { filter?: string; sort?: string } = {}
   ): Promise<AlertHistory[]> {
-    let alerts = Array.from(this.alertHistory.values());
+    const conditions = parseFilters(expression.filter, ALERT_FILTER_FIELDS);
+    const sort = parseSort(expression.sort, ALERT_FILTER_FIELDS);
 
-    // Apply filters
+    const query: Record<string, any> = compileFilters(conditions);
     if (filters?.type) {
-      alerts = alerts.filter(alert => alert.type === filters.type);
+      query.type = filters.type;
     }
     if (filters?.severity) {
-      alerts = alerts.filter(alert => alert.severity === filters.severity);
+      query.severity = filters.severity;
     }
     if (filters?.acknowledged !== undefined) {
-      alerts = alerts.filter(
-        alert => alert.acknowledged === filters.acknowledged
-      );
+      query.acknowledged = filters.acknowledged;
     }
     if (filters?.escalated !== undefined) {
-      alerts = alerts.filter(alert => alert.escalated === filters.escalated);
+      query.escalated = filters.escalated;
     }
-    if (filters?.startDate) {
-      alerts = alerts.filter(alert => alert.timestamp >= filters.startDate);
-    }
-    if (filters?.endDate) {
-      alerts = alerts.filter(alert => alert.timestamp <= filters.endDate);
+    if (filters?.startDate || filters?.endDate) {
+      query.timestamp = {
+        ...(filters.startDate && { $gte: filters.startDate }),
+        ...(filters.endDate && { $lte: filters.endDate }),
+      };
     }
 
-    // Sort by timestamp (newest first) and limit
-    return alerts
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .slice(0, limit);
+    // Newest first by default, and as the tie-breaker
+    const order: Record<string, 1 | -1> = {};
+    for (const { field, order: direction } of sort) {
+      order[field] = direction === 'desc' ? -1 : 1;
+    }
+    order.timestamp ??= -1;
+
+    const records = await this.alertModel
+      .find(query)
+      .sort(order)
+      .limit(limit)
+      .lean()
+      .exec();
+    return records.map(record => this.toAlertHistory(record));
   }
 
   /**
@@ -430,56 +559,68 @@ export class AlertService {
     emailSent: number;
     last24Hours: number;
   }> {
-    const now = new Date();
-    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-    const alerts = Array.from(this.alertHistory.values());
-    const recentAlerts = alerts.filter(alert => alert.timestamp >= oneDayAgo);
-
-    const stats = {
-      total: alerts.length,
-      bySeverity: {} as Record<string, number>,
-      byType: {} as Record<string, number>,
-      acknowledged: 0,
-      escalated: 0,
-      emailSent: 0,
-      last24Hours: recentAlerts.length,
-    };
+    const oneDayAgo = new Date(Date.now() - DAY_MS);
+    const countIf = (condition: unknown) => ({
+      $sum: { $cond: [condition, 1, 0] },
+    });
 
-    for (const alert of alerts) {
-      stats.bySeverity[alert.severity] =
-        (stats.bySeverity[alert.severity] || 0) + 1;
-      stats.byType[alert.type] = (stats.byType[alert.type] || 0) + 1;
-      if (alert.acknowledged) stats.acknowledged++;
-      if (alert.escalated) stats.escalated++;
-      if (alert.emailSent) stats.emailSent++;
-    }
+    const [result] = await this.alertModel.aggregate([
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                total: { $sum: 1 },
+                acknowledged: countIf('$acknowledged'),
+                escalated: countIf('$escalated'),
+                emailSent: countIf('$emailSent'),
+                last24Hours: countIf({ $gte: ['$timestamp', oneDayAgo] }),
+              },
+            },
+          ],
+          bySeverity: [{ $group: { _id: '$severity', count: { $sum: 1 } } }],
+          byType: [{ $group: { _id: '$type', count: { $sum: 1 } } }],
+        },
+      },
+    ]);
 
-    return stats;
+    const toCounts = (groups: { _id: string; count: number }[]) =>
+      Object.fromEntries(groups.map(group => [group._id, group.count]));
+    const totals = result?.totals[0];
+
+    return {
+      total: totals?.total ?? 0,
+      bySeverity: toCounts(result?.bySeverity ?? []),
+      byType: toCounts(result?.byType ?? []),
+      acknowledged: totals?.acknowledged ?? 0,
+      escalated: totals?.escalated ?? 0,
+      emailSent: totals?.emailSent ?? 0,
+      last24Hours: totals?.last24Hours ?? 0,
+    };
   }
 
   /**
    * Get active alerts (not acknowledged)
    */
   async getActiveAlerts(): Promise<AlertHistory[]> {
-    return Array.from(this.alertHistory.values())
-      .filter(alert => !alert.acknowledged)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    const records = await this.alertModel
+      .find({ acknowledged: false })
+      .sort({ timestamp: -1 })
+      .lean()
+      .exec();
+    return records.map(record => this.toAlertHistory(record));
   }
 
   /**
-   * Clear old alert history
+   * Clear alert history sooner than its retention. Older alerts expire on
+   * their own after `retention.alertHistoryDays`.
    */
   async clearOldAlerts(daysToKeep: number = 30): Promise<number> {
-    const cutoffDate = new Date(Date.now() - daysToKeep * 24 * 60 * 60 * 1000);
-    let deletedCount = 0;
-
-    for (const [alertId, alert] of this.alertHistory.entries()) {
-      if (alert.timestamp < cutoffDate) {
-        this.alertHistory.delete(alertId);
-        deletedCount++;
-      }
-    }
+    const cutoffDate = new Date(Date.now() - daysToKeep * DAY_MS);
+    const { deletedCount } = await this.alertModel.deleteMany({
+      timestamp: { $lt: cutoffDate },
+    });
 
     this.logger.log(
       `Cleared ${deletedCount} old alerts (older than ${daysToKeep} days)`
@@ -487,6 +628,30 @@ export class AlertService {
     return deletedCount;
   }
 
+  private getExpiry(timestamp: Date): Date {
+    return new Date(timestamp.getTime() + this.historyDays * DAY_MS);
+  }
+
+  private toAlertHistory(record: AlertRecord): AlertHistory {
+    return {
+      id: record.alertId,
+      type: record.type,
+      severity: record.severity,
+      message: record.message,
+      data: record.data,
+      timestamp: record.timestamp,
+      acknowledged: record.acknowledged,
+      acknowledgedBy: record.acknowledgedBy,
+      acknowledgedAt: record.acknowledgedAt,
+      escalated: record.escalated,
+      escalatedAt: record.escalatedAt,
+      recipients: record.recipients,
+      emailSent: record.emailSent,
+      emailDeliveryId: record.emailDeliveryId,
+      deliveries: record.deliveries,
+    };
+  }
+
   /**
    * Update alert thresholds
    */
@@ -1,10 +1,18 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
 import * as nodemailer from 'nodemailer';
 import { Inject } from '@nestjs/common';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from '@nestjs/cache-manager';
 
+import { RedisService } from '../../redis/services/redis.service';
+import {
+  EmailDeliveryRecord,
+  EmailDeliveryRecordDocument,
+} from '../schemas/email-delivery.schema';
+
 export interface EmailTemplate {
   subject: string;
   html: string;
@@ -23,13 +31,6 @@ export interface EmailDelivery {
   retryAfter?: Date;
 }
 
-export interface EmailRateLimit {
-  recipient: string;
-  lastSent: Date;
-  count: number;
-  windowStart: Date;
-}
-
 export enum AlertType {
   CRITICAL = 'critical',
   POLLUTION = 'pollution',
@@ -60,12 +61,13 @@ export interface EmailConfig {
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
   private transporter: nodemailer.Transporter;
-  private readonly rateLimits = new Map<string, EmailRateLimit>();
-  private readonly deliveryTracking = new Map<string, EmailDelivery>();
 
   constructor(
+    @InjectModel(EmailDeliveryRecord.name)
+    private deliveryModel: Model<EmailDeliveryRecordDocument>,
     private configService: ConfigService,
-    @Inject(CACHE_MANAGER) private cacheManager: Cache
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private redisService: RedisService
   ) {
     this.initializeTransporter();
   }
@@ -112,7 +114,8 @@ export class EmailService {
     subject: string,
     html: string,
     text?: string,
-    alertType?: AlertType
+    alertType?: AlertType,
+    headers?: Record<string, string>
   ): Promise<EmailDelivery> {
     const deliveryId = this.generateDeliveryId();
     const delivery: EmailDelivery = {
@@ -125,23 +128,24 @@ export class EmailService {
     };
 
     // Check rate limiting
-    if (!this.checkRateLimit(to)) {
+    if (!(await this.checkRateLimit(to))) {
       delivery.status = 'failed';
       delivery.error = 'Rate limit exceeded';
-      this.deliveryTracking.set(deliveryId, delivery);
+      await this.trackDelivery(delivery, alertType);
       throw new Error(`Rate limit exceeded for ${to}`);
     }
 
     // Track delivery
-    this.deliveryTracking.set(deliveryId, delivery);
+    await this.trackDelivery(delivery, alertType);
 
     try {
-      await this.sendEmailWithRetry(delivery, html, text);
+      await this.sendEmailWithRetry(delivery, html, text, headers);
+      await this.trackDelivery(delivery);
       return delivery;
     } catch (error) {
       delivery.status = 'failed';
       delivery.error = error.message;
-      this.deliveryTracking.set(deliveryId, delivery);
+      await this.trackDelivery(delivery);
       throw error;
     }
   }
@@ -152,7 +156,8 @@ export class EmailService {
   private async sendEmailWithRetry(
     delivery: EmailDelivery,
     html: string,
-    text?: string
+    text?: string,
+    headers?: Record<string, string>
   ): Promise<void> {
     const maxAttempts = delivery.maxAttempts;
     const retryDelay = this.configService.get(
@@ -164,6 +169,9 @@ export class EmailService {
       try {
         delivery.attempts = attempt;
         delivery.status = attempt > 1 ? 'retrying' : 'pending';
+        if (attempt > 1) {
+          await this.trackDelivery(delivery);
+        }
 
         await this.transporter.sendMail({
           from: this.configService.get('email.from'),
@@ -171,6 +179,7 @@ export class EmailService {
           subject: delivery.subject,
           html,
           text,
+          headers,
         });
 
         delivery.status = 'sent';
@@ -198,71 +207,75 @@ export class EmailService {
   }
 
   /**
-   * Check rate limiting for recipient
+   * Count an email to `recipient` against its hourly and daily limits.
+   * Counters live in Redis so every instance shares them.
    */
-  private checkRateLimit(recipient: string): boolean {
-    const now = new Date();
-    const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-    const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-    const rateLimit = this.rateLimits.get(recipient);
-    const config = this.configService.get('email.rateLimit');
-
-    if (!rateLimit) {
-      this.rateLimits.set(recipient, {
-        recipient,
-        lastSent: now,
-        count: 1,
-        windowStart: now,
-      });
-      return true;
-    }
-
-    // Reset counters if window has passed
-    if (rateLimit.windowStart < oneHourAgo) {
-      rateLimit.count = 0;
-      rateLimit.windowStart = now;
-    }
-
-    // Check hourly limit
-    if (rateLimit.count >= config.maxEmailsPerHour) {
-      return false;
-    }
+  private async checkRateLimit(recipient: string): Promise<boolean> {
+    const { maxEmailsPerHour, maxEmailsPerDay } = this.configService.get(
+      'email.rateLimit',
+      { maxEmailsPerHour: 50, maxEmailsPerDay: 1000 }
+    );
 
-    // Check daily limit (simplified - in production you'd track daily counts separately)
-    const dailyCount = this.getDailyEmailCount(recipient);
-    if (dailyCount >= config.maxEmailsPerDay) {
-      return false;
+    try {
+      const [hourly, daily] = await Promise.all([
+        this.redisService.incrementWindow(
+          `email:rate:hour:${recipient}`,
+          60 * 60 * 1000
+        ),
+        this.redisService.incrementWindow(
+          `email:rate:day:${recipient}`,
+          24 * 60 * 60 * 1000
+        ),
+      ]);
+      return hourly <= maxEmailsPerHour && daily <= maxEmailsPerDay;
+    } catch (error) {
+      // Alerts matter more than the limit; send without it
+      this.logger.warn(
+        `Rate limit counters unavailable, sending to ${recipient}: ${error.message}`
+      );
+      return true;
     }
-
-    // Update rate limit
-    rateLimit.count++;
-    rateLimit.lastSent = now;
-    this.rateLimits.set(recipient, rateLimit);
-
-    return true;
   }
 
   /**
-   * Get daily email count for recipient
+   * Save the delivery's current state. Tracking failures are logged, never
+   * allowed to stop the email.
    */
-  private getDailyEmailCount(recipient: string): number {
-    // In a production environment, this would query a database
-    // For now, we'll use a simplified approach
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    let count = 0;
-
-    for (const delivery of this.deliveryTracking.values()) {
-      if (
-        delivery.to === recipient &&
-        delivery.sentAt &&
-        delivery.sentAt > oneDayAgo
-      ) {
-        count++;
-      }
-    }
+  private async trackDelivery(
+    delivery: EmailDelivery,
+    alertType?: AlertType
+  ): Promise<void> {
+    const retentionDays =
+      this.configService.get<number>('retention.emailDeliveryDays') || 7;
 
-    return count;
+    try {
+      await this.deliveryModel.updateOne(
+        { deliveryId: delivery.id },
+        {
+          $set: {
+            to: delivery.to,
+            subject: delivery.subject,
+            status: delivery.status,
+            attempts: delivery.attempts,
+            maxAttempts: delivery.maxAttempts,
+            sentAt: delivery.sentAt,
+            error: delivery.error,
+          },
+          $setOnInsert: {
+            alertType,
+            expiresAt: new Date(
+              Date.now() + retentionDays * 24 * 60 * 60 * 1000
+            ),
+          },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to track email delivery ${delivery.id}:`,
+        error.message
+      );
+    }
   }
 
   /**
@@ -518,6 +531,97 @@ export class EmailService {
     };
   }
 
+  /**
+   * Double opt-in confirmation for public alert subscriptions
+   */
+  generateSubscriptionConfirmationTemplate(data: {
+    confirmUrl: string;
+    locations: string[];
+    level: string;
+    frequency: string;
+  }): EmailTemplate {
+    const locations = data.locations
+      .map(location => (location === '*' ? 'All locations' : location))
+      .join(', ');
+
+    return {
+      subject: 'Confirm your air quality alert subscription',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Confirm your subscription</h2>
+          <p>You asked to receive air quality alerts for <strong>${locations}</strong>
+            at level <strong>${data.level}</strong> and above, sent <strong>${data.frequency}</strong>.</p>
+          <p style="margin: 30px 0;">
+            <a href="${data.confirmUrl}" style="background-color: #1976d2; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none;">Confirm subscription</a>
+          </p>
+          <p style="color: #666;">If you did not request this, ignore this email and nothing will be sent.</p>
+        </div>
+      `,
+      text: `Confirm your air quality alerts for ${locations} (${data.level}, ${data.frequency}): ${data.confirmUrl}`,
+    };
+  }
+
+  /**
+   * Alerts for a public subscriber: one alert when sent immediately, or
+   * an hourly/daily digest
+   */
+  generateSubscriberAlertTemplate(data: {
+    alerts: {
+      location: string;
+      aqi: number;
+      level: string;
+      message: string;
+      timestamp: Date;
+    }[];
+    frequency: string;
+    unsubscribeUrl: string;
+  }): EmailTemplate {
+    const [first] = data.alerts;
+    const subject =
+      data.frequency === 'immediate'
+        ? `⚠️ Air Quality Alert - ${first.location} (AQI: ${first.aqi})`
+        : `📬 Your ${data.frequency} air quality digest - ${data.alerts.length} alert(s)`;
+    const rows = data.alerts
+      .map(
+        alert => `
+              <tr>
+                <td style="padding: 10px; border: 1px solid #ddd;">${new Date(alert.timestamp).toLocaleString()}</td>
+                <td style="padding: 10px; border: 1px solid #ddd;">${alert.location}</td>
+                <td style="padding: 10px; border: 1px solid #ddd; background-color: ${this.getPollutionLevelColor(alert.level)};">${alert.aqi}</td>
+                <td style="padding: 10px; border: 1px solid #ddd;">${alert.message}</td>
+              </tr>`
+      )
+      .join('');
+
+    return {
+      subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${subject}</h2>
+          <table style="width: 100%; border-collapse: collapse; margin-top: 15px;">
+            <tr style="background-color: #e8f4fd;">
+              <th style="padding: 10px; border: 1px solid #ddd;">Time</th>
+              <th style="padding: 10px; border: 1px solid #ddd;">Location</th>
+              <th style="padding: 10px; border: 1px solid #ddd;">AQI</th>
+              <th style="padding: 10px; border: 1px solid #ddd;">Alert</th>
+            </tr>${rows}
+          </table>
+          <p style="margin-top: 30px; color: #666; font-size: 12px;">
+            <a href="${data.unsubscribeUrl}">Unsubscribe</a> from these alerts with one click.
+          </p>
+        </div>
+      `,
+      text: [
+        subject,
+        ...data.alerts.map(
+          alert =>
+            `${new Date(alert.timestamp).toISOString()} ${alert.location} AQI ${alert.aqi}: ${alert.message}`
+        ),
+        `Unsubscribe: ${data.unsubscribeUrl}`,
+      ].join('\n'),
+    };
+  }
+
   /**
    * Get pollution level color
    */
@@ -566,7 +670,24 @@ export class EmailService {
    * Get delivery status
    */
   async getDeliveryStatus(deliveryId: string): Promise<EmailDelivery | null> {
-    return this.deliveryTracking.get(deliveryId) || null;
+    const record = await this.deliveryModel
+      .findOne({ deliveryId })
+      .lean()
+      .exec();
+    if (!record) {
+      return null;
+    }
+
+    return {
+      id: record.deliveryId,
+      to: record.to,
+      subject: record.subject,
+      status: record.status,
+      attempts: record.attempts,
+      maxAttempts: record.maxAttempts,
+      sentAt: record.sentAt,
+      error: record.error,
+    };
   }
 
   /**
@@ -580,10 +701,14 @@ export class EmailService {
     retrying: number;
   }> {
     const stats = { total: 0, sent: 0, failed: 0, pending: 0, retrying: 0 };
-
-    for (const delivery of this.deliveryTracking.values()) {
-      stats.total++;
-      stats[delivery.status]++;
+    const groups = await this.deliveryModel.aggregate<{
+      _id: EmailDelivery['status'];
+      count: number;
+    }>([{ $group: { _id: '$status', count: { $sum: 1 } } }]);
+
+    for (const { _id: status, count } of groups) {
+      stats.total += count;
+      stats[status] = count;
     }
 
     return stats;
@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannelPlugin,
+} from '../channels/notification-channel.interface';
+import { buildSlackMessage } from '../channels/slack.channel';
+import { AlertHistory } from './alert.service';
+import { AlertType } from './email.service';
+import { NotificationDispatcher } from './notification-dispatcher.service';
+
+describe('NotificationDispatcher', () => {
+  let dispatcher: NotificationDispatcher;
+
+  const emailChannel: NotificationChannelPlugin = {
+    name: 'email',
+    send: jest.fn(),
+  };
+  const slackChannel: NotificationChannelPlugin = {
+    name: 'slack',
+    send: jest.fn(),
+  };
+
+  const alert: AlertHistory = {
+    id: 'extreme_pollution_1722852000000',
+    type: AlertType.POLLUTION,
+    severity: 'high',
+    message: 'Extreme pollution in Paris',
+    data: { location: 'Paris, Ile-de-France, France', aqi: 212 },
+    timestamp: new Date('2024-08-05T10:00:00Z'),
+    acknowledged: false,
+    escalated: false,
+    recipients: ['ops@example.com'],
+    emailSent: false,
+    deliveries: [],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDispatcher,
+        {
+          provide: NOTIFICATION_CHANNELS,
+          useValue: [emailChannel, slackChannel],
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get<NotificationDispatcher>(NotificationDispatcher);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report the outcome of every declared channel', async () => {
+    (emailChannel.send as jest.Mock).mockResolvedValue({
+      channel: 'email',
+      status: 'sent',
+      deliveryId: 'email_1',
+      timestamp: new Date(),
+    });
+    (slackChannel.send as jest.Mock).mockRejectedValue(
+      new Error('Request failed with status code 404')
+    );
+
+    const deliveries = await dispatcher.dispatch(alert, [
+      'email',
+      'slack',
+      'sms',
+    ]);
+
+    expect(emailChannel.send).toHaveBeenCalledWith(alert);
+    expect(deliveries).toEqual([
+      expect.objectContaining({ channel: 'email', status: 'sent' }),
+      expect.objectContaining({
+        channel: 'slack',
+        status: 'failed',
+        error: 'Request failed with status code 404',
+      }),
+      expect.objectContaining({ channel: 'sms', status: 'skipped' }),
+    ]);
+  });
+
+  it('should build a Slack-compatible message', () => {
+    const message = buildSlackMessage(alert);
+
+    expect(message.text).toBe('[HIGH] Extreme pollution in Paris');
+    expect(message.attachments[0].blocks[1].fields).toEqual(
+      expect.arrayContaining([
+        { type: 'mrkdwn', text: '*Location*\nParis, Ile-de-France, France' },
+        { type: 'mrkdwn', text: '*AQI*\n212' },
+      ])
+    );
+  });
+});
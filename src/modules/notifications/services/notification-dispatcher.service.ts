@@ -0,0 +1,71 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+
+import { NotificationChannel } from '@/common/types';
+import {
+  ChannelDelivery,
+  NOTIFICATION_CHANNELS,
+  NotificationChannelPlugin,
+} from '../channels/notification-channel.interface';
+import { AlertHistory } from './alert.service';
+
+/**
+ * Sends alerts over the channels their condition declares. Channels are
+ * registered under `NOTIFICATION_CHANNELS`, so adding one needs no change
+ * to alert logic.
+ */
+@Injectable()
+export class NotificationDispatcher {
+  private readonly logger = new Logger(NotificationDispatcher.name);
+  private readonly channels: Map<
+    NotificationChannel,
+    NotificationChannelPlugin
+  >;
+
+  constructor(
+    @Inject(NOTIFICATION_CHANNELS) channels: NotificationChannelPlugin[]
+  ) {
+    this.channels = new Map(channels.map(channel => [channel.name, channel]));
+  }
+
+  getChannelNames(): NotificationChannel[] {
+    return [...this.channels.keys()];
+  }
+
+  /**
+   * Send `alert` over every channel in parallel. Never throws; each
+   * channel's outcome is returned instead.
+   */
+  async dispatch(
+    alert: AlertHistory,
+    channels: NotificationChannel[]
+  ): Promise<ChannelDelivery[]> {
+    return Promise.all(
+      [...new Set(channels)].map(async name => {
+        const channel = this.channels.get(name);
+        if (!channel) {
+          return {
+            channel: name,
+            status: 'skipped' as const,
+            detail: 'Channel is not registered',
+            timestamp: new Date(),
+          };
+        }
+
+        try {
+          return await channel.send(alert);
+        } catch (error) {
+          this.logger.error(
+            `Failed to send alert ${alert.id} via ${name}:`,
+            error.message
+          );
+          return {
+            channel: name,
+            status: 'failed' as const,
+            error: error.message,
+            timestamp: new Date(),
+          };
+        }
+      })
+    );
+  }
+}
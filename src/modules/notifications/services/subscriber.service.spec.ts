@@ -0,0 +1,163 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+
+import { AlertSubscriber } from '../schemas/alert-subscriber.schema';
+import { AlertHistory } from './alert.service';
+import { AlertType, EmailService } from './email.service';
+import { SubscriberService } from './subscriber.service';
+
+describe('SubscriberService', () => {
+  let service: SubscriberService;
+
+  const mockSubscriberModel = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    create: jest.fn(),
+    updateMany: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockEmailService = {
+    sendEmail: jest.fn(),
+    generateSubscriptionConfirmationTemplate: jest.fn(),
+    generateSubscriberAlertTemplate: jest.fn(),
+  };
+
+  const template = { subject: 'subject', html: '<p></p>', text: 'text' };
+
+  const createSubscriber = (overrides: Record<string, unknown> = {}) => ({
+    _id: 'subscriber-1',
+    id: 'subscriber-1',
+    email: 'jane@example.com',
+    status: 'active',
+    locations: ['Paris, Ile-de-France, France'],
+    level: 'unhealthy',
+    frequency: 'immediate',
+    unsubscribeToken: 'unsubscribe-token',
+    pendingPreferences: null,
+    confirmedAt: null,
+    set: jest.fn().mockImplementation(function (values) {
+      Object.assign(this, values);
+      return this;
+    }),
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  const alert: AlertHistory = {
+    id: 'high_pollution_1',
+    type: AlertType.POLLUTION,
+    severity: 'medium',
+    message: 'AQI 180 in Paris',
+    data: {
+      location: 'Paris, Ile-de-France, France',
+      aqi: 180,
+      pollution_level: 'Unhealthy',
+    },
+    timestamp: new Date(),
+    emailSent: false,
+    escalated: false,
+    acknowledged: false,
+    recipients: [],
+    deliveries: [],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubscriberService,
+        {
+          provide: getModelToken(AlertSubscriber.name),
+          useValue: mockSubscriberModel,
+        },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SubscriberService>(SubscriberService);
+
+    mockEmailService.generateSubscriptionConfirmationTemplate.mockReturnValue(
+      template
+    );
+    mockEmailService.generateSubscriberAlertTemplate.mockReturnValue(template);
+    mockEmailService.sendEmail.mockResolvedValue({ status: 'sent' });
+  });
+
+  it('applies requested preferences only once they are confirmed', async () => {
+    const subscriber = createSubscriber();
+    mockSubscriberModel.findOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(subscriber),
+    });
+
+    await service.subscribe({
+      email: 'Jane@Example.com',
+      locations: ['Lyon,Auvergne-Rhone-Alpes,France'],
+      level: 'hazardous',
+      frequency: 'daily',
+    });
+
+    expect(subscriber.level).toBe('unhealthy');
+    const { confirmUrl } =
+      mockEmailService.generateSubscriptionConfirmationTemplate.mock
+        .calls[0][0];
+    const token = new URL(confirmUrl).searchParams.get('token');
+
+    await service.confirm(token);
+
+    expect(mockSubscriberModel.findOne).toHaveBeenLastCalledWith({
+      confirmTokenHash: createHash('sha256').update(token).digest('hex'),
+      confirmTokenExpiresAt: { $gt: expect.any(Date) },
+    });
+    expect(subscriber).toMatchObject({
+      status: 'active',
+      locations: ['Lyon, Auvergne-Rhone-Alpes, France'],
+      level: 'hazardous',
+      frequency: 'daily',
+      pendingPreferences: null,
+      confirmTokenHash: null,
+    });
+  });
+
+  it('emails immediate subscribers and queues the alert for digests', async () => {
+    const daily = createSubscriber({ _id: 'subscriber-2', frequency: 'daily' });
+    mockSubscriberModel.find.mockReturnValue({
+      select: () => ({
+        exec: jest.fn().mockResolvedValue([createSubscriber(), daily]),
+      }),
+    });
+
+    const result = await service.notifyAlert(alert);
+
+    expect(result).toEqual({ sent: 1, queued: 1 });
+    expect(mockSubscriberModel.find).toHaveBeenCalledWith({
+      status: 'active',
+      locations: { $in: ['Paris, Ile-de-France, France', '*'] },
+      level: { $in: ['all', 'moderate', 'unhealthy'] },
+    });
+    expect(mockEmailService.sendEmail).toHaveBeenCalledWith(
+      'jane@example.com',
+      'subject',
+      '<p></p>',
+      'text',
+      AlertType.POLLUTION,
+      expect.objectContaining({
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      })
+    );
+    expect(mockSubscriberModel.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: ['subscriber-2'] } },
+      {
+        $push: {
+          pendingAlerts: {
+            $each: [expect.objectContaining({ alertId: 'high_pollution_1' })],
+            $slice: -100,
+          },
+        },
+      }
+    );
+  });
+});
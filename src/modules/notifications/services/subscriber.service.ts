@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHash, randomBytes } from 'crypto';
+import { Model } from 'mongoose';
+
+import { CreateSubscriptionDto } from '@/common/dto/subscription.dto';
+import { AlertFrequency, AlertLevel } from '@/common/types';
+import {
+  AlertSubscriber,
+  AlertSubscriberDocument,
+  PendingSubscriberAlert,
+  SubscriberPreferences,
+} from '../schemas/alert-subscriber.schema';
+import { AlertHistory } from './alert.service';
+import { AlertType, EmailService } from './email.service';
+
+/** Lowest US AQI of each subscriber level */
+export const ALERT_LEVEL_MIN_AQI: Record<AlertLevel, number> = {
+  all: 0,
+  moderate: 51,
+  unhealthy: 151,
+  very_unhealthy: 201,
+  hazardous: 301,
+};
+
+/** Oldest digest entries are dropped beyond this */
+const MAX_PENDING_ALERTS = 100;
+
+export interface SubscriberFanOut {
+  sent: number;
+  queued: number;
+}
+
+/**
+ * Public email subscriptions to pollution alerts: double opt-in,
+ * one-click unsubscribe, and per-subscriber delivery either immediately
+ * or as hourly/daily digests
+ */
+@Injectable()
+export class SubscriberService {
+  private readonly logger = new Logger(SubscriberService.name);
+  private readonly publicUrl: string;
+  private readonly confirmHours: number;
+
+  constructor(
+    @InjectModel(AlertSubscriber.name)
+    private subscriberModel: Model<AlertSubscriberDocument>,
+    private emailService: EmailService,
+    private configService: ConfigService
+  ) {
+    this.publicUrl = (
+      this.configService.get<string>('subscriptions.publicUrl') ||
+      'http://localhost:3000/api/v1'
+    ).replace(/\/$/, '');
+    this.confirmHours =
+      this.configService.get<number>('subscriptions.confirmHours') || 48;
+  }
+
+  /**
+   * Start a subscription, or a change of preferences, and email the
+   * confirmation link. Nothing is sent until it is confirmed.
+   */
+  async subscribe(dto: CreateSubscriptionDto): Promise<void> {
+    const preferences: SubscriberPreferences = {
+      locations: this.normalizeLocations(dto.locations),
+      level: dto.level ?? 'unhealthy',
+      frequency: dto.frequency ?? 'immediate',
+    };
+    const email = dto.email.trim().toLowerCase();
+    const token = randomBytes(32).toString('base64url');
+    const confirmTokenExpiresAt = new Date(
+      Date.now() + this.confirmHours * 60 * 60 * 1000
+    );
+    const confirmation = {
+      confirmTokenHash: this.hashToken(token),
+      confirmTokenExpiresAt,
+    };
+
+    const existing = await this.subscriberModel.findOne({ email }).exec();
+    if (!existing) {
+      await this.subscriberModel.create({
+        email,
+        ...preferences,
+        ...confirmation,
+        unsubscribeToken: randomBytes(32).toString('base64url'),
+        expiresAt: confirmTokenExpiresAt,
+      });
+    } else if (existing.status === 'active') {
+      // Keep the current preferences until the owner confirms the change
+      existing.set({ ...confirmation, pendingPreferences: preferences });
+      await existing.save();
+    } else {
+      existing.set({
+        ...preferences,
+        ...confirmation,
+        status: 'pending',
+        pendingPreferences: null,
+        expiresAt: existing.confirmedAt ? null : confirmTokenExpiresAt,
+      });
+      await existing.save();
+    }
+
+    const template = this.emailService.generateSubscriptionConfirmationTemplate(
+      {
+        ...preferences,
+        confirmUrl: `${this.publicUrl}/subscriptions/confirm?token=${token}`,
+      }
+    );
+    await this.emailService.sendEmail(
+      email,
+      template.subject,
+      template.html,
+      template.text
+    );
+    this.logger.log(`Sent subscription confirmation to ${email}`);
+  }
+
+  /**
+   * Confirm an address, activating the subscription or its new preferences
+   */
+  async confirm(token: string): Promise<SubscriberPreferences> {
+    const subscriber = await this.subscriberModel
+      .findOne({
+        confirmTokenHash: this.hashToken(token),
+        confirmTokenExpiresAt: { $gt: new Date() },
+      })
+      .exec();
+    if (!subscriber) {
+      throw new NotFoundException('Confirmation link is invalid or expired');
+    }
+
+    subscriber.set({
+      ...(subscriber.pendingPreferences ?? {}),
+      status: 'active',
+      pendingPreferences: null,
+      confirmTokenHash: null,
+      confirmTokenExpiresAt: null,
+      confirmedAt: subscriber.confirmedAt ?? new Date(),
+      unsubscribedAt: null,
+      expiresAt: null,
+    });
+    await subscriber.save();
+    this.logger.log(`Confirmed subscription of ${subscriber.email}`);
+
+    const { locations, level, frequency } = subscriber;
+    return { locations, level, frequency };
+  }
+
+  /**
+   * One-click unsubscribe; repeating it is harmless
+   */
+  async unsubscribe(token: string): Promise<void> {
+    const subscriber = await this.subscriberModel
+      .findOne({ unsubscribeToken: token })
+      .exec();
+    if (!subscriber) {
+      throw new NotFoundException('Unsubscribe link is invalid');
+    }
+
+    if (subscriber.status !== 'unsubscribed') {
+      subscriber.set({
+        status: 'unsubscribed',
+        unsubscribedAt: new Date(),
+        pendingAlerts: [],
+        pendingPreferences: null,
+      });
+      await subscriber.save();
+      this.logger.log(`Unsubscribed ${subscriber.email}`);
+    }
+  }
+
+  /**
+   * Send a pollution alert to every subscriber following its location at
+   * or below its level: at once, or into their next digest
+   */
+  async notifyAlert(alert: AlertHistory): Promise<SubscriberFanOut> {
+    const location = alert.data?.location ?? alert.data?.city;
+    const aqi = alert.data?.aqi;
+    if (
+      alert.type !== AlertType.POLLUTION ||
+      !location ||
+      typeof aqi !== 'number'
+    ) {
+      return { sent: 0, queued: 0 };
+    }
+
+    const levels = (Object.keys(ALERT_LEVEL_MIN_AQI) as AlertLevel[]).filter(
+      level => ALERT_LEVEL_MIN_AQI[level] <= aqi
+    );
+    const subscribers = await this.subscriberModel
+      .find({
+        status: 'active',
+        locations: { $in: [location, '*'] },
+        level: { $in: levels },
+      })
+      .select('+unsubscribeToken')
+      .exec();
+
+    const item: PendingSubscriberAlert = {
+      alertId: alert.id,
+      location,
+      aqi,
+      level: alert.data?.pollution_level ?? alert.data?.level ?? '',
+      message: alert.message,
+      timestamp: alert.timestamp,
+    };
+
+    const immediate = subscribers.filter(s => s.frequency === 'immediate');
+    const digest = subscribers.filter(s => s.frequency !== 'immediate');
+
+    let sent = 0;
+    for (const subscriber of immediate) {
+      if (await this.sendAlerts(subscriber, [item])) {
+        sent++;
+      }
+    }
+
+    if (digest.length > 0) {
+      await this.subscriberModel.updateMany(
+        { _id: { $in: digest.map(subscriber => subscriber._id) } },
+        {
+          $push: {
+            pendingAlerts: { $each: [item], $slice: -MAX_PENDING_ALERTS },
+          },
+        }
+      );
+    }
+
+    return { sent, queued: digest.length };
+  }
+
+  /**
+   * Hourly CRON: send hourly digests
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async sendHourlyDigests(): Promise<number> {
+    return this.sendDigests('hourly');
+  }
+
+  /**
+   * Daily CRON: send daily digests
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_7AM)
+  async sendDailyDigests(): Promise<number> {
+    return this.sendDigests('daily');
+  }
+
+  /**
+   * Email each subscriber of `frequency` their pending alerts. Alerts that
+   * fail to send stay pending for the next run.
+   */
+  async sendDigests(frequency: AlertFrequency): Promise<number> {
+    const subscribers = await this.subscriberModel
+      .find({
+        status: 'active',
+        frequency,
+        'pendingAlerts.0': { $exists: true },
+      })
+      .select('+unsubscribeToken')
+      .exec();
+
+    let sent = 0;
+    for (const subscriber of subscribers) {
+      const alerts = subscriber.pendingAlerts;
+      if (!(await this.sendAlerts(subscriber, alerts))) {
+        continue;
+      }
+
+      await this.subscriberModel.updateOne(
+        { _id: subscriber._id },
+        {
+          $pull: {
+            pendingAlerts: {
+              alertId: { $in: alerts.map(alert => alert.alertId) },
+            },
+          },
+          $set: { lastDigestAt: new Date() },
+        }
+      );
+      sent++;
+    }
+
+    if (sent > 0) {
+      this.logger.log(`Sent ${sent} ${frequency} digest(s)`);
+    }
+    return sent;
+  }
+
+  private async sendAlerts(
+    subscriber: AlertSubscriberDocument,
+    alerts: PendingSubscriberAlert[]
+  ): Promise<boolean> {
+    const unsubscribeUrl = `${this.publicUrl}/subscriptions/unsubscribe?token=${subscriber.unsubscribeToken}`;
+    const template = this.emailService.generateSubscriberAlertTemplate({
+      alerts,
+      frequency: subscriber.frequency,
+      unsubscribeUrl,
+    });
+
+    try {
+      await this.emailService.sendEmail(
+        subscriber.email,
+        template.subject,
+        template.html,
+        template.text,
+        AlertType.POLLUTION,
+        // One-click unsubscribe from the mail client (RFC 8058)
+        {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        }
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send alerts to subscriber ${subscriber.id}:`,
+        error.message
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Labels must be "City, State, Country" like the rest of the API
+   */
+  private normalizeLocations(locations: string[]): string[] {
+    const normalized = locations.map(location => {
+      if (location.trim() === '*') {
+        return '*';
+      }
+      const parts = location.split(',').map(part => part.trim());
+      if (parts.length !== 3 || parts.some(part => part === '')) {
+        throw new BadRequestException(
+          `Location "${location}" must be "City, State, Country" or "*"`
+        );
+      }
+      return parts.join(', ');
+    });
+    return [...new Set(normalized)];
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,146 @@
+import { getQueueToken } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import axios from 'axios';
+
+import { WebhookDelivery } from '../schemas/webhook-delivery.schema';
+import { WebhookSubscription } from '../schemas/webhook-subscription.schema';
+import { AlertType } from './email.service';
+import { signWebhookPayload, WebhookService } from './webhook.service';
+
+jest.mock('axios');
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+
+  const SECRET = 'a'.repeat(32);
+
+  const mockSubscriptionModel = { find: jest.fn(), findById: jest.fn() };
+  const mockDeliveryModel = { create: jest.fn(), findById: jest.fn() };
+  const mockWebhookQueue = { add: jest.fn() };
+
+  const exec = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const createDelivery = () => ({
+    id: 'delivery-1',
+    subscriptionId: 'subscription-1',
+    event: 'alert.pollution',
+    payload: { event: 'alert.pollution', alert: { id: 'high_pollution_1' } },
+    status: 'pending',
+    attempts: [],
+    save: jest.fn().mockImplementation(function () {
+      return Promise.resolve(this);
+    }),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        {
+          provide: getModelToken(WebhookSubscription.name),
+          useValue: mockSubscriptionModel,
+        },
+        {
+          provide: getModelToken(WebhookDelivery.name),
+          useValue: mockDeliveryModel,
+        },
+        { provide: getQueueToken('webhooks'), useValue: mockWebhookQueue },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WebhookService>(WebhookService);
+
+    mockSubscriptionModel.findById.mockReturnValue({
+      select: () =>
+        exec({
+          url: 'https://hooks.example.com/aqi',
+          secret: SECRET,
+          enabled: true,
+        }),
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should sign the exact body it sends', async () => {
+    const delivery = createDelivery();
+    mockDeliveryModel.findById.mockReturnValue(exec(delivery));
+    (axios.post as jest.Mock).mockResolvedValue({ status: 204 });
+
+    await service.deliver('delivery-1', 1, 6);
+
+    const [url, body, options] = (axios.post as jest.Mock).mock.calls[0];
+    const timestamp = Number(options.headers['X-AQI-Timestamp']);
+    expect(url).toBe('https://hooks.example.com/aqi');
+    expect(body).toBe(JSON.stringify(delivery.payload));
+    expect(options.headers['X-AQI-Signature']).toBe(
+      `sha256=${signWebhookPayload(SECRET, timestamp, body)}`
+    );
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toHaveLength(1);
+  });
+
+  it('should retry failed deliveries and dead-letter the last attempt', async () => {
+    const delivery = createDelivery();
+    mockDeliveryModel.findById.mockReturnValue(exec(delivery));
+    (axios.post as jest.Mock).mockResolvedValue({ status: 503 });
+
+    await expect(service.deliver('delivery-1', 1, 2)).rejects.toThrow(
+      'attempt 1/2 failed: Receiver responded with 503'
+    );
+    expect(delivery.status).toBe('retrying');
+
+    await expect(service.deliver('delivery-1', 2, 2)).rejects.toThrow();
+    expect(delivery.status).toBe('dead');
+    expect(delivery).toMatchObject({
+      lastError: 'Receiver responded with 503',
+      deadLetteredAt: expect.any(Date),
+    });
+    expect(delivery.attempts).toHaveLength(2);
+  });
+
+  it('should only queue alerts at or above the subscription severity', async () => {
+    mockSubscriptionModel.find.mockReturnValue(
+      exec([
+        { _id: 'all', minSeverity: 'low' },
+        { _id: 'urgent', minSeverity: 'high' },
+      ])
+    );
+    mockDeliveryModel.create.mockImplementation(async delivery => ({
+      ...delivery,
+      id: `delivery-${delivery.subscriptionId}`,
+    }));
+
+    const queued = await service.dispatchAlert({
+      id: 'high_pollution_1',
+      type: AlertType.POLLUTION,
+      severity: 'medium',
+      message: 'High pollution in Paris',
+      data: { aqi: 160 },
+      timestamp: new Date(),
+      acknowledged: false,
+      escalated: false,
+      recipients: [],
+      emailSent: false,
+      deliveries: [],
+    });
+
+    expect(queued).toBe(1);
+    expect(mockSubscriptionModel.find).toHaveBeenCalledWith({
+      enabled: true,
+      events: { $in: ['*', 'alert.pollution'] },
+    });
+    expect(mockWebhookQueue.add).toHaveBeenCalledWith(
+      'deliver-webhook',
+      { deliveryId: 'delivery-all' },
+      { attempts: 6, backoff: { type: 'exponential', delay: 30000 } }
+    );
+  });
+});
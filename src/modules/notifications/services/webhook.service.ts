@@ -0,0 +1,331 @@
+import { InjectQueue } from '@nestjs/bull';
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import axios from 'axios';
+import { Queue } from 'bull';
+import { createHmac, randomBytes } from 'crypto';
+import { isValidObjectId, Model } from 'mongoose';
+
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from '@/common/dto/webhook.dto';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from '../schemas/webhook-delivery.schema';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from '../schemas/webhook-subscription.schema';
+import { AlertHistory } from './alert.service';
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-AQI-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-AQI-Timestamp';
+
+/**
+ * Signature of a webhook body: hex HMAC-SHA256 of `<timestamp>.<body>`.
+ * Receivers recompute it with their secret and reject stale timestamps.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Outgoing webhooks: subscriptions, signed delivery through the webhooks
+ * queue, and the delivery log
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+  private readonly timeoutMs: number;
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscriptionDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDeliveryDocument>,
+    @InjectQueue('webhooks') private webhookQueue: Queue,
+    private configService: ConfigService
+  ) {
+    this.maxAttempts =
+      this.configService.get<number>('webhooks.maxAttempts') || 6;
+    this.backoffMs =
+      this.configService.get<number>('webhooks.backoffMs') || 30000;
+    this.timeoutMs =
+      this.configService.get<number>('webhooks.timeoutMs') || 10000;
+  }
+
+  /**
+   * Create a subscription. The secret is returned here and never again.
+   */
+  async create(
+    dto: CreateWebhookDto
+  ): Promise<WebhookSubscription & { id: string; secret: string }> {
+    const secret = dto.secret ?? randomBytes(32).toString('hex');
+    const subscription = await this.subscriptionModel.create({
+      ...dto,
+      secret,
+    });
+
+    this.logger.log(`Created webhook ${subscription.id} for ${dto.url}`);
+    return { ...subscription.toJSON(), id: subscription.id, secret };
+  }
+
+  async findAll(): Promise<WebhookSubscriptionDocument[]> {
+    return this.subscriptionModel.find().sort({ createdAt: -1 }).exec();
+  }
+
+  async findOne(id: string): Promise<WebhookSubscriptionDocument> {
+    const subscription = isValidObjectId(id)
+      ? await this.subscriptionModel.findById(id).exec()
+      : null;
+    if (!subscription) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+    return subscription;
+  }
+
+  async update(
+    id: string,
+    dto: UpdateWebhookDto
+  ): Promise<WebhookSubscriptionDocument> {
+    const subscription = await this.findOne(id);
+    subscription.set(dto);
+    return subscription.save();
+  }
+
+  async remove(id: string): Promise<void> {
+    const subscription = await this.findOne(id);
+    await subscription.deleteOne();
+    this.logger.log(`Removed webhook ${id}`);
+  }
+
+  /**
+   * Queue a delivery of `alert` to every matching subscription. Never
+   * throws, so a webhook problem cannot stop the alert itself.
+   */
+  async dispatchAlert(alert: AlertHistory): Promise<number> {
+    const event = `alert.${alert.type}`;
+
+    try {
+      const subscriptions = await this.subscriptionModel
+        .find({ enabled: true, events: { $in: ['*', event] } })
+        .exec();
+      const matching = subscriptions.filter(
+        subscription =>
+          SEVERITY_RANK[alert.severity] >=
+          SEVERITY_RANK[subscription.minSeverity ?? 'low']
+      );
+
+      for (const subscription of matching) {
+        await this.queueDelivery(subscription, event, {
+          event,
+          alert: {
+            id: alert.id,
+            type: alert.type,
+            severity: alert.severity,
+            message: alert.message,
+            timestamp: alert.timestamp,
+            escalated: alert.escalated,
+            data: alert.data,
+          },
+        });
+      }
+
+      return matching.length;
+    } catch (error) {
+      this.logger.error(`Failed to dispatch ${event} webhooks:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Send a `webhook.test` event to one subscription, whatever its filter
+   */
+  async sendTest(id: string): Promise<WebhookDeliveryDocument> {
+    const subscription = await this.findOne(id);
+    return this.queueDelivery(subscription, 'webhook.test', {
+      event: 'webhook.test',
+      message: 'Test delivery from the AQI monitoring API',
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Attempt one delivery. Throws on failure so the queue retries it with
+   * backoff; the last failed attempt moves it to the dead-letter store.
+   */
+  async deliver(
+    deliveryId: string,
+    attempt: number,
+    maxAttempts: number
+  ): Promise<WebhookDeliveryDocument> {
+    const delivery = await this.deliveryModel.findById(deliveryId).exec();
+    if (!delivery || delivery.status === 'delivered') {
+      return delivery;
+    }
+
+    const subscription = await this.subscriptionModel
+      .findById(delivery.subscriptionId)
+      .select('+secret')
+      .exec();
+    if (!subscription || !subscription.enabled) {
+      // Retrying cannot help
+      return this.deadLetter(delivery, 'Webhook was removed or disabled');
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AQI-Monitor-Webhooks/1.0',
+          'X-AQI-Event': delivery.event,
+          'X-AQI-Delivery': delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`,
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Receiver responded with ${statusCode}`;
+      }
+    } catch (requestError) {
+      error = requestError.message;
+    }
+
+    delivery.attempts.push({
+      attemptedAt: new Date(startTime),
+      statusCode,
+      error,
+      responseTimeMs: Date.now() - startTime,
+    });
+
+    if (!error) {
+      delivery.status = 'delivered';
+      delivery.deliveredAt = new Date();
+      delivery.lastError = null;
+      return delivery.save();
+    }
+
+    if (attempt >= maxAttempts) {
+      await this.deadLetter(delivery, error);
+    } else {
+      delivery.status = 'retrying';
+      delivery.lastError = error;
+      await delivery.save();
+    }
+
+    throw new Error(
+      `Webhook delivery ${delivery.id} attempt ${attempt}/${maxAttempts} failed: ${error}`
+    );
+  }
+
+  async getDeliveries(
+    query: WebhookDeliveryQueryDto,
+    subscriptionId?: string
+  ): Promise<WebhookDeliveryDocument[]> {
+    const filter: Record<string, any> = {};
+    if (subscriptionId) {
+      filter.subscriptionId = (await this.findOne(subscriptionId))._id;
+    }
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.event) {
+      filter.event = query.event;
+    }
+
+    return this.deliveryModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(query.limit ?? 50)
+      .exec();
+  }
+
+  /**
+   * Queue a dead-lettered delivery again, with a fresh set of attempts
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDeliveryDocument> {
+    const delivery = isValidObjectId(deliveryId)
+      ? await this.deliveryModel.findById(deliveryId).exec()
+      : null;
+    if (!delivery) {
+      throw new NotFoundException(`Delivery ${deliveryId} not found`);
+    }
+    if (delivery.status !== 'dead') {
+      throw new ConflictException(
+        `Only dead deliveries can be redelivered; this one is ${delivery.status}`
+      );
+    }
+
+    delivery.status = 'pending';
+    delivery.deadLetteredAt = null;
+    await delivery.save();
+    await this.enqueue(delivery);
+
+    return delivery;
+  }
+
+  private async queueDelivery(
+    subscription: WebhookSubscriptionDocument,
+    event: string,
+    payload: Record<string, any>
+  ): Promise<WebhookDeliveryDocument> {
+    const delivery = await this.deliveryModel.create({
+      subscriptionId: subscription._id,
+      event,
+      payload,
+    });
+    await this.enqueue(delivery);
+    return delivery;
+  }
+
+  private async enqueue(delivery: WebhookDeliveryDocument): Promise<void> {
+    await this.webhookQueue.add(
+      'deliver-webhook',
+      { deliveryId: delivery.id },
+      {
+        attempts: this.maxAttempts,
+        backoff: { type: 'exponential', delay: this.backoffMs },
+      }
+    );
+  }
+
+  private async deadLetter(
+    delivery: WebhookDeliveryDocument,
+    error: string
+  ): Promise<WebhookDeliveryDocument> {
+    delivery.status = 'dead';
+    delivery.deadLetteredAt = new Date();
+    delivery.lastError = error;
+    this.logger.warn(`Webhook delivery ${delivery.id} dead-lettered: ${error}`);
+    return delivery.save();
+  }
+}
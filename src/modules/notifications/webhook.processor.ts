@@ -0,0 +1,31 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+
+import { WebhookService } from './services/webhook.service';
+
+@Processor('webhooks')
+export class WebhookProcessor {
+  private readonly logger = new Logger(WebhookProcessor.name);
+
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Process({ name: 'deliver-webhook', concurrency: 5 })
+  async handleDeliverWebhook(job: Job<{ deliveryId: string }>) {
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts ?? 1;
+
+    this.logger.debug(
+      `Delivering webhook ${job.data.deliveryId} (attempt ${attempt}/${maxAttempts})`
+    );
+
+    // Failures are re-thrown so Bull schedules the next attempt
+    const delivery = await this.webhookService.deliver(
+      job.data.deliveryId,
+      attempt,
+      maxAttempts
+    );
+
+    return { deliveryId: job.data.deliveryId, status: delivery?.status };
+  }
+}
@@ -18,10 +18,13 @@ import {
   ApiParam,
 } from '@nestjs/swagger';
 
+import { AuditState, AuditTrail } from '@/common/decorators/audit.decorator';
+import { RequireRole } from '@/common/decorators/auth.decorator';
 import { QueueService, JobPriority } from '../services/queue.service';
 import { QueueHealthService } from '../services/queue-health.service';
 
 @ApiTags('Queue Management')
+@RequireRole('operator')
 @Controller('queue')
 export class QueueController {
   constructor(
@@ -252,8 +255,15 @@ export class QueueController {
     status: 200,
     description: 'Queue paused successfully',
   })
-  async pauseQueue(@Param('queueName') queueName: string) {
+  async pauseQueue(
+    @Param('queueName') queueName: string,
+    @AuditTrail() audit: AuditState
+  ) {
+    audit.before = {
+      paused: await this.queueService.isQueuePaused(queueName),
+    };
     await this.queueService.pauseQueue(queueName);
+    audit.after = { paused: true };
 
     return {
       message: 'Queue paused',
@@ -272,8 +282,15 @@ export class QueueController {
     status: 200,
     description: 'Queue resumed successfully',
   })
-  async resumeQueue(@Param('queueName') queueName: string) {
+  async resumeQueue(
+    @Param('queueName') queueName: string,
+    @AuditTrail() audit: AuditState
+  ) {
+    audit.before = {
+      paused: await this.queueService.isQueuePaused(queueName),
+    };
     await this.queueService.resumeQueue(queueName);
+    audit.after = { paused: false };
 
     return {
       message: 'Queue resumed',
@@ -282,6 +299,7 @@ export class QueueController {
   }
 
   @Delete('clean/:queueName')
+  @RequireRole('admin')
   @ApiOperation({ summary: 'Clean completed jobs' })
   @ApiParam({
     name: 'queueName',
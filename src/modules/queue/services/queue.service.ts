@@ -2,8 +2,11 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue, Job } from 'bull';
 
+import { AirQualityProviderName } from '@/common/types';
+
 export enum JobType {
   FETCH_PARIS_DATA = 'fetch-paris-data',
+  FETCH_CITY_DATA = 'fetch-city-data',
   CALCULATE_DAILY_STATS = 'calculate-daily-stats',
   SEND_ALERT_EMAIL = 'send-alert-email',
   MIGRATE_DATA = 'migrate-data',
@@ -29,6 +32,14 @@ export interface QueueJobData {
   };
 }
 
+export interface FetchCityJobData {
+  locationId: string;
+  city: string;
+  state: string;
+  country: string;
+  provider?: AirQualityProviderName | null;
+}
+
 export interface QueueStats {
   name: string;
   waiting: number;
@@ -51,8 +62,48 @@ export class QueueService {
     this.setupQueueListeners();
   }
 
+  /**
+   * Add FETCH_CITY_DATA job for a tracked location to air-quality queue
+   */
+  async addFetchCityDataJob(
+    location: FetchCityJobData,
+    priority: JobPriority = JobPriority.NORMAL,
+    delay?: number
+  ): Promise<Job> {
+    const jobData: QueueJobData = {
+      type: JobType.FETCH_CITY_DATA,
+      data: {
+        ...location,
+        timestamp: new Date(),
+      },
+      priority,
+      metadata: {
+        source: 'scheduler',
+        correlationId: this.generateCorrelationId(),
+      },
+    };
+
+    const options = {
+      priority,
+      delay,
+      removeOnComplete: 100,
+      removeOnFail: 50,
+    };
+
+    this.logger.log(
+      `Adding FETCH_CITY_DATA job for ${location.city}, ${location.country} with priority ${priority}`
+    );
+
+    return await this.airQualityQueue.add(
+      JobType.FETCH_CITY_DATA,
+      jobData,
+      options
+    );
+  }
+
   /**
    * Add FETCH_PARIS_DATA job to air-quality queue
+   * @deprecated Paris is a regular tracked location; use addFetchCityDataJob
    */
   async addFetchParisDataJob(
     priority: JobPriority = JobPriority.NORMAL,
@@ -295,6 +346,17 @@ export class QueueService {
     this.logger.log(`Retried job ${jobId} in queue ${queueName}`);
   }
 
+  /**
+   * Whether a queue is paused
+   */
+  async isQueuePaused(queueName: string): Promise<boolean> {
+    const queue = this.getQueueByName(queueName);
+    if (!queue) {
+      throw new Error(`Queue ${queueName} not found`);
+    }
+    return queue.isPaused();
+  }
+
   /**
    * Pause queue
    */
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { UsageQueryDto } from '@/common/dto/usage.dto';
+import { ApiKeyPrincipal } from '../../auth/services/api-key.service';
+import { RateLimitService, UsageReport } from '../services/rate-limit.service';
+
+@ApiTags('usage')
+@RequireRole('reader')
+@Controller('usage')
+export class UsageController {
+  constructor(private readonly rateLimitService: RateLimitService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Requests per client, by day and by route',
+    description:
+      'Admin keys see every client, including callers without a key by IP; other keys see their own usage.',
+  })
+  @ApiResponse({ status: 403, description: 'client set by a non-admin key' })
+  async getUsage(
+    @Query() query: UsageQueryDto,
+    @Req() request: Request & { apiKey: ApiKeyPrincipal }
+  ): Promise<UsageReport> {
+    const { apiKey } = request;
+    const own = `key:${apiKey.id}`;
+
+    if (apiKey.role !== 'admin') {
+      if (query.client && query.client !== own) {
+        throw new ForbiddenException('Only admin keys can see other clients');
+      }
+      return this.rateLimitService.getUsage(query.days ?? 7, own);
+    }
+    return this.rateLimitService.getUsage(query.days ?? 7, query.client);
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+
+import { RATE_LIMIT_GROUP_KEY } from '@/common/decorators/rate-limit.decorator';
+import { RateLimitGroup } from '@/common/types';
+import { ApiKeyPrincipal } from '../../auth/services/api-key.service';
+import {
+  RateLimitClient,
+  RateLimitService,
+} from '../services/rate-limit.service';
+
+type RateLimitedRequest = Request & { apiKey?: ApiKeyPrincipal };
+
+/**
+ * Applies the caller's rate limit to every HTTP and GraphQL call and sets
+ * the `RateLimit-*` headers. Runs after the API key guard, so calls with a
+ * key are counted against the key and its tier, and the rest against their
+ * IP address. GraphQL counts each top-level field as one call.
+ */
+@Injectable()
+export class RateLimitInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler
+  ): Promise<Observable<unknown>> {
+    const http = this.getHttp(context);
+    if (!http) {
+      return next.handle();
+    }
+
+    const { request, response } = http;
+    const group =
+      this.reflector.getAllAndOverride<RateLimitGroup>(RATE_LIMIT_GROUP_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'default';
+    const route = `${request.method} ${request.route?.path ?? request.path}`;
+
+    const result = await this.rateLimitService.consume(
+      this.getClient(request),
+      group,
+      route
+    );
+    if (!result) {
+      return next.handle();
+    }
+
+    response.setHeader('RateLimit-Limit', result.limit);
+    response.setHeader('RateLimit-Remaining', result.remaining);
+    response.setHeader('RateLimit-Reset', result.resetSeconds);
+    response.setHeader(
+      'RateLimit-Policy',
+      `${result.limit};w=${result.windowSeconds}`
+    );
+
+    if (!result.allowed) {
+      response.setHeader('Retry-After', result.resetSeconds);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: `Rate limit of ${result.limit} requests per ${result.windowSeconds}s exceeded`,
+          retryAfter: result.resetSeconds,
+        },
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+
+    return next.handle();
+  }
+
+  private getClient(request: RateLimitedRequest): RateLimitClient {
+    const principal = request.apiKey;
+    if (principal) {
+      return {
+        id: `key:${principal.id}`,
+        name: principal.name,
+        tier: principal.tier,
+      };
+    }
+    return { id: `ip:${request.ip}`, tier: 'anonymous' };
+  }
+
+  /**
+   * Request and response of the call; null for WebSocket events, which
+   * are not rate limited
+   */
+  private getHttp(
+    context: ExecutionContext
+  ): { request: RateLimitedRequest; response: Response } | null {
+    switch (context.getType<string>()) {
+      case 'graphql': {
+        const request = GqlExecutionContext.create(context).getContext().req;
+        return request ? { request, response: request.res } : null;
+      }
+      case 'http': {
+        const http = context.switchToHttp();
+        return { request: http.getRequest(), response: http.getResponse() };
+      }
+      default:
+        return null;
+    }
+  }
+}
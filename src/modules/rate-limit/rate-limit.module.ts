@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+
+import { RedisModule } from '../redis/redis.module';
+import { UsageController } from './controllers/usage.controller';
+import { RateLimitInterceptor } from './interceptors/rate-limit.interceptor';
+import { RateLimitService } from './services/rate-limit.service';
+
+@Module({
+  imports: [RedisModule],
+  controllers: [UsageController],
+  providers: [
+    RateLimitService,
+    { provide: APP_INTERCEPTOR, useClass: RateLimitInterceptor },
+  ],
+  exports: [RateLimitService],
+})
+export class RateLimitModule {}
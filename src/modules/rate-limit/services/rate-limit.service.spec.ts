@@ -0,0 +1,150 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { RedisService } from '../../redis/services/redis.service';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+
+  const pipeline = {
+    hincrby: jest.fn(),
+    hgetall: jest.fn(),
+    hset: jest.fn(),
+    pexpire: jest.fn(),
+    exec: jest.fn(),
+  };
+  const mockRedisService = {
+    client: { eval: jest.fn(), pipeline: jest.fn(() => pipeline) },
+  };
+
+  const config: Record<string, unknown> = {
+    'rateLimit.windowSeconds': 60,
+    'rateLimit.usageDays': 31,
+    'rateLimit.limits': { anonymous: { upstream: 2 } },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    for (const method of ['hincrby', 'hgetall', 'hset', 'pexpire'] as const) {
+      pipeline[method].mockReturnValue(pipeline);
+    }
+    pipeline.exec.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        { provide: RedisService, useValue: mockRedisService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RateLimitService>(RateLimitService);
+  });
+
+  describe('consume', () => {
+    it('rejects over the configured limit and reports when the window frees up', async () => {
+      const now = Date.now();
+      mockRedisService.client.eval.mockResolvedValue([
+        0,
+        2,
+        String(now - 45000),
+      ]);
+
+      const result = await service.consume(
+        { id: 'ip:203.0.113.7', tier: 'anonymous' },
+        'upstream',
+        'GET /api/v1/api/air-quality/nearest-city'
+      );
+
+      expect(result).toEqual({
+        allowed: false,
+        limit: 2,
+        remaining: 0,
+        resetSeconds: 15,
+        windowSeconds: 60,
+      });
+      expect(mockRedisService.client.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'ratelimit:upstream:ip:203.0.113.7',
+        now,
+        60000,
+        2,
+        expect.any(String)
+      );
+      expect(pipeline.hincrby).toHaveBeenCalledWith(
+        'usage:2024-08-05',
+        'ip:203.0.113.7|GET /api/v1/api/air-quality/nearest-city|limited',
+        1
+      );
+      // Defaults still apply to groups the override leaves out
+      expect(service.getLimit('anonymous', 'default')).toBe(30);
+    });
+
+    it('lets requests through when Redis is unavailable', async () => {
+      mockRedisService.client.eval.mockRejectedValue(
+        new Error('Connection is closed')
+      );
+
+      await expect(
+        service.consume(
+          { id: 'key:abc', name: 'Dashboard', tier: 'standard' },
+          'default',
+          'GET /api/v1/aqi'
+        )
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('getUsage', () => {
+    it('reports one client by day and by route', async () => {
+      pipeline.exec.mockResolvedValue([
+        [
+          null,
+          {
+            'key:abc|GET /api/v1/export/air-quality|requests': '2',
+            'ip:203.0.113.7|GET /api/v1/aqi|requests': '9',
+          },
+        ],
+        [
+          null,
+          {
+            'key:abc|GET /api/v1/aqi|requests': '5',
+            'key:abc|GET /api/v1/export/air-quality|requests': '3',
+            'key:abc|GET /api/v1/export/air-quality|limited': '1',
+          },
+        ],
+        [null, { 'key:abc': 'Dashboard' }],
+      ]);
+
+      const report = await service.getUsage(2, 'key:abc');
+
+      expect(report.from).toBe('2024-08-04');
+      expect(report.to).toBe('2024-08-05');
+      expect(report.clients).toEqual([
+        {
+          client: 'key:abc',
+          name: 'Dashboard',
+          requests: 10,
+          limited: 1,
+          byDay: [
+            { date: '2024-08-04', requests: 2, limited: 0 },
+            { date: '2024-08-05', requests: 8, limited: 1 },
+          ],
+          byRoute: [
+            {
+              route: 'GET /api/v1/export/air-quality',
+              requests: 5,
+              limited: 1,
+            },
+            { route: 'GET /api/v1/aqi', requests: 5, limited: 0 },
+          ],
+        },
+      ]);
+    });
+  });
+});
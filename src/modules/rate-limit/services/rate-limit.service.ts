@@ -0,0 +1,280 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+
+import { ApiKeyTier, RateLimitGroup } from '@/common/types';
+import { RedisService } from '../../redis/services/redis.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USAGE_NAMES_KEY = 'usage:names';
+
+export type RateLimitTier = ApiKeyTier | 'anonymous';
+
+/** Requests per window, by tier and route group */
+export type RateLimits = Record<RateLimitTier, Record<RateLimitGroup, number>>;
+
+/**
+ * `upstream` routes can spend provider quota on a cache miss, so they get
+ * the smallest budget
+ */
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  anonymous: { default: 30, upstream: 5, export: 2 },
+  free: { default: 60, upstream: 10, export: 5 },
+  standard: { default: 300, upstream: 60, export: 20 },
+  premium: { default: 1200, upstream: 240, export: 60 },
+};
+
+/**
+ * Sliding window log in a sorted set scored by time. Requests over the
+ * limit are not added, so hammering does not extend a lockout.
+ * Returns { allowed, count, score of the oldest request in the window }.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, oldest[2] or tostring(now) }
+`;
+
+/** Who a request is counted against */
+export interface RateLimitClient {
+  /** `key:<API key id>`, or `ip:<address>` without a key */
+  id: string;
+  name?: string;
+  tier: RateLimitTier;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the oldest counted request leaves the window */
+  resetSeconds: number;
+  windowSeconds: number;
+}
+
+export interface UsageCount {
+  requests: number;
+  /** Requests rejected for going over the limit */
+  limited: number;
+}
+
+export interface ClientUsage extends UsageCount {
+  client: string;
+  name: string | null;
+  byDay: ({ date: string } & UsageCount)[];
+  byRoute: ({ route: string } & UsageCount)[];
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  clients: ClientUsage[];
+}
+
+/**
+ * Per-client sliding window rate limits and daily usage counters, kept in
+ * Redis so every instance draws from the same budget
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly windowMs: number;
+  private readonly limits: RateLimits;
+  private readonly usageDays: number;
+
+  constructor(
+    private redisService: RedisService,
+    private configService: ConfigService
+  ) {
+    this.windowMs =
+      (this.configService.get<number>('rateLimit.windowSeconds') ?? 60) * 1000;
+    this.usageDays =
+      this.configService.get<number>('rateLimit.usageDays') ?? 31;
+
+    const overrides =
+      this.configService.get<Partial<RateLimits>>('rateLimit.limits') ?? {};
+    this.limits = Object.fromEntries(
+      Object.entries(DEFAULT_RATE_LIMITS).map(([tier, groups]) => [
+        tier,
+        { ...groups, ...overrides[tier as RateLimitTier] },
+      ])
+    ) as RateLimits;
+  }
+
+  getLimit(tier: RateLimitTier, group: RateLimitGroup): number {
+    return this.limits[tier][group];
+  }
+
+  /**
+   * Count a request by `client` against `group`, and record it in the
+   * client's usage under `route`. Returns null when Redis is unavailable;
+   * requests are then let through rather than failing.
+   */
+  async consume(
+    client: RateLimitClient,
+    group: RateLimitGroup,
+    route: string
+  ): Promise<RateLimitResult | null> {
+    const limit = this.getLimit(client.tier, group);
+    const now = Date.now();
+
+    let result: RateLimitResult;
+    try {
+      const [allowed, count, oldest] = (await this.redisService.client.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        `ratelimit:${group}:${client.id}`,
+        now,
+        this.windowMs,
+        limit,
+        `${now}-${randomBytes(4).toString('hex')}`
+      )) as [number, number, string];
+
+      result = {
+        allowed: allowed === 1,
+        limit,
+        remaining: Math.max(0, limit - count),
+        resetSeconds: Math.max(
+          1,
+          Math.ceil((Number(oldest) + this.windowMs - now) / 1000)
+        ),
+        windowSeconds: this.windowMs / 1000,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Rate limit check failed, allowing request: ${error.message}`
+      );
+      return null;
+    }
+
+    this.recordUsage(client, route, !result.allowed, now).catch(error =>
+      this.logger.warn(`Failed to record usage: ${error.message}`)
+    );
+    return result;
+  }
+
+  /**
+   * Requests per client over the last `days` days, by day and by route,
+   * busiest client first. Pass `clientId` for a single client.
+   */
+  async getUsage(days: number, clientId?: string): Promise<UsageReport> {
+    const now = Date.now();
+    const dates = Array.from({ length: days }, (_, i) =>
+      this.toDate(now - (days - 1 - i) * DAY_MS)
+    );
+
+    let results: [Error | null, unknown][] | null;
+    try {
+      const pipeline = this.redisService.client.pipeline();
+      dates.forEach(date => pipeline.hgetall(this.usageKey(date)));
+      pipeline.hgetall(USAGE_NAMES_KEY);
+      results = await pipeline.exec();
+    } catch (error) {
+      this.logger.error('Failed to read usage:', error.message);
+      throw new ServiceUnavailableException('Usage is currently unavailable');
+    }
+    if (!results || results.some(([error]) => error)) {
+      throw new ServiceUnavailableException('Usage is currently unavailable');
+    }
+
+    const names = results[dates.length][1] as Record<string, string>;
+    const clients = new Map<string, ClientUsage>();
+
+    dates.forEach((date, index) => {
+      const counters = results[index][1] as Record<string, string>;
+      for (const [field, value] of Object.entries(counters)) {
+        const [client, route, counter] = field.split('|');
+        if (clientId && client !== clientId) {
+          continue;
+        }
+        if (counter !== 'requests' && counter !== 'limited') {
+          continue;
+        }
+
+        let usage = clients.get(client);
+        if (!usage) {
+          usage = {
+            client,
+            name: names[client] ?? null,
+            requests: 0,
+            limited: 0,
+            byDay: [],
+            byRoute: [],
+          };
+          clients.set(client, usage);
+        }
+
+        let day = usage.byDay.find(entry => entry.date === date);
+        if (!day) {
+          day = { date, requests: 0, limited: 0 };
+          usage.byDay.push(day);
+        }
+        let byRoute = usage.byRoute.find(entry => entry.route === route);
+        if (!byRoute) {
+          byRoute = { route, requests: 0, limited: 0 };
+          usage.byRoute.push(byRoute);
+        }
+
+        const count = Number(value);
+        usage[counter] += count;
+        day[counter] += count;
+        byRoute[counter] += count;
+      }
+    });
+
+    const report = [...clients.values()].sort(
+      (a, b) => b.requests - a.requests
+    );
+    report.forEach(usage =>
+      usage.byRoute.sort((a, b) => b.requests - a.requests)
+    );
+
+    return { from: dates[0], to: dates[dates.length - 1], clients: report };
+  }
+
+  private async recordUsage(
+    client: RateLimitClient,
+    route: string,
+    limited: boolean,
+    now: number
+  ): Promise<void> {
+    const key = this.usageKey(this.toDate(now));
+    const field = `${client.id}|${route}`;
+    const pipeline = this.redisService.client
+      .pipeline()
+      .hincrby(key, `${field}|requests`, 1);
+
+    if (limited) {
+      pipeline.hincrby(key, `${field}|limited`, 1);
+    }
+    pipeline.pexpire(key, (this.usageDays + 1) * DAY_MS);
+    if (client.name) {
+      pipeline.hset(USAGE_NAMES_KEY, client.id, client.name);
+    }
+
+    await pipeline.exec();
+  }
+
+  private usageKey(date: string): string {
+    return `usage:${date}`;
+  }
+
+  private toDate(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,36 @@
+import { Controller, Logger, MessageEvent, Query, Sse } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { filter, map, Observable } from 'rxjs';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { RealtimeStreamQueryDto } from '@/common/dto/realtime.dto';
+import {
+  matchesSubscription,
+  RealtimeService,
+} from '../services/realtime.service';
+
+@ApiTags('realtime')
+@RequireRole('reader')
+@Controller('realtime')
+export class RealtimeController {
+  private readonly logger = new Logger(RealtimeController.name);
+
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  @Sse('stream')
+  @ApiOperation({
+    summary: 'Server-sent events of new readings and alerts',
+    description:
+      'Each event is named after its type (`reading` or `alert`). Use `*` as the location to follow every location.',
+  })
+  @ApiResponse({ status: 200, description: 'text/event-stream' })
+  stream(@Query() query: RealtimeStreamQueryDto): Observable<MessageEvent> {
+    this.logger.log(`SSE client subscribed to ${query.locations.join('; ')}`);
+    const subscription = { locations: query.locations, events: query.events };
+
+    return this.realtimeService.events$.pipe(
+      filter(event => matchesSubscription(event, subscription)),
+      map(event => ({ type: event.type, data: event }))
+    );
+  }
+}
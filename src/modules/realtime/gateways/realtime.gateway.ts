@@ -0,0 +1,93 @@
+import {
+  Logger,
+  OnModuleDestroy,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from '@nestjs/websockets';
+import { Subscription } from 'rxjs';
+import { Namespace, Socket } from 'socket.io';
+
+import { RequireRole } from '@/common/decorators/auth.decorator';
+import { RealtimeSubscribeDto } from '@/common/dto/realtime.dto';
+import {
+  matchesSubscription,
+  RealtimeEvent,
+  RealtimeService,
+  RealtimeSubscription,
+} from '../services/realtime.service';
+
+/**
+ * Socket.IO gateway on the `/realtime` namespace. Clients send `subscribe`
+ * with the locations they follow and receive `reading` and `alert` events.
+ */
+@RequireRole('reader')
+@WebSocketGateway({ namespace: 'realtime', cors: { origin: '*' } })
+@UsePipes(
+  new ValidationPipe({
+    whitelist: true,
+    exceptionFactory: errors =>
+      new WsException(
+        errors.flatMap(error => Object.values(error.constraints ?? {}))
+      ),
+  })
+)
+export class RealtimeGateway implements OnGatewayInit, OnModuleDestroy {
+  private readonly logger = new Logger(RealtimeGateway.name);
+  private eventSubscription: Subscription | null = null;
+
+  @WebSocketServer()
+  private server: Namespace;
+
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  afterInit(): void {
+    this.eventSubscription = this.realtimeService.events$.subscribe(event =>
+      this.broadcast(event)
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.eventSubscription?.unsubscribe();
+  }
+
+  @SubscribeMessage('subscribe')
+  subscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: RealtimeSubscribeDto
+  ): RealtimeSubscription {
+    const subscription: RealtimeSubscription = {
+      locations: body.locations,
+      events: body.events,
+    };
+    client.data.subscription = subscription;
+    this.logger.debug(
+      `Client ${client.id} subscribed to ${body.locations.join('; ')}`
+    );
+    return subscription;
+  }
+
+  @SubscribeMessage('unsubscribe')
+  unsubscribe(@ConnectedSocket() client: Socket): { subscribed: false } {
+    delete client.data.subscription;
+    return { subscribed: false };
+  }
+
+  private broadcast(event: RealtimeEvent): void {
+    for (const client of this.server.sockets.values()) {
+      const subscription: RealtimeSubscription | undefined =
+        client.data.subscription;
+      if (subscription && matchesSubscription(event, subscription)) {
+        client.emit(event.type, event);
+      }
+    }
+  }
+}
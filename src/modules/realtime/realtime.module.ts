@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { RealtimeController } from './controllers/realtime.controller';
+import { RealtimeGateway } from './gateways/realtime.gateway';
+import { RealtimeService } from './services/realtime.service';
+
+@Module({
+  controllers: [RealtimeController],
+  providers: [RealtimeService, RealtimeGateway],
+  exports: [RealtimeService],
+})
+export class RealtimeModule {}
@@ -0,0 +1,117 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import {
+  matchesSubscription,
+  RealtimeEvent,
+  RealtimeService,
+} from './realtime.service';
+
+type RedisHandler = (...args: string[]) => void;
+
+const mockRedisClients: {
+  handlers: Record<string, RedisHandler>;
+  subscribe: jest.Mock;
+  publish: jest.Mock;
+}[] = [];
+
+jest.mock('ioredis', () =>
+  jest.fn().mockImplementation(() => {
+    const handlers: Record<string, RedisHandler> = {};
+    const client = {
+      handlers,
+      on: jest.fn((event: string, handler: RedisHandler) => {
+        handlers[event] = handler;
+      }),
+      subscribe: jest.fn().mockResolvedValue(1),
+      publish: jest.fn().mockResolvedValue(1),
+      quit: jest.fn().mockResolvedValue('OK'),
+    };
+    mockRedisClients.push(client);
+    return client;
+  })
+);
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+
+  const PARIS = 'Paris, Ile-de-France, France';
+
+  beforeEach(async () => {
+    mockRedisClients.length = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RealtimeService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<RealtimeService>(RealtimeService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish readings to Redis and re-emit messages from any instance', async () => {
+    service.onModuleInit();
+    const [publisher, subscriber] = mockRedisClients;
+    const received: RealtimeEvent[] = [];
+    service.events$.subscribe(event => received.push(event));
+
+    await service.publishReading({ location: PARIS, aqi: 87 });
+
+    expect(subscriber.subscribe).toHaveBeenCalledWith('aqi:realtime');
+    const [channel, message] = publisher.publish.mock.calls[0];
+    expect(channel).toBe('aqi:realtime');
+    expect(JSON.parse(message)).toMatchObject({
+      type: 'reading',
+      location: PARIS,
+      data: { location: PARIS, aqi: 87 },
+    });
+    // Delivery happens when Redis echoes the message back
+    expect(received).toHaveLength(0);
+
+    subscriber.handlers.message('aqi:realtime', message);
+    expect(received).toEqual([JSON.parse(message)]);
+  });
+
+  it('should deliver locally when Redis publish fails', async () => {
+    service.onModuleInit();
+    mockRedisClients[0].publish.mockRejectedValue(new Error('ECONNREFUSED'));
+    const received: RealtimeEvent[] = [];
+    service.events$.subscribe(event => received.push(event));
+
+    await service.publishAlert({
+      id: 'high_pollution_1',
+      severity: 'medium',
+      data: { city: PARIS, aqi: 160 },
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ type: 'alert', location: PARIS });
+  });
+
+  it('should match events by location and type', () => {
+    const reading = {
+      type: 'reading',
+      location: PARIS,
+      data: {},
+      timestamp: '2024-08-05T10:00:00.000Z',
+    } as RealtimeEvent;
+    const systemAlert = { ...reading, type: 'alert', location: undefined };
+
+    expect(matchesSubscription(reading, { locations: [PARIS] })).toBe(true);
+    expect(matchesSubscription(reading, { locations: ['*'] })).toBe(true);
+    expect(matchesSubscription(reading, { locations: ['Lyon'] })).toBe(false);
+    expect(
+      matchesSubscription(reading, { locations: [PARIS], events: ['alert'] })
+    ).toBe(false);
+    expect(
+      matchesSubscription(systemAlert as RealtimeEvent, {
+        locations: ['Lyon'],
+      })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Types } from 'mongoose';
+import { Observable, Subject } from 'rxjs';
+
+import { RealtimeEventType } from '@/common/dto/realtime.dto';
+import { AirQualityHot } from '../../database/schemas/air-quality-hot.schema';
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  /** Location label; absent for system-wide alerts */
+  location?: string;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+/** Fields of a triggered alert that are pushed to clients */
+export interface RealtimeAlert {
+  id: string;
+  type?: string;
+  severity: string;
+  message?: string;
+  timestamp?: Date;
+  escalated?: boolean;
+  data?: { location?: string; city?: string; [field: string]: unknown };
+}
+
+export interface RealtimeSubscription {
+  locations: string[];
+  events?: RealtimeEventType[];
+}
+
+/**
+ * Whether a client with `subscription` should receive `event`. Alerts
+ * without a location are system-wide and reach every alert subscriber.
+ */
+export function matchesSubscription(
+  event: RealtimeEvent,
+  subscription: RealtimeSubscription
+): boolean {
+  if (
+    subscription.events?.length &&
+    !subscription.events.includes(event.type)
+  ) {
+    return false;
+  }
+  return (
+    !event.location ||
+    subscription.locations.includes('*') ||
+    subscription.locations.includes(event.location)
+  );
+}
+
+/**
+ * Publishes new readings and alerts on a Redis channel and re-emits every
+ * message received on it, so clients connected to any API instance see
+ * events raised on all of them.
+ */
+@Injectable()
+export class RealtimeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RealtimeService.name);
+  private readonly channel: string;
+  private readonly events = new Subject<RealtimeEvent>();
+  private publisher: Redis | null = null;
+  private subscriber: Redis | null = null;
+
+  constructor(private configService: ConfigService) {
+    this.channel =
+      this.configService.get<string>('realtime.channel') || 'aqi:realtime';
+  }
+
+  onModuleInit(): void {
+    const options = {
+      host: this.configService.get<string>('redis.host'),
+      port: this.configService.get<number>('redis.port'),
+    };
+    // Fail fast while disconnected rather than hold up the caller; the
+    // subscriber waits for Redis however long it takes
+    this.publisher = new Redis({ ...options, enableOfflineQueue: false });
+    this.subscriber = new Redis({ ...options, maxRetriesPerRequest: null });
+
+    for (const client of [this.publisher, this.subscriber]) {
+      client.on('error', error =>
+        this.logger.error('Realtime Redis error:', error.message)
+      );
+    }
+
+    this.subscriber.on('message', (channel, message) => {
+      if (channel === this.channel) {
+        this.handleMessage(message);
+      }
+    });
+
+    // Not awaited, so startup does not wait for Redis
+    this.subscriber
+      .subscribe(this.channel)
+      .then(() => this.logger.log(`Subscribed to ${this.channel}`))
+      .catch(error =>
+        this.logger.error(
+          `Failed to subscribe to ${this.channel}:`,
+          error.message
+        )
+      );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.events.complete();
+    await Promise.all(
+      [this.publisher, this.subscriber]
+        .filter(client => client !== null)
+        .map(client => client.quit().catch(() => undefined))
+    );
+  }
+
+  /**
+   * Every event published by any instance
+   */
+  get events$(): Observable<RealtimeEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Publish a newly saved reading
+   */
+  async publishReading(
+    reading: Partial<AirQualityHot> & { _id?: Types.ObjectId }
+  ): Promise<void> {
+    await this.publish({
+      type: 'reading',
+      location: reading.location,
+      data: {
+        id: reading._id?.toString(),
+        location: reading.location,
+        timestamp: reading.timestamp,
+        aqi: reading.aqi,
+        main_pollutant: reading.main_pollutant,
+        pollution_level: reading.pollution_level,
+        weather: reading.weather,
+        source: reading.source,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Publish a triggered alert; alerts about a city are scoped to it
+   */
+  async publishAlert(alert: RealtimeAlert): Promise<void> {
+    await this.publish({
+      type: 'alert',
+      location: alert.data?.location ?? alert.data?.city,
+      data: {
+        id: alert.id,
+        type: alert.type,
+        severity: alert.severity,
+        message: alert.message,
+        timestamp: alert.timestamp,
+        escalated: alert.escalated,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Publishing never throws: a lost push must not fail the job that saved
+   * the reading. Without Redis, events still reach this instance's clients.
+   */
+  private async publish(event: RealtimeEvent): Promise<void> {
+    try {
+      if (!this.publisher) {
+        throw new Error('Redis publisher is not connected');
+      }
+      await this.publisher.publish(this.channel, JSON.stringify(event));
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish ${event.type} event, delivering locally: ${error.message}`
+      );
+      this.events.next(event);
+    }
+  }
+
+  private handleMessage(message: string): void {
+    try {
+      this.events.next(JSON.parse(message));
+    } catch (error) {
+      this.logger.warn(`Ignoring malformed realtime message: ${error.message}`);
+    }
+  }
+}
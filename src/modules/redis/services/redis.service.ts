@@ -0,0 +1,66 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+
+/**
+ * Shared Redis connection for state that must agree across API instances,
+ * such as throttles and rate limit counters
+ */
+@Injectable()
+export class RedisService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisService.name);
+  readonly client: Redis;
+
+  constructor(private configService: ConfigService) {
+    // Commands fail fast while disconnected; callers decide how to degrade
+    this.client = new Redis({
+      host: this.configService.get<string>('redis.host'),
+      port: this.configService.get<number>('redis.port'),
+      enableOfflineQueue: false,
+      lazyConnect: true,
+    });
+    this.client.on('error', error =>
+      this.logger.error('Redis error:', error.message)
+    );
+  }
+
+  onModuleInit(): void {
+    // Not awaited, so startup does not wait for Redis
+    this.client
+      .connect()
+      .catch(error =>
+        this.logger.error('Failed to connect to Redis:', error.message)
+      );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.client.quit().catch(() => undefined);
+  }
+
+  /**
+   * Atomically count a hit in the fixed window `key`, which starts with the
+   * first hit and lasts `windowMs`. Returns the count including this hit.
+   */
+  async incrementWindow(key: string, windowMs: number): Promise<number> {
+    const results = await this.client
+      .multi()
+      .set(key, 0, 'PX', windowMs, 'NX')
+      .incr(key)
+      .exec();
+
+    if (!results) {
+      throw new Error(`Redis transaction on ${key} was aborted`);
+    }
+
+    const [error, count] = results[1];
+    if (error) {
+      throw error;
+    }
+    return count as number;
+  }
+}
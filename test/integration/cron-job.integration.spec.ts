@@ -5,6 +5,7 @@ import { SchedulerRegistry } from '@nestjs/schedule';
 import { Test, TestingModule } from '@nestjs/testing';
 import { Queue } from 'bull';
 import { CronService } from '../../src/modules/air-quality/services/cron.service';
+import { TrackedLocationService } from '../../src/modules/air-quality/services/tracked-location.service';
 import { AnalyticsService } from '../../src/modules/analytics/services/analytics.service';
 import { QueueHealthService } from '../../src/modules/queue/services/queue-health.service';
 import { QueueService } from '../../src/modules/queue/services/queue.service';
@@ -21,7 +22,7 @@ describe('CRON Job Execution Integration', () => {
   let cacheManager: Cache;
 
   const mockQueueService = {
-    addFetchParisDataJob: jest.fn(),
+    addFetchCityDataJob: jest.fn(),
     addCalculateDailyStatsJob: jest.fn(),
     cleanCompletedJobs: jest.fn(),
   };
@@ -36,6 +37,32 @@ describe('CRON Job Execution Integration', () => {
     getQueueHealth: jest.fn(),
   };
 
+  const mockParisLocation = {
+    _id: 'paris-location-id',
+    city: 'Paris',
+    state: 'Ile-de-France',
+    country: 'France',
+    fetchIntervalMinutes: 1,
+    enabled: true,
+  };
+
+  const mockTrackedLocationService = {
+    getDueLocations: jest.fn().mockResolvedValue([mockParisLocation]),
+    getEnabledLocations: jest.fn().mockResolvedValue([mockParisLocation]),
+    markScheduled: jest.fn(),
+    toLocationLabel: jest.fn(
+      (location: { city: string; state: string; country: string }) =>
+        `${location.city}, ${location.state}, ${location.country}`
+    ),
+  };
+
+  const trackedLocation = (city: string, state: string, country: string) => ({
+    ...mockParisLocation,
+    city,
+    state,
+    country,
+  });
+
   const mockAirQualityQueue = {
     add: jest.fn(),
     process: jest.fn(),
@@ -85,6 +112,10 @@ describe('CRON Job Execution Integration', () => {
           provide: QueueHealthService,
           useValue: mockQueueHealthService,
         },
+        {
+          provide: TrackedLocationService,
+          useValue: mockTrackedLocationService,
+        },
         {
           provide: getQueueToken('air-quality'),
           useValue: mockAirQualityQueue,
@@ -128,8 +159,8 @@ describe('CRON Job Execution Integration', () => {
     jest.clearAllMocks();
   });
 
-  describe('scheduleParisFetch', () => {
-    it('should schedule Paris data fetch job successfully', async () => {
+  describe('scheduleTrackedLocationFetches', () => {
+    it('should schedule a fetch job for each due location', async () => {
       const mockQueueHealth = {
         healthScore: 0.9,
         queueName: 'air-quality',
@@ -137,16 +168,41 @@ describe('CRON Job Execution Integration', () => {
       };
 
       mockQueueHealthService.getQueueHealth.mockResolvedValue(mockQueueHealth);
-      mockQueueService.addFetchParisDataJob.mockResolvedValue({
+      mockQueueService.addFetchCityDataJob.mockResolvedValue({
         id: 'test-job-id',
       });
 
-      await cronService.scheduleParisFetch();
+      await cronService.scheduleTrackedLocationFetches();
 
       expect(mockQueueHealthService.getQueueHealth).toHaveBeenCalledWith(
         'air-quality'
       );
-      expect(mockQueueService.addFetchParisDataJob).toHaveBeenCalled();
+      expect(mockQueueService.addFetchCityDataJob).toHaveBeenCalledWith(
+        {
+          locationId: 'paris-location-id',
+          city: 'Paris',
+          state: 'Ile-de-France',
+          country: 'France',
+        },
+        expect.any(Number)
+      );
+      expect(mockTrackedLocationService.markScheduled).toHaveBeenCalledWith(
+        'paris-location-id'
+      );
+    });
+
+    it('should not schedule anything when no location is due', async () => {
+      mockQueueHealthService.getQueueHealth.mockResolvedValue({
+        healthScore: 0.9,
+        queueName: 'air-quality',
+        issues: [],
+      });
+      mockTrackedLocationService.getDueLocations.mockResolvedValueOnce([]);
+
+      await cronService.scheduleTrackedLocationFetches();
+
+      expect(mockQueueService.addFetchCityDataJob).not.toHaveBeenCalled();
+      expect(mockTrackedLocationService.markScheduled).not.toHaveBeenCalled();
     });
 
     it('should skip job when queue health is poor', async () => {
@@ -158,12 +214,12 @@ describe('CRON Job Execution Integration', () => {
 
       mockQueueHealthService.getQueueHealth.mockResolvedValue(mockQueueHealth);
 
-      await cronService.scheduleParisFetch();
+      await cronService.scheduleTrackedLocationFetches();
 
       expect(mockQueueHealthService.getQueueHealth).toHaveBeenCalledWith(
         'air-quality'
       );
-      expect(mockQueueService.addFetchParisDataJob).not.toHaveBeenCalled();
+      expect(mockQueueService.addFetchCityDataJob).not.toHaveBeenCalled();
     });
 
     it('should handle circuit breaker when open', async () => {
@@ -178,7 +234,7 @@ describe('CRON Job Execution Integration', () => {
 
       // Simulate circuit breaker being open by calling the method multiple times
       // and checking if it respects the circuit breaker state
-      await cronService.scheduleParisFetch();
+      await cronService.scheduleTrackedLocationFetches();
 
       expect(mockQueueHealthService.getQueueHealth).toHaveBeenCalledWith(
         'air-quality'
@@ -188,12 +244,14 @@ describe('CRON Job Execution Integration', () => {
 
   describe('scheduleHourlyAggregations', () => {
     it('should schedule hourly aggregations successfully', async () => {
-      const mockTrackedLocations = ['Paris, France', 'London, UK'];
+      const mockTrackedLocations = [
+        mockParisLocation,
+        trackedLocation('London', 'England', 'UK'),
+      ];
 
-      // Mock the getTrackedLocations method
-      jest
-        .spyOn(cronService as any, 'getTrackedLocations')
-        .mockResolvedValue(mockTrackedLocations);
+      mockTrackedLocationService.getEnabledLocations.mockResolvedValueOnce(
+        mockTrackedLocations
+      );
 
       mockQueueService.addCalculateDailyStatsJob.mockResolvedValue({
         id: 'test-job-id',
@@ -202,7 +260,7 @@ describe('CRON Job Execution Integration', () => {
       await cronService.scheduleHourlyAggregations();
 
       expect(mockQueueService.addCalculateDailyStatsJob).toHaveBeenCalledWith(
-        'Paris',
+        'Paris, Ile-de-France, France',
         expect.any(String),
         expect.any(Object)
       );
@@ -210,14 +268,14 @@ describe('CRON Job Execution Integration', () => {
 
     it('should handle multiple locations for aggregation', async () => {
       const mockTrackedLocations = [
-        'Paris, France',
-        'London, UK',
-        'Berlin, Germany',
+        mockParisLocation,
+        trackedLocation('London', 'England', 'UK'),
+        trackedLocation('Berlin', 'Berlin', 'Germany'),
       ];
 
-      jest
-        .spyOn(cronService as any, 'getTrackedLocations')
-        .mockResolvedValue(mockTrackedLocations);
+      mockTrackedLocationService.getEnabledLocations.mockResolvedValueOnce(
+        mockTrackedLocations
+      );
 
       mockQueueService.addCalculateDailyStatsJob.mockResolvedValue({
         id: 'test-job-id',
@@ -233,7 +291,6 @@ describe('CRON Job Execution Integration', () => {
 
   describe('finalizeDailyStatistics', () => {
     it('should finalize daily statistics successfully', async () => {
-      const mockTrackedLocations = ['Paris, France'];
       const mockDailyReport = {
         city: 'Paris',
         country: 'France',
@@ -245,9 +302,6 @@ describe('CRON Job Execution Integration', () => {
         trend: 'stable' as const,
       };
 
-      jest
-        .spyOn(cronService as any, 'getTrackedLocations')
-        .mockResolvedValue(mockTrackedLocations);
       mockAnalyticsService.generateDailyReport.mockResolvedValue(
         mockDailyReport
       );
@@ -258,13 +312,13 @@ describe('CRON Job Execution Integration', () => {
 
       expect(mockAnalyticsService.generateDailyReport).toHaveBeenCalledWith(
         'Paris',
-        'France'
+        'France',
+        'Ile-de-France'
       );
       expect(mockCacheManager.set).toHaveBeenCalled();
     });
 
     it('should trigger notifications for high AQI', async () => {
-      const mockTrackedLocations = ['Paris, France'];
       const mockDailyReport = {
         city: 'Paris',
         country: 'France',
@@ -276,9 +330,6 @@ describe('CRON Job Execution Integration', () => {
         trend: 'worsening' as const,
       };
 
-      jest
-        .spyOn(cronService as any, 'getTrackedLocations')
-        .mockResolvedValue(mockTrackedLocations);
       mockAnalyticsService.generateDailyReport.mockResolvedValue(
         mockDailyReport
       );
@@ -291,6 +342,7 @@ describe('CRON Job Execution Integration', () => {
         'daily-aqi-alert',
         expect.objectContaining({
           city: 'Paris',
+          state: 'Ile-de-France',
           country: 'France',
           averageAQI: 175,
         }),
@@ -408,20 +460,20 @@ describe('CRON Job Execution Integration', () => {
       };
 
       mockQueueHealthService.getQueueHealth.mockResolvedValue(mockQueueHealth);
-      mockQueueService.addFetchParisDataJob.mockResolvedValue({
+      mockQueueService.addFetchCityDataJob.mockResolvedValue({
         id: 'test-job-id',
       });
 
-      await cronService.scheduleParisFetch();
+      await cronService.scheduleTrackedLocationFetches();
 
       const stats = await cronService.getCronJobStats();
-      const parisFetchStats = stats.find(
-        stat => stat.jobName === 'fetch-paris-data'
+      const fetchStats = stats.find(
+        stat => stat.jobName === 'fetch-tracked-locations'
       );
 
-      expect(parisFetchStats).toBeDefined();
-      expect(parisFetchStats?.executionCount).toBeGreaterThan(0);
-      expect(parisFetchStats?.lastExecution).toBeDefined();
+      expect(fetchStats).toBeDefined();
+      expect(fetchStats?.executionCount).toBeGreaterThan(0);
+      expect(fetchStats?.lastExecution).toBeDefined();
     });
 
     it('should track circuit breaker state', () => {
@@ -443,13 +495,13 @@ describe('CRON Job Execution Integration', () => {
       };
 
       mockQueueHealthService.getQueueHealth.mockResolvedValue(mockQueueHealth);
-      mockQueueService.addFetchParisDataJob.mockResolvedValue({
+      mockQueueService.addFetchCityDataJob.mockResolvedValue({
         id: 'test-job-id',
       });
 
-      await cronService.executeJobManually('fetch-paris-data');
+      await cronService.executeJobManually('fetch-tracked-locations');
 
-      expect(mockQueueService.addFetchParisDataJob).toHaveBeenCalled();
+      expect(mockQueueService.addFetchCityDataJob).toHaveBeenCalled();
     });
 
     it('should throw error for unknown job', async () => {